@@ -1,6 +1,8 @@
 // Step 1: Create Insurance Domain Configuration
 // File: backend/src/config/InsuranceDomainConfig.ts
 
+import { BusinessLogicToolSchema, HybridSearchConfig } from '../types/domain';
+
 export interface DomainConfig {
   domain: string;
   defaultStage: string;
@@ -12,8 +14,12 @@ export interface DomainConfig {
   responseInstructions: string;
   businessLogicTriggers: string[];
   businessLogicHandlers: Record<string, (params: any, queryParams: any, dbAdapter?: any) => Promise<any>>;
+  businessLogicTools?: Record<string, BusinessLogicToolSchema>;
   leadScoringWeights: Record<string, number>;
   leadCaptureThreshold: number;
+  ragConfig?: {
+    hybridSearch?: HybridSearchConfig;
+  };
 }
 
 // Your existing insurance logic wrapped in domain config
@@ -96,7 +102,9 @@ Generate a helpful, personalized response that moves the conversation forward ap
       };
       
       const insuranceType: string = queryParams.insuranceType || 'auto';
-      const ageGroup: string = queryParams.age < 30 ? 'young' : queryParams.age < 50 ? 'middle' : 'senior';
+      // Quote at 30 when the customer hasn't said how old they are
+      const age = parseInt(customerInfo.age || queryParams.age) || 30;
+      const ageGroup: string = age < 30 ? 'young' : age < 50 ? 'middle' : 'senior';
       
       // Safely access the nested object with fallback
       const typeRates = baseRates[insuranceType];
@@ -115,6 +123,27 @@ Generate a helpful, personalized response that moves the conversation forward ap
     }
   },
   
+  businessLogicTools: {
+    'premium_calculation': {
+      description: 'Calculate an insurance premium quote in Ghana Cedis. Use when the customer asks what cover would cost or wants a quote.',
+      parameters: {
+        type: 'object',
+        properties: {
+          insuranceType: {
+            type: 'string',
+            enum: ['auto', 'health', 'life'],
+            description: 'Type of cover the customer wants priced'
+          },
+          age: {
+            type: 'number',
+            description: 'Age of the person to be insured, if the customer has given it'
+          }
+        },
+        required: ['insuranceType']
+      }
+    }
+  },
+  
   leadScoringWeights: {
     'urgent_need': 15,
     'budget_discussed': 10,
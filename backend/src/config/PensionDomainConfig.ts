@@ -1,5 +1,7 @@
 // File: backend/src/config/PensionDomainConfig.ts
 
+import { BusinessLogicToolSchema, HybridSearchConfig } from '../types/domain';
+
 export interface DomainConfig {
   domain: string;
   defaultStage: string;
@@ -11,8 +13,12 @@ export interface DomainConfig {
   responseInstructions: string;
   businessLogicTriggers: string[];
   businessLogicHandlers: Record<string, (params: any, queryParams: any, dbAdapter?: any) => Promise<any>>;
+  businessLogicTools?: Record<string, BusinessLogicToolSchema>;
   leadScoringWeights: Record<string, number>;
   leadCaptureThreshold: number;
+  ragConfig?: {
+    hybridSearch?: HybridSearchConfig;
+  };
 }
 
 // SSNIT Pension logic and knowledge wrapped in a domain configuration
@@ -110,6 +116,21 @@ export const PensionDomainConfig: DomainConfig = {
     },
   },
   
+  // Tool schemas so the model can decide when to run a handler and with which arguments
+  businessLogicTools: {
+    'calculate_benefit': {
+      description: 'Estimate the monthly SSNIT pension benefit. Use when the customer asks how much pension they will receive.',
+      parameters: {
+        type: 'object',
+        properties: {
+          yearsOfContribution: { type: 'number', description: 'Number of years the customer has contributed to SSNIT' },
+          averageSalary: { type: 'number', description: 'Average monthly salary in Ghana Cedis' },
+          age: { type: 'number', description: 'Customer age in years' }
+        }
+      }
+    },
+  },
+  
   // Weights for different lead-scoring criteria. Higher values mean more important.
   leadScoringWeights: {
     'benefit_calculation': 10,
@@ -121,4 +142,9 @@ export const PensionDomainConfig: DomainConfig = {
   
   // The threshold at which a user is considered a qualified lead
   leadCaptureThreshold: 15,
+
+  // Members ask by scheme name ("Tier 2", "SSNIT", "PNDC Law 247"), which embeddings blur
+  ragConfig: {
+    hybridSearch: { keywordWeight: 1.5 }
+  },
 };
@@ -1,5 +1,7 @@
 // File: backend/src/config/ResortDomainConfig.ts
 
+import { BusinessLogicToolSchema } from '../types/domain';
+
 export interface DomainConfig {
   domain: string;
   defaultStage: string;
@@ -11,6 +13,7 @@ export interface DomainConfig {
   responseInstructions: string;
   businessLogicTriggers: string[];
   businessLogicHandlers: Record<string, (params: any, queryParams: any, dbAdapter?: any) => Promise<any>>;
+  businessLogicTools?: Record<string, BusinessLogicToolSchema>;
   leadScoringWeights: Record<string, number>;
   leadCaptureThreshold: number;
 }
@@ -105,6 +108,25 @@ export const ResortDomainConfig: DomainConfig = {
     },
   },
   
+  // Tool schemas so the model can decide when to run a handler and with which arguments
+  businessLogicTools: {
+    'check_availability_and_price': {
+      description: 'Check room availability and the total price of a stay. Use when the guest asks about rates, availability or booking a room.',
+      parameters: {
+        type: 'object',
+        properties: {
+          roomType: {
+            type: 'string',
+            enum: ['presidential villa', 'garden suite', 'sea view villa', 'african village'],
+            description: 'Room or villa the guest is interested in'
+          },
+          nights: { type: 'number', description: 'Number of nights for the stay' }
+        },
+        required: ['roomType']
+      }
+    },
+  },
+  
   // Weights for different lead-scoring criteria. Higher values mean more important.
   leadScoringWeights: {
     'booking_request': 10,
@@ -104,6 +104,29 @@ export const WineRetailDomainConfig: DomainConfig = {
     },
   },
   
+  businessLogicTools: {
+    'delivery_details': {
+      description: 'Delivery options, timing, fees and tracking. Use for questions about delivery or shipping.',
+      parameters: { type: 'object', properties: {} }
+    },
+    'payment_details': {
+      description: 'Accepted payment methods and currency. Use for questions about how to pay.',
+      parameters: { type: 'object', properties: {} }
+    },
+    'returns_policy': {
+      description: 'The store returns policy. Use when the customer asks about returning or exchanging goods.',
+      parameters: { type: 'object', properties: {} }
+    },
+    'store_locations': {
+      description: 'Branch locations and phone numbers. Use when the customer asks where to find a store or how to call one.',
+      parameters: { type: 'object', properties: {} }
+    },
+    'csr_info': {
+      description: 'Corporate social responsibility and community programmes.',
+      parameters: { type: 'object', properties: {} }
+    },
+  },
+  
   leadScoringWeights: {
     'PRODUCT_INQUIRY': 20,
     'DELIVERY_INQUIRY': 10,
@@ -113,4 +136,9 @@ export const WineRetailDomainConfig: DomainConfig = {
   },
   
   leadCaptureThreshold: 40,
+
+  // Vintages, producers and grape names need exact matches
+  ragConfig: {
+    hybridSearch: { keywordWeight: 1.5 }
+  },
 };
\ No newline at end of file
@@ -0,0 +1,93 @@
+// File: backend/src/core/citations/sourceCitations.ts
+
+export interface SourceCitation {
+  label: string;        // "S1" - how the prompt and the reply refer to the source
+  id: string;           // Retrieved knowledge item (an ingested chunk, or a whole hand-added document)
+  documentId: string;   // Document the item belongs to - the item id itself unless it was ingested
+  title: string;
+  chunk?: number;       // Position of the chunk in its document, for ingested documents
+  score: number;        // Retrieval score, or the reranked score when a reranker ran
+  type?: string;
+  cited: boolean;       // Whether the reply referenced it
+}
+
+export interface CitableKnowledge {
+  id: string;
+  content: string;
+  score?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface CitationCheck {
+  message: string;            // The reply with labels that match no retrieved source removed
+  citations: SourceCitation[];
+  unknownLabels: string[];    // Labels the model cited without them being in the prompt
+}
+
+// [S1], [s2], [S1, S3] and [S1; S3]
+const CITATION_PATTERN = /\s?\[\s*(S\d+(?:\s*[,;]\s*S\d+)*)\s*\]/gi;
+
+/**
+ * One citation per retrieved knowledge item, labelled S1, S2... in retrieval order
+ */
+export function toSourceCitations(items: CitableKnowledge[]): SourceCitation[] {
+  return items.map((item, i) => {
+    const metadata = item.metadata || {};
+    return {
+      label: `S${i + 1}`,
+      id: item.id,
+      documentId: metadata.documentId || item.id,
+      title: metadata.title || metadata.category || item.id,
+      ...(typeof metadata.chunkIndex === 'number' && { chunk: metadata.chunkIndex }),
+      score: roundScore(item.score ?? metadata.relevanceScore ?? 0),
+      ...(metadata.type && { type: metadata.type }),
+      cited: false
+    };
+  });
+}
+
+/**
+ * A knowledge item as the prompt shows it: its label and title on the first line, so the
+ * model can cite it, then the content
+ */
+export function formatSource(citation: SourceCitation, content: string): string {
+  return `[${citation.label}] ${citation.title}\n${content}`;
+}
+
+/**
+ * Check the labels a reply cites against the sources it was given. Known labels mark their
+ * citation as cited; unknown ones are taken out of the reply, since the customer would
+ * otherwise see a reference to a source that does not exist.
+ */
+export function checkCitations(message: string, sources: SourceCitation[] = []): CitationCheck {
+  const byLabel = new Map(sources.map(source => [source.label.toUpperCase(), source]));
+  const cited = new Set<string>();
+  const unknown = new Set<string>();
+
+  const checked = message.replace(CITATION_PATTERN, (marker: string, group: string) => {
+    const labels = group.split(/[,;]/).map(label => label.trim().toUpperCase());
+    const known = labels.filter(label => byLabel.has(label));
+    labels.filter(label => !byLabel.has(label)).forEach(label => unknown.add(label));
+    known.forEach(label => cited.add(label));
+
+    if (known.length === labels.length) {
+      return marker;
+    }
+    const leading = marker.startsWith(' ') ? ' ' : '';
+    return known.length > 0 ? `${leading}[${known.join(', ')}]` : '';
+  });
+
+  if (unknown.size > 0) {
+    console.warn(`⚠️  Removed citations of sources that were not retrieved: ${[...unknown].join(', ')}`);
+  }
+
+  return {
+    message: checked,
+    citations: sources.map(source => ({ ...source, cited: cited.has(source.label.toUpperCase()) })),
+    unknownLabels: [...unknown]
+  };
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
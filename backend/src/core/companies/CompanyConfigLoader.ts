@@ -64,6 +64,28 @@ export class CompanyConfigLoader {
 
       preferredLLMProvider: Joi.string().valid('openai', 'claude', 'local_llama', 'deepseek').optional(),
       llmPriority: Joi.string().valid('cost', 'speed', 'quality').default('cost'),
+      usageBudget: Joi.object({
+        monthlyLimit: Joi.number().positive().required(),
+        softLimitPercent: Joi.number().min(1).max(100).optional(),
+        downgradeProvider: Joi.string().valid('openai', 'claude', 'local_llama', 'deepseek').optional()
+      }).optional(),
+      promptOverrides: Joi.object().pattern(
+        Joi.string(),
+        Joi.object({
+          version: Joi.number().integer().min(1).optional(),
+          template: Joi.string().optional()
+        }).or('version', 'template')
+      ).optional(),
+      llmCredentials: Joi.object().pattern(
+        Joi.string().valid('openai', 'claude', 'local_llama', 'deepseek'),
+        Joi.object({
+          apiKey: Joi.string().pattern(/^enc:v1:/).optional(),
+          model: Joi.string().optional(),
+          baseURL: Joi.string().uri().optional(),
+          requestsPerMinute: Joi.number().integer().min(1).optional(),
+          tokensPerMinute: Joi.number().integer().min(1).optional()
+        })
+      ).optional(),
 
       vectorStoreConfig: Joi.object({
         indexName: Joi.string().optional(),
@@ -8,8 +8,10 @@ import {
   CompanyContext,
   CompanyNotFoundError,
   CompanyInactiveError,
-  CompanyConfigurationError
+  CompanyConfigurationError,
+  CompanyLLMCredentials
 } from '../../types/CompanyTypes';
+import { decryptCredential, encryptCredential, isEncryptedCredential } from '../llm/utils/credentialCrypto';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -148,6 +150,7 @@ export class CompanyManager {
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
+    company.llmCredentials = this.encryptLLMCredentials(company.id, company.llmCredentials);
 
     // Validate the new company
     const validation = await this.validateCompany(company);
@@ -171,6 +174,11 @@ export class CompanyManager {
    */
   async updateCompany(companyId: string, updates: Partial<CompanyConfig>): Promise<CompanyConfig> {
     const existingCompany = await this.getCompanyConfig(companyId);
+
+    // getCompanyConfig falls back to the default company - don't save a copy of it under an unknown id
+    if (!this.companies.has(companyId)) {
+      throw new CompanyNotFoundError(companyId);
+    }
     
     // Merge updates
     const updatedCompany: CompanyConfig = {
@@ -179,6 +187,7 @@ export class CompanyManager {
       id: companyId, // Prevent ID changes
       updatedAt: new Date().toISOString()
     };
+    updatedCompany.llmCredentials = this.encryptLLMCredentials(companyId, updatedCompany.llmCredentials);
 
     // Validate the updated company
     const validation = await this.validateCompany(updatedCompany);
@@ -260,6 +269,21 @@ export class CompanyManager {
       }
     }
 
+    for (const [provider, settings] of Object.entries(company.llmCredentials || {})) {
+      if (!settings?.apiKey) {
+        continue;
+      }
+      if (!isEncryptedCredential(settings.apiKey)) {
+        errors.push(`LLM API key for ${provider} must be stored encrypted`);
+        continue;
+      }
+      try {
+        decryptCredential(settings.apiKey);
+      } catch (error) {
+        errors.push(`LLM API key for ${provider} is unusable: ${(error as Error).message}`);
+      }
+    }
+
     // Calculate completeness score
     const totalFields = 20; // Adjust based on important fields
     const completedFields = totalFields - missingFields.length - errors.length;
@@ -274,6 +298,31 @@ export class CompanyManager {
     };
   }
 
+  /**
+   * Encrypt any plain-text API keys; keys that are already encrypted are kept as they are
+   */
+  private encryptLLMCredentials(companyId: string, credentials?: CompanyLLMCredentials): CompanyLLMCredentials | undefined {
+    if (!credentials) {
+      return credentials;
+    }
+
+    const encrypted: CompanyLLMCredentials = {};
+    for (const [provider, settings] of Object.entries(credentials)) {
+      if (!settings?.apiKey || isEncryptedCredential(settings.apiKey)) {
+        encrypted[provider as keyof CompanyLLMCredentials] = settings;
+        continue;
+      }
+
+      try {
+        encrypted[provider as keyof CompanyLLMCredentials] = { ...settings, apiKey: encryptCredential(settings.apiKey) };
+      } catch (error) {
+        throw new CompanyConfigurationError(companyId, `Cannot store ${provider} API key: ${(error as Error).message}`);
+      }
+    }
+
+    return encrypted;
+  }
+
   /**
    * Get company statistics
    */
@@ -0,0 +1,403 @@
+// File: backend/src/core/eval/ProviderEvaluator.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Joi from 'joi';
+import { LLMManager } from '../llm/managers/LLMManager';
+import { PromptRegistry } from '../prompts/PromptRegistry';
+import { CompanyManager } from '../companies/CompanyManager';
+import { GenericRAGService } from '../../services/GenericRAGService';
+import { DomainConfig } from '../../config/InsuranceDomainConfig';
+import { CompanyConfig } from '../../types/CompanyTypes';
+import { BrandVoice, scoreFacts, scoreGrounding, scoreLength, scoreTone } from './scoring';
+import { renderEvalReportHTML } from './evalReport';
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  requiredFacts?: string[];   // Each must appear in the answer; "a|b" accepts either wording
+  forbiddenFacts?: string[];  // Statements the answer must not make
+  minWords?: number;
+  maxWords?: number;
+  tags?: string[];
+}
+
+export interface EvalDataset {
+  domain: string;
+  description?: string;
+  companyId?: string;        // Company whose prompts, credentials and brand voice are used
+  brandVoice?: BrandVoice;   // Used when there is no company
+  minWords?: number;
+  maxWords?: number;
+  knowledge?: Array<{ id: string; type?: string; content: string }>;  // Indexed before the run
+  cases: EvalCase[];
+}
+
+export interface EvalWeights {
+  grounding: number;
+  facts: number;
+  tone: number;
+  length: number;
+}
+
+export interface EvalCaseResult {
+  domain: string;
+  companyId?: string;
+  caseId: string;
+  question: string;
+  provider: string;
+  answer?: string;
+  error?: string;
+  model?: string;
+  latencyMs: number;
+  cost: number;
+  scores: EvalWeights & { overall: number };
+  details: {
+    unsupportedClaims: string[];
+    missingFacts: string[];
+    forbiddenFound: string[];
+    targetVoice: BrandVoice;
+    detectedVoice?: BrandVoice;
+    words: number;
+    retrievedDocuments: number;
+  };
+}
+
+export interface EvalSummary {
+  domain: string;
+  companyId?: string;
+  provider: string;
+  cases: number;
+  errors: number;
+  scores: EvalWeights & { overall: number };
+  avgLatencyMs: number;
+  totalCost: number;
+}
+
+export interface EvalRecommendation {
+  domain: string;
+  companyId?: string;
+  provider: string;
+  overall: number;
+  runnerUp?: { provider: string; overall: number };
+}
+
+export interface EvalReport {
+  generatedAt: string;
+  providers: string[];
+  weights: EvalWeights;
+  summaries: EvalSummary[];
+  recommendations: EvalRecommendation[];
+  results: EvalCaseResult[];
+}
+
+export interface ProviderEvaluatorOptions {
+  providers?: string[];  // Default: every initialized provider
+  companyId?: string;    // Overrides the datasets' companyId
+  limit?: number;        // Cases per dataset
+  timeout?: number;
+  weights?: Partial<EvalWeights>;
+}
+
+const DEFAULT_WEIGHTS: EvalWeights = { grounding: 0.35, facts: 0.35, tone: 0.15, length: 0.15 };
+const DEFAULT_MIN_WORDS = 15;
+const DEFAULT_MAX_WORDS = 180;  // Replies are read on WhatsApp / Instagram
+
+const datasetSchema = Joi.object({
+  domain: Joi.string().required(),
+  description: Joi.string().optional(),
+  companyId: Joi.string().optional(),
+  brandVoice: Joi.string().valid('professional', 'friendly', 'casual', 'authoritative').optional(),
+  minWords: Joi.number().integer().min(0).optional(),
+  maxWords: Joi.number().integer().min(1).optional(),
+  knowledge: Joi.array().items(Joi.object({
+    id: Joi.string().required(),
+    type: Joi.string().optional(),
+    content: Joi.string().required()
+  })).optional(),
+  cases: Joi.array().min(1).items(Joi.object({
+    id: Joi.string().required(),
+    question: Joi.string().required(),
+    requiredFacts: Joi.array().items(Joi.string()).optional(),
+    forbiddenFacts: Joi.array().items(Joi.string()).optional(),
+    minWords: Joi.number().integer().min(0).optional(),
+    maxWords: Joi.number().integer().min(1).optional(),
+    tags: Joi.array().items(Joi.string()).optional()
+  })).required()
+});
+
+/**
+ * Runs labelled customer questions through each LLM provider with the same retrieved
+ * knowledge and prompts the domain services use, and scores the answers so providers can
+ * be chosen per company on evidence rather than side-by-side reading.
+ */
+export class ProviderEvaluator {
+  private llmManager: LLMManager;
+  private promptRegistry: PromptRegistry;
+  private options: ProviderEvaluatorOptions;
+  private weights: EvalWeights;
+
+  constructor(options: ProviderEvaluatorOptions = {}) {
+    this.llmManager = LLMManager.getInstance();
+    this.promptRegistry = PromptRegistry.getInstance();
+    this.options = options;
+    this.weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  }
+
+  /**
+   * Load and validate a dataset file
+   */
+  static loadDataset(filePath: string): EvalDataset {
+    const { error, value } = datasetSchema.validate(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    if (error) {
+      throw new Error(`Invalid evaluation dataset ${filePath}: ${error.message}`);
+    }
+    return value;
+  }
+
+  async run(suites: Array<{ dataset: EvalDataset; domainConfig: DomainConfig }>): Promise<EvalReport> {
+    const providers = this.options.providers?.length
+      ? this.options.providers
+      : this.llmManager.getInitializedProviders();
+    const results: EvalCaseResult[] = [];
+
+    for (const { dataset, domainConfig } of suites) {
+      results.push(...await this.runDataset(dataset, domainConfig, providers));
+    }
+
+    const summaries = this.summarize(results);
+    return {
+      generatedAt: new Date().toISOString(),
+      providers,
+      weights: this.weights,
+      summaries,
+      recommendations: this.recommend(summaries),
+      results
+    };
+  }
+
+  /**
+   * Write the report as JSON and HTML; returns both file paths
+   */
+  static writeReport(report: EvalReport, outDir: string): { json: string; html: string } {
+    fs.mkdirSync(outDir, { recursive: true });
+    const stamp = report.generatedAt.replace(/[:.]/g, '-');
+    const json = path.join(outDir, `eval-${stamp}.json`);
+    const html = path.join(outDir, `eval-${stamp}.html`);
+
+    fs.writeFileSync(json, JSON.stringify(report, null, 2));
+    fs.writeFileSync(html, renderEvalReportHTML(report));
+    return { json, html };
+  }
+
+  private async runDataset(dataset: EvalDataset, domainConfig: DomainConfig, providers: string[]): Promise<EvalCaseResult[]> {
+    const companyId = this.options.companyId || dataset.companyId;
+    const companyConfig = companyId ? await CompanyManager.getInstance().getCompanyConfig(companyId) : undefined;
+    const targetVoice: BrandVoice = companyConfig?.branding?.brandVoice || dataset.brandVoice || 'professional';
+
+    console.log(`📋 ${dataset.domain}: ${dataset.cases.length} cases x ${providers.length} providers${companyId ? ` (${companyId})` : ''}`);
+
+    this.promptRegistry.registerDomainDefaults(domainConfig);
+    const ragService = new GenericRAGService(domainConfig);
+    await ragService.initialize();
+    for (const doc of dataset.knowledge || []) {
+      await ragService.addDocument({
+        id: doc.id,
+        content: doc.content,
+        metadata: {
+          type: doc.type || 'product_info',
+          category: 'evaluation',
+          domain: dataset.domain,
+          priority: 'high',
+          lastUpdated: new Date(),
+          version: '1.0'
+        }
+      });
+    }
+
+    const results: EvalCaseResult[] = [];
+    const cases = dataset.cases.slice(0, this.options.limit ?? dataset.cases.length);
+
+    for (const evalCase of cases) {
+      // Every provider answers from the same retrieved knowledge
+      const knowledge = await ragService.queryKnowledge(evalCase.question, { domain: dataset.domain });
+      const messages = this.buildMessages(evalCase.question, knowledge.context, domainConfig, companyConfig);
+      const sources = [knowledge.context, domainConfig.systemPrompt, evalCase.question, companyConfig?.name || ''];
+
+      for (const provider of providers) {
+        const result = await this.runCase(evalCase, provider, messages, companyConfig);
+        const answer = result.answer || '';
+
+        const grounding = scoreGrounding(answer, sources);
+        const facts = scoreFacts(answer, evalCase.requiredFacts, evalCase.forbiddenFacts);
+        const tone = scoreTone(answer, targetVoice);
+        const length = scoreLength(
+          answer,
+          evalCase.minWords ?? dataset.minWords ?? DEFAULT_MIN_WORDS,
+          evalCase.maxWords ?? dataset.maxWords ?? DEFAULT_MAX_WORDS
+        );
+        const scores = result.error
+          ? { grounding: 0, facts: 0, tone: 0, length: 0 }
+          : { grounding: grounding.score, facts: facts.score, tone: tone.score, length: length.score };
+
+        results.push({
+          domain: dataset.domain,
+          companyId,
+          caseId: evalCase.id,
+          question: evalCase.question,
+          provider,
+          ...result,
+          scores: { ...scores, overall: this.weigh(scores) },
+          details: {
+            unsupportedClaims: grounding.unsupported,
+            missingFacts: result.error ? evalCase.requiredFacts || [] : facts.missing,
+            forbiddenFound: facts.forbiddenFound,
+            targetVoice,
+            detectedVoice: result.error ? undefined : tone.detected,
+            words: length.words,
+            retrievedDocuments: knowledge.documents.length
+          }
+        });
+
+        console.log(`   ${result.error ? '❌' : '✅'} ${evalCase.id} [${provider}] ${result.error || `overall ${this.weigh(scores)}`}`);
+      }
+    }
+
+    return results;
+  }
+
+  private async runCase(
+    evalCase: EvalCase,
+    provider: string,
+    messages: Array<{ role: 'system' | 'user'; content: string }>,
+    companyConfig?: CompanyConfig
+  ): Promise<Pick<EvalCaseResult, 'answer' | 'error' | 'model' | 'latencyMs' | 'cost'>> {
+    const startTime = Date.now();
+
+    try {
+      // Pin the provider - a failover would credit another provider's answer to this one
+      const response = await this.llmManager.generateCompletion(messages, {
+        providerChain: [provider],
+        retries: 0,
+        temperature: 0.3,
+        maxTokens: 600,
+        timeout: this.options.timeout || 30000,
+        companyConfig,
+        priority: 'batch',
+        usage: { companyId: companyConfig?.id, operation: 'evaluation' }
+      });
+
+      return {
+        answer: response.content,
+        model: response.model,
+        latencyMs: Date.now() - startTime,
+        cost: response.cost || 0
+      };
+    } catch (error) {
+      return {
+        error: (error as Error).message,
+        latencyMs: Date.now() - startTime,
+        cost: 0
+      };
+    }
+  }
+
+  /**
+   * Same system prompt and response template as the domain chat routes (GenericAIServiceWrapper),
+   * for a first message with a neutral analysis
+   */
+  private buildMessages(
+    question: string,
+    knowledge: string,
+    domainConfig: DomainConfig,
+    companyConfig?: CompanyConfig
+  ): Array<{ role: 'system' | 'user'; content: string }> {
+    const stage = domainConfig.defaultStage;
+    const systemPrompt = this.promptRegistry.render(`${domainConfig.domain}.system`, { stage }, companyConfig);
+    const instructions = this.promptRegistry.render(`${domainConfig.domain}.response_instructions`, { stage }, companyConfig);
+    const responsePrompt = this.promptRegistry.render('agent.response', {
+      domain: domainConfig.domain,
+      stage,
+      knowledge: knowledge || 'No relevant knowledge found',
+      message: question,
+      intent: 'INFORMATION',
+      interestLabel: domainConfig.domain === 'insurance' ? 'Insurance' : 'Product',
+      interest: 'unknown',
+      urgency: 'medium',
+      budgetSignals: '',
+      emotionalState: 'neutral',
+      leadReadiness: 'exploring',
+      leadSource: 'evaluation',
+      conversationSummary: 'First interaction - establish rapport and understand needs',
+      responseInstructions: instructions.content
+    }, companyConfig);
+
+    return [
+      { role: 'system', content: systemPrompt.content },
+      { role: 'user', content: responsePrompt.content }
+    ];
+  }
+
+  private summarize(results: EvalCaseResult[]): EvalSummary[] {
+    const groups = new Map<string, EvalCaseResult[]>();
+    for (const result of results) {
+      const key = `${result.domain}|${result.companyId || ''}|${result.provider}`;
+      groups.set(key, [...(groups.get(key) || []), result]);
+    }
+
+    return [...groups.values()].map(group => {
+      const average = (value: (result: EvalCaseResult) => number) =>
+        Math.round(group.reduce((sum, result) => sum + value(result), 0) / group.length * 100) / 100;
+
+      return {
+        domain: group[0].domain,
+        companyId: group[0].companyId,
+        provider: group[0].provider,
+        cases: group.length,
+        errors: group.filter(result => result.error).length,
+        scores: {
+          grounding: average(result => result.scores.grounding),
+          facts: average(result => result.scores.facts),
+          tone: average(result => result.scores.tone),
+          length: average(result => result.scores.length),
+          overall: average(result => result.scores.overall)
+        },
+        avgLatencyMs: Math.round(average(result => result.latencyMs)),
+        totalCost: group.reduce((sum, result) => sum + result.cost, 0)
+      };
+    });
+  }
+
+  // Best overall score per domain/company; the cheaper provider wins a tie
+  private recommend(summaries: EvalSummary[]): EvalRecommendation[] {
+    const groups = new Map<string, EvalSummary[]>();
+    for (const summary of summaries) {
+      const key = `${summary.domain}|${summary.companyId || ''}`;
+      groups.set(key, [...(groups.get(key) || []), summary]);
+    }
+
+    return [...groups.values()].map(group => {
+      const ranked = group
+        .filter(summary => summary.errors < summary.cases)
+        .sort((a, b) => b.scores.overall - a.scores.overall || a.totalCost - b.totalCost);
+
+      return {
+        domain: group[0].domain,
+        companyId: group[0].companyId,
+        provider: ranked[0]?.provider || 'none',
+        overall: ranked[0]?.scores.overall || 0,
+        runnerUp: ranked[1] ? { provider: ranked[1].provider, overall: ranked[1].scores.overall } : undefined
+      };
+    });
+  }
+
+  private weigh(scores: EvalWeights): number {
+    const total = this.weights.grounding + this.weights.facts + this.weights.tone + this.weights.length;
+    const weighted =
+      scores.grounding * this.weights.grounding +
+      scores.facts * this.weights.facts +
+      scores.tone * this.weights.tone +
+      scores.length * this.weights.length;
+    return Math.round(weighted / total * 100) / 100;
+  }
+}
@@ -0,0 +1,103 @@
+// File: backend/src/core/eval/evalReport.ts
+
+import type { EvalReport, EvalCaseResult } from './ProviderEvaluator';
+
+/**
+ * Self-contained HTML view of an evaluation report: recommendations, per provider
+ * summaries and every answer with what it lost points for
+ */
+export function renderEvalReportHTML(report: EvalReport): string {
+  const recommendations = report.recommendations.map(rec => `
+      <tr>
+        <td>${escape(rec.domain)}</td>
+        <td>${escape(rec.companyId || '-')}</td>
+        <td><strong>${escape(rec.provider)}</strong></td>
+        <td>${score(rec.overall)}</td>
+        <td>${rec.runnerUp ? `${escape(rec.runnerUp.provider)} (${rec.runnerUp.overall.toFixed(2)})` : '-'}</td>
+      </tr>`).join('');
+
+  const summaries = report.summaries.map(summary => `
+      <tr>
+        <td>${escape(summary.domain)}</td>
+        <td>${escape(summary.provider)}</td>
+        <td>${score(summary.scores.overall)}</td>
+        <td>${score(summary.scores.grounding)}</td>
+        <td>${score(summary.scores.facts)}</td>
+        <td>${score(summary.scores.tone)}</td>
+        <td>${score(summary.scores.length)}</td>
+        <td>${summary.avgLatencyMs} ms</td>
+        <td>$${summary.totalCost.toFixed(4)}</td>
+        <td>${summary.errors}/${summary.cases}</td>
+      </tr>`).join('');
+
+  const cases = report.results.map(renderCase).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>LLM provider evaluation - ${escape(report.generatedAt)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2933; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #d9e2ec; padding: 0.4rem 0.7rem; text-align: left; vertical-align: top; }
+    th { background: #f0f4f8; }
+    .good { background: #e3f9e5; } .fair { background: #fffbea; } .poor { background: #ffe3e3; }
+    details { border: 1px solid #d9e2ec; margin-bottom: 0.5rem; padding: 0.5rem; }
+    summary { cursor: pointer; }
+    pre { white-space: pre-wrap; background: #f5f7fa; padding: 0.5rem; }
+    .muted { color: #7b8794; }
+  </style>
+</head>
+<body>
+  <h1>LLM provider evaluation</h1>
+  <p class="muted">Generated ${escape(report.generatedAt)} &middot; providers: ${escape(report.providers.join(', '))} &middot;
+    weights: grounding ${report.weights.grounding}, facts ${report.weights.facts}, tone ${report.weights.tone}, length ${report.weights.length}</p>
+
+  <h2>Recommended provider</h2>
+  <table>
+    <tr><th>Domain</th><th>Company</th><th>Provider</th><th>Overall</th><th>Runner-up</th></tr>${recommendations}
+  </table>
+
+  <h2>Summary</h2>
+  <table>
+    <tr><th>Domain</th><th>Provider</th><th>Overall</th><th>Grounding</th><th>Facts</th><th>Tone</th><th>Length</th><th>Avg latency</th><th>Cost</th><th>Errors</th></tr>${summaries}
+  </table>
+
+  <h2>Answers</h2>${cases}
+</body>
+</html>
+`;
+}
+
+function renderCase(result: EvalCaseResult): string {
+  const notes = [
+    result.details.missingFacts.length ? `Missing facts: ${result.details.missingFacts.join('; ')}` : '',
+    result.details.forbiddenFound.length ? `Forbidden statements: ${result.details.forbiddenFound.join('; ')}` : '',
+    result.details.unsupportedClaims.length ? `Not in knowledge: ${result.details.unsupportedClaims.join(', ')}` : '',
+    `Voice: ${result.details.detectedVoice || '-'} (wanted ${result.details.targetVoice}), ${result.details.words} words, ` +
+      `${result.details.retrievedDocuments} documents retrieved`
+  ].filter(Boolean);
+
+  return `
+  <details>
+    <summary>${score(result.scores.overall)} <strong>${escape(result.provider)}</strong> &middot; ${escape(result.domain)} / ${escape(result.caseId)}: ${escape(result.question)}</summary>
+    <p class="muted">grounding ${result.scores.grounding} &middot; facts ${result.scores.facts} &middot; tone ${result.scores.tone} &middot;
+      length ${result.scores.length} &middot; ${result.latencyMs} ms${result.model ? ` &middot; ${escape(result.model)}` : ''}</p>
+    ${result.error ? `<p class="poor">Error: ${escape(result.error)}</p>` : `<pre>${escape(result.answer || '')}</pre>`}
+    <ul>${notes.map(note => `<li>${escape(note)}</li>`).join('')}</ul>
+  </details>`;
+}
+
+function score(value: number): string {
+  const level = value >= 0.8 ? 'good' : value >= 0.6 ? 'fair' : 'poor';
+  return `<span class="${level}">${value.toFixed(2)}</span>`;
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,152 @@
+// File: backend/src/core/eval/scoring.ts
+
+export type BrandVoice = 'professional' | 'friendly' | 'casual' | 'authoritative';
+
+export interface GroundingScore {
+  score: number;
+  claims: number;
+  unsupported: string[];
+}
+
+export interface FactsScore {
+  score: number;
+  missing: string[];
+  forbiddenFound: string[];
+}
+
+export interface ToneScore {
+  score: number;
+  target: BrandVoice;
+  detected: BrandVoice;
+  profile: Record<BrandVoice, number>;
+}
+
+export interface LengthScore {
+  score: number;
+  words: number;
+}
+
+// Capitalised words that say nothing about facts
+const COMMON_CAPITALISED = new Set([
+  'i', "i'm", "i'll", "i'd", "i've", 'you', 'we', 'our', 'my', 'the', 'a', 'an', 'please', 'thank', 'thanks',
+  'hello', 'hi', 'dear', 'yes', 'no', 'ok', 'okay', 'if', 'for', 'and', 'or', 'but', 'also', 'however',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'
+]);
+
+const WARM = /\b(happy to|glad|delighted|welcome|thank you|thanks|enjoy|love to|pleasure|wonderful|great question)\b/gi;
+const CASUAL = /\b(hey|awesome|cool|gonna|wanna|yeah|yep|super|folks|no worries|stuff|totally)\b/gi;
+const HEDGES = /\b(maybe|might|perhaps|i think|possibly|probably|not sure|i guess)\b/gi;
+const ASSERTIVE = /\b(must|will|required|ensure|always|never|guaranteed|recommend|should|important)\b/gi;
+const FORMAL = /\b(please note|kindly|regarding|therefore|accordingly|additionally|furthermore|in accordance|we advise)\b/gi;
+const CONTRACTIONS = /\b\w+'(s|re|ll|ve|d|m|t)\b/gi;
+const EMOJI = /[\u{1F300}-\u{1FAFF}\u{2600}-\u{27BF}]/gu;
+
+/**
+ * Share of the answer's checkable claims - numbers, amounts, phone numbers and capitalised
+ * names - that appear in the knowledge the model was given (or in the question itself).
+ * An answer with nothing to check scores 1.
+ */
+export function scoreGrounding(answer: string, sources: string[]): GroundingScore {
+  const haystack = normalize(sources.join('\n'));
+  const claims = new Set<string>();
+
+  for (const match of answer.match(/\d[\d,.]*\d%?|\d%?/g) || []) {
+    const value = match.replace(/,/g, '').replace(/\.$/, '');
+    // Single digits are list numbering and counts more often than facts
+    if (value.replace(/\D/g, '').length > 1) {
+      claims.add(value);
+    }
+  }
+
+  for (const sentence of answer.split(/(?<=[.!?:])\s+|\n+/)) {
+    const words = sentence.trim().split(/\s+/).slice(1);  // The first word is capitalised anyway
+    for (const word of words) {
+      const term = word.replace(/^[^A-Za-z]+|[^A-Za-z']+$/g, '');
+      if (/^[A-Z][a-zA-Z']{2,}$/.test(term) && !COMMON_CAPITALISED.has(term.toLowerCase())) {
+        claims.add(term);
+      }
+    }
+  }
+
+  const unsupported = [...claims].filter(claim => !haystack.includes(normalize(claim)));
+  return {
+    score: claims.size === 0 ? 1 : round((claims.size - unsupported.length) / claims.size),
+    claims: claims.size,
+    unsupported
+  };
+}
+
+/**
+ * Required facts found in the answer ("a|b" accepts either wording); each forbidden fact
+ * that shows up costs half a point
+ */
+export function scoreFacts(answer: string, requiredFacts: string[] = [], forbiddenFacts: string[] = []): FactsScore {
+  const text = normalize(answer);
+  const contains = (fact: string) => fact.split('|').some(option => text.includes(normalize(option)));
+
+  const missing = requiredFacts.filter(fact => !contains(fact));
+  const forbiddenFound = forbiddenFacts.filter(contains);
+  const coverage = requiredFacts.length === 0 ? 1 : (requiredFacts.length - missing.length) / requiredFacts.length;
+
+  return {
+    score: round(Math.max(0, coverage - forbiddenFound.length * 0.5)),
+    missing,
+    forbiddenFound
+  };
+}
+
+/**
+ * Lexical tone profile of the answer, scored against the company's brand voice
+ */
+export function scoreTone(answer: string, target: BrandVoice): ToneScore {
+  const count = (pattern: RegExp) => (answer.match(pattern) || []).length;
+  const signal = (value: number, saturation: number) => Math.min(1, value / saturation);
+
+  const warm = signal(count(WARM), 2);
+  const excited = signal(count(/!/g), 2);
+  const casual = signal(count(CASUAL) + count(EMOJI), 2);
+  const contractions = signal(count(CONTRACTIONS), 3);
+  const hedging = signal(count(HEDGES), 2);
+  const assertive = signal(count(ASSERTIVE), 2);
+  const formal = signal(count(FORMAL), 2);
+
+  const profile: Record<BrandVoice, number> = {
+    professional: clamp(1 - 0.5 * casual - 0.3 * excited - 0.2 * hedging),
+    friendly: clamp(0.3 + 0.4 * warm + 0.2 * excited + 0.1 * contractions - 0.3 * formal),
+    casual: clamp(0.2 + 0.4 * casual + 0.3 * contractions + 0.1 * excited - 0.3 * formal),
+    authoritative: clamp(0.3 + 0.5 * assertive + 0.2 * formal - 0.5 * hedging - 0.2 * casual)
+  };
+
+  const detected = (Object.keys(profile) as BrandVoice[])
+    .reduce((best, voice) => profile[voice] > profile[best] ? voice : best, target);
+
+  return { score: round(profile[target]), target, detected, profile };
+}
+
+/**
+ * 1 inside the word range, falling off linearly outside it
+ */
+export function scoreLength(answer: string, minWords: number, maxWords: number): LengthScore {
+  const words = answer.trim() ? answer.trim().split(/\s+/).length : 0;
+
+  let score = 1;
+  if (words < minWords) {
+    score = words / minWords;
+  } else if (words > maxWords) {
+    score = Math.max(0, 1 - (words - maxWords) / maxWords);
+  }
+
+  return { score: round(score), words };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/,(?=\d)/g, '').replace(/\s+/g, ' ');
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
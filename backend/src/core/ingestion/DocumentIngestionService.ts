@@ -0,0 +1,173 @@
+// File: backend/src/core/ingestion/DocumentIngestionService.ts
+
+import { CompanyManager } from '../companies/CompanyManager';
+import { VectorStoreManager } from '../vector/managers/VectorStoreManager';
+import { VectorDocument, VectorStoreProvider } from '../vector/interfaces/VectorStoreProvider';
+import { CompanyNotFoundError } from '../../types/CompanyTypes';
+import { ChunkingOptions, chunkDocument } from './chunking';
+import { DocumentFormat, DocumentIngestionError, detectFormat, parseDocument } from './parsers';
+
+// Shared knowledge that every company's searches can see, as in populateKnowledgeBase
+export const SHARED_KNOWLEDGE_COMPANY_ID = 'generic';
+
+export interface IngestionMetadata {
+  companyId: string;
+  type: string;                            // EnhancedRAGDocument types: product, claims, regulatory, ...
+  category: string;                        // e.g. auto_insurance, room_rates
+  subcategory?: string;
+  priority?: 'high' | 'medium' | 'low';
+  version?: string;
+  language?: string;
+  tags?: string[];
+}
+
+export interface IngestionRequest {
+  data: Buffer;
+  filename: string;
+  mimeType?: string;
+  format?: DocumentFormat;                 // Overrides detection from filename/MIME type
+  title?: string;                          // Defaults to the filename without extension
+  metadata: IngestionMetadata;
+  chunking?: ChunkingOptions;
+}
+
+export interface IngestionResult {
+  documentId: string;
+  source: string;
+  format: DocumentFormat;
+  title: string;
+  version: string;
+  chunks: number;
+  tokens: number;
+  removedChunks: number;                   // Chunks of an earlier, longer version that were deleted
+}
+
+/**
+ * Turns uploaded files (policy wordings, rate cards, help pages) into knowledge base chunks:
+ * parse, split into overlapping chunks under headings, tag with company metadata, upsert.
+ * Chunk ids are stable per company and filename, so re-ingesting a file replaces it.
+ */
+export class DocumentIngestionService {
+  private static instance: DocumentIngestionService;
+
+  static getInstance(): DocumentIngestionService {
+    if (!DocumentIngestionService.instance) {
+      DocumentIngestionService.instance = new DocumentIngestionService();
+    }
+    return DocumentIngestionService.instance;
+  }
+
+  async ingest(request: IngestionRequest): Promise<IngestionResult> {
+    const { metadata } = request;
+    await this.assertCompanyExists(metadata.companyId);
+
+    if (!request.data || request.data.length === 0) {
+      throw new DocumentIngestionError(`"${request.filename}" is empty`);
+    }
+
+    const format = request.format || detectFormat(request.filename, request.mimeType);
+    const title = request.title?.trim() || this.titleFromFilename(request.filename);
+    const parsed = await parseDocument(request.data, format, title);
+    const drafts = chunkDocument(parsed, request.chunking);
+
+    if (drafts.length === 0) {
+      throw new DocumentIngestionError(`No text could be extracted from "${request.filename}"`);
+    }
+
+    const documentId = `${metadata.companyId}_${this.slugify(request.filename)}`;
+    const version = metadata.version || '1.0';
+    const lastUpdated = new Date().toISOString();
+
+    const documents: VectorDocument[] = drafts.map(draft => ({
+      id: `${documentId}#${draft.index}`,
+      content: draft.content,
+      metadata: {
+        type: metadata.type,
+        category: metadata.category,
+        ...(metadata.subcategory && { subcategory: metadata.subcategory }),
+        priority: metadata.priority || 'medium',
+        companyId: metadata.companyId,
+        version,
+        lastUpdated,
+        source: request.filename,
+        sourceFormat: format,
+        documentId,
+        title,
+        breadcrumb: draft.breadcrumb,
+        chunkIndex: draft.index,
+        chunkCount: drafts.length,
+        ...(metadata.language && { language: metadata.language }),
+        ...(metadata.tags?.length && { tags: metadata.tags })
+      }
+    }));
+
+    const store = await this.getVectorStore();
+    const previousCount = await this.getStoredChunkCount(store, documentId);
+
+    await store.addDocuments(documents);
+
+    // A shorter new version leaves the old tail behind - remove it so searches can't surface it
+    let removedChunks = 0;
+    for (let index = documents.length; index < previousCount; index++) {
+      if (await store.deleteDocument(`${documentId}#${index}`)) {
+        removedChunks++;
+      }
+    }
+
+    const tokens = drafts.reduce((sum, draft) => sum + draft.tokens, 0);
+    console.log(`📥 Ingested ${request.filename} for ${metadata.companyId}: ${documents.length} chunks, ~${tokens} tokens (v${version})`);
+
+    return {
+      documentId,
+      source: request.filename,
+      format,
+      title,
+      version,
+      chunks: documents.length,
+      tokens,
+      removedChunks
+    };
+  }
+
+  // getCompanyConfig falls back to the default company, so compare ids to catch typos
+  private async assertCompanyExists(companyId: string): Promise<void> {
+    if (companyId === SHARED_KNOWLEDGE_COMPANY_ID) {
+      return;
+    }
+
+    const config = await CompanyManager.getInstance().getCompanyConfig(companyId);
+    if (config.id !== companyId) {
+      throw new CompanyNotFoundError(companyId);
+    }
+  }
+
+  private async getVectorStore(): Promise<VectorStoreProvider> {
+    const manager = VectorStoreManager.getInstance();
+    try {
+      return manager.getActiveProvider();
+    } catch {
+      return manager.initialize();
+    }
+  }
+
+  private async getStoredChunkCount(store: VectorStoreProvider, documentId: string): Promise<number> {
+    const first = await store.getDocument(`${documentId}#0`);
+    return Number(first?.metadata?.chunkCount) || 0;
+  }
+
+  private titleFromFilename(filename: string): string {
+    return filename
+      .replace(/^.*[\\/]/, '')
+      .replace(/\.[^.]+$/, '')
+      .replace(/[_-]+/g, ' ')
+      .trim();
+  }
+
+  private slugify(filename: string): string {
+    return filename
+      .replace(/^.*[\\/]/, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9.]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+  }
+}
@@ -0,0 +1,151 @@
+// File: backend/src/core/ingestion/chunking.ts
+
+import { ContextWindowManager } from '../llm/managers/ContextWindowManager';
+import { ParsedDocument } from './parsers';
+
+export interface ChunkingOptions {
+  maxTokens?: number;       // Upper bound per chunk, breadcrumb included
+  overlapTokens?: number;   // Trailing text of the previous chunk repeated at the start of the next
+}
+
+export interface DocumentChunkDraft {
+  index: number;
+  content: string;          // Breadcrumb line followed by the chunk text
+  breadcrumb: string;       // "Title > Section > Subsection"
+  headings: string[];
+  tokens: number;
+}
+
+export const DEFAULT_CHUNKING: Required<ChunkingOptions> = {
+  maxTokens: 400,
+  overlapTokens: 60
+};
+
+// A paragraph, or one sentence (or word run) of a paragraph too long for a chunk
+interface TextUnit {
+  text: string;
+  startsParagraph: boolean;
+}
+
+/**
+ * Split a parsed document into chunks that fit the embedding budget. Chunks never cross a
+ * section boundary; within a section paragraphs are packed together, and paragraphs that are
+ * too long are split at sentences, then words. Each chunk starts with its heading breadcrumb
+ * so it still says where it came from when retrieved on its own.
+ */
+export function chunkDocument(document: ParsedDocument, options: ChunkingOptions = {}): DocumentChunkDraft[] {
+  const maxTokens = options.maxTokens ?? DEFAULT_CHUNKING.maxTokens;
+  const overlapTokens = Math.min(options.overlapTokens ?? DEFAULT_CHUNKING.overlapTokens, Math.floor(maxTokens / 2));
+  const chunks: DocumentChunkDraft[] = [];
+
+  for (const section of document.sections) {
+    // A top heading repeating the title would only lengthen the breadcrumb
+    const headings = section.headings[0]?.toLowerCase() === document.title.toLowerCase()
+      ? section.headings.slice(1)
+      : section.headings;
+    const breadcrumb = [document.title, ...headings].filter(Boolean).join(' > ');
+    const budget = maxTokens - countTokens(breadcrumb) - 1;
+    if (budget < 20) {
+      throw new Error(`maxTokens ${maxTokens} leaves no room for text after the breadcrumb "${breadcrumb}"`);
+    }
+
+    const units = section.text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .flatMap(paragraph => splitParagraph(paragraph, budget));
+
+    let current: TextUnit[] = [];
+    let carried = 0;  // Leading units of `current` repeated from the previous chunk
+
+    const emit = () => {
+      if (current.length <= carried) {
+        return;
+      }
+      const text = joinUnits(current);
+      chunks.push({
+        index: chunks.length,
+        content: `${breadcrumb}\n${text}`,
+        breadcrumb,
+        headings,
+        tokens: countTokens(breadcrumb) + 1 + countTokens(text)
+      });
+
+      // Carry whole trailing units into the next chunk, up to the overlap budget
+      const overlap: TextUnit[] = [];
+      for (let i = current.length - 1; i > 0 && overlapTokens > 0; i--) {
+        if (countTokens(joinUnits([current[i], ...overlap])) > overlapTokens) {
+          break;
+        }
+        overlap.unshift(current[i]);
+      }
+      current = overlap;
+      carried = overlap.length;
+    };
+
+    for (const unit of units) {
+      if (current.length > 0 && countTokens(joinUnits([...current, unit])) > budget) {
+        emit();
+        // Drop the overlap when it would not leave room for the next unit
+        while (current.length > 0 && countTokens(joinUnits([...current, unit])) > budget) {
+          current.shift();
+          carried--;
+        }
+      }
+      current.push(unit);
+    }
+    emit();
+  }
+
+  return chunks;
+}
+
+function joinUnits(units: TextUnit[]): string {
+  return units
+    .map((unit, i) => i === 0 ? unit.text : `${unit.startsParagraph ? '\n\n' : ' '}${unit.text}`)
+    .join('');
+}
+
+// A paragraph that fits stays whole; a longer one becomes its sentences, and over-long
+// sentences become word runs (or fixed-size slices of text with no spaces at all)
+function splitParagraph(paragraph: string, budget: number): TextUnit[] {
+  if (countTokens(paragraph) <= budget) {
+    return [{ text: paragraph, startsParagraph: true }];
+  }
+
+  const sentences = (paragraph.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)/g) || [paragraph])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+  const pieces = sentences.flatMap(sentence => countTokens(sentence) <= budget ? [sentence] : splitWords(sentence, budget));
+  return pieces.map((text, i) => ({ text, startsParagraph: i === 0 }));
+}
+
+function splitWords(sentence: string, budget: number): string[] {
+  const runs: string[] = [];
+  let run = '';
+
+  for (const word of sentence.split(/\s+/)) {
+    if (countTokens(word) > budget) {
+      if (run) runs.push(run);
+      run = '';
+      const size = budget * 4;
+      for (let i = 0; i < word.length; i += size) {
+        runs.push(word.slice(i, i + size));
+      }
+      continue;
+    }
+    if (run && countTokens(`${run} ${word}`) > budget) {
+      runs.push(run);
+      run = '';
+    }
+    run = run ? `${run} ${word}` : word;
+  }
+  if (run) runs.push(run);
+
+  return runs;
+}
+
+function countTokens(text: string): number {
+  return ContextWindowManager.getInstance().countTokens(text);
+}
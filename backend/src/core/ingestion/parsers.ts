@@ -0,0 +1,313 @@
+// File: backend/src/core/ingestion/parsers.ts
+
+export type DocumentFormat = 'pdf' | 'markdown' | 'csv' | 'html' | 'text';
+
+export interface ParsedSection {
+  headings: string[];  // Heading trail from the top of the document, e.g. ['Section 4', 'Exclusions']
+  text: string;        // Paragraphs separated by blank lines
+}
+
+export interface ParsedDocument {
+  format: DocumentFormat;
+  title: string;
+  sections: ParsedSection[];
+}
+
+export class DocumentIngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentIngestionError';
+  }
+}
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+  tsv: 'csv',
+  html: 'html',
+  htm: 'html',
+  txt: 'text'
+};
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'text/html': 'html',
+  'text/plain': 'text'
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…', copy: '©', reg: '®', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“'
+};
+
+/**
+ * The format of an upload, from its extension or else its MIME type
+ */
+export function detectFormat(filename: string, mimeType?: string): DocumentFormat {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  const format = EXTENSIONS[extension] || (mimeType && MIME_TYPES[mimeType.split(';')[0].trim().toLowerCase()]);
+
+  if (!format) {
+    throw new DocumentIngestionError(
+      `Unsupported document type "${filename}" - upload PDF, Markdown, CSV, HTML or plain text`
+    );
+  }
+  return format;
+}
+
+export async function parseDocument(data: Buffer, format: DocumentFormat, title: string): Promise<ParsedDocument> {
+  switch (format) {
+    case 'pdf':
+      return { format, title, sections: parseMarkdownSections(await extractPdfText(data)) };
+    case 'markdown':
+      return { format, title, sections: parseMarkdownSections(data.toString('utf-8')) };
+    case 'html':
+      return { format, title, sections: parseMarkdownSections(htmlToMarkdown(data.toString('utf-8'))) };
+    case 'csv':
+      return { format, title, sections: [{ headings: [], text: csvToRows(data.toString('utf-8')).join('\n\n') }] };
+    case 'text':
+      return { format, title, sections: [{ headings: [], text: data.toString('utf-8') }] };
+  }
+}
+
+/**
+ * Split Markdown into sections at each heading, keeping the trail of parent headings.
+ * Headings inside fenced code blocks are left alone.
+ */
+export function parseMarkdownSections(markdown: string): ParsedSection[] {
+  const sections: ParsedSection[] = [];
+  const trail: Array<{ level: number; text: string }> = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) {
+      sections.push({ headings: trail.map(heading => heading.text), text });
+    }
+    lines = [];
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (trail.length > 0 && trail[trail.length - 1].level >= level) {
+        trail.pop();
+      }
+      trail.push({ level, text: heading[2].replace(/[*_`]/g, '').trim() });
+      continue;
+    }
+
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Reduce HTML to Markdown structure: headings, paragraphs, list items and table rows.
+ * Scripts, styles and page chrome (nav, header, footer) are dropped.
+ */
+export function htmlToMarkdown(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] || html;
+
+  return decodeEntities(
+    body
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|svg|nav|header|footer|form)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${stripTags(text)}\n\n`)
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<\/(td|th)>\s*/gi, ' | ')
+      .replace(/<\/tr>/gi, '\n')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/?(p|div|section|article|table|ul|ol|blockquote|pre|dl|dt|dd)\b[^>]*>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').replace(/\s*\|\s*$/, '').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * One line of text per CSV row, labelled with the column headers ("Room: Garden Suite; Rate: 1200"),
+ * so every row still makes sense when it lands in a chunk without the header row
+ */
+export function csvToRows(csv: string): string[] {
+  const records = parseCsv(csv);
+  if (records.length < 2) {
+    throw new DocumentIngestionError('CSV needs a header row and at least one data row');
+  }
+
+  const [header, ...rows] = records;
+  const columns = header.map((name, i) => name.trim() || `Column ${i + 1}`);
+
+  return rows
+    .filter(row => row.some(cell => cell.trim()))
+    .map(row => columns
+      .map((column, i) => [column, (row[i] || '').trim()])
+      .filter(([, value]) => value)
+      .map(([column, value]) => `${column}: ${value}`)
+      .join('; '));
+}
+
+/**
+ * RFC 4180 parsing (quoted fields, escaped quotes, line breaks inside quotes).
+ * The delimiter - comma, semicolon or tab - is taken from the header line.
+ */
+export function parseCsv(csv: string): string[][] {
+  const text = csv.replace(/^﻿/, '');
+  const headerLine = text.split('\n')[0];
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter(row => row.length > 1 || row[0] !== '');
+}
+
+/**
+ * Text of a PDF, with numbered or all-caps heading lines turned into Markdown headings and
+ * lines re-joined into paragraphs. Needs the optional pdf-parse package.
+ */
+async function extractPdfText(data: Buffer): Promise<string> {
+  let pdfParse: (data: Buffer) => Promise<{ text: string; numpages: number }>;
+  try {
+    pdfParse = require('pdf-parse');
+  } catch {
+    throw new DocumentIngestionError('PDF ingestion needs the "pdf-parse" package - run npm install pdf-parse');
+  }
+
+  let text: string;
+  try {
+    text = (await pdfParse(data)).text;
+  } catch (error) {
+    throw new DocumentIngestionError(`Could not read the PDF: ${(error as Error).message}`);
+  }
+
+  if (!text.trim()) {
+    throw new DocumentIngestionError('The PDF has no extractable text (scanned documents need OCR first)');
+  }
+
+  return pdfTextToMarkdown(text);
+}
+
+export function pdfTextToMarkdown(text: string): string {
+  const output: string[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      // Re-join words hyphenated across line breaks
+      output.push(paragraph.join(' ').replace(/(\w)- (\w)/g, '$1$2'), '');
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+
+    // Blank lines and bare page numbers end a paragraph
+    if (!line || /^(page\s+)?\d+(\s+of\s+\d+)?$/i.test(line)) {
+      flush();
+      continue;
+    }
+
+    const level = pdfHeadingLevel(line);
+    if (level) {
+      flush();
+      output.push(`${'#'.repeat(level)} ${line}`, '');
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flush();
+
+  return output.join('\n');
+}
+
+// "4.2 Exclusions" -> 2, "SECTION 4 - EXCLUSIONS" -> 1, ordinary text -> 0
+function pdfHeadingLevel(line: string): number {
+  if (line.length > 80 || /[.,;:]$/.test(line)) {
+    return 0;
+  }
+
+  const numbered = line.match(/^(\d+(?:\.\d+){0,3})\.?\s+[A-Z]/);
+  if (numbered && line.split(' ').length <= 10) {
+    return Math.min(numbered[1].split('.').length, 4);
+  }
+
+  const letters = line.replace(/[^A-Za-z]/g, '');
+  if (letters.length >= 4 && letters === letters.toUpperCase()) {
+    return 1;
+  }
+
+  return 0;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
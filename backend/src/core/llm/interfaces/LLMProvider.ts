@@ -1,7 +1,7 @@
 // File: backend/src/core/llm/interfaces/LLMProvider.ts
 
 export interface LLMConfig {
-  provider: 'openai' | 'claude' | 'local_llama' | 'deepseek';
+  provider: 'openai' | 'claude' | 'local_llama' | 'deepseek' | 'mock';
   apiKey?: string;
   baseURL?: string;
   model: string;
@@ -9,11 +9,47 @@ export interface LLMConfig {
   temperature?: number;
   timeout?: number;
   retries?: number;
+  requestsPerMinute?: number;  // Scheduler limits for this provider instance (unset = unlimited)
+  tokensPerMinute?: number;
+  maxConcurrent?: number;
 }
 
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  images?: LLMImagePart[];    // Images sent with a user message - only vision-capable providers receive these
+  toolCalls?: LLMToolCall[];  // Tool calls requested by an assistant message
+  toolCallId?: string;        // Which call a tool message answers
+  name?: string;              // Tool name for tool messages
+}
+
+export interface LLMImagePart {
+  mimeType: string;  // image/jpeg, image/png, image/webp or image/gif
+  data: string;      // Base64, without a data: URL prefix
+  detail?: 'low' | 'high' | 'auto';  // OpenAI resolution hint; ignored by other providers
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema for the arguments object
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type LLMToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export interface LLMCompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  timeout?: number;
+  tools?: LLMToolDefinition[];
+  toolChoice?: LLMToolChoice;
+  responseFormat?: 'text' | 'json';  // 'json' uses the provider's native JSON mode where it has one
 }
 
 export interface LLMResponse {
@@ -25,6 +61,40 @@ export interface LLMResponse {
   };
   model: string;
   finishReason?: string;
+  toolCalls?: LLMToolCall[];
+}
+
+export interface LLMStreamChunk {
+  content: string;
+  done: boolean;
+  model?: string;
+  finishReason?: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  provider?: string;
+}
+
+export interface LLMProviderAttempt {
+  provider: string;
+  attempt: number;
+  success: boolean;
+  latency: number;
+  retryable?: boolean;
+  error?: string;
+}
+
+export interface LLMFailoverResponse extends LLMResponse {
+  providerUsed: string;
+  attempts: LLMProviderAttempt[];
+  cost?: number;  // USD, as recorded in the usage ledger
+}
+
+export interface LLMStructuredResponse<T> extends LLMFailoverResponse {
+  data: T;
+  repairs: number;  // How many repair round-trips were needed
 }
 
 export interface EmbeddingResponse {
@@ -35,6 +105,14 @@ export interface EmbeddingResponse {
   };
 }
 
+export interface BatchEmbeddingResponse {
+  embeddings: number[][];  // Same order as the input texts
+  model: string;
+  usage?: {
+    totalTokens: number;
+  };
+}
+
 export interface LLMProvider {
   name: string;
   isInitialized: boolean;
@@ -45,26 +123,46 @@ export interface LLMProvider {
   initialize(config: LLMConfig): Promise<void>;
   
   /**
-   * Generate a chat completion
+   * Generate a chat completion. When tools are passed the response may carry
+   * toolCalls instead of (or alongside) text content.
    */
   generateCompletion(
+    messages: LLMMessage[],
+    options?: LLMCompletionOptions
+  ): Promise<LLMResponse>;
+  
+  /**
+   * Stream a chat completion as it is generated.
+   * Yields text deltas and finishes with a chunk where done is true.
+   */
+  streamCompletion(
     messages: LLMMessage[],
     options?: {
       maxTokens?: number;
       temperature?: number;
       timeout?: number;
     }
-  ): Promise<LLMResponse>;
+  ): AsyncGenerator<LLMStreamChunk>;
   
   /**
    * Generate embeddings for text
    */
   generateEmbedding(text: string): Promise<EmbeddingResponse>;
+
+  /**
+   * Generate embeddings for many texts, in as few API calls as the provider allows
+   */
+  generateEmbeddings(texts: string[]): Promise<BatchEmbeddingResponse>;
   
   /**
    * Check if the provider supports embeddings
    */
   supportsEmbeddings(): boolean;
+
+  /**
+   * Model and vector size the provider embeds with (null when it has no embeddings)
+   */
+  getEmbeddingModel(): { model: string; dimensions: number } | null;
   
   /**
    * Get provider capabilities
@@ -73,6 +171,7 @@ export interface LLMProvider {
     maxContextLength: number;
     supportsStreaming: boolean;
     supportsEmbeddings: boolean;
+    supportsVision: boolean;
     costPerToken: number;
     averageLatency: number;
   };
@@ -101,4 +200,58 @@ export interface LLMProvider {
 export interface LLMProviderFactory {
   createProvider(config: LLMConfig): LLMProvider;
   getSupportedProviders(): string[];
-}
\ No newline at end of file
+}
+
+export class LLMProviderChainError extends Error {
+  public attempts: LLMProviderAttempt[];
+
+  constructor(attempts: LLMProviderAttempt[], lastError?: Error | null) {
+    const tried = [...new Set(attempts.map(a => a.provider))].join(' → ') || 'none';
+    super(`All LLM providers failed (tried: ${tried})${lastError ? `: ${lastError.message}` : ''}`);
+    this.name = 'LLMProviderChainError';
+    this.attempts = attempts;
+  }
+}
+
+export class LLMQueueTimeoutError extends Error {
+  constructor(bucket: string, waitedMs: number) {
+    super(`Timed out after ${waitedMs}ms waiting for ${bucket} capacity`);
+    this.name = 'LLMQueueTimeoutError';
+  }
+}
+
+export class LLMModelNotFoundError extends Error {
+  public provider: string;
+  public model: string;
+  public installedModels: string[];
+
+  constructor(provider: string, model: string, installedModels: string[]) {
+    super(`Model ${model} is not installed for ${provider} (installed: ${installedModels.join(', ') || 'none'})`);
+    this.name = 'LLMModelNotFoundError';
+    this.provider = provider;
+    this.model = model;
+    this.installedModels = installedModels;
+  }
+}
+
+export class LLMVisionUnavailableError extends Error {
+  public providers: string[];
+
+  constructor(providers: string[]) {
+    super(`No vision-capable provider available for image input (chain: ${providers.join(' → ') || 'none'})`);
+    this.name = 'LLMVisionUnavailableError';
+    this.providers = providers;
+  }
+}
+
+export class LLMStructuredOutputError extends Error {
+  public validationErrors: string[];
+  public rawContent: string;
+
+  constructor(validationErrors: string[], rawContent: string, repairs: number) {
+    super(`Structured output invalid after ${repairs} repair attempt(s): ${validationErrors.slice(0, 3).join('; ')}`);
+    this.name = 'LLMStructuredOutputError';
+    this.validationErrors = validationErrors;
+    this.rawContent = rawContent;
+  }
+}
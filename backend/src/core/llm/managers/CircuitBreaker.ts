@@ -0,0 +1,145 @@
+// File: backend/src/core/llm/managers/CircuitBreaker.ts
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  openedAt: Date | null;
+  nextAttemptAt: Date | null;
+  lastError?: string;
+}
+
+/**
+ * Per-provider circuit breaker.
+ * Opens after repeated failures, lets a single probe through once the cooldown
+ * has passed (half-open) and closes again when that probe succeeds.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures: number = 0;
+  private totalFailures: number = 0;
+  private totalSuccesses: number = 0;
+  private openedAt: number | null = null;
+  private probeInFlight: boolean = false;
+  private lastError?: string;
+
+  constructor(
+    private readonly providerName: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Ask to send a request through the breaker. Moves an expired open breaker to half-open
+   * and reserves the single half-open probe.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (!this.cooldownElapsed()) {
+        return false;
+      }
+      this.state = 'half_open';
+      this.probeInFlight = false;
+      console.log(`🟡 Circuit for ${this.providerName} half-open, sending probe request`);
+    }
+
+    if (this.state === 'half_open') {
+      if (this.probeInFlight) {
+        return false;
+      }
+      this.probeInFlight = true;
+    }
+
+    return true;
+  }
+
+  /**
+   * Hand back a half-open probe that said nothing about the provider's health: never sent
+   * (the request timed out in the queue) or rejected for its content (a 400)
+   */
+  releaseProbe(): void {
+    if (this.state === 'half_open') {
+      this.probeInFlight = false;
+    }
+  }
+
+  /**
+   * Check availability without changing state (used for provider selection)
+   */
+  isAvailable(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return this.cooldownElapsed();
+      case 'half_open':
+        return !this.probeInFlight;
+    }
+  }
+
+  recordSuccess(): void {
+    this.totalSuccesses++;
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+
+    if (this.state !== 'closed') {
+      console.log(`🟢 Circuit for ${this.providerName} closed`);
+    }
+
+    this.state = 'closed';
+    this.openedAt = null;
+  }
+
+  recordFailure(error?: Error): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+    this.lastError = error?.message;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open';
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      openedAt: this.openedAt ? new Date(this.openedAt) : null,
+      nextAttemptAt: this.state === 'open' && this.openedAt
+        ? new Date(this.openedAt + this.options.cooldownMs)
+        : null,
+      lastError: this.lastError
+    };
+  }
+
+  private open(): void {
+    if (this.state !== 'open') {
+      console.warn(`🔴 Circuit for ${this.providerName} opened after ${this.consecutiveFailures} failures`);
+    }
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.probeInFlight = false;
+  }
+
+  private cooldownElapsed(): boolean {
+    return this.openedAt !== null && Date.now() - this.openedAt >= this.options.cooldownMs;
+  }
+}
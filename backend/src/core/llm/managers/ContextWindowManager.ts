@@ -0,0 +1,372 @@
+// File: backend/src/core/llm/managers/ContextWindowManager.ts
+
+import { LLMMessage } from '../interfaces/LLMProvider';
+import { LLMManager, RoutingCompanyConfig } from './LLMManager';
+import { UsageTags } from './UsageLedger';
+import { PromptRegistry } from '../../prompts/PromptRegistry';
+
+export interface ContextTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+}
+
+export interface ConversationWindow {
+  key: string;
+  summary: string;                               // Running summary of the turns no longer kept verbatim
+  summarizedTurns: number;
+  pinnedFacts: Record<string, string | number>;  // Customer facts that survive every compaction
+  turns: ContextTurn[];                          // Recent turns, oldest first
+  totalTurns: number;
+  lastUpdated: Date;
+}
+
+// How a conversation is routed - decides which provider's context window applies
+export interface ContextWindowOptions {
+  companyConfig?: RoutingCompanyConfig;
+  usage?: UsageTags;
+}
+
+export interface ContextBudget {
+  provider: string;
+  maxContextLength: number;
+  historyBudget: number;  // Tokens the summary, facts and recent turns may use together
+  usedTokens: number;
+}
+
+// Rough characters per token for each provider's tokenizer (Llama-family tokenizers split English finer)
+const CHARS_PER_TOKEN: Record<string, number> = {
+  openai: 4,
+  deepseek: 4,
+  claude: 3.5,
+  local_llama: 3.2,
+  mock: 4
+};
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const DEFAULT_MAX_CONTEXT = 4096;
+
+// Customer facts pinned from user messages. Later mentions overwrite earlier ones.
+const FACT_PATTERNS: Array<{ key: string; pattern: RegExp; value: (match: RegExpMatchArray) => string | number }> = [
+  {
+    key: 'age',
+    pattern: /\b(?:i(?:'m| am)\s+(\d{2})\b(?!\s*(?:cedis|ghs|gh₵|%|minutes?|mins?|hours?|hrs?|km|miles?|days?|weeks?|months?|nights?|people|guests|years? (?:ago|of)))|(\d{2})\s*(?:years?|yrs?)\s*old\b|\bage[d:]?\s*(\d{2})\b)/i,
+    value: match => parseInt(match[1] || match[2] || match[3])
+  },
+  {
+    key: 'vehicle',
+    pattern: /\b((?:19|20)\d{2}\s+)?(toyota|honda|nissan|hyundai|kia|mercedes(?:-benz)?|bmw|ford|mazda|volkswagen|vw|mitsubishi|suzuki|peugeot|lexus|audi|chevrolet|jeep|land rover|range rover)\s+([a-z0-9-]+)/i,
+    value: match => `${match[1] || ''}${match[2]} ${match[3]}`.trim()
+  },
+  {
+    key: 'roomType',
+    pattern: /\b((?:garden|ocean|sea|beach|pool|deluxe|standard|executive|presidential|family|honeymoon|royal)\s+(?:view\s+)?(?:suite|villa|room|chalet|bungalow))\b/i,
+    value: match => match[1].toLowerCase()
+  },
+  {
+    key: 'salary',
+    pattern: /\b(?:salary|earn(?:ing)?|income|take home|paid)\b[^\d\n]{0,25}?((?:gh₵|ghs|ghc|\$)?\s?[\d,]+(?:\.\d+)?\s?(?:k|cedis|ghs)?)/i,
+    value: match => match[1].trim()
+  }
+];
+
+/**
+ * Keeps each conversation inside the serving provider's context window.
+ * Token counts are estimated per provider; when the history nears its share of the
+ * window, older turns are folded into a running summary while pinned customer facts
+ * (age, vehicle, room type, salary, ...) are always kept.
+ */
+export class ContextWindowManager {
+  private static instance: ContextWindowManager;
+  private windows: Map<string, ConversationWindow> = new Map();
+  private compactions: Map<string, Promise<void>> = new Map();
+  private llmManager: LLMManager;
+  private promptRegistry: PromptRegistry;
+  private historyShare: number;
+  private compactThreshold: number;
+  private keepRecentTurns: number;
+
+  private constructor() {
+    this.llmManager = LLMManager.getInstance();
+    this.promptRegistry = PromptRegistry.getInstance();
+    this.historyShare = parseFloat(process.env.CONTEXT_HISTORY_SHARE || '0.5');
+    this.compactThreshold = parseFloat(process.env.CONTEXT_COMPACT_THRESHOLD || '0.8');
+    this.keepRecentTurns = parseInt(process.env.CONTEXT_KEEP_RECENT_TURNS || '4');
+  }
+
+  static getInstance(): ContextWindowManager {
+    if (!ContextWindowManager.instance) {
+      ContextWindowManager.instance = new ContextWindowManager();
+    }
+    return ContextWindowManager.instance;
+  }
+
+  /**
+   * Append turns, pin any customer facts they mention and compact in the background if needed
+   */
+  addTurns(
+    key: string,
+    turns: Array<{ role: 'user' | 'assistant'; content: string }>,
+    options: ContextWindowOptions & { facts?: Record<string, any> } = {}
+  ): ConversationWindow {
+    const window = this.getWindow(key);
+
+    for (const turn of turns) {
+      window.turns.push({ ...turn, timestamp: new Date() });
+      window.totalTurns++;
+      if (turn.role === 'user') {
+        Object.assign(window.pinnedFacts, this.extractFacts(turn.content));
+      }
+    }
+
+    if (options.facts) {
+      this.pinFacts(key, options.facts);
+    }
+
+    window.lastUpdated = new Date();
+    this.scheduleCompaction(key, options);
+    return window;
+  }
+
+  /**
+   * Pin facts (e.g. from the analysis step). Empty values are ignored.
+   */
+  pinFacts(key: string, facts: Record<string, any>): void {
+    const window = this.getWindow(key);
+
+    for (const [name, value] of Object.entries(facts)) {
+      if (value !== undefined && value !== null && value !== '' && typeof value !== 'object') {
+        window.pinnedFacts[name] = value;
+      }
+    }
+  }
+
+  /**
+   * Customer facts found in a message
+   */
+  extractFacts(text: string): Record<string, string | number> {
+    const facts: Record<string, string | number> = {};
+
+    for (const { key, pattern, value } of FACT_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) {
+        facts[key] = value(match);
+      }
+    }
+
+    return facts;
+  }
+
+  /**
+   * The conversation after any pending compaction has finished
+   */
+  async getWindowReady(key: string): Promise<ConversationWindow> {
+    await this.compactions.get(key);
+    return this.getWindow(key);
+  }
+
+  /**
+   * Recent turns kept verbatim (oldest first)
+   */
+  getTurns(key: string): ContextTurn[] {
+    return this.windows.get(key)?.turns || [];
+  }
+
+  /**
+   * Every turn recorded for the conversation, including the summarized ones
+   */
+  getTotalTurns(key: string): number {
+    return this.windows.get(key)?.totalTurns || 0;
+  }
+
+  /**
+   * Summary and pinned facts as prompt text ('' for a conversation with neither)
+   */
+  formatContext(window: ConversationWindow): string {
+    const sections: string[] = [];
+
+    if (window.summary) {
+      sections.push(`CONVERSATION SO FAR (summary of ${window.summarizedTurns} earlier messages):\n${window.summary}`);
+    }
+
+    const facts = Object.entries(window.pinnedFacts);
+    if (facts.length > 0) {
+      sections.push(`KNOWN CUSTOMER FACTS:\n${facts.map(([name, value]) => `- ${name}: ${value}`).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Context block plus the recent turns as chat messages, ready to sit between the system prompt and the new user message
+   */
+  async buildMessages(key: string): Promise<{ context: string; messages: LLMMessage[] }> {
+    const window = await this.getWindowReady(key);
+
+    return {
+      context: this.formatContext(window),
+      messages: window.turns.map(turn => ({ role: turn.role, content: turn.content }))
+    };
+  }
+
+  /**
+   * Estimated token count of text for a provider
+   */
+  countTokens(text: string, providerName?: string): number {
+    const charsPerToken = (providerName && CHARS_PER_TOKEN[providerName]) || 4;
+    return Math.ceil(text.length / charsPerToken);
+  }
+
+  countMessageTokens(messages: Array<{ content: string }>, providerName?: string): number {
+    return messages.reduce(
+      (sum, message) => sum + this.countTokens(message.content, providerName) + MESSAGE_OVERHEAD_TOKENS,
+      0
+    );
+  }
+
+  /**
+   * How much of the serving provider's window the conversation history is using
+   */
+  getBudget(key: string, options: ContextWindowOptions = {}): ContextBudget {
+    const window = this.getWindow(key);
+    const provider = this.llmManager.getProviderChain(options.companyConfig)[0] || 'openai';
+    const maxContextLength = this.llmManager.getProvider(provider, options.companyConfig)?.getCapabilities().maxContextLength || DEFAULT_MAX_CONTEXT;
+
+    return {
+      provider,
+      maxContextLength,
+      historyBudget: Math.floor(maxContextLength * this.historyShare),
+      usedTokens: this.countTokens(this.formatContext(window), provider) + this.countMessageTokens(window.turns, provider)
+    };
+  }
+
+  clear(key: string): void {
+    this.windows.delete(key);
+    this.compactions.delete(key);
+  }
+
+  getStats() {
+    return {
+      conversations: this.windows.size,
+      summarizedConversations: Array.from(this.windows.values()).filter(window => window.summary).length
+    };
+  }
+
+  private getWindow(key: string): ConversationWindow {
+    let window = this.windows.get(key);
+
+    if (!window) {
+      window = {
+        key,
+        summary: '',
+        summarizedTurns: 0,
+        pinnedFacts: {},
+        turns: [],
+        totalTurns: 0,
+        lastUpdated: new Date()
+      };
+      this.windows.set(key, window);
+    }
+
+    return window;
+  }
+
+  // One compaction per conversation at a time; callers wait for it through getWindowReady
+  private scheduleCompaction(key: string, options: ContextWindowOptions): void {
+    const previous = this.compactions.get(key) || Promise.resolve();
+    const next = previous
+      .then(() => this.compactIfNeeded(key, options))
+      .catch(error => console.error(`❌ Context compaction failed for ${key}:`, error));
+
+    this.compactions.set(key, next);
+    next.then(() => {
+      if (this.compactions.get(key) === next) {
+        this.compactions.delete(key);
+      }
+    });
+  }
+
+  private async compactIfNeeded(key: string, options: ContextWindowOptions): Promise<void> {
+    const window = this.windows.get(key);
+    if (!window) {
+      return;
+    }
+
+    const budget = this.getBudget(key, options);
+    if (budget.usedTokens < budget.historyBudget * this.compactThreshold) {
+      return;
+    }
+
+    // Fold the oldest turns into the summary until the verbatim turns fit in half the budget
+    const target = budget.historyBudget / 2;
+    let keep = window.turns.length;
+    while (keep > this.keepRecentTurns && this.countMessageTokens(window.turns.slice(-keep), budget.provider) > target) {
+      keep--;
+    }
+
+    const folded = window.turns.slice(0, window.turns.length - keep);
+    if (folded.length === 0) {
+      return;
+    }
+
+    const summary = await this.summarize(window, folded, budget, options);
+
+    window.summary = summary;
+    window.summarizedTurns += folded.length;
+    window.turns = window.turns.slice(folded.length);
+
+    console.log(
+      `🗜️  Compacted ${folded.length} turns for ${key} ` +
+      `(${budget.usedTokens}/${budget.historyBudget} tokens on ${budget.provider})`
+    );
+  }
+
+  private async summarize(
+    window: ConversationWindow,
+    turns: ContextTurn[],
+    budget: ContextBudget,
+    options: ContextWindowOptions
+  ): Promise<string> {
+    const transcript = turns.map(turn => `${turn.role}: ${turn.content}`).join('\n');
+    const maxSummaryTokens = Math.max(100, Math.floor(budget.historyBudget / 4));
+
+    try {
+      const prompt = this.promptRegistry.render('context.summary', {
+        previousSummary: window.summary || 'None',
+        transcript,
+        facts: Object.entries(window.pinnedFacts).map(([name, value]) => `${name}: ${value}`).join(', ') || 'None'
+      });
+
+      const response = await this.llmManager.generateCompletion([
+        { role: 'user', content: prompt.content }
+      ], {
+        maxTokens: Math.min(400, maxSummaryTokens),
+        temperature: 0.2,
+        timeout: 10000,
+        companyConfig: options.companyConfig,
+        usage: { ...options.usage, operation: 'context_summary' }
+      });
+
+      if (response.content.trim()) {
+        return response.content.trim();
+      }
+    } catch (error) {
+      console.warn('⚠️  Summary generation failed, keeping an extractive summary:', (error as Error).message);
+    }
+
+    return this.extractiveSummary(window.summary, turns, maxSummaryTokens, budget.provider);
+  }
+
+  // Previous summary plus the first line of each folded turn, trimmed from the oldest end to fit
+  private extractiveSummary(previous: string, turns: ContextTurn[], maxTokens: number, providerName: string): string {
+    const lines = [
+      ...(previous ? previous.split('\n') : []),
+      ...turns.map(turn => `${turn.role}: ${turn.content.split('\n')[0].substring(0, 160)}`)
+    ];
+
+    while (lines.length > 1 && this.countTokens(lines.join('\n'), providerName) > maxTokens) {
+      lines.shift();
+    }
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,231 @@
+// File: backend/src/core/llm/managers/EmbeddingCache.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { RedisCacheService } from '../../cache/RedisCacheService';
+
+export type EmbeddingCacheBackend = 'file' | 'redis' | 'memory' | 'off';
+
+export interface CachedEmbedding {
+  embedding: number[];
+  model: string;
+}
+
+export interface EmbeddingCacheStats {
+  backend: EmbeddingCacheBackend;
+  entries?: number;  // Not known for Redis
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 10000;
+
+/**
+ * Cache namespace for an embedding model. Vectors from different models or sizes are not
+ * interchangeable, so switching either never serves the old ones.
+ */
+export function embeddingNamespace(provider: string, embeddingModel: { model: string; dimensions: number } | null): string {
+  return embeddingModel ? `${provider}:${embeddingModel.model}:${embeddingModel.dimensions}` : provider;
+}
+
+/**
+ * Embeddings keyed by a hash of the embedding model and the exact text, so unchanged
+ * documents are never sent to the API twice - across restarts, re-indexing runs and services.
+ * The file backend keeps the most recently used EMBEDDING_CACHE_MAX_ENTRIES in memory and
+ * appends new ones to a JSONL file, compacted to those entries on startup;
+ * the Redis backend shares the cache between instances.
+ */
+export class EmbeddingCache {
+  private static instance: EmbeddingCache;
+  private backend: EmbeddingCacheBackend;
+  private entries: Map<string, CachedEmbedding> = new Map();  // Least recently used first
+  private maxEntries: number;
+  private redis: RedisCacheService | null = null;
+  private ready: Promise<void> | null = null;
+  private dataFile: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private stats = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+
+  private constructor() {
+    this.backend = (process.env.EMBEDDING_CACHE_BACKEND || 'file') as EmbeddingCacheBackend;
+    const dataDir = process.env.EMBEDDING_CACHE_DIR || path.join(process.cwd(), 'data', 'embeddings');
+    this.dataFile = path.join(dataDir, 'embeddings.jsonl');
+    this.maxEntries = parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '') || DEFAULT_MAX_ENTRIES;
+  }
+
+  static getInstance(): EmbeddingCache {
+    if (!EmbeddingCache.instance) {
+      EmbeddingCache.instance = new EmbeddingCache();
+    }
+    return EmbeddingCache.instance;
+  }
+
+  /**
+   * Return the embedding of every text, calling `embed` once with only the texts
+   * (deduplicated) that are not cached yet
+   */
+  async getOrEmbed(
+    namespace: string,
+    texts: string[],
+    embed: (missing: string[]) => Promise<CachedEmbedding[]>
+  ): Promise<{ embeddings: CachedEmbedding[]; hits: number }> {
+    const cached = await this.getMany(namespace, texts);
+    const missing = Array.from(new Set(texts.filter((_, i) => !cached[i])));
+
+    if (missing.length > 0) {
+      const fresh = await embed(missing);
+      await this.setMany(namespace, missing, fresh);
+
+      const byText = new Map(missing.map((text, i) => [text, fresh[i]]));
+      texts.forEach((text, i) => {
+        cached[i] = cached[i] || byText.get(text)!;
+      });
+    }
+
+    return {
+      embeddings: cached as CachedEmbedding[],
+      hits: texts.length - missing.length
+    };
+  }
+
+  async getMany(namespace: string, texts: string[]): Promise<Array<CachedEmbedding | null>> {
+    if (this.backend === 'off') {
+      return texts.map(() => null);
+    }
+
+    await this.ensureReady();
+    const keys = texts.map(text => this.hashKey(namespace, text));
+
+    const results = this.redis
+      ? await this.redis.mget<CachedEmbedding>(keys.map(key => `embedding:${key}`))
+      : keys.map(key => this.touch(key));
+
+    for (const result of results) {
+      if (result) {
+        this.stats.hits++;
+      } else {
+        this.stats.misses++;
+      }
+    }
+
+    return results;
+  }
+
+  async setMany(namespace: string, texts: string[], embeddings: CachedEmbedding[]): Promise<void> {
+    if (this.backend === 'off') {
+      return;
+    }
+
+    await this.ensureReady();
+    const keys = texts.map(text => this.hashKey(namespace, text));
+    this.stats.writes += keys.length;
+
+    if (this.redis) {
+      await this.redis.mset(keys.map((key, i) => ({ key: `embedding:${key}`, value: embeddings[i] })));
+      return;
+    }
+
+    keys.forEach((key, i) => this.remember(key, embeddings[i]));
+
+    if (this.backend === 'file') {
+      const lines = keys.map((key, i) => JSON.stringify({ key, ...embeddings[i] })).join('\n') + '\n';
+      this.writeQueue = this.writeQueue
+        .then(() => fs.promises.mkdir(path.dirname(this.dataFile), { recursive: true }))
+        .then(() => fs.promises.appendFile(this.dataFile, lines))
+        .catch(error => console.error('❌ Failed to persist embeddings:', error));
+    }
+  }
+
+  getStats(): EmbeddingCacheStats {
+    return {
+      backend: this.redis ? 'redis' : this.backend,
+      entries: this.redis ? undefined : this.entries.size,
+      ...this.stats
+    };
+  }
+
+  /**
+   * Wait for pending file writes (scripts call this before exiting)
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  // A hit moves the entry to the most recently used end
+  private touch(key: string): CachedEmbedding | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private remember(key: string, entry: CachedEmbedding): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+      this.stats.evictions++;
+    }
+  }
+
+  private hashKey(namespace: string, text: string): string {
+    return crypto.createHash('sha256').update(`${namespace}\n${text}`).digest('hex');
+  }
+
+  private ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.backend === 'redis' ? this.connectRedis() : this.loadFromFile();
+    }
+    return this.ready;
+  }
+
+  // Redis being down should not stop indexing - fall back to an in-process cache
+  private async connectRedis(): Promise<void> {
+    try {
+      const redis = new RedisCacheService();
+      await redis.initialize();
+      this.redis = redis;
+      console.log('✅ Embedding cache using Redis');
+    } catch (error) {
+      console.warn('⚠️  Embedding cache could not reach Redis, caching in memory:', (error as Error).message);
+      this.backend = 'memory';
+    }
+  }
+
+  private async loadFromFile(): Promise<void> {
+    if (this.backend !== 'file' || !fs.existsSync(this.dataFile)) {
+      return;
+    }
+
+    try {
+      const content = await fs.promises.readFile(this.dataFile, 'utf-8');
+      let lines = 0;
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        const { key, embedding, model } = JSON.parse(line);
+        this.remember(key, { embedding, model });
+        lines++;
+      }
+      console.log(`🧮 Loaded ${this.entries.size} cached embeddings from ${this.dataFile}`);
+
+      // Drop evicted and duplicate lines so the file does not outgrow the cache
+      if (lines > this.entries.size) {
+        const kept = Array.from(this.entries, ([key, entry]) => JSON.stringify({ key, ...entry })).join('\n') + '\n';
+        this.writeQueue = this.writeQueue
+          .then(() => fs.promises.writeFile(this.dataFile, kept))
+          .catch(error => console.error('❌ Failed to compact the embedding cache:', error));
+      }
+    } catch (error) {
+      console.error('❌ Failed to load embedding cache:', error);
+    }
+  }
+}
@@ -1,10 +1,73 @@
 // File: backend/src/core/llm/managers/LLMManager.ts
 
-import { LLMProvider, LLMConfig, LLMProviderFactory } from '../interfaces/LLMProvider';
+import {
+  LLMProvider,
+  LLMConfig,
+  LLMMessage,
+  LLMProviderFactory,
+  LLMProviderAttempt,
+  LLMFailoverResponse,
+  LLMStreamChunk,
+  LLMToolDefinition,
+  LLMToolChoice,
+  LLMProviderChainError,
+  LLMStructuredResponse,
+  LLMStructuredOutputError,
+  LLMModelNotFoundError,
+  LLMVisionUnavailableError,
+  EmbeddingResponse,
+  BatchEmbeddingResponse
+} from '../interfaces/LLMProvider';
 import { OpenAIProvider } from '../providers/OpenAIProvider';
 import { ClaudeProvider } from '../providers/ClaudeProvider';
-import { LocalLlamaProvider } from '../providers/LocalLlamaProvider';
+import { LocalLlamaProvider, LocalModelInfo, ModelPullProgress } from '../providers/LocalLlamaProvider';
 import { DeepSeekProvider } from '../providers/DeepSeekProvider';
+import { MockLLMProvider } from '../providers/MockLLMProvider';
+import { CircuitBreaker, CircuitBreakerSnapshot } from './CircuitBreaker';
+import { RequestScheduler, RequestPriority, RateLimits, SchedulerLease, SchedulerMetrics } from './RequestScheduler';
+import { UsageLedger, UsageTags } from './UsageLedger';
+import { EmbeddingCache, EmbeddingCacheStats, CachedEmbedding, embeddingNamespace } from './EmbeddingCache';
+import { StructuredSchema, describeSchema, extractJson, validateStructured } from '../utils/structuredOutput';
+import { decryptCredential } from '../utils/credentialCrypto';
+import { CompanyConfig, CompanyLLMCredentials, CompanyLLMProviderSettings } from '../../../types/CompanyTypes';
+import * as crypto from 'crypto';
+
+// Default provider order used when walking the fallback chain
+const DEFAULT_FALLBACK_ORDER = ['openai', 'claude', 'deepseek', 'local_llama'];
+
+// Models used when neither the environment nor the company names one
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'gpt-3.5-turbo',
+  claude: 'claude-3-haiku-20240307',
+  local_llama: 'llama2',
+  deepseek: 'deepseek-chat'
+};
+
+// Scheduler estimate for one image - providers bill roughly 100-1600 tokens depending on size and detail
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+// Company settings that affect routing
+export type RoutingCompanyConfig = Pick<CompanyConfig, 'preferredLLMProvider' | 'llmPriority'> &
+  Partial<Pick<CompanyConfig, 'id' | 'usageBudget' | 'llmCredentials'>>;
+
+// A provider instance built from a company's own key/model
+interface CompanyProviderEntry {
+  fingerprint: string;  // Hash of the settings it was built from - a config change rebuilds it
+  config?: LLMConfig;
+  provider?: LLMProvider;
+  failed?: boolean;     // Init failed - kept so the bad settings are not retried on every request
+  ready: Promise<LLMProvider | null>;
+}
+
+// Result of checking that the configured Ollama model is installed
+export interface LocalModelStatus {
+  model: string;
+  baseURL: string;
+  installed: boolean;
+  installedModels: string[];
+  error?: string;
+  checkedAt: Date;
+}
 
 class LLMProviderFactoryImpl implements LLMProviderFactory {
   createProvider(config: LLMConfig): LLMProvider {
@@ -17,13 +80,15 @@ class LLMProviderFactoryImpl implements LLMProviderFactory {
         return new LocalLlamaProvider();
       case 'deepseek':
         return new DeepSeekProvider();
+      case 'mock':
+        return new MockLLMProvider();
       default:
         throw new Error(`Unknown LLM provider: ${config.provider}`);
     }
   }
 
   getSupportedProviders(): string[] {
-    return ['openai', 'claude', 'local_llama', 'deepseek'];
+    return ['openai', 'claude', 'local_llama', 'deepseek', 'mock'];
   }
 }
 
@@ -34,9 +99,18 @@ export class LLMManager {
   private embeddingProvider: LLMProvider | null = null;
   private factory: LLMProviderFactory;
   private configs: Map<string, LLMConfig> = new Map();
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private companyProviders: Map<string, CompanyProviderEntry> = new Map();  // Keyed by "<companyId>:<provider>"
+  private scheduler: RequestScheduler;
+  private usageLedger: UsageLedger;
+  private embeddingCache: EmbeddingCache;
+  private localModelStatus: LocalModelStatus | null = null;
 
   private constructor() {
     this.factory = new LLMProviderFactoryImpl();
+    this.scheduler = new RequestScheduler();
+    this.usageLedger = UsageLedger.getInstance();
+    this.embeddingCache = EmbeddingCache.getInstance();
     this.loadConfigsFromEnvironment();
   }
 
@@ -62,11 +136,23 @@ export class LLMManager {
         try {
           await this.initializeProvider(providerName, config);
         } catch (error) {
-          console.warn(`⚠️  Failed to initialize ${providerName}:`, (error as Error).message);
+          if (error instanceof LLMModelNotFoundError) {
+            console.warn(`⚠️  ${error.message} - local_llama will not receive traffic until the model is pulled`);
+          } else {
+            console.warn(`⚠️  Failed to initialize ${providerName}:`, (error as Error).message);
+          }
         }
       }
     }
 
+    if (this.isMockMode()) {
+      // Offline mode - the mock provider serves completions and embeddings
+      await this.setActiveProvider('mock');
+      await this.setEmbeddingProvider('mock');
+      console.log('✅ LLM Manager initialized in mock mode');
+      return;
+    }
+
     // Set default active provider
     await this.setActiveProvider(process.env.DEFAULT_LLM_PROVIDER || 'openai');
     
@@ -83,7 +169,14 @@ export class LLMManager {
     console.log(`🔧 Initializing ${providerName} provider...`);
 
     const provider = this.factory.createProvider(config);
-    await provider.initialize(config);
+    try {
+      await provider.initialize(config);
+    } finally {
+      // The local model is checked at startup - remember the outcome for the admin routes and health
+      if (providerName === 'local_llama') {
+        await this.updateLocalModelStatus(config);
+      }
+    }
     
     this.providers.set(providerName, provider);
     console.log(`✅ ${providerName} provider initialized`);
@@ -151,10 +244,87 @@ export class LLMManager {
   }
 
   /**
-   * Get a specific provider by name
+   * Get a specific provider by name - the company's own instance when it has one
    */
-  getProvider(providerName: string): LLMProvider | null {
-    return this.providers.get(providerName) || null;
+  getProvider(providerName: string, companyConfig?: RoutingCompanyConfig): LLMProvider | null {
+    return this.resolveProvider(providerName, companyConfig) || null;
+  }
+
+  /**
+   * Whether an embedding provider has been set
+   */
+  hasEmbeddingProvider(): boolean {
+    return this.embeddingProvider !== null;
+  }
+
+  /**
+   * Generate an embedding with the current embedding provider
+   */
+  async generateEmbedding(
+    text: string,
+    options: { priority?: RequestPriority; companyId?: string } = {}
+  ): Promise<EmbeddingResponse> {
+    const response = await this.generateEmbeddings([text], options);
+
+    return {
+      embedding: response.embeddings[0],
+      model: response.model,
+      usage: response.usage
+    };
+  }
+
+  /**
+   * Embed many texts with the current embedding provider. Texts already in the embedding
+   * cache are not sent again; the rest go out in scheduled batches of EMBEDDING_BATCH_SIZE.
+   */
+  async generateEmbeddings(
+    texts: string[],
+    options: { priority?: RequestPriority; companyId?: string } = {}
+  ): Promise<BatchEmbeddingResponse> {
+    const provider = this.getEmbeddingProvider();
+    const batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '100');
+    let totalTokens = 0;
+
+    const { embeddings } = await this.embeddingCache.getOrEmbed(embeddingNamespace(provider.name, provider.getEmbeddingModel()), texts, async missing => {
+      const results: CachedEmbedding[] = [];
+
+      for (let i = 0; i < missing.length; i += batchSize) {
+        const batch = missing.slice(i, i + batchSize);
+        const lease = await this.scheduler.acquire({
+          bucket: provider.name,
+          limits: this.getRateLimits(this.configs.get(provider.name)),
+          priority: options.priority,
+          companyId: options.companyId,
+          estimatedTokens: Math.ceil(batch.reduce((sum, text) => sum + text.length, 0) / 4),
+          timeoutMs: this.getQueueTimeout()
+        });
+
+        let usedTokens: number | undefined;
+        try {
+          const response = await provider.generateEmbeddings(batch);
+          usedTokens = response.usage?.totalTokens;
+          totalTokens += usedTokens || 0;
+          results.push(...response.embeddings.map(embedding => ({ embedding, model: response.model })));
+        } finally {
+          lease.release(usedTokens);
+        }
+      }
+
+      return results;
+    });
+
+    return {
+      embeddings: embeddings.map(entry => entry.embedding),
+      model: embeddings[0]?.model || provider.name,
+      usage: { totalTokens }
+    };
+  }
+
+  /**
+   * Hit/miss counts of the shared embedding cache
+   */
+  getEmbeddingCacheStats(): EmbeddingCacheStats {
+    return this.embeddingCache.getStats();
   }
 
   /**
@@ -165,7 +335,525 @@ export class LLMManager {
   }
 
   /**
-   * Get provider health status for all providers
+   * Generate a chat completion, walking the provider fallback chain until one answers.
+   * Timeouts, 429s and 5xx errors are retried on the same provider before failing over.
+   */
+  async generateCompletion(
+    messages: LLMMessage[],
+    options: {
+      maxTokens?: number;
+      temperature?: number;
+      timeout?: number;
+      retries?: number;
+      tools?: LLMToolDefinition[];
+      toolChoice?: LLMToolChoice;
+      responseFormat?: 'text' | 'json';
+      companyConfig?: RoutingCompanyConfig;
+      providerChain?: string[];
+      usage?: UsageTags;
+      priority?: RequestPriority;
+    } = {}
+  ): Promise<LLMFailoverResponse> {
+    await this.prepareCompanyProviders(options.companyConfig);
+
+    const chain = this.getRequestChain(messages, options);
+    const attempts: LLMProviderAttempt[] = [];
+    let lastError: Error | null = null;
+
+    // If every circuit is open, try the chain anyway rather than failing outright
+    const allOpen = chain.every(name => !this.getCircuitBreaker(name, options.companyConfig).isAvailable());
+
+    for (const providerName of chain) {
+      const provider = this.resolveProvider(providerName, options.companyConfig);
+      if (!provider) {
+        continue;
+      }
+
+      const breaker = this.getCircuitBreaker(providerName, options.companyConfig);
+      if (!breaker.tryAcquire() && !allOpen) {
+        console.log(`⏭️  Skipping ${providerName}: circuit ${breaker.getState()}`);
+        continue;
+      }
+
+      const maxRetries = options.retries ?? this.resolveConfig(providerName, options.companyConfig)?.retries ?? 1;
+
+      for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+        const startTime = Date.now();
+        let lease: SchedulerLease | undefined;
+
+        try {
+          lease = await this.acquireSlot(providerName, messages, options);
+
+          const response = await this.withTimeout(
+            provider.generateCompletion(messages, {
+              maxTokens: options.maxTokens,
+              temperature: options.temperature,
+              timeout: options.timeout,
+              tools: options.tools,
+              toolChoice: options.toolChoice,
+              responseFormat: options.responseFormat
+            }),
+            options.timeout,
+            providerName
+          );
+
+          attempts.push({
+            provider: providerName,
+            attempt,
+            success: true,
+            latency: Date.now() - startTime
+          });
+          breaker.recordSuccess();
+
+          if (providerName !== chain[0]) {
+            console.log(`🔀 Completion served by fallback provider: ${providerName}`);
+          }
+
+          const usageRecord = this.recordUsage(provider, providerName, response.model, messages, response.content, response.usage, options);
+          lease.release(usageRecord.totalTokens);
+
+          return {
+            ...response,
+            providerUsed: providerName,
+            attempts,
+            cost: usageRecord.cost
+          };
+
+        } catch (error) {
+          lease?.release();
+          lastError = error as Error;
+
+          // Never got a slot - the provider itself did not fail
+          if (lastError.name === 'LLMQueueTimeoutError') {
+            breaker.releaseProbe();
+            attempts.push({ provider: providerName, attempt, success: false, latency: Date.now() - startTime, error: lastError.message });
+            console.warn(`⏳ ${providerName} queue is full, moving to next provider:`, lastError.message);
+            break;
+          }
+
+          const retryable = this.isRetryableError(error);
+          this.recordBreakerFailure(breaker, lastError, retryable);
+
+          attempts.push({
+            provider: providerName,
+            attempt,
+            success: false,
+            latency: Date.now() - startTime,
+            retryable,
+            error: lastError.message
+          });
+
+          if (!retryable || attempt > maxRetries || breaker.isOpen()) {
+            console.warn(`⚠️  ${providerName} failed, moving to next provider:`, lastError.message);
+            break;
+          }
+
+          const delay = this.getRetryDelay(attempt);
+          console.warn(`🔁 ${providerName} failed with retryable error, retrying in ${delay}ms (retry ${attempt}/${maxRetries})`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    throw new LLMProviderChainError(attempts, lastError);
+  }
+
+  /**
+   * Generate a JSON object that satisfies a Joi or JSON schema.
+   * Uses the provider's JSON mode, then validates; on invalid output the model is re-prompted
+   * with the validation errors up to maxRepairs times before LLMStructuredOutputError is thrown.
+   */
+  async generateStructured<T = any>(
+    messages: LLMMessage[],
+    schema: StructuredSchema,
+    options: Omit<Parameters<LLMManager['generateCompletion']>[1], 'tools' | 'toolChoice' | 'responseFormat'> & {
+      maxRepairs?: number;
+    } = {}
+  ): Promise<LLMStructuredResponse<T>> {
+    const { maxRepairs = 2, ...completionOptions } = options;
+
+    const instruction = `Respond with a single JSON object only - no markdown, no commentary. It must match this JSON schema:
+${describeSchema(schema)}`;
+
+    // Add the format instruction to the system prompt (JSON modes also require the word "JSON" in the prompt)
+    const conversation: LLMMessage[] = messages.some(msg => msg.role === 'system')
+      ? messages.map(msg => msg.role === 'system' ? { ...msg, content: `${msg.content}\n\n${instruction}` } : msg)
+      : [{ role: 'system', content: instruction }, ...messages];
+
+    let errors: string[] = [];
+    let rawContent = '';
+
+    for (let repairs = 0; repairs <= maxRepairs; repairs++) {
+      const response = await this.generateCompletion(conversation, {
+        ...completionOptions,
+        responseFormat: 'json'
+      });
+      rawContent = response.content;
+
+      try {
+        const validated = validateStructured<T>(extractJson(rawContent), schema);
+        errors = validated.errors;
+        if (errors.length === 0) {
+          return { ...response, data: validated.value, repairs };
+        }
+      } catch (error) {
+        errors = [`Response is not valid JSON: ${(error as Error).message}`];
+      }
+
+      if (repairs < maxRepairs) {
+        console.warn(`🔧 Structured output from ${response.providerUsed} invalid, requesting repair (${repairs + 1}/${maxRepairs}):`, errors.slice(0, 3).join('; '));
+        conversation.push(
+          { role: 'assistant', content: rawContent },
+          {
+            role: 'user',
+            content: `That response did not match the required schema:\n- ${errors.join('\n- ')}\n\nReply again with only the corrected JSON object.`
+          }
+        );
+      }
+    }
+
+    throw new LLMStructuredOutputError(errors, rawContent, maxRepairs);
+  }
+
+  /**
+   * Stream a chat completion from the first provider in the chain that starts answering.
+   * Failover only happens before the first token - once text has reached the caller a
+   * mid-stream failure is rethrown, since the partial answer cannot be taken back.
+   */
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: {
+      maxTokens?: number;
+      temperature?: number;
+      timeout?: number;
+      companyConfig?: RoutingCompanyConfig;
+      providerChain?: string[];
+      usage?: UsageTags;
+      priority?: RequestPriority;
+    } = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    await this.prepareCompanyProviders(options.companyConfig);
+
+    const chain = this.getRequestChain(messages, options);
+    const attempts: LLMProviderAttempt[] = [];
+    let lastError: Error | null = null;
+
+    const allOpen = chain.every(name => !this.getCircuitBreaker(name, options.companyConfig).isAvailable());
+
+    for (const providerName of chain) {
+      const provider = this.resolveProvider(providerName, options.companyConfig);
+      if (!provider) {
+        continue;
+      }
+
+      const breaker = this.getCircuitBreaker(providerName, options.companyConfig);
+      if (!breaker.tryAcquire() && !allOpen) {
+        console.log(`⏭️  Skipping ${providerName}: circuit ${breaker.getState()}`);
+        continue;
+      }
+
+      const startTime = Date.now();
+      let emitted = false;
+      let settled = false;
+      let streamedContent = '';
+      let streamedModel = this.resolveConfig(providerName, options.companyConfig)?.model || providerName;
+      let streamedUsage: LLMStreamChunk['usage'];
+      let lease: SchedulerLease | undefined;
+      let usedTokens: number | undefined;
+
+      try {
+        lease = await this.acquireSlot(providerName, messages, options);
+
+        for await (const chunk of provider.streamCompletion(messages, {
+          maxTokens: options.maxTokens,
+          temperature: options.temperature,
+          timeout: options.timeout
+        })) {
+          emitted = true;
+          streamedContent += chunk.content;
+          streamedModel = chunk.model || streamedModel;
+          streamedUsage = chunk.usage || streamedUsage;
+          yield { ...chunk, provider: providerName };
+        }
+
+        settled = true;
+        breaker.recordSuccess();
+        usedTokens = this.recordUsage(provider, providerName, streamedModel, messages, streamedContent, streamedUsage, options).totalTokens;
+
+        if (providerName !== chain[0]) {
+          console.log(`🔀 Stream served by fallback provider: ${providerName}`);
+        }
+        return;
+
+      } catch (error) {
+        settled = true;
+        lastError = error as Error;
+
+        if (lastError.name === 'LLMQueueTimeoutError') {
+          breaker.releaseProbe();
+          attempts.push({ provider: providerName, attempt: 1, success: false, latency: Date.now() - startTime, error: lastError.message });
+          console.warn(`⏳ ${providerName} queue is full, moving to next provider:`, lastError.message);
+          continue;
+        }
+
+        this.recordBreakerFailure(breaker, lastError, this.isRetryableError(error));
+
+        attempts.push({
+          provider: providerName,
+          attempt: 1,
+          success: false,
+          latency: Date.now() - startTime,
+          retryable: this.isRetryableError(error),
+          error: lastError.message
+        });
+
+        if (emitted) {
+          throw lastError;
+        }
+
+        console.warn(`⚠️  ${providerName} stream failed before first token, moving to next provider:`, lastError.message);
+
+      } finally {
+        // Caller stopped reading early (e.g. client disconnected) - the provider was answering fine
+        if (!settled) {
+          breaker.recordSuccess();
+          usedTokens = this.recordUsage(provider, providerName, streamedModel, messages, streamedContent, streamedUsage, options).totalTokens;
+        }
+        lease?.release(usedTokens);
+      }
+    }
+
+    throw new LLMProviderChainError(attempts, lastError);
+  }
+
+  /**
+   * Build the ordered fallback chain for a company.
+   * The company's preferred provider goes first, the rest follow the llmPriority ordering.
+   * Without company settings the active provider leads the chain.
+   */
+  getProviderChain(companyConfig?: RoutingCompanyConfig): string[] {
+    const configuredOrder = process.env.LLM_FALLBACK_ORDER
+      ? process.env.LLM_FALLBACK_ORDER.split(',').map(name => name.trim()).filter(Boolean)
+      : DEFAULT_FALLBACK_ORDER;
+
+    // Any initialized provider missing from the configured order goes last.
+    // A company's own provider instances count too, even where the platform has no key.
+    const available = Array.from(new Set([
+      ...this.providers.keys(),
+      ...Object.keys(companyConfig?.llmCredentials || {})
+    ])).filter(name => this.resolveProvider(name, companyConfig));
+
+    const baseOrder = [
+      ...configuredOrder.filter(name => available.includes(name)),
+      ...available.filter(name => !configuredOrder.includes(name))
+    ];
+
+    // Providers whose circuit is open move behind the ones that can take traffic
+    const ordered = this.orderByCircuitState(
+      this.orderByPriority(baseOrder, companyConfig?.llmPriority, companyConfig),
+      companyConfig
+    );
+
+    // Over the monthly budget - send the company to its downgrade provider, or the cheapest one
+    if (companyConfig?.id && companyConfig.usageBudget) {
+      const budget = this.usageLedger.getBudgetStatus(companyConfig.id, companyConfig.usageBudget);
+      if (budget.state === 'hard_limit') {
+        const cheapest = this.orderByCircuitState(this.orderByPriority(baseOrder, 'cost', companyConfig), companyConfig);
+        const downgrade = companyConfig.usageBudget.downgradeProvider;
+        const leader = downgrade && baseOrder.includes(downgrade) ? downgrade : cheapest[0];
+        return leader ? [leader, ...cheapest.filter(name => name !== leader)] : cheapest;
+      }
+    }
+
+    const leader = companyConfig
+      ? companyConfig.preferredLLMProvider
+      : this.activeProvider?.name;
+
+    if (leader && baseOrder.includes(leader)) {
+      return [leader, ...ordered.filter(name => name !== leader)];
+    }
+
+    return ordered;
+  }
+
+  /**
+   * The company's fallback chain narrowed to providers whose model accepts images
+   */
+  getVisionProviderChain(companyConfig?: RoutingCompanyConfig): string[] {
+    return this.getProviderChain(companyConfig)
+      .filter(name => this.resolveProvider(name, companyConfig)?.getCapabilities().supportsVision);
+  }
+
+  /**
+   * Create (once) the provider instances for the providers a company has its own
+   * key or model for. Instances are rebuilt when the company's settings change.
+   */
+  async prepareCompanyProviders(companyConfig?: RoutingCompanyConfig): Promise<void> {
+    if (!companyConfig?.id || !companyConfig.llmCredentials || this.isMockMode()) {
+      return;
+    }
+
+    const pending: Promise<LLMProvider | null>[] = [];
+
+    for (const [providerName, settings] of Object.entries(companyConfig.llmCredentials)) {
+      if (!settings) {
+        continue;
+      }
+
+      const key = `${companyConfig.id}:${providerName}`;
+      const fingerprint = this.fingerprintSettings(settings);
+      const existing = this.companyProviders.get(key);
+
+      if (existing?.fingerprint === fingerprint) {
+        pending.push(existing.ready);
+        continue;
+      }
+
+      if (existing) {
+        this.releaseCompanyProvider(key, existing);
+      }
+
+      const entry: CompanyProviderEntry = { fingerprint, ready: Promise.resolve(null) };
+      entry.ready = this.createCompanyProvider(companyConfig.id, providerName, settings)
+        .then(({ provider, config }) => {
+          entry.provider = provider;
+          entry.config = config;
+          return provider;
+        })
+        .catch(error => {
+          // Left in place so a bad key is not retried on every request; fixing the config rebuilds it
+          console.warn(`⚠️  Failed to initialize ${providerName} for company ${companyConfig.id}:`, (error as Error).message);
+          entry.failed = true;
+          return null;
+        });
+
+      this.companyProviders.set(key, entry);
+      pending.push(entry.ready);
+    }
+
+    await Promise.all(pending);
+  }
+
+  /**
+   * Drop a company's provider instances (e.g. after the company is deleted)
+   */
+  releaseCompanyProviders(companyId: string): void {
+    for (const [key, entry] of this.companyProviders) {
+      if (key.startsWith(`${companyId}:`)) {
+        this.releaseCompanyProvider(key, entry);
+      }
+    }
+  }
+
+  /**
+   * Company provider instances and whether they initialized, keyed by "<companyId>:<provider>"
+   */
+  getCompanyProviderStatus(): Record<string, { model?: string; ready: boolean }> {
+    const status: Record<string, { model?: string; ready: boolean }> = {};
+
+    for (const [key, entry] of this.companyProviders) {
+      status[key] = { model: entry.config?.model, ready: !!entry.provider };
+    }
+
+    return status;
+  }
+
+  /**
+   * Whether the configured local model was installed when last checked (null when Ollama is not configured)
+   */
+  getLocalModelStatus(): LocalModelStatus | null {
+    return this.localModelStatus;
+  }
+
+  /**
+   * Models installed on the platform's Ollama server
+   */
+  listLocalModels(): Promise<LocalModelInfo[]> {
+    return this.getLocalModelClient().listModels();
+  }
+
+  /**
+   * Pull a model onto the Ollama server, then re-check the configured model so
+   * local_llama starts taking traffic if it was the one missing
+   */
+  async pullLocalModel(model: string, onProgress?: (progress: ModelPullProgress) => void): Promise<LocalModelStatus | null> {
+    await this.getLocalModelClient().pullModel(model, onProgress);
+    return this.verifyLocalModel();
+  }
+
+  /**
+   * Load a model into Ollama's memory ahead of traffic (defaults to the configured model)
+   */
+  warmLocalModel(model?: string, keepAlive?: string): Promise<{ model: string; loadDurationMs: number; totalDurationMs: number }> {
+    return this.getLocalModelClient().warmModel(model || this.configs.get('local_llama')?.model, keepAlive);
+  }
+
+  /**
+   * Re-check the configured local model. Once it is installed the shared provider is
+   * initialized, and company instances that failed for a missing model are rebuilt on their next request.
+   */
+  async verifyLocalModel(): Promise<LocalModelStatus | null> {
+    const config = this.configs.get('local_llama');
+    if (!config) {
+      return null;
+    }
+
+    const status = await this.updateLocalModelStatus(config);
+
+    if (status.installed && !this.providers.has('local_llama')) {
+      try {
+        await this.initializeProvider('local_llama', config);
+      } catch (error) {
+        console.warn('⚠️  Failed to initialize local_llama:', (error as Error).message);
+      }
+    }
+
+    for (const [key, entry] of this.companyProviders) {
+      if (key.endsWith(':local_llama') && entry.failed) {
+        this.releaseCompanyProvider(key, entry);
+      }
+    }
+
+    return this.localModelStatus;
+  }
+
+  /**
+   * Get circuit breaker state for every initialized provider
+   */
+  getCircuitBreakerStates(): Record<string, CircuitBreakerSnapshot> {
+    const states: Record<string, CircuitBreakerSnapshot> = {};
+
+    for (const name of this.providers.keys()) {
+      states[name] = this.getCircuitBreaker(name).getSnapshot();
+    }
+
+    for (const [key, entry] of this.companyProviders) {
+      if (entry.provider) {
+        states[key] = this.getOrCreateBreaker(key).getSnapshot();
+      }
+    }
+
+    return states;
+  }
+
+  /**
+   * Queue depth by priority and company, and per-provider rate limit headroom
+   */
+  getQueueMetrics(): SchedulerMetrics {
+    return this.scheduler.getMetrics();
+  }
+
+  /**
+   * Check whether a provider can currently take traffic
+   */
+  isProviderAvailable(providerName: string): boolean {
+    return this.providers.has(providerName) && this.getCircuitBreaker(providerName).isAvailable();
+  }
+
+  /**
+   * Get provider health status for all providers, with each one's circuit state.
+   * Reporting only - circuits open and close on real traffic, so a provider that has
+   * recovered gets its half-open probe whatever the last poll said.
    */
   async getHealthStatus(): Promise<Record<string, any>> {
     const status: Record<string, any> = {};
@@ -182,6 +870,8 @@ export class LLMManager {
           lastCheck: new Date()
         };
       }
+
+      status[name].circuit = this.getCircuitBreaker(name).getState();
     }
 
     return status;
@@ -207,9 +897,9 @@ export class LLMManager {
     const costs = this.getCostEstimates(promptTokens, completionTokens);
     const healthStatus = await this.getHealthStatus();
 
-    // Filter to only healthy providers
+    // Filter to only healthy providers with a closed circuit
     const healthyProviders = Object.keys(costs).filter(
-      name => healthStatus[name]?.status === 'healthy'
+      name => healthStatus[name]?.status === 'healthy' && this.isProviderAvailable(name)
     );
 
     if (healthyProviders.length === 0) {
@@ -232,16 +922,19 @@ export class LLMManager {
     const healthStatus = await this.getHealthStatus();
 
     const healthyProviders = Object.keys(healthStatus).filter(
-      name => healthStatus[name]?.status === 'healthy'
+      name => healthStatus[name]?.status === 'healthy' && this.isProviderAvailable(name)
     );
 
     if (healthyProviders.length === 0) {
       throw new Error('No healthy providers available');
     }
 
-    // Find fastest healthy provider
+    // Find fastest healthy provider, penalising latency by observed error rate
+    const weightedLatency = (name: string) =>
+      healthStatus[name].latency * (1 + (healthStatus[name].errorRate || 0));
+
     const fastestProvider = healthyProviders.reduce((fastest, current) => 
-      healthStatus[current].latency < healthStatus[fastest].latency ? current : fastest
+      weightedLatency(current) < weightedLatency(fastest) ? current : fastest
     );
 
     await this.setActiveProvider(fastestProvider);
@@ -267,7 +960,7 @@ export class LLMManager {
         // Prefer Claude for quality, fallback to GPT-4
         const qualityProviders = ['claude', 'openai'];
         for (const provider of qualityProviders) {
-          if (this.providers.has(provider)) {
+          if (this.isProviderAvailable(provider)) {
             const health = await this.providers.get(provider)!.getHealthStatus();
             if (health.status === 'healthy') {
               await this.setActiveProvider(provider);
@@ -282,19 +975,374 @@ export class LLMManager {
     }
   }
 
+  /**
+   * Write a completed call to the usage ledger. Token counts fall back to a
+   * characters/4 estimate when the provider does not report usage.
+   */
+  private recordUsage(
+    provider: LLMProvider,
+    providerName: string,
+    model: string,
+    messages: LLMMessage[],
+    content: string,
+    usage: { promptTokens: number; completionTokens: number } | undefined,
+    options: { companyConfig?: RoutingCompanyConfig; usage?: UsageTags }
+  ) {
+    const promptTokens = usage?.promptTokens ?? Math.ceil(messages.reduce((sum, msg) => sum + msg.content.length, 0) / 4);
+    const completionTokens = usage?.completionTokens ?? Math.ceil(content.length / 4);
+    const companyId = options.usage?.companyId || options.companyConfig?.id || 'default';
+
+    return this.usageLedger.record({
+      companyId,
+      userId: options.usage?.userId,
+      platform: options.usage?.platform,
+      operation: options.usage?.operation,
+      provider: providerName,
+      model,
+      promptTokens,
+      completionTokens,
+      cost: provider.estimateCost(promptTokens, completionTokens),
+      estimated: !usage,
+      downgraded: !!options.companyConfig?.usageBudget &&
+        this.usageLedger.getBudgetStatus(companyId, options.companyConfig.usageBudget).state === 'hard_limit'
+    }, options.companyConfig?.usageBudget);
+  }
+
+  /**
+   * Sort providers by the company's priority, keeping the base order for ties
+   */
+  private orderByPriority(
+    providerNames: string[],
+    priority?: 'cost' | 'speed' | 'quality',
+    companyConfig?: RoutingCompanyConfig
+  ): string[] {
+    const provider = (name: string) => this.resolveProvider(name, companyConfig)!;
+
+    switch (priority) {
+      case 'cost':
+        return [...providerNames].sort((a, b) =>
+          provider(a).estimateCost(1000, 1000) - provider(b).estimateCost(1000, 1000)
+        );
+
+      case 'speed':
+        return [...providerNames].sort((a, b) =>
+          provider(a).getCapabilities().averageLatency - provider(b).getCapabilities().averageLatency
+        );
+
+      case 'quality':
+      default:
+        return providerNames;
+    }
+  }
+
+  /**
+   * Stable sort: providers that can take traffic (closed, or due a half-open probe) first
+   */
+  private orderByCircuitState(providerNames: string[], companyConfig?: RoutingCompanyConfig): string[] {
+    const rank = (name: string) => this.getCircuitBreaker(name, companyConfig).isAvailable() ? 0 : 1;
+    return [...providerNames].sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * A company's own provider instance has its own circuit, so one tenant's
+   * exhausted key does not take the provider out for everyone else
+   */
+  private getCircuitBreaker(providerName: string, companyConfig?: RoutingCompanyConfig): CircuitBreaker {
+    return this.getOrCreateBreaker(this.getInstanceKey(providerName, companyConfig));
+  }
+
+  // "<companyId>:<provider>" for a company's own instance, otherwise the provider name
+  private getInstanceKey(providerName: string, companyConfig?: RoutingCompanyConfig): string {
+    return this.hasCompanySettings(providerName, companyConfig) ? `${companyConfig!.id}:${providerName}` : providerName;
+  }
+
+  /**
+   * Wait for the provider instance's rate limits to admit the request.
+   * Tokens are estimated as prompt characters / 4, a flat allowance per image and the completion allowance.
+   */
+  private acquireSlot(
+    providerName: string,
+    messages: LLMMessage[],
+    options: { maxTokens?: number; companyConfig?: RoutingCompanyConfig; usage?: UsageTags; priority?: RequestPriority }
+  ): Promise<SchedulerLease> {
+    const config = this.resolveConfig(providerName, options.companyConfig);
+    const promptTokens = Math.ceil(messages.reduce((sum, msg) => sum + msg.content.length, 0) / 4) +
+      messages.reduce((sum, msg) => sum + (msg.images?.length || 0), 0) * IMAGE_TOKEN_ESTIMATE;
+
+    return this.scheduler.acquire({
+      bucket: this.getInstanceKey(providerName, options.companyConfig),
+      limits: this.getRateLimits(config),
+      priority: options.priority,
+      companyId: options.usage?.companyId || options.companyConfig?.id,
+      estimatedTokens: promptTokens + (options.maxTokens ?? config?.maxTokens ?? 500),
+      timeoutMs: this.getQueueTimeout()
+    });
+  }
+
+  /**
+   * The chain a request walks - the caller's or the company's - narrowed to vision-capable
+   * providers when a message carries images, so text-only models never receive them
+   */
+  private getRequestChain(messages: LLMMessage[], options: { providerChain?: string[]; companyConfig?: RoutingCompanyConfig }): string[] {
+    const chain = options.providerChain || this.getProviderChain(options.companyConfig);
+    if (!messages.some(msg => msg.images?.length)) {
+      return chain;
+    }
+
+    const visionChain = chain.filter(name => this.resolveProvider(name, options.companyConfig)?.getCapabilities().supportsVision);
+    if (visionChain.length === 0) {
+      throw new LLMVisionUnavailableError(chain);
+    }
+    return visionChain;
+  }
+
+  private getRateLimits(config?: LLMConfig): RateLimits {
+    return {
+      requestsPerMinute: config?.requestsPerMinute,
+      tokensPerMinute: config?.tokensPerMinute,
+      maxConcurrent: config?.maxConcurrent ?? parseInt(process.env.LLM_MAX_CONCURRENT_REQUESTS || '5')
+    };
+  }
+
+  private getQueueTimeout(): number {
+    return parseInt(process.env.LLM_QUEUE_TIMEOUT_MS || '30000');
+  }
+
+  private getLocalModelClient(): LocalLlamaProvider {
+    return new LocalLlamaProvider(this.configs.get('local_llama')?.baseURL);
+  }
+
+  private async updateLocalModelStatus(config: LLMConfig): Promise<LocalModelStatus> {
+    const client = new LocalLlamaProvider(config.baseURL);
+    const status: LocalModelStatus = {
+      model: config.model,
+      baseURL: config.baseURL || '',
+      installed: false,
+      installedModels: [],
+      checkedAt: new Date()
+    };
+
+    try {
+      status.installedModels = (await client.listModels()).map(model => model.name);
+      status.installed = status.installedModels.some(name => LocalLlamaProvider.isSameModel(name, config.model));
+      if (!status.installed) {
+        status.error = new LLMModelNotFoundError('local_llama', config.model, status.installedModels).message;
+      }
+    } catch (error) {
+      status.error = (error as Error).message;
+    }
+
+    this.localModelStatus = status;
+    return status;
+  }
+
+  private getOrCreateBreaker(name: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(name);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, {
+        failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5'),
+        cooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '30000')
+      });
+      this.circuitBreakers.set(name, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * The provider instance to use for a company: its own instance when it has settings
+   * for the provider (never the platform's key), otherwise the shared one
+   */
+  private resolveProvider(providerName: string, companyConfig?: RoutingCompanyConfig): LLMProvider | undefined {
+    if (this.hasCompanySettings(providerName, companyConfig)) {
+      return this.getCompanyEntry(providerName, companyConfig!)?.provider;
+    }
+    return this.providers.get(providerName);
+  }
+
+  private resolveConfig(providerName: string, companyConfig?: RoutingCompanyConfig): LLMConfig | undefined {
+    if (this.hasCompanySettings(providerName, companyConfig)) {
+      return this.getCompanyEntry(providerName, companyConfig!)?.config;
+    }
+    return this.configs.get(providerName);
+  }
+
+  private hasCompanySettings(providerName: string, companyConfig?: RoutingCompanyConfig): boolean {
+    return !!companyConfig?.id &&
+      !!companyConfig.llmCredentials?.[providerName as keyof CompanyLLMCredentials] &&
+      !this.isMockMode();
+  }
+
+  // Only an entry built from the company's current settings counts
+  private getCompanyEntry(providerName: string, companyConfig: RoutingCompanyConfig): CompanyProviderEntry | undefined {
+    const entry = this.companyProviders.get(`${companyConfig.id}:${providerName}`);
+    const settings = companyConfig.llmCredentials?.[providerName as keyof CompanyLLMCredentials];
+    return entry && settings && entry.fingerprint === this.fingerprintSettings(settings) ? entry : undefined;
+  }
+
+  /**
+   * Build a provider from the company's settings layered over the platform config for it
+   */
+  private async createCompanyProvider(
+    companyId: string,
+    providerName: string,
+    settings: CompanyLLMProviderSettings
+  ): Promise<{ provider: LLMProvider; config: LLMConfig }> {
+    // The platform's key is only ever sent to the platform's host - a company pointing a
+    // provider somewhere else brings its own key (Ollama takes none)
+    if (settings.baseURL && !settings.apiKey && providerName !== 'local_llama') {
+      throw new Error(`${providerName} needs the company's own apiKey when a custom baseURL is set`);
+    }
+
+    const base = this.configs.get(providerName);
+    const config: LLMConfig = {
+      maxTokens: 500,
+      temperature: 0.7,
+      timeout: providerName === 'local_llama' ? 60000 : 30000,
+      ...base,
+      provider: providerName as LLMConfig['provider'],
+      model: settings.model || base?.model || DEFAULT_MODELS[providerName],
+      apiKey: settings.apiKey ? decryptCredential(settings.apiKey) : base?.apiKey,
+      baseURL: settings.baseURL || base?.baseURL,
+      requestsPerMinute: settings.requestsPerMinute ?? base?.requestsPerMinute,
+      tokensPerMinute: settings.tokensPerMinute ?? base?.tokensPerMinute
+    };
+
+    const provider = this.factory.createProvider(config);
+    await provider.initialize(config);
+
+    console.log(`✅ ${providerName} provider initialized for company ${companyId} (${config.model}${settings.apiKey ? ', own key' : ''})`);
+    return { provider, config };
+  }
+
+  private releaseCompanyProvider(key: string, entry: CompanyProviderEntry): void {
+    this.companyProviders.delete(key);
+    this.circuitBreakers.delete(key);
+    entry.provider?.disconnect().catch(error => {
+      console.error(`❌ Error disconnecting ${key}:`, error);
+    });
+  }
+
+  private fingerprintSettings(settings: CompanyLLMProviderSettings): string {
+    return crypto.createHash('sha256')
+      .update(JSON.stringify([settings.apiKey, settings.model, settings.baseURL, settings.requestsPerMinute, settings.tokensPerMinute]))
+      .digest('hex');
+  }
+
+  /**
+   * Only provider outages count against a circuit: retryable errors and failed connections.
+   * A rejected request (400, content policy, ...) is about that prompt, and opening the
+   * circuit for it would take the provider away from every other tenant.
+   */
+  private recordBreakerFailure(breaker: CircuitBreaker, error: Error, retryable: boolean): void {
+    if (retryable || this.isTransportError(error)) {
+      breaker.recordFailure(error);
+    } else {
+      breaker.releaseProbe();
+    }
+  }
+
+  /**
+   * The request never got an HTTP answer: refused or dropped connections, DNS failures
+   */
+  private isTransportError(error: any): boolean {
+    if (!error) {
+      return false;
+    }
+
+    const code = error.code || error.cause?.code;
+    if (['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'UND_ERR_SOCKET'].includes(code)) {
+      return true;
+    }
+
+    return error.name === 'APIConnectionError' || /fetch failed|socket hang up|network error/i.test(error.message || '');
+  }
+
+  /**
+   * Timeouts, rate limits (429) and server errors (5xx) are worth retrying
+   */
+  private isRetryableError(error: any): boolean {
+    if (!error) {
+      return false;
+    }
+
+    const status = typeof error.status === 'number'
+      ? error.status
+      : this.extractStatusCode(error.message || '');
+
+    if (status === 429 || (status !== null && status >= 500)) {
+      return true;
+    }
+
+    if (['TimeoutError', 'AbortError', 'APIConnectionTimeoutError'].includes(error.name)) {
+      return true;
+    }
+
+    return /timed? ?out/i.test(error.message || '');
+  }
+
+  /**
+   * Providers report HTTP failures as "<Provider> API error: <status> ..."
+   */
+  private extractStatusCode(message: string): number | null {
+    const match = message.match(/error:?\s*(\d{3})\b/i);
+    return match ? parseInt(match[1]) : null;
+  }
+
+  private getRetryDelay(attempt: number): number {
+    const baseDelay = parseInt(process.env.LLM_RETRY_BASE_DELAY || '500');
+    return Math.min(baseDelay * Math.pow(2, attempt - 1), 8000);
+  }
+
+  private async withTimeout<T>(promise: Promise<T>, ms: number | undefined, providerName: string): Promise<T> {
+    if (!ms) {
+      return promise;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`${providerName} request timed out after ${ms}ms`);
+        error.name = 'TimeoutError';
+        reject(error);
+      }, ms);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Load provider configurations from environment variables
    */
   private loadConfigsFromEnvironment(): void {
+    // Mock mode replaces every real provider so nothing leaves the machine (CI, offline demos)
+    if (this.isMockMode()) {
+      this.configs.set('mock', {
+        provider: 'mock',
+        model: 'mock-llm',
+        maxTokens: 500,
+        temperature: 0,
+        timeout: 30000
+      });
+      return;
+    }
+
     // OpenAI configuration
     if (process.env.OPENAI_API_KEY) {
       this.configs.set('openai', {
         provider: 'openai',
         apiKey: process.env.OPENAI_API_KEY,
-        model: process.env.OPENAI_MODEL || 'gpt-3.5-turbo',
+        model: process.env.OPENAI_MODEL || DEFAULT_MODELS.openai,
         maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '500'),
         temperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.7'),
-        timeout: parseInt(process.env.OPENAI_TIMEOUT || '30000')
+        timeout: parseInt(process.env.OPENAI_TIMEOUT || '30000'),
+        requestsPerMinute: parseInt(process.env.OPENAI_RPM || '0') || undefined,
+        tokensPerMinute: parseInt(process.env.OPENAI_TPM || '0') || undefined
       });
     }
 
@@ -303,10 +1351,12 @@ export class LLMManager {
       this.configs.set('claude', {
         provider: 'claude',
         apiKey: process.env.ANTHROPIC_API_KEY,
-        model: process.env.CLAUDE_MODEL || 'claude-3-haiku-20240307',
+        model: process.env.CLAUDE_MODEL || DEFAULT_MODELS.claude,
         maxTokens: parseInt(process.env.CLAUDE_MAX_TOKENS || '500'),
         temperature: parseFloat(process.env.CLAUDE_TEMPERATURE || '0.7'),
-        timeout: parseInt(process.env.CLAUDE_TIMEOUT || '30000')
+        timeout: parseInt(process.env.CLAUDE_TIMEOUT || '30000'),
+        requestsPerMinute: parseInt(process.env.CLAUDE_RPM || '0') || undefined,
+        tokensPerMinute: parseInt(process.env.CLAUDE_TPM || '0') || undefined
       });
     }
 
@@ -315,10 +1365,12 @@ export class LLMManager {
       this.configs.set('local_llama', {
         provider: 'local_llama',
         baseURL: process.env.LOCAL_LLM_ENDPOINT || 'http://127.0.0.1:11434',
-        model: process.env.LOCAL_LLM_MODEL || 'llama2',
+        model: process.env.LOCAL_LLM_MODEL || DEFAULT_MODELS.local_llama,
         maxTokens: parseInt(process.env.LOCAL_LLM_MAX_TOKENS || '500'),
         temperature: parseFloat(process.env.LOCAL_LLM_TEMPERATURE || '0.7'),
-        timeout: parseInt(process.env.LOCAL_LLM_TIMEOUT || '60000')
+        timeout: parseInt(process.env.LOCAL_LLM_TIMEOUT || '60000'),
+        requestsPerMinute: parseInt(process.env.LOCAL_LLM_RPM || '0') || undefined,
+        tokensPerMinute: parseInt(process.env.LOCAL_LLM_TPM || '0') || undefined
       });
     }
 
@@ -327,14 +1379,23 @@ export class LLMManager {
       this.configs.set('deepseek', {
         provider: 'deepseek',
         apiKey: process.env.DEEPSEEK_API_KEY,
-        model: process.env.DEEPSEEK_MODEL || 'deepseek-chat',
+        model: process.env.DEEPSEEK_MODEL || DEFAULT_MODELS.deepseek,
         maxTokens: parseInt(process.env.DEEPSEEK_MAX_TOKENS || '500'),
         temperature: parseFloat(process.env.DEEPSEEK_TEMPERATURE || '0.7'),
-        timeout: parseInt(process.env.DEEPSEEK_TIMEOUT || '30000')
+        timeout: parseInt(process.env.DEEPSEEK_TIMEOUT || '30000'),
+        requestsPerMinute: parseInt(process.env.DEEPSEEK_RPM || '0') || undefined,
+        tokensPerMinute: parseInt(process.env.DEEPSEEK_TPM || '0') || undefined
       });
     }
   }
 
+  /**
+   * Whether the scripted mock provider should stand in for all real providers
+   */
+  isMockMode(): boolean {
+    return process.env.LLM_MOCK === 'true';
+  }
+
   /**
    * Get available providers based on environment configuration
    */
@@ -357,7 +1418,14 @@ export class LLMManager {
       }
     }
 
+    for (const [key, entry] of this.companyProviders) {
+      this.releaseCompanyProvider(key, entry);
+    }
+
+    this.scheduler.clear();
+    await this.embeddingCache.flush();
     this.providers.clear();
+    this.circuitBreakers.clear();
     this.activeProvider = null;
     this.embeddingProvider = null;
 
@@ -0,0 +1,355 @@
+// File: backend/src/core/llm/managers/RequestScheduler.ts
+
+import { LLMQueueTimeoutError } from '../interfaces/LLMProvider';
+
+// Live chat (WhatsApp, web chat) > background work (summaries) > batch jobs (knowledge base population)
+export type RequestPriority = 'interactive' | 'normal' | 'batch';
+
+const PRIORITIES: RequestPriority[] = ['interactive', 'normal', 'batch'];
+
+export interface RateLimits {
+  requestsPerMinute?: number;  // Unset = unlimited
+  tokensPerMinute?: number;    // Unset = unlimited
+  maxConcurrent?: number;      // Unset = unlimited
+}
+
+export interface ScheduleRequest {
+  bucket: string;           // Provider instance the limits apply to ("openai", "acme:claude")
+  limits: RateLimits;
+  priority?: RequestPriority;
+  companyId?: string;
+  estimatedTokens?: number;
+  timeoutMs?: number;       // Give up waiting in the queue after this long
+}
+
+export interface SchedulerLease {
+  waitedMs: number;
+  /** Free the concurrency slot; pass the real token count to correct the tokens-per-minute estimate */
+  release(actualTokens?: number): void;
+}
+
+export interface BucketMetrics {
+  limits: RateLimits;
+  inFlight: number;
+  queued: number;
+  granted: number;
+  timeouts: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  availableRequests?: number;
+  availableTokens?: number;
+}
+
+export interface SchedulerMetrics {
+  queueDepth: number;
+  byPriority: Record<RequestPriority, number>;
+  byCompany: Record<string, number>;
+  buckets: Record<string, BucketMetrics>;
+}
+
+/**
+ * Refills continuously at capacity per minute. The balance may go negative when a
+ * request turns out to use more tokens than estimated; later requests then wait longer.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number = Date.now();
+
+  constructor(private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.tokens -= amount;
+  }
+
+  /**
+   * Milliseconds until `amount` can be taken (requests larger than the bucket only wait for a full bucket)
+   */
+  msUntil(amount: number): number {
+    const needed = Math.min(amount, this.capacity);
+    const available = this.available();
+    return available >= needed ? 0 : Math.ceil((needed - available) / (this.capacity / 60000));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * (this.capacity / 60000));
+    this.lastRefill = now;
+  }
+}
+
+interface BucketState {
+  limits: RateLimits;
+  limitsKey: string;
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+  inFlight: number;
+  granted: number;
+  timeouts: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface QueuedRequest {
+  bucket: string;
+  companyId: string;
+  priority: RequestPriority;
+  estimatedTokens: number;
+  enqueuedAt: number;
+  timer?: NodeJS.Timeout;
+  resolve: (lease: SchedulerLease) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Admission control for provider calls.
+ * Each provider instance gets token buckets for requests and tokens per minute plus a
+ * concurrency cap. Waiting requests are served by priority; within a priority, companies
+ * take turns so one tenant's burst cannot starve the others. A request never overtakes
+ * a higher-priority one waiting on the same provider.
+ */
+export class RequestScheduler {
+  private buckets: Map<string, BucketState> = new Map();
+  // Per priority, each company's FIFO; Map order is the round-robin order
+  private queues: Record<RequestPriority, Map<string, QueuedRequest[]>> = {
+    interactive: new Map(),
+    normal: new Map(),
+    batch: new Map()
+  };
+  private wakeTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Wait for a slot on the bucket. Rejects with LLMQueueTimeoutError if none frees up in time.
+   */
+  acquire(request: ScheduleRequest): Promise<SchedulerLease> {
+    this.getBucket(request.bucket, request.limits);
+
+    return new Promise<SchedulerLease>((resolve, reject) => {
+      const entry: QueuedRequest = {
+        bucket: request.bucket,
+        companyId: request.companyId || 'default',
+        priority: request.priority || 'normal',
+        estimatedTokens: Math.max(0, Math.ceil(request.estimatedTokens || 0)),
+        enqueuedAt: Date.now(),
+        resolve,
+        reject
+      };
+
+      if (request.timeoutMs) {
+        entry.timer = setTimeout(() => this.expire(entry, request.timeoutMs!), request.timeoutMs);
+      }
+
+      const queue = this.queues[entry.priority];
+      queue.set(entry.companyId, [...(queue.get(entry.companyId) || []), entry]);
+      this.drain();
+    });
+  }
+
+  getMetrics(): SchedulerMetrics {
+    const byPriority = { interactive: 0, normal: 0, batch: 0 };
+    const byCompany: Record<string, number> = {};
+    const queuedByBucket: Record<string, number> = {};
+
+    for (const priority of PRIORITIES) {
+      for (const [companyId, entries] of this.queues[priority]) {
+        byPriority[priority] += entries.length;
+        byCompany[companyId] = (byCompany[companyId] || 0) + entries.length;
+        for (const entry of entries) {
+          queuedByBucket[entry.bucket] = (queuedByBucket[entry.bucket] || 0) + 1;
+        }
+      }
+    }
+
+    const buckets: Record<string, BucketMetrics> = {};
+    for (const [name, state] of this.buckets) {
+      buckets[name] = {
+        limits: state.limits,
+        inFlight: state.inFlight,
+        queued: queuedByBucket[name] || 0,
+        granted: state.granted,
+        timeouts: state.timeouts,
+        averageWaitMs: state.granted > 0 ? Math.round(state.totalWaitMs / state.granted) : 0,
+        maxWaitMs: state.maxWaitMs,
+        availableRequests: state.requests ? Math.floor(state.requests.available()) : undefined,
+        availableTokens: state.tokens ? Math.floor(state.tokens.available()) : undefined
+      };
+    }
+
+    return {
+      queueDepth: byPriority.interactive + byPriority.normal + byPriority.batch,
+      byPriority,
+      byCompany,
+      buckets
+    };
+  }
+
+  /**
+   * Reject everything still waiting (shutdown)
+   */
+  clear(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    for (const priority of PRIORITIES) {
+      for (const entries of this.queues[priority].values()) {
+        for (const entry of entries) {
+          clearTimeout(entry.timer);
+          entry.reject(new LLMQueueTimeoutError(entry.bucket, Date.now() - entry.enqueuedAt));
+        }
+      }
+      this.queues[priority].clear();
+    }
+
+    this.buckets.clear();
+  }
+
+  /**
+   * Grant every request that can run now, highest priority first, rotating between companies.
+   * Schedules a wake-up for the earliest token refill when something is left waiting on a rate limit.
+   */
+  private drain(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    const blocked = new Set<string>();
+    let wakeInMs = Infinity;
+
+    for (const priority of PRIORITIES) {
+      const queue = this.queues[priority];
+      let granted = true;
+
+      while (granted) {
+        granted = false;
+
+        for (const [companyId, entries] of Array.from(queue)) {
+          const entry = entries[0];
+          if (blocked.has(entry.bucket)) {
+            continue;
+          }
+
+          const waitMs = this.getWaitMs(entry);
+          if (waitMs > 0) {
+            // Nothing else may use this bucket ahead of the request at the head of the line
+            blocked.add(entry.bucket);
+            wakeInMs = Math.min(wakeInMs, waitMs);
+            continue;
+          }
+
+          // Served companies go to the back of the rotation
+          queue.delete(companyId);
+          if (entries.length > 1) {
+            queue.set(companyId, entries.slice(1));
+          }
+          this.grant(entry);
+          granted = true;
+        }
+      }
+    }
+
+    // Requests waiting on a concurrency slot are woken by release() instead
+    if (wakeInMs !== Infinity) {
+      this.wakeTimer = setTimeout(() => this.drain(), wakeInMs);
+    }
+  }
+
+  private getWaitMs(entry: QueuedRequest): number {
+    const state = this.buckets.get(entry.bucket)!;
+
+    if (state.limits.maxConcurrent && state.inFlight >= state.limits.maxConcurrent) {
+      return Infinity;
+    }
+
+    return Math.max(
+      state.requests ? state.requests.msUntil(1) : 0,
+      state.tokens ? state.tokens.msUntil(entry.estimatedTokens) : 0
+    );
+  }
+
+  private grant(entry: QueuedRequest): void {
+    const state = this.buckets.get(entry.bucket)!;
+    const waitedMs = Date.now() - entry.enqueuedAt;
+
+    clearTimeout(entry.timer);
+    state.inFlight++;
+    state.granted++;
+    state.totalWaitMs += waitedMs;
+    state.maxWaitMs = Math.max(state.maxWaitMs, waitedMs);
+    state.requests?.take(1);
+    state.tokens?.take(entry.estimatedTokens);
+
+    if (waitedMs > 1000) {
+      console.log(`⏳ ${entry.priority} request for ${entry.bucket} (${entry.companyId}) waited ${waitedMs}ms in the LLM queue`);
+    }
+
+    let released = false;
+    entry.resolve({
+      waitedMs,
+      release: (actualTokens?: number) => {
+        if (released) {
+          return;
+        }
+        released = true;
+        state.inFlight--;
+        if (actualTokens !== undefined) {
+          state.tokens?.take(actualTokens - entry.estimatedTokens);
+        }
+        this.drain();
+      }
+    });
+  }
+
+  private expire(entry: QueuedRequest, timeoutMs: number): void {
+    const queue = this.queues[entry.priority];
+    const entries = queue.get(entry.companyId) || [];
+    if (!entries.includes(entry)) {
+      return;
+    }
+
+    const remaining = entries.filter(queued => queued !== entry);
+    if (remaining.length > 0) {
+      queue.set(entry.companyId, remaining);
+    } else {
+      queue.delete(entry.companyId);
+    }
+
+    const state = this.buckets.get(entry.bucket);
+    if (state) {
+      state.timeouts++;
+    }
+
+    entry.reject(new LLMQueueTimeoutError(entry.bucket, timeoutMs));
+    // The expired request may have been holding up others behind it
+    this.drain();
+  }
+
+  // Limits can change at runtime (company settings); the buckets are rebuilt in place when they do
+  private getBucket(name: string, limits: RateLimits): BucketState {
+    const limitsKey = JSON.stringify([limits.requestsPerMinute, limits.tokensPerMinute, limits.maxConcurrent]);
+    let state = this.buckets.get(name);
+
+    if (!state) {
+      state = { limits, limitsKey: '', inFlight: 0, granted: 0, timeouts: 0, totalWaitMs: 0, maxWaitMs: 0 };
+      this.buckets.set(name, state);
+    }
+
+    if (state.limitsKey !== limitsKey) {
+      state.limits = limits;
+      state.limitsKey = limitsKey;
+      state.requests = limits.requestsPerMinute ? new TokenBucket(limits.requestsPerMinute) : undefined;
+      state.tokens = limits.tokensPerMinute ? new TokenBucket(limits.tokensPerMinute) : undefined;
+    }
+
+    return state;
+  }
+}
@@ -0,0 +1,392 @@
+// File: backend/src/core/llm/managers/ShadowTrafficManager.ts
+
+import * as path from 'path';
+import { LLMManager, RoutingCompanyConfig } from './LLMManager';
+import { ContextWindowManager } from './ContextWindowManager';
+import { UsageTags } from './UsageLedger';
+import { LLMMessage } from '../interfaces/LLMProvider';
+import { StructuredSchema } from '../utils/structuredOutput';
+import { CompanyConfig } from '../../../types/CompanyTypes';
+import { MonthlyJsonlStore, monthKey } from '../../../utils/monthlyJsonl';
+
+// What the primary provider produced for one request - filled in by AIService as it answers
+export interface ShadowCapture {
+  message: string;
+  analysisMessages?: LLMMessage[];
+  analysisSchema?: StructuredSchema;
+  analysisSource?: 'llm' | 'cache' | 'fallback';
+  analysis?: { intent?: string; leadScore?: number };
+  analysisProvider?: string;
+  analysisLatencyMs?: number;
+  analysisCost?: number;
+  responseMessages?: LLMMessage[];
+  responseOptions?: { maxTokens?: number; temperature?: number };
+  response?: string;
+  responseProvider?: string;
+  responseModel?: string;
+  responseLatencyMs?: number;
+  responseCost?: number;
+}
+
+export interface ShadowSide {
+  provider: string;
+  model?: string;
+  intent?: string;
+  leadScore?: number;
+  response?: string;
+  analysisLatencyMs: number;
+  responseLatencyMs: number;
+  cost: number;
+  error?: string;
+}
+
+export interface ShadowRecord {
+  id: string;
+  timestamp: string;
+  companyId: string;
+  userId?: string;
+  platform?: string;
+  message: string;
+  primary: ShadowSide;
+  shadow: ShadowSide;
+  agreement?: {
+    intent: boolean;
+    leadScoreDelta: number;       // shadow - primary
+    responseSimilarity: number;   // Word overlap (Jaccard) of the two answers, 0-1
+  };
+}
+
+export interface ShadowProviderSummary {
+  shadowProvider: string;
+  primaryProviders: Record<string, number>;
+  requests: number;
+  errors: number;
+  compared: number;
+  intentAgreement: number;          // Share of compared requests with the same intent
+  intentDisagreements: Array<{ primary: string; shadow: string; count: number }>;
+  leadScore: {
+    meanAbsoluteDelta: number;
+    meanDelta: number;              // Positive when the shadow scores leads higher
+    within10: number;               // Share of compared requests within 10 points
+    captureAgreement: number;       // Share that agree on leadScore > 60 (lead capture)
+  };
+  responseSimilarity: number;
+  latency: { primaryAvgMs: number; shadowAvgMs: number };
+  cost: { primary: number; shadow: number };
+}
+
+export interface ShadowSummary {
+  companyId: string;
+  month: string;
+  requests: number;
+  providers: ShadowProviderSummary[];
+}
+
+const DEFAULT_MAX_IN_FLIGHT = 20;
+const LEAD_CAPTURE_SCORE = 60;
+
+/**
+ * Mirrors a sample of live AIService requests to a company's candidate ("shadow") provider.
+ * The customer only ever gets the primary answer; both outputs, latencies and costs are
+ * appended to one JSONL file per month for offline comparison.
+ */
+export class ShadowTrafficManager {
+  private static instance: ShadowTrafficManager;
+  private store: MonthlyJsonlStore<ShadowRecord>;
+  private llmManager: LLMManager;
+  private contextManager: ContextWindowManager;
+  private maxInFlight: number;
+  private inFlight = 0;
+  private sequence = 0;
+
+  private constructor() {
+    this.llmManager = LLMManager.getInstance();
+    this.contextManager = ContextWindowManager.getInstance();
+    this.store = new MonthlyJsonlStore<ShadowRecord>({
+      dataDir: process.env.SHADOW_TRAFFIC_DIR || path.join(process.cwd(), 'data', 'shadow'),
+      filePrefix: 'shadow',
+      persist: process.env.SHADOW_TRAFFIC_PERSIST !== 'false',
+      label: 'shadow record'
+    });
+    this.maxInFlight = parseInt(process.env.SHADOW_TRAFFIC_MAX_IN_FLIGHT || '') || DEFAULT_MAX_IN_FLIGHT;
+  }
+
+  static getInstance(): ShadowTrafficManager {
+    if (!ShadowTrafficManager.instance) {
+      ShadowTrafficManager.instance = new ShadowTrafficManager();
+    }
+    return ShadowTrafficManager.instance;
+  }
+
+  /**
+   * Decide whether this request is mirrored: the policy is enabled, the request falls inside
+   * the sampled percentage and the shadow provider is initialized for the company
+   */
+  sample(message: string, companyConfig?: CompanyConfig): ShadowCapture | null {
+    const policy = companyConfig?.shadowTraffic;
+    if (!policy || policy.enabled === false || !policy.provider || !(policy.percentage > 0)) {
+      return null;
+    }
+    if (this.inFlight >= this.maxInFlight || Math.random() * 100 >= policy.percentage) {
+      return null;
+    }
+    if (!this.llmManager.getProvider(policy.provider, companyConfig)) {
+      return null;
+    }
+    return { message };
+  }
+
+  /**
+   * Replay a captured request against the shadow provider in the background.
+   * Requests whose analysis came from the cache or the pattern-matching fallback, or that the
+   * primary chain already served from the shadow provider, are not mirrored - there is nothing
+   * like for like to compare.
+   */
+  mirror(
+    capture: ShadowCapture,
+    companyConfig: CompanyConfig,
+    usage: UsageTags
+  ): Promise<ShadowRecord | null> {
+    const shadowProvider = companyConfig.shadowTraffic?.provider;
+
+    if (!shadowProvider || capture.analysisSource !== 'llm' || !capture.analysisMessages || !capture.analysisSchema || !capture.responseMessages) {
+      return Promise.resolve(null);
+    }
+    if (capture.responseProvider === shadowProvider || capture.analysisProvider === shadowProvider) {
+      return Promise.resolve(null);
+    }
+
+    // Skip prompts the candidate could not even hold, rather than record a guaranteed failure
+    const provider = this.llmManager.getProvider(shadowProvider, companyConfig);
+    const promptTokens = this.contextManager.countMessageTokens(capture.responseMessages, shadowProvider);
+    if (!provider || promptTokens > provider.getCapabilities().maxContextLength) {
+      console.warn(`👥 Shadow request to ${shadowProvider} skipped: ${provider ? `prompt of ~${promptTokens} tokens exceeds its context window` : 'provider not available'}`);
+      return Promise.resolve(null);
+    }
+
+    this.inFlight++;
+    return this.runShadow(shadowProvider, capture, companyConfig, usage)
+      .then(record => this.record(record))
+      .catch(error => {
+        console.error('❌ Shadow request failed to record:', error);
+        return null;
+      })
+      .finally(() => {
+        this.inFlight--;
+      });
+  }
+
+  /**
+   * Agreement, latency and cost per shadow provider for a company in a month
+   */
+  getSummary(companyId: string, options: { month?: string; provider?: string } = {}): ShadowSummary {
+    const month = options.month || this.getMonthKey(new Date());
+    const records = this.store.getMonth(month)
+      .filter(record => record.companyId === companyId)
+      .filter(record => !options.provider || record.shadow.provider === options.provider);
+
+    const byProvider = new Map<string, ShadowRecord[]>();
+    for (const record of records) {
+      const group = byProvider.get(record.shadow.provider) || [];
+      group.push(record);
+      byProvider.set(record.shadow.provider, group);
+    }
+
+    return {
+      companyId,
+      month,
+      requests: records.length,
+      providers: Array.from(byProvider.entries()).map(([provider, group]) => this.summarize(provider, group))
+    };
+  }
+
+  /**
+   * Raw records for a company, newest first
+   */
+  getRecords(companyId: string, options: { month?: string; limit?: number; provider?: string } = {}): ShadowRecord[] {
+    const month = options.month || this.getMonthKey(new Date());
+    return this.store.getMonth(month)
+      .filter(record => record.companyId === companyId)
+      .filter(record => !options.provider || record.shadow.provider === options.provider)
+      .slice()
+      .reverse()
+      .slice(0, options.limit ?? 100);
+  }
+
+  getStats(): { inFlight: number; maxInFlight: number } {
+    return { inFlight: this.inFlight, maxInFlight: this.maxInFlight };
+  }
+
+  getMonthKey(date: Date): string {
+    return monthKey(date);
+  }
+
+  private async runShadow(
+    shadowProvider: string,
+    capture: ShadowCapture,
+    companyConfig: RoutingCompanyConfig,
+    usage: UsageTags
+  ): Promise<Omit<ShadowRecord, 'id' | 'timestamp'>> {
+    // Shadow calls queue behind customer traffic and never retry or fail over
+    const options = {
+      providerChain: [shadowProvider],
+      retries: 0,
+      timeout: 30000,
+      companyConfig,
+      priority: 'batch' as const
+    };
+
+    const shadow: ShadowSide = { provider: shadowProvider, analysisLatencyMs: 0, responseLatencyMs: 0, cost: 0 };
+    const errors: string[] = [];
+
+    let started = Date.now();
+    try {
+      const analysis = await this.llmManager.generateStructured<{ intent?: string; leadScore?: number }>(
+        capture.analysisMessages!,
+        capture.analysisSchema!,
+        { ...options, maxTokens: 200, temperature: 0.1, maxRepairs: 1, usage: { ...usage, operation: 'shadow_analysis' } }
+      );
+      shadow.intent = analysis.data.intent;
+      shadow.leadScore = analysis.data.leadScore;
+      shadow.cost += analysis.cost || 0;
+    } catch (error) {
+      errors.push(`analysis: ${(error as Error).message}`);
+    }
+    shadow.analysisLatencyMs = Date.now() - started;
+
+    started = Date.now();
+    try {
+      const response = await this.llmManager.generateCompletion(capture.responseMessages!, {
+        ...options,
+        ...capture.responseOptions,
+        usage: { ...usage, operation: 'shadow_response' }
+      });
+      shadow.response = response.content;
+      shadow.model = response.model;
+      shadow.cost += response.cost || 0;
+    } catch (error) {
+      errors.push(`response: ${(error as Error).message}`);
+    }
+    shadow.responseLatencyMs = Date.now() - started;
+
+    if (errors.length > 0) {
+      shadow.error = errors.join('; ');
+    }
+
+    const primary: ShadowSide = {
+      provider: capture.responseProvider || capture.analysisProvider || 'unknown',
+      model: capture.responseModel,
+      intent: capture.analysis?.intent,
+      leadScore: capture.analysis?.leadScore,
+      response: capture.response,
+      analysisLatencyMs: capture.analysisLatencyMs || 0,
+      responseLatencyMs: capture.responseLatencyMs || 0,
+      cost: (capture.analysisCost || 0) + (capture.responseCost || 0)
+    };
+
+    const comparable = shadow.intent !== undefined && typeof shadow.leadScore === 'number' && typeof primary.leadScore === 'number';
+
+    return {
+      companyId: usage.companyId || 'default',
+      userId: usage.userId,
+      platform: usage.platform,
+      message: capture.message,
+      primary,
+      shadow,
+      agreement: comparable
+        ? {
+            intent: shadow.intent === primary.intent,
+            leadScoreDelta: shadow.leadScore! - primary.leadScore!,
+            responseSimilarity: shadow.response && primary.response ? this.similarity(primary.response, shadow.response) : 0
+          }
+        : undefined
+    };
+  }
+
+  private record(entry: Omit<ShadowRecord, 'id' | 'timestamp'>): ShadowRecord {
+    const now = new Date();
+    const month = this.getMonthKey(now);
+    const record: ShadowRecord = {
+      id: `shadow_${now.getTime()}_${++this.sequence}`,
+      timestamp: now.toISOString(),
+      ...entry
+    };
+
+    this.store.append(month, record);
+
+    if (record.shadow.error) {
+      console.warn(`👥 Shadow ${record.shadow.provider} failed for ${record.companyId}: ${record.shadow.error}`);
+    } else if (record.agreement && !record.agreement.intent) {
+      console.log(`👥 Shadow ${record.shadow.provider} disagreed on intent for ${record.companyId}: ${record.primary.intent} vs ${record.shadow.intent}`);
+    }
+
+    return record;
+  }
+
+  private summarize(shadowProvider: string, records: ShadowRecord[]): ShadowProviderSummary {
+    const compared = records.filter(record => record.agreement);
+    const ok = records.filter(record => !record.shadow.error);
+    const average = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    const rate = (count: number) => compared.length ? round(count / compared.length) : 0;
+
+    const primaryProviders: Record<string, number> = {};
+    for (const record of records) {
+      primaryProviders[record.primary.provider] = (primaryProviders[record.primary.provider] || 0) + 1;
+    }
+
+    const disagreements = new Map<string, { primary: string; shadow: string; count: number }>();
+    for (const record of compared.filter(r => !r.agreement!.intent)) {
+      const key = `${record.primary.intent}|${record.shadow.intent}`;
+      const entry = disagreements.get(key) || { primary: record.primary.intent || 'unknown', shadow: record.shadow.intent || 'unknown', count: 0 };
+      entry.count++;
+      disagreements.set(key, entry);
+    }
+
+    const deltas = compared.map(record => record.agreement!.leadScoreDelta);
+    const captures = (score?: number) => (score ?? 0) > LEAD_CAPTURE_SCORE;
+
+    return {
+      shadowProvider,
+      primaryProviders,
+      requests: records.length,
+      errors: records.length - ok.length,
+      compared: compared.length,
+      intentAgreement: rate(compared.filter(record => record.agreement!.intent).length),
+      intentDisagreements: Array.from(disagreements.values()).sort((a, b) => b.count - a.count),
+      leadScore: {
+        meanAbsoluteDelta: round(average(deltas.map(Math.abs))),
+        meanDelta: round(average(deltas)),
+        within10: rate(deltas.filter(delta => Math.abs(delta) <= 10).length),
+        captureAgreement: rate(compared.filter(record => captures(record.primary.leadScore) === captures(record.shadow.leadScore)).length)
+      },
+      responseSimilarity: round(average(compared.map(record => record.agreement!.responseSimilarity))),
+      latency: {
+        primaryAvgMs: Math.round(average(ok.map(record => record.primary.analysisLatencyMs + record.primary.responseLatencyMs))),
+        shadowAvgMs: Math.round(average(ok.map(record => record.shadow.analysisLatencyMs + record.shadow.responseLatencyMs)))
+      },
+      cost: {
+        primary: records.reduce((sum, record) => sum + record.primary.cost, 0),
+        shadow: records.reduce((sum, record) => sum + record.shadow.cost, 0)
+      }
+    };
+  }
+
+  private similarity(a: string, b: string): number {
+    const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []);
+    const left = words(a);
+    const right = words(b);
+    if (left.size === 0 && right.size === 0) {
+      return 1;
+    }
+
+    let shared = 0;
+    for (const word of left) {
+      if (right.has(word)) shared++;
+    }
+    return round(shared / (left.size + right.size - shared));
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
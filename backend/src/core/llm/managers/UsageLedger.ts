@@ -0,0 +1,308 @@
+// File: backend/src/core/llm/managers/UsageLedger.ts
+
+import * as path from 'path';
+import { CompanyUsageBudget } from '../../../types/CompanyTypes';
+import { MonthlyJsonlStore, monthKey } from '../../../utils/monthlyJsonl';
+
+export interface UsageTags {
+  companyId?: string;
+  userId?: string;
+  platform?: string;
+  operation?: string;  // e.g. 'analysis', 'response', 'tool_selection'
+}
+
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  companyId: string;
+  userId?: string;
+  platform?: string;
+  operation?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  estimated: boolean;  // true when the provider did not report token usage
+  downgraded?: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export type BudgetState = 'ok' | 'soft_limit' | 'hard_limit';
+
+export interface BudgetStatus {
+  companyId: string;
+  month: string;
+  spent: number;
+  monthlyLimit?: number;
+  softLimit?: number;
+  percentUsed?: number;
+  state: BudgetState;
+}
+
+export interface BudgetAlert {
+  companyId: string;
+  month: string;
+  level: 'soft_limit' | 'hard_limit';
+  spent: number;
+  limit: number;
+  timestamp: string;
+}
+
+export interface UsageReport {
+  companyId: string;
+  month: string;
+  totals: UsageTotals;
+  byProvider: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byPlatform: Record<string, UsageTotals>;
+  byOperation: Record<string, UsageTotals>;
+  topUsers: Array<{ userId: string } & UsageTotals>;
+  daily: Array<{ date: string } & UsageTotals>;
+  budget: BudgetStatus;
+  alerts: BudgetAlert[];
+}
+
+const DEFAULT_SOFT_LIMIT_PERCENT = 80;
+
+/**
+ * Records token usage and cost for every LLM call, tagged with company, user and platform.
+ * Records are appended to one JSONL file per month so monthly budgets survive restarts.
+ */
+export class UsageLedger {
+  private static instance: UsageLedger;
+  private store: MonthlyJsonlStore<UsageRecord>;
+  private spend: Map<string, Map<string, number>> = new Map();  // month -> companyId -> cost
+  private alerts: BudgetAlert[] = [];
+  private alertListeners: Array<(alert: BudgetAlert) => void> = [];
+  private sequence = 0;
+
+  private constructor() {
+    this.store = new MonthlyJsonlStore<UsageRecord>({
+      dataDir: process.env.USAGE_LEDGER_DIR || path.join(process.cwd(), 'data', 'usage'),
+      filePrefix: 'usage',
+      persist: process.env.USAGE_LEDGER_PERSIST !== 'false',
+      label: 'usage record'
+    });
+  }
+
+  static getInstance(): UsageLedger {
+    if (!UsageLedger.instance) {
+      UsageLedger.instance = new UsageLedger();
+    }
+    return UsageLedger.instance;
+  }
+
+  /**
+   * Record a completed LLM call and raise budget alerts when a limit is crossed
+   */
+  record(
+    entry: Omit<UsageRecord, 'id' | 'timestamp' | 'totalTokens'>,
+    budget?: CompanyUsageBudget
+  ): UsageRecord {
+    const now = new Date();
+    const month = this.getMonthKey(now);
+    const spend = this.getMonthSpend(month);
+    const spentBefore = spend.get(entry.companyId) || 0;
+
+    const record: UsageRecord = {
+      id: `usage_${now.getTime()}_${++this.sequence}`,
+      timestamp: now.toISOString(),
+      ...entry,
+      totalTokens: entry.promptTokens + entry.completionTokens
+    };
+
+    this.store.append(month, record);
+    spend.set(entry.companyId, spentBefore + record.cost);
+
+    if (budget) {
+      this.checkBudgetThresholds(entry.companyId, month, spentBefore, spentBefore + record.cost, budget);
+    }
+
+    return record;
+  }
+
+  /**
+   * Total cost recorded for a company in a month (defaults to the current month)
+   */
+  getMonthlySpend(companyId: string, month: string = this.getMonthKey(new Date())): number {
+    return this.getMonthSpend(month).get(companyId) || 0;
+  }
+
+  /**
+   * Where a company stands against its monthly budget
+   */
+  getBudgetStatus(
+    companyId: string,
+    budget?: CompanyUsageBudget,
+    month: string = this.getMonthKey(new Date())
+  ): BudgetStatus {
+    const spent = this.getMonthlySpend(companyId, month);
+
+    if (!budget || !budget.monthlyLimit) {
+      return { companyId, month, spent, state: 'ok' };
+    }
+
+    const softLimit = budget.monthlyLimit * (budget.softLimitPercent ?? DEFAULT_SOFT_LIMIT_PERCENT) / 100;
+    let state: BudgetState = 'ok';
+    if (spent >= budget.monthlyLimit) {
+      state = 'hard_limit';
+    } else if (spent >= softLimit) {
+      state = 'soft_limit';
+    }
+
+    return {
+      companyId,
+      month,
+      spent,
+      monthlyLimit: budget.monthlyLimit,
+      softLimit,
+      percentUsed: Math.round((spent / budget.monthlyLimit) * 1000) / 10,
+      state
+    };
+  }
+
+  /**
+   * Aggregated usage for a company in a month
+   */
+  getReport(
+    companyId: string,
+    options: { month?: string; budget?: CompanyUsageBudget; topUsers?: number } = {}
+  ): UsageReport {
+    const month = options.month || this.getMonthKey(new Date());
+    const records = this.store.getMonth(month).filter(record => record.companyId === companyId);
+
+    const users = this.groupBy(records, record => record.userId || 'anonymous');
+    const topUsers = Object.entries(users)
+      .map(([userId, totals]) => ({ userId, ...totals }))
+      .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens)
+      .slice(0, options.topUsers ?? 10);
+
+    const daily = Object.entries(this.groupBy(records, record => record.timestamp.substring(0, 10)))
+      .map(([date, totals]) => ({ date, ...totals }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      companyId,
+      month,
+      totals: this.sum(records),
+      byProvider: this.groupBy(records, record => record.provider),
+      byModel: this.groupBy(records, record => record.model),
+      byPlatform: this.groupBy(records, record => record.platform || 'unknown'),
+      byOperation: this.groupBy(records, record => record.operation || 'unspecified'),
+      topUsers,
+      daily,
+      budget: this.getBudgetStatus(companyId, options.budget, month),
+      alerts: this.alerts.filter(alert => alert.companyId === companyId && alert.month === month)
+    };
+  }
+
+  /**
+   * Raw records for a company, newest first
+   */
+  getRecords(companyId: string, options: { month?: string; limit?: number } = {}): UsageRecord[] {
+    const month = options.month || this.getMonthKey(new Date());
+    return this.store.getMonth(month)
+      .filter(record => record.companyId === companyId)
+      .slice()
+      .reverse()
+      .slice(0, options.limit ?? 100);
+  }
+
+  /**
+   * Subscribe to soft/hard limit alerts (e.g. to notify the company by email)
+   */
+  onBudgetAlert(listener: (alert: BudgetAlert) => void): void {
+    this.alertListeners.push(listener);
+  }
+
+  getMonthKey(date: Date): string {
+    return monthKey(date);
+  }
+
+  // Running cost per company, added up from the month's records once and kept current by record()
+  private getMonthSpend(month: string): Map<string, number> {
+    let spend = this.spend.get(month);
+
+    if (!spend) {
+      spend = new Map();
+      for (const record of this.store.getMonth(month)) {
+        spend.set(record.companyId, (spend.get(record.companyId) || 0) + record.cost);
+      }
+      this.spend.set(month, spend);
+    }
+
+    return spend;
+  }
+
+  private checkBudgetThresholds(
+    companyId: string,
+    month: string,
+    spentBefore: number,
+    spentAfter: number,
+    budget: CompanyUsageBudget
+  ): void {
+    if (!budget.monthlyLimit) {
+      return;
+    }
+
+    const softLimit = budget.monthlyLimit * (budget.softLimitPercent ?? DEFAULT_SOFT_LIMIT_PERCENT) / 100;
+
+    if (spentBefore < budget.monthlyLimit && spentAfter >= budget.monthlyLimit) {
+      this.raiseAlert({ companyId, month, level: 'hard_limit', spent: spentAfter, limit: budget.monthlyLimit });
+    } else if (spentBefore < softLimit && spentAfter >= softLimit) {
+      this.raiseAlert({ companyId, month, level: 'soft_limit', spent: spentAfter, limit: softLimit });
+    }
+  }
+
+  private raiseAlert(alert: Omit<BudgetAlert, 'timestamp'>): void {
+    const fullAlert: BudgetAlert = { ...alert, timestamp: new Date().toISOString() };
+    this.alerts.push(fullAlert);
+
+    console.warn(
+      `💸 Budget ${alert.level === 'hard_limit' ? 'hard limit reached' : 'soft limit crossed'} for ${alert.companyId}: ` +
+      `$${alert.spent.toFixed(4)} of $${alert.limit.toFixed(4)} (${alert.month})`
+    );
+
+    for (const listener of this.alertListeners) {
+      try {
+        listener(fullAlert);
+      } catch (error) {
+        console.error('❌ Budget alert listener failed:', error);
+      }
+    }
+  }
+
+  private groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Record<string, UsageTotals> {
+    const groups: Record<string, UsageRecord[]> = {};
+
+    for (const record of records) {
+      const name = key(record);
+      (groups[name] = groups[name] || []).push(record);
+    }
+
+    const totals: Record<string, UsageTotals> = {};
+    for (const [name, group] of Object.entries(groups)) {
+      totals[name] = this.sum(group);
+    }
+    return totals;
+  }
+
+  private sum(records: UsageRecord[]): UsageTotals {
+    return records.reduce((totals, record) => ({
+      requests: totals.requests + 1,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      totalTokens: totals.totalTokens + record.totalTokens,
+      cost: totals.cost + record.cost
+    }), { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+  }
+}
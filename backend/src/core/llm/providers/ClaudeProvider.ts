@@ -5,14 +5,21 @@ import {
   LLMConfig, 
   LLMMessage, 
   LLMResponse, 
-  EmbeddingResponse 
+  LLMStreamChunk,
+  LLMCompletionOptions,
+  LLMToolCall,
+  EmbeddingResponse,
+  BatchEmbeddingResponse
 } from '../interfaces/LLMProvider';
+import { readSSE } from '../utils/streamParsers';
+import { HealthWindow } from '../utils/healthWindow';
 
 export class ClaudeProvider implements LLMProvider {
   public name = 'claude';
   public isInitialized = false;
   
   private apiKey: string | null = null;
+  private baseURL: string = 'https://api.anthropic.com';
   private config: LLMConfig | null = null;
   private healthMetrics = {
     errorCount: 0,
@@ -20,6 +27,7 @@ export class ClaudeProvider implements LLMProvider {
     totalLatency: 0,
     lastCheck: new Date()
   };
+  private recentRequests = new HealthWindow();  // Error rate for health checks
 
   async initialize(config: LLMConfig): Promise<void> {
     try {
@@ -27,6 +35,7 @@ export class ClaudeProvider implements LLMProvider {
       
       this.config = config;
       this.apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY || null;
+      this.baseURL = config.baseURL || process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com';
       
       if (!this.apiKey) {
         throw new Error('Anthropic API key is required');
@@ -46,11 +55,7 @@ export class ClaudeProvider implements LLMProvider {
 
   async generateCompletion(
     messages: LLMMessage[],
-    options?: {
-      maxTokens?: number;
-      temperature?: number;
-      timeout?: number;
-    }
+    options?: LLMCompletionOptions
   ): Promise<LLMResponse> {
     if (!this.isInitialized || !this.apiKey || !this.config) {
       throw new Error('Claude provider not initialized');
@@ -62,20 +67,34 @@ export class ClaudeProvider implements LLMProvider {
     try {
       // Convert messages to Claude format
       const systemMessage = messages.find(m => m.role === 'system')?.content || '';
-      const conversationMessages = messages.filter(m => m.role !== 'system');
+
+      // Claude has no "none" tool choice - leave the tools out instead
+      const tools = options?.tools?.length && options.toolChoice !== 'none' ? options.tools : undefined;
+
+      // Claude has no JSON mode - prefill the reply with "{" so it starts straight into the object
+      const prefill = options?.responseFormat === 'json' && !tools ? '{' : '';
+      const claudeMessages = this.toClaudeMessages(messages);
+      if (prefill) {
+        claudeMessages.push({ role: 'assistant', content: [{ type: 'text', text: prefill }] });
+      }
 
       const requestBody = {
         model: this.config.model,
         max_tokens: options?.maxTokens || this.config.maxTokens || 500,
         temperature: options?.temperature ?? this.config.temperature ?? 0.7,
         system: systemMessage,
-        messages: conversationMessages.map(msg => ({
-          role: msg.role === 'assistant' ? 'assistant' : 'user',
-          content: msg.content
-        }))
+        messages: claudeMessages,
+        ...(tools && {
+          tools: tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters
+          })),
+          tool_choice: this.toClaudeToolChoice(options?.toolChoice)
+        })
       };
 
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
+      const response = await fetch(`${this.baseURL}/v1/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -93,34 +112,145 @@ export class ClaudeProvider implements LLMProvider {
       const data = await response.json() as any;
       const latency = Date.now() - startTime;
       this.healthMetrics.totalLatency += latency;
+      this.recentRequests.recordSuccess();
+
+      const contentBlocks: any[] = data.content || [];
+      const toolCalls: LLMToolCall[] = contentBlocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
 
       return {
-        content: data.content[0]?.text || '',
+        content: prefill + contentBlocks
+          .filter(block => block.type === 'text')
+          .map(block => block.text)
+          .join(''),
         usage: {
           promptTokens: data.usage?.input_tokens || 0,
           completionTokens: data.usage?.output_tokens || 0,
           totalTokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0)
         },
         model: data.model,
-        finishReason: data.stop_reason || 'stop'
+        finishReason: data.stop_reason || 'stop',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined
       };
 
     } catch (error) {
       this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
       console.error('❌ Claude completion failed:', error);
       throw error;
     }
   }
 
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options?: {
+      maxTokens?: number;
+      temperature?: number;
+      timeout?: number;
+    }
+  ): AsyncGenerator<LLMStreamChunk> {
+    if (!this.isInitialized || !this.apiKey || !this.config) {
+      throw new Error('Claude provider not initialized');
+    }
+
+    const startTime = Date.now();
+    this.healthMetrics.requestCount++;
+
+    try {
+      const systemMessage = messages.find(m => m.role === 'system')?.content || '';
+
+      const requestBody = {
+        model: this.config.model,
+        max_tokens: options?.maxTokens || this.config.maxTokens || 500,
+        temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+        system: systemMessage,
+        messages: this.toClaudeMessages(messages),
+        stream: true
+      };
+
+      const response = await fetch(`${this.baseURL}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01'
+        },
+        body: JSON.stringify(requestBody),
+        signal: AbortSignal.timeout(options?.timeout || this.config.timeout || 30000)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Claude API error: ${response.status} ${response.statusText}`);
+      }
+
+      let model = this.config.model;
+      let finishReason: string | undefined;
+      let promptTokens = 0;
+      let completionTokens = 0;
+
+      for await (const event of readSSE(response.body)) {
+        const data = JSON.parse(event.data) as any;
+
+        switch (data.type) {
+          case 'message_start':
+            model = data.message?.model || model;
+            promptTokens = data.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_delta':
+            if (data.delta?.type === 'text_delta' && data.delta.text) {
+              yield { content: data.delta.text, done: false, model };
+            }
+            break;
+          case 'message_delta':
+            finishReason = data.delta?.stop_reason || finishReason;
+            completionTokens = data.usage?.output_tokens || completionTokens;
+            break;
+          case 'error':
+            throw new Error(`Claude API error: ${data.error?.type || 'stream_error'} ${data.error?.message || ''}`.trim());
+        }
+      }
+
+      this.healthMetrics.totalLatency += Date.now() - startTime;
+      this.recentRequests.recordSuccess();
+
+      yield {
+        content: '',
+        done: true,
+        model,
+        finishReason: finishReason || 'stop',
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens
+        }
+      };
+
+    } catch (error) {
+      this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
+      console.error('❌ Claude streaming completion failed:', error);
+      throw error;
+    }
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     // Claude doesn't provide embeddings, fall back to OpenAI
     throw new Error('Claude provider does not support embeddings. Use OpenAI or another provider for embeddings.');
   }
 
+  async generateEmbeddings(texts: string[]): Promise<BatchEmbeddingResponse> {
+    throw new Error('Claude provider does not support embeddings. Use OpenAI or another provider for embeddings.');
+  }
+
   supportsEmbeddings(): boolean {
     return false;
   }
 
+  getEmbeddingModel() {
+    return null;
+  }
+
   getCapabilities() {
     const model = this.config?.model || 'claude-3-haiku-20240307';
     
@@ -148,7 +278,8 @@ export class ClaudeProvider implements LLMProvider {
     return {
       ...modelCaps,
       supportsStreaming: true,
-      supportsEmbeddings: false
+      supportsEmbeddings: false,
+      supportsVision: true  // Every Claude 3 model accepts images
     };
   }
 
@@ -156,9 +287,7 @@ export class ClaudeProvider implements LLMProvider {
     const avgLatency = this.healthMetrics.requestCount > 0 
       ? this.healthMetrics.totalLatency / this.healthMetrics.requestCount 
       : 0;
-    const errorRate = this.healthMetrics.requestCount > 0 
-      ? this.healthMetrics.errorCount / this.healthMetrics.requestCount 
-      : 0;
+    const errorRate = this.recentRequests.getErrorRate();
 
     // Perform health check
     let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
@@ -206,13 +335,66 @@ export class ClaudeProvider implements LLMProvider {
     console.log('🔌 Claude provider disconnected');
   }
 
+  /**
+   * Convert chat messages to Anthropic format. Tool calls become tool_use blocks on the
+   * assistant turn and tool results are sent back as tool_result blocks in a user turn;
+   * consecutive turns with the same role are merged, as the API requires alternation.
+   */
+  private toClaudeMessages(messages: LLMMessage[]): any[] {
+    const converted: { role: 'user' | 'assistant'; content: any[] }[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        continue;
+      }
+
+      let role: 'user' | 'assistant' = msg.role === 'assistant' ? 'assistant' : 'user';
+      const blocks: any[] = [];
+
+      if (msg.role === 'tool') {
+        role = 'user';
+        blocks.push({ type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content });
+      } else {
+        // Images go ahead of the text that refers to them
+        for (const image of msg.images || []) {
+          blocks.push({ type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.data } });
+        }
+        if (msg.content) {
+          blocks.push({ type: 'text', text: msg.content });
+        }
+        for (const call of msg.toolCalls || []) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+      }
+
+      const previous = converted[converted.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        converted.push({ role, content: blocks });
+      }
+    }
+
+    return converted;
+  }
+
+  private toClaudeToolChoice(choice?: LLMCompletionOptions['toolChoice']): any {
+    if (!choice || choice === 'auto' || choice === 'none') {
+      return { type: 'auto' };
+    }
+    if (choice === 'required') {
+      return { type: 'any' };
+    }
+    return { type: 'tool', name: choice.name };
+  }
+
   private async testConnection(): Promise<void> {
     if (!this.apiKey || !this.config) {
       throw new Error('Claude provider not properly configured');
     }
 
     // Simple test request
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -5,8 +5,19 @@ import {
   LLMConfig, 
   LLMMessage, 
   LLMResponse, 
-  EmbeddingResponse 
+  LLMStreamChunk,
+  LLMCompletionOptions,
+  EmbeddingResponse,
+  BatchEmbeddingResponse
 } from '../interfaces/LLMProvider';
+import { readSSE } from '../utils/streamParsers';
+import {
+  toOpenAIMessages,
+  toOpenAITools,
+  toOpenAIToolChoice,
+  fromOpenAIToolCalls
+} from '../utils/toolCalling';
+import { HealthWindow } from '../utils/healthWindow';
 
 export class DeepSeekProvider implements LLMProvider {
   public name = 'deepseek';
@@ -21,6 +32,7 @@ export class DeepSeekProvider implements LLMProvider {
     totalLatency: 0,
     lastCheck: new Date()
   };
+  private recentRequests = new HealthWindow();  // Error rate for health checks
 
   async initialize(config: LLMConfig): Promise<void> {
     try {
@@ -48,11 +60,7 @@ export class DeepSeekProvider implements LLMProvider {
 
   async generateCompletion(
     messages: LLMMessage[],
-    options?: {
-      maxTokens?: number;
-      temperature?: number;
-      timeout?: number;
-    }
+    options?: LLMCompletionOptions
   ): Promise<LLMResponse> {
     if (!this.isInitialized || !this.apiKey || !this.config) {
       throw new Error('DeepSeek provider not initialized');
@@ -62,15 +70,21 @@ export class DeepSeekProvider implements LLMProvider {
     this.healthMetrics.requestCount++;
 
     try {
+      const tools = options?.tools?.length ? options.tools : undefined;
+
       const requestBody = {
         model: this.config.model,
-        messages: messages.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
+        messages: toOpenAIMessages(messages),
         max_tokens: options?.maxTokens || this.config.maxTokens || 500,
         temperature: options?.temperature ?? this.config.temperature ?? 0.7,
-        stream: false
+        stream: false,
+        ...(tools && {
+          tools: toOpenAITools(tools),
+          tool_choice: toOpenAIToolChoice(options?.toolChoice)
+        }),
+        ...(options?.responseFormat === 'json' && {
+          response_format: { type: 'json_object' }
+        })
       };
 
       const response = await fetch(`${this.baseURL}/chat/completions`, {
@@ -91,6 +105,7 @@ export class DeepSeekProvider implements LLMProvider {
       const data = await response.json() as any;
       const latency = Date.now() - startTime;
       this.healthMetrics.totalLatency += latency;
+      this.recentRequests.recordSuccess();
 
       return {
         content: data.choices[0]?.message?.content || '',
@@ -100,25 +115,117 @@ export class DeepSeekProvider implements LLMProvider {
           totalTokens: data.usage?.total_tokens || 0
         },
         model: data.model,
-        finishReason: data.choices[0]?.finish_reason || 'stop'
+        finishReason: data.choices[0]?.finish_reason || 'stop',
+        toolCalls: fromOpenAIToolCalls(data.choices[0]?.message?.tool_calls)
       };
 
     } catch (error) {
       this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
       console.error('❌ DeepSeek completion failed:', error);
       throw error;
     }
   }
 
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options?: {
+      maxTokens?: number;
+      temperature?: number;
+      timeout?: number;
+    }
+  ): AsyncGenerator<LLMStreamChunk> {
+    if (!this.isInitialized || !this.apiKey || !this.config) {
+      throw new Error('DeepSeek provider not initialized');
+    }
+
+    const startTime = Date.now();
+    this.healthMetrics.requestCount++;
+
+    try {
+      const requestBody = {
+        model: this.config.model,
+        messages: toOpenAIMessages(messages),
+        max_tokens: options?.maxTokens || this.config.maxTokens || 500,
+        temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+        stream: true,
+        stream_options: { include_usage: true }
+      };
+
+      const response = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`
+        },
+        body: JSON.stringify(requestBody),
+        signal: AbortSignal.timeout(options?.timeout || this.config.timeout || 30000)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`DeepSeek API error: ${response.status} ${errorText}`);
+      }
+
+      let model = this.config.model;
+      let finishReason: string | undefined;
+      let usage: LLMStreamChunk['usage'];
+
+      for await (const event of readSSE(response.body)) {
+        if (event.data === '[DONE]') {
+          break;
+        }
+
+        const data = JSON.parse(event.data) as any;
+        model = data.model || model;
+
+        if (data.usage) {
+          usage = {
+            promptTokens: data.usage.prompt_tokens || 0,
+            completionTokens: data.usage.completion_tokens || 0,
+            totalTokens: data.usage.total_tokens || 0
+          };
+        }
+
+        const choice = data.choices?.[0];
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        if (choice?.delta?.content) {
+          yield { content: choice.delta.content, done: false, model };
+        }
+      }
+
+      this.healthMetrics.totalLatency += Date.now() - startTime;
+      this.recentRequests.recordSuccess();
+
+      yield { content: '', done: true, model, finishReason: finishReason || 'stop', usage };
+
+    } catch (error) {
+      this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
+      console.error('❌ DeepSeek streaming completion failed:', error);
+      throw error;
+    }
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     // DeepSeek doesn't provide embeddings API, fall back to OpenAI
     throw new Error('DeepSeek provider does not support embeddings. Use OpenAI or another provider for embeddings.');
   }
 
+  async generateEmbeddings(texts: string[]): Promise<BatchEmbeddingResponse> {
+    throw new Error('DeepSeek provider does not support embeddings. Use OpenAI or another provider for embeddings.');
+  }
+
   supportsEmbeddings(): boolean {
     return false;
   }
 
+  getEmbeddingModel() {
+    return null;
+  }
+
   getCapabilities() {
     const model = this.config?.model || 'deepseek-chat';
     
@@ -141,7 +248,8 @@ export class DeepSeekProvider implements LLMProvider {
     return {
       ...modelCaps,
       supportsStreaming: true,
-      supportsEmbeddings: false
+      supportsEmbeddings: false,
+      supportsVision: false  // deepseek-chat and deepseek-coder are text only
     };
   }
 
@@ -149,9 +257,7 @@ export class DeepSeekProvider implements LLMProvider {
     const avgLatency = this.healthMetrics.requestCount > 0 
       ? this.healthMetrics.totalLatency / this.healthMetrics.requestCount 
       : 0;
-    const errorRate = this.healthMetrics.requestCount > 0 
-      ? this.healthMetrics.errorCount / this.healthMetrics.requestCount 
-      : 0;
+    const errorRate = this.recentRequests.getErrorRate();
 
     // Perform health check
     let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
@@ -5,14 +5,47 @@ import {
   LLMConfig, 
   LLMMessage, 
   LLMResponse, 
-  EmbeddingResponse 
+  LLMStreamChunk,
+  LLMCompletionOptions,
+  LLMToolCall,
+  EmbeddingResponse,
+  BatchEmbeddingResponse,
+  LLMModelNotFoundError
 } from '../interfaces/LLMProvider';
+import { readNDJSON } from '../utils/streamParsers';
+import { buildToolProtocolPrompt, parseToolProtocolResponse } from '../utils/toolCalling';
+import { HealthWindow } from '../utils/healthWindow';
+
+const OLLAMA_EMBEDDING_BATCH_SIZE = 32;
+const OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
+const OLLAMA_EMBEDDING_DIMENSIONS = 768;
+const DEFAULT_OLLAMA_URL = 'http://127.0.0.1:11434';
+// Ollama model families that accept images
+const VISION_MODEL_PATTERN = /llava|bakllava|vision|moondream|minicpm-v|gemma3|qwen2\.5?vl|llama4/i;
+
+export interface LocalModelInfo {
+  name: string;
+  size: number;          // Bytes on disk
+  modifiedAt: string;
+  digest?: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+export interface ModelPullProgress {
+  status: string;        // "pulling manifest", "downloading", "verifying sha256 digest", "success", ...
+  digest?: string;
+  total?: number;        // Bytes, while downloading a layer
+  completed?: number;
+  percent?: number;
+}
 
 export class LocalLlamaProvider implements LLMProvider {
   public name = 'local_llama';
   public isInitialized = false;
   
-  private baseURL: string = 'http://127.0.01:11434';
+  private baseURL: string;
   private config: LLMConfig | null = null;
   private healthMetrics = {
     errorCount: 0,
@@ -20,13 +53,22 @@ export class LocalLlamaProvider implements LLMProvider {
     totalLatency: 0,
     lastCheck: new Date()
   };
+  private recentRequests = new HealthWindow();  // Error rate for health checks
+
+  /**
+   * The base URL only matters for model management (listing, pulling, warming up)
+   * before initialize() - initialize() takes it from the config
+   */
+  constructor(baseURL?: string) {
+    this.baseURL = baseURL || process.env.LOCAL_LLM_ENDPOINT || DEFAULT_OLLAMA_URL;
+  }
 
   async initialize(config: LLMConfig): Promise<void> {
     try {
       console.log('🔧 Initializing Local Llama provider...');
       
       this.config = config;
-      this.baseURL = config.baseURL || process.env.LOCAL_LLM_ENDPOINT || 'http://127.0.0.1:11434';
+      this.baseURL = config.baseURL || process.env.LOCAL_LLM_ENDPOINT || DEFAULT_OLLAMA_URL;
 
       // Test connection to Ollama
       await this.testConnection();
@@ -42,11 +84,7 @@ export class LocalLlamaProvider implements LLMProvider {
 
   async generateCompletion(
     messages: LLMMessage[],
-    options?: {
-      maxTokens?: number;
-      temperature?: number;
-      timeout?: number;
-    }
+    options?: LLMCompletionOptions
   ): Promise<LLMResponse> {
     if (!this.isInitialized || !this.config) {
       throw new Error('Local Llama provider not initialized');
@@ -56,13 +94,24 @@ export class LocalLlamaProvider implements LLMProvider {
     this.healthMetrics.requestCount++;
 
     try {
+      // Ollama's generate endpoint has no native tools - describe them in the prompt instead
+      const tools = options?.tools?.length && options.toolChoice !== 'none' ? options.tools : undefined;
+      const promptMessages: LLMMessage[] = tools
+        ? [{ role: 'system', content: buildToolProtocolPrompt(tools, options?.toolChoice) }, ...messages]
+        : messages;
+
       // Convert messages to a single prompt for Ollama
-      const prompt = this.convertMessagesToPrompt(messages);
+      const prompt = this.convertMessagesToPrompt(promptMessages);
+
+      const images = this.collectImages(messages);
 
       const requestBody = {
         model: this.config.model,
         prompt: prompt,
         stream: false,
+        ...(images.length > 0 && { images }),
+        // Ollama constrains output to valid JSON; skipped with tools since calls use the <tool_call> protocol
+        ...(options?.responseFormat === 'json' && !tools && { format: 'json' }),
         options: {
           temperature: options?.temperature ?? this.config.temperature ?? 0.7,
           num_predict: options?.maxTokens || this.config.maxTokens || 500,
@@ -87,25 +136,131 @@ export class LocalLlamaProvider implements LLMProvider {
       const data = await response.json() as any;
       const latency = Date.now() - startTime;
       this.healthMetrics.totalLatency += latency;
+      this.recentRequests.recordSuccess();
+
+      let content: string = data.response || '';
+      let toolCalls: LLMToolCall[] | undefined;
+
+      if (tools) {
+        const parsed = parseToolProtocolResponse(content, tools);
+        content = parsed.content;
+        toolCalls = parsed.toolCalls.length > 0 ? parsed.toolCalls : undefined;
+      }
 
       return {
-        content: data.response || '',
+        content,
         usage: {
           promptTokens: this.estimateTokens(prompt),
           completionTokens: this.estimateTokens(data.response || ''),
           totalTokens: this.estimateTokens(prompt) + this.estimateTokens(data.response || '')
         },
         model: data.model || this.config.model,
-        finishReason: data.done ? 'stop' : 'length'
+        finishReason: toolCalls ? 'tool_calls' : data.done ? 'stop' : 'length',
+        toolCalls
       };
 
     } catch (error) {
       this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
       console.error('❌ Local Llama completion failed:', error);
       throw error;
     }
   }
 
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options?: {
+      maxTokens?: number;
+      temperature?: number;
+      timeout?: number;
+    }
+  ): AsyncGenerator<LLMStreamChunk> {
+    if (!this.isInitialized || !this.config) {
+      throw new Error('Local Llama provider not initialized');
+    }
+
+    const startTime = Date.now();
+    this.healthMetrics.requestCount++;
+
+    try {
+      const prompt = this.convertMessagesToPrompt(messages);
+
+      const images = this.collectImages(messages);
+
+      const requestBody = {
+        model: this.config.model,
+        prompt: prompt,
+        stream: true,
+        ...(images.length > 0 && { images }),
+        options: {
+          temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+          num_predict: options?.maxTokens || this.config.maxTokens || 500,
+          top_k: 40,
+          top_p: 0.9
+        }
+      };
+
+      const response = await fetch(`${this.baseURL}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(requestBody),
+        signal: AbortSignal.timeout(options?.timeout || this.config.timeout || 60000)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      }
+
+      let model = this.config.model;
+      let completion = '';
+
+      // Ollama streams one JSON object per line; the last one has done: true
+      for await (const data of readNDJSON<any>(response.body)) {
+        if (data.error) {
+          throw new Error(`Ollama API error: ${data.error}`);
+        }
+
+        model = data.model || model;
+
+        if (data.response) {
+          completion += data.response;
+          yield { content: data.response, done: false, model };
+        }
+
+        if (data.done) {
+          this.healthMetrics.totalLatency += Date.now() - startTime;
+          this.recentRequests.recordSuccess();
+
+          const promptTokens = data.prompt_eval_count || this.estimateTokens(prompt);
+          const completionTokens = data.eval_count || this.estimateTokens(completion);
+
+          yield {
+            content: '',
+            done: true,
+            model,
+            finishReason: data.done_reason || 'stop',
+            usage: {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens
+            }
+          };
+          return;
+        }
+      }
+
+      throw new Error('Ollama stream ended before completion');
+
+    } catch (error) {
+      this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
+      console.error('❌ Local Llama streaming completion failed:', error);
+      throw error;
+    }
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     if (!this.isInitialized || !this.config) {
       throw new Error('Local Llama provider not initialized');
@@ -119,7 +274,7 @@ export class LocalLlamaProvider implements LLMProvider {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          model: 'nomic-embed-text', // Default embedding model for Ollama
+          model: OLLAMA_EMBEDDING_MODEL,
           prompt: text
         }),
         signal: AbortSignal.timeout(30000)
@@ -133,7 +288,7 @@ export class LocalLlamaProvider implements LLMProvider {
 
       return {
         embedding: data.embedding || [],
-        model: 'nomic-embed-text',
+        model: OLLAMA_EMBEDDING_MODEL,
         usage: {
           totalTokens: this.estimateTokens(text)
         }
@@ -145,10 +300,55 @@ export class LocalLlamaProvider implements LLMProvider {
     }
   }
 
+  async generateEmbeddings(texts: string[]): Promise<BatchEmbeddingResponse> {
+    if (!this.isInitialized || !this.config) {
+      throw new Error('Local Llama provider not initialized');
+    }
+
+    const embeddings: number[][] = [];
+    let totalTokens = 0;
+
+    try {
+      // /api/embed accepts a list of inputs (the older /api/embeddings takes one prompt)
+      for (let i = 0; i < texts.length; i += OLLAMA_EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(i, i + OLLAMA_EMBEDDING_BATCH_SIZE);
+        const response = await fetch(`${this.baseURL}/api/embed`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            model: OLLAMA_EMBEDDING_MODEL,
+            input: batch
+          }),
+          signal: AbortSignal.timeout(60000)
+        });
+
+        if (!response.ok) {
+          throw new Error(`Ollama embeddings error: ${response.status}`);
+        }
+
+        const data = await response.json() as any;
+        embeddings.push(...(data.embeddings || []));
+        totalTokens += data.prompt_eval_count || batch.reduce((sum, text) => sum + this.estimateTokens(text), 0);
+      }
+
+      return { embeddings, model: OLLAMA_EMBEDDING_MODEL, usage: { totalTokens } };
+
+    } catch (error) {
+      console.error('❌ Local Llama batch embedding failed:', error);
+      throw error;
+    }
+  }
+
   supportsEmbeddings(): boolean {
     return true; // Ollama supports embeddings with nomic-embed-text
   }
 
+  getEmbeddingModel() {
+    return { model: OLLAMA_EMBEDDING_MODEL, dimensions: OLLAMA_EMBEDDING_DIMENSIONS };
+  }
+
   getCapabilities() {
     const model = this.config?.model || 'llama2';
     
@@ -186,7 +386,8 @@ export class LocalLlamaProvider implements LLMProvider {
     return {
       ...modelCaps,
       supportsStreaming: true,
-      supportsEmbeddings: true
+      supportsEmbeddings: true,
+      supportsVision: VISION_MODEL_PATTERN.test(model)
     };
   }
 
@@ -194,9 +395,7 @@ export class LocalLlamaProvider implements LLMProvider {
     const avgLatency = this.healthMetrics.requestCount > 0 
       ? this.healthMetrics.totalLatency / this.healthMetrics.requestCount 
       : 0;
-    const errorRate = this.healthMetrics.requestCount > 0 
-      ? this.healthMetrics.errorCount / this.healthMetrics.requestCount 
-      : 0;
+    const errorRate = this.recentRequests.getErrorRate();
 
     // Perform health check
     let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
@@ -241,24 +440,11 @@ export class LocalLlamaProvider implements LLMProvider {
   }
 
   private async testConnection(): Promise<void> {
-    // Check if Ollama is running
-    const response = await fetch(`${this.baseURL}/api/tags`, {
-      signal: AbortSignal.timeout(5000)
-    });
+    // Check if Ollama is running and has the configured model - routing to a missing model only fails later, confusingly
+    const models = await this.listModels();
 
-    if (!response.ok) {
-      throw new Error(`Ollama server not available at ${this.baseURL}`);
-    }
-
-    const data = await response.json() as any;
-    
-    // Check if the model is available
-    if (this.config?.model) {
-      const modelExists = data.models?.some((m: any) => m.name.startsWith(this.config!.model));
-      if (!modelExists) {
-        console.warn(`⚠️  Model ${this.config.model} not found. Available models:`, 
-          data.models?.map((m: any) => m.name) || []);
-      }
+    if (this.config?.model && !models.some(m => LocalLlamaProvider.isSameModel(m.name, this.config!.model))) {
+      throw new LLMModelNotFoundError(this.name, this.config.model, models.map(m => m.name));
     }
   }
 
@@ -272,7 +458,12 @@ export class LocalLlamaProvider implements LLMProvider {
       } else if (message.role === 'user') {
         prompt += `Human: ${message.content}\n\n`;
       } else if (message.role === 'assistant') {
-        prompt += `Assistant: ${message.content}\n\n`;
+        const toolCalls = (message.toolCalls || [])
+          .map(call => `<tool_call>${JSON.stringify({ name: call.name, arguments: call.arguments })}</tool_call>`)
+          .join('\n');
+        prompt += `Assistant: ${[message.content, toolCalls].filter(Boolean).join('\n')}\n\n`;
+      } else if (message.role === 'tool') {
+        prompt += `Tool result (${message.name || message.toolCallId || 'tool'}): ${message.content}\n\n`;
       }
     }
     
@@ -280,21 +471,60 @@ export class LocalLlamaProvider implements LLMProvider {
     return prompt;
   }
 
+  /**
+   * The generate endpoint takes one flat prompt, so images from every message travel together
+   */
+  private collectImages(messages: LLMMessage[]): string[] {
+    return messages.flatMap(message => (message.images || []).map(image => image.data));
+  }
+
   private estimateTokens(text: string): number {
     // Rough estimation: ~4 characters per token
     return Math.ceil(text.length / 4);
   }
 
+  /**
+   * Whether an installed model name refers to the requested model ("llama2" means "llama2:latest")
+   */
+  static isSameModel(installedName: string, model: string): boolean {
+    return installedName === model || installedName === `${model}:latest`;
+  }
+
+  /**
+   * Models installed on the Ollama server
+   */
+  async listModels(): Promise<LocalModelInfo[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/api/tags`, {
+        signal: AbortSignal.timeout(5000)
+      });
+    } catch (error) {
+      throw new Error(`Ollama server not available at ${this.baseURL}: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Ollama server not available at ${this.baseURL}`);
+    }
+
+    const data = await response.json() as any;
+    return (data.models || []).map((m: any) => ({
+      name: m.name,
+      size: m.size || 0,
+      modifiedAt: m.modified_at,
+      digest: m.digest,
+      family: m.details?.family,
+      parameterSize: m.details?.parameter_size,
+      quantization: m.details?.quantization_level
+    }));
+  }
+
   /**
    * List available models from Ollama
    */
   async getAvailableModels(): Promise<string[]> {
     try {
-      const response = await fetch(`${this.baseURL}/api/tags`);
-      if (!response.ok) return [];
-      
-      const data = await response.json() as any;
-      return data.models?.map((m: any) => m.name) || [];
+      return (await this.listModels()).map(m => m.name);
     } catch (error) {
       console.error('Failed to get available models:', error);
       return [];
@@ -302,9 +532,9 @@ export class LocalLlamaProvider implements LLMProvider {
   }
 
   /**
-   * Pull a model from Ollama registry
+   * Pull a model from Ollama registry, reporting download progress as it goes
    */
-  async pullModel(modelName: string): Promise<void> {
+  async pullModel(modelName: string, onProgress?: (progress: ModelPullProgress) => void): Promise<void> {
     try {
       console.log(`📥 Pulling model ${modelName}...`);
       
@@ -314,12 +544,33 @@ export class LocalLlamaProvider implements LLMProvider {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          name: modelName
+          model: modelName,
+          stream: true
         })
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to pull model: ${response.statusText}`);
+        throw new Error(`Failed to pull model: ${response.status} ${response.statusText}`);
+      }
+
+      let succeeded = false;
+      for await (const data of readNDJSON<any>(response.body)) {
+        if (data.error) {
+          throw new Error(`Failed to pull model: ${data.error}`);
+        }
+
+        succeeded = data.status === 'success';
+        onProgress?.({
+          status: data.status,
+          digest: data.digest,
+          total: data.total,
+          completed: data.completed,
+          percent: data.total ? Math.round(((data.completed || 0) / data.total) * 100) : undefined
+        });
+      }
+
+      if (!succeeded) {
+        throw new Error('Failed to pull model: Ollama stream ended before success');
       }
 
       console.log(`✅ Model ${modelName} pulled successfully`);
@@ -328,4 +579,40 @@ export class LocalLlamaProvider implements LLMProvider {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Load a model into memory so the first real request doesn't pay the load time.
+   * Ollama loads the model when given an empty prompt and keeps it for keepAlive.
+   */
+  async warmModel(modelName?: string, keepAlive: string = '30m'): Promise<{ model: string; loadDurationMs: number; totalDurationMs: number }> {
+    const model = modelName || this.config?.model;
+    if (!model) {
+      throw new Error('No model to warm up');
+    }
+
+    const response = await fetch(`${this.baseURL}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ model, prompt: '', stream: false, keep_alive: keepAlive }),
+      signal: AbortSignal.timeout(this.config?.timeout || 120000)  // Loading a large model can take a while
+    });
+
+    if (response.status === 404) {
+      throw new LLMModelNotFoundError(this.name, model, (await this.listModels()).map(m => m.name));
+    }
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    }
+
+    // Durations are reported in nanoseconds
+    const data = await response.json() as any;
+    return {
+      model: data.model || model,
+      loadDurationMs: Math.round((data.load_duration || 0) / 1e6),
+      totalDurationMs: Math.round((data.total_duration || 0) / 1e6)
+    };
+  }
+}
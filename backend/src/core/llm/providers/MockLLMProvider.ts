@@ -0,0 +1,335 @@
+// File: backend/src/core/llm/providers/MockLLMProvider.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  LLMProvider,
+  LLMConfig,
+  LLMMessage,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMCompletionOptions,
+  LLMToolCall,
+  EmbeddingResponse,
+  BatchEmbeddingResponse
+} from '../interfaces/LLMProvider';
+
+/**
+ * A scripted response. Every pattern that is set must match (case-insensitive regex):
+ *  - user:   the last user message
+ *  - system: the system prompt
+ *  - any:    any message in the conversation
+ *  - tools:  true = only when tools are offered, false = only when they are not
+ *  - images: true = only when a message carries images, false = only when none does
+ */
+export interface MockFixture {
+  name?: string;
+  match?: {
+    user?: string;
+    system?: string;
+    any?: string;
+    tools?: boolean;
+    images?: boolean;
+  };
+  response: {
+    content?: string;
+    json?: any;  // Serialized into content - handy for analysis prompts
+    toolCalls?: { name: string; arguments?: Record<string, any> }[];
+    finishReason?: string;
+  };
+}
+
+interface CompiledFixture {
+  fixture: MockFixture;
+  user?: RegExp;
+  system?: RegExp;
+  any?: RegExp;
+}
+
+const DEFAULT_FIXTURES_PATH = path.join(process.cwd(), 'fixtures', 'llm');
+const DEFAULT_RESPONSE = 'This is a mock response from the offline test provider.';
+const MOCK_EMBEDDING_MODEL = 'mock-embedding';
+
+/**
+ * Deterministic provider for offline tests and demos.
+ * Replays responses from fixture files keyed by message pattern and returns
+ * hashed embeddings, so no API keys or local models are needed.
+ */
+export class MockLLMProvider implements LLMProvider {
+  public name = 'mock';
+  public isInitialized = false;
+
+  private config: LLMConfig | null = null;
+  private fixtures: CompiledFixture[] = [];
+  private dimensions: number = 1536;
+  private latency: number = 0;
+  private requestLog: { messages: LLMMessage[]; fixture: string | null; timestamp: Date }[] = [];
+  private embeddedTexts: number = 0;
+  private healthMetrics = {
+    errorCount: 0,
+    requestCount: 0,
+    totalLatency: 0,
+    lastCheck: new Date()
+  };
+
+  async initialize(config: LLMConfig): Promise<void> {
+    console.log('🔧 Initializing Mock LLM provider...');
+
+    this.config = config;
+    this.dimensions = parseInt(process.env.LLM_MOCK_EMBEDDING_DIMENSIONS || '1536');
+    this.latency = parseInt(process.env.LLM_MOCK_LATENCY_MS || '0');
+    this.loadFixtures(process.env.LLM_MOCK_FIXTURES || DEFAULT_FIXTURES_PATH);
+
+    this.isInitialized = true;
+    console.log(`✅ Mock LLM provider initialized with ${this.fixtures.length} fixtures`);
+  }
+
+  async generateCompletion(
+    messages: LLMMessage[],
+    options?: LLMCompletionOptions
+  ): Promise<LLMResponse> {
+    if (!this.isInitialized || !this.config) {
+      throw new Error('Mock LLM provider not initialized');
+    }
+
+    const startTime = Date.now();
+    this.healthMetrics.requestCount++;
+
+    if (this.latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latency));
+    }
+
+    const offeredTools = options?.toolChoice !== 'none' ? options?.tools || [] : [];
+    const fixture = this.findFixture(messages, offeredTools.length > 0);
+    this.requestLog.push({ messages, fixture: fixture?.name || null, timestamp: new Date() });
+
+    const content = fixture
+      ? fixture.response.json !== undefined
+        ? JSON.stringify(fixture.response.json)
+        : fixture.response.content || ''
+      : DEFAULT_RESPONSE;
+
+    // Only return calls for tools the caller actually offered
+    const toolNames = new Set(offeredTools.map(tool => tool.name));
+    const toolCalls: LLMToolCall[] = (fixture?.response.toolCalls || [])
+      .filter(call => toolNames.has(call.name))
+      .map((call, index) => ({
+        id: `mock_call_${index}`,
+        name: call.name,
+        arguments: call.arguments || {}
+      }));
+
+    const promptTokens = this.estimateTokens(messages.map(m => m.content).join('\n'));
+    const completionTokens = this.estimateTokens(content);
+
+    this.healthMetrics.totalLatency += Date.now() - startTime;
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      },
+      model: this.config.model,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : fixture?.response.finishReason || 'stop',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+    };
+  }
+
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options?: {
+      maxTokens?: number;
+      temperature?: number;
+      timeout?: number;
+    }
+  ): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.generateCompletion(messages, options);
+
+    // Replay word by word, keeping whitespace so the chunks join back to the full text
+    for (const piece of response.content.match(/\S+\s*/g) || []) {
+      yield { content: piece, done: false, model: response.model };
+    }
+
+    yield {
+      content: '',
+      done: true,
+      model: response.model,
+      finishReason: response.finishReason,
+      usage: response.usage
+    };
+  }
+
+  async generateEmbedding(text: string): Promise<EmbeddingResponse> {
+    if (!this.isInitialized) {
+      throw new Error('Mock LLM provider not initialized');
+    }
+
+    this.embeddedTexts++;
+    return {
+      embedding: this.hashEmbedding(text),
+      model: MOCK_EMBEDDING_MODEL,
+      usage: {
+        totalTokens: this.estimateTokens(text)
+      }
+    };
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<BatchEmbeddingResponse> {
+    if (!this.isInitialized) {
+      throw new Error('Mock LLM provider not initialized');
+    }
+
+    this.embeddedTexts += texts.length;
+    return {
+      embeddings: texts.map(text => this.hashEmbedding(text)),
+      model: MOCK_EMBEDDING_MODEL,
+      usage: {
+        totalTokens: texts.reduce((sum, text) => sum + this.estimateTokens(text), 0)
+      }
+    };
+  }
+
+  supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  getEmbeddingModel() {
+    return { model: MOCK_EMBEDDING_MODEL, dimensions: this.dimensions };
+  }
+
+  getCapabilities() {
+    return {
+      maxContextLength: 16384,
+      supportsStreaming: true,
+      supportsEmbeddings: true,
+      supportsVision: true,
+      costPerToken: 0,
+      averageLatency: this.latency
+    };
+  }
+
+  async getHealthStatus() {
+    this.healthMetrics.lastCheck = new Date();
+
+    return {
+      status: 'healthy' as const,
+      latency: this.latency,
+      errorRate: 0,
+      lastCheck: this.healthMetrics.lastCheck
+    };
+  }
+
+  estimateCost(promptTokens: number, completionTokens: number = 0): number {
+    return 0;
+  }
+
+  async disconnect(): Promise<void> {
+    this.isInitialized = false;
+    this.config = null;
+    this.fixtures = [];
+    console.log('🔌 Mock LLM provider disconnected');
+  }
+
+  /**
+   * Requests received so far and the fixture that answered each one (for test assertions)
+   */
+  getRequestLog() {
+    return [...this.requestLog];
+  }
+
+  /**
+   * How many texts have been embedded (for asserting that cached embeddings are reused)
+   */
+  getEmbeddedTextCount(): number {
+    return this.embeddedTexts;
+  }
+
+  /**
+   * Add fixtures at runtime, ahead of the ones loaded from disk
+   */
+  addFixtures(fixtures: MockFixture[]): void {
+    this.fixtures = [...fixtures.map(fixture => this.compileFixture(fixture)), ...this.fixtures];
+  }
+
+  private loadFixtures(fixturesPath: string): void {
+    this.fixtures = [];
+
+    if (!fs.existsSync(fixturesPath)) {
+      console.warn(`⚠️  Mock LLM fixtures not found at ${fixturesPath}, using default response only`);
+      return;
+    }
+
+    // A directory is loaded file by file in name order
+    const files = fs.statSync(fixturesPath).isDirectory()
+      ? fs.readdirSync(fixturesPath)
+          .filter(file => file.endsWith('.json'))
+          .sort()
+          .map(file => path.join(fixturesPath, file))
+      : [fixturesPath];
+
+    for (const file of files) {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      const entries: MockFixture[] = Array.isArray(parsed) ? parsed : parsed.fixtures || [];
+      this.fixtures.push(...entries.map(fixture => this.compileFixture(fixture)));
+    }
+  }
+
+  private compileFixture(fixture: MockFixture): CompiledFixture {
+    return {
+      fixture,
+      user: fixture.match?.user ? new RegExp(fixture.match.user, 'i') : undefined,
+      system: fixture.match?.system ? new RegExp(fixture.match.system, 'i') : undefined,
+      any: fixture.match?.any ? new RegExp(fixture.match.any, 'i') : undefined
+    };
+  }
+
+  private findFixture(messages: LLMMessage[], toolsOffered: boolean): MockFixture | null {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    const hasImages = messages.some(m => m.images?.length);
+
+    const match = this.fixtures.find(({ fixture, user, system: systemPattern, any }) => {
+      if (fixture.match?.tools !== undefined && fixture.match.tools !== toolsOffered) return false;
+      if (fixture.match?.images !== undefined && fixture.match.images !== hasImages) return false;
+      if (user && !user.test(lastUser)) return false;
+      if (systemPattern && !systemPattern.test(system)) return false;
+      if (any && !messages.some(m => any.test(m.content))) return false;
+      return true;
+    });
+
+    return match?.fixture || null;
+  }
+
+  /**
+   * Feature-hash the words of the text into a unit vector. Identical texts always get
+   * the same embedding and texts sharing words land close together, which keeps
+   * similarity search meaningful offline.
+   */
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9₵]+/g) || [];
+
+    for (const token of tokens) {
+      const hash = crypto.createHash('md5').update(token).digest();
+      const index = hash.readUInt32BE(0) % this.dimensions;
+      const sign = (hash[4] & 1) === 0 ? 1 : -1;
+      vector[index] += sign;
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (magnitude === 0) {
+      // Empty text - fall back to a single hashed dimension so the vector is never all zeros
+      vector[crypto.createHash('md5').update(text).digest().readUInt32BE(0) % this.dimensions] = 1;
+      return vector;
+    }
+
+    return vector.map(value => value / magnitude);
+  }
+
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -6,8 +6,22 @@ import {
   LLMConfig, 
   LLMMessage, 
   LLMResponse, 
-  EmbeddingResponse 
+  LLMStreamChunk,
+  LLMCompletionOptions,
+  EmbeddingResponse,
+  BatchEmbeddingResponse
 } from '../interfaces/LLMProvider';
+import {
+  toOpenAIMessages,
+  toOpenAITools,
+  toOpenAIToolChoice,
+  fromOpenAIToolCalls
+} from '../utils/toolCalling';
+import { HealthWindow } from '../utils/healthWindow';
+
+const OPENAI_EMBEDDING_BATCH_SIZE = 100;
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-ada-002';
+const OPENAI_EMBEDDING_DIMENSIONS = 1536;
 
 export class OpenAIProvider implements LLMProvider {
   public name = 'openai';
@@ -21,6 +35,7 @@ export class OpenAIProvider implements LLMProvider {
     totalLatency: 0,
     lastCheck: new Date()
   };
+  private recentRequests = new HealthWindow();  // Error rate for health checks
 
   async initialize(config: LLMConfig): Promise<void> {
     try {
@@ -30,8 +45,9 @@ export class OpenAIProvider implements LLMProvider {
       
       this.client = new OpenAI({
         apiKey: config.apiKey || process.env.OPENAI_API_KEY,
+        baseURL: config.baseURL || process.env.OPENAI_BASE_URL || undefined,
         timeout: config.timeout || 30000,
-        maxRetries: config.retries || 2
+        maxRetries: 0  // LLMManager retries and fails over, so its breakers see every attempt
       });
 
       // Test connection
@@ -48,11 +64,7 @@ export class OpenAIProvider implements LLMProvider {
 
   async generateCompletion(
     messages: LLMMessage[],
-    options?: {
-      maxTokens?: number;
-      temperature?: number;
-      timeout?: number;
-    }
+    options?: LLMCompletionOptions
   ): Promise<LLMResponse> {
     if (!this.isInitialized || !this.client || !this.config) {
       throw new Error('OpenAI provider not initialized');
@@ -62,18 +74,25 @@ export class OpenAIProvider implements LLMProvider {
     this.healthMetrics.requestCount++;
 
     try {
+      const tools = options?.tools?.length ? options.tools : undefined;
+
       const response = await this.client.chat.completions.create({
         model: this.config.model,
-        messages: messages.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
+        messages: toOpenAIMessages(messages),
         max_tokens: options?.maxTokens || this.config.maxTokens || 500,
-        temperature: options?.temperature ?? this.config.temperature ?? 0.7
-      });
+        temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+        ...(tools && {
+          tools: toOpenAITools(tools),
+          tool_choice: toOpenAIToolChoice(options?.toolChoice)
+        }),
+        ...(options?.responseFormat === 'json' && {
+          response_format: { type: 'json_object' as const }
+        })
+      }, options?.timeout ? { timeout: options.timeout } : undefined);
 
       const latency = Date.now() - startTime;
       this.healthMetrics.totalLatency += latency;
+      this.recentRequests.recordSuccess();
 
       return {
         content: response.choices[0]?.message?.content || '',
@@ -83,16 +102,81 @@ export class OpenAIProvider implements LLMProvider {
           totalTokens: response.usage?.total_tokens || 0
         },
         model: response.model,
-        finishReason: response.choices[0]?.finish_reason || 'stop'
+        finishReason: response.choices[0]?.finish_reason || 'stop',
+        toolCalls: fromOpenAIToolCalls(response.choices[0]?.message?.tool_calls)
       };
 
     } catch (error) {
       this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
       console.error('❌ OpenAI completion failed:', error);
       throw error;
     }
   }
 
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options?: {
+      maxTokens?: number;
+      temperature?: number;
+      timeout?: number;
+    }
+  ): AsyncGenerator<LLMStreamChunk> {
+    if (!this.isInitialized || !this.client || !this.config) {
+      throw new Error('OpenAI provider not initialized');
+    }
+
+    const startTime = Date.now();
+    this.healthMetrics.requestCount++;
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.config.model,
+        messages: toOpenAIMessages(messages),
+        max_tokens: options?.maxTokens || this.config.maxTokens || 500,
+        temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, options?.timeout ? { timeout: options.timeout } : undefined);
+
+      let model = this.config.model;
+      let finishReason: string | undefined;
+      let usage: LLMStreamChunk['usage'];
+
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+
+        // The final chunk carries usage and no choices
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens || 0,
+            completionTokens: chunk.usage.completion_tokens || 0,
+            totalTokens: chunk.usage.total_tokens || 0
+          };
+        }
+
+        const choice = chunk.choices[0];
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        if (choice?.delta?.content) {
+          yield { content: choice.delta.content, done: false, model };
+        }
+      }
+
+      this.healthMetrics.totalLatency += Date.now() - startTime;
+      this.recentRequests.recordSuccess();
+
+      yield { content: '', done: true, model, finishReason: finishReason || 'stop', usage };
+
+    } catch (error) {
+      this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
+      console.error('❌ OpenAI streaming completion failed:', error);
+      throw error;
+    }
+  }
+
   async generateEmbedding(text: string): Promise<EmbeddingResponse> {
     if (!this.isInitialized || !this.client) {
       throw new Error('OpenAI provider not initialized');
@@ -102,13 +186,14 @@ export class OpenAIProvider implements LLMProvider {
 
     try {
       const response = await this.client.embeddings.create({
-        model: 'text-embedding-ada-002',
+        model: OPENAI_EMBEDDING_MODEL,
         input: text,
         encoding_format: 'float'
       });
 
       const latency = Date.now() - startTime;
       this.healthMetrics.totalLatency += latency;
+      this.recentRequests.recordSuccess();
       this.healthMetrics.requestCount++;
 
       return {
@@ -121,15 +206,61 @@ export class OpenAIProvider implements LLMProvider {
 
     } catch (error) {
       this.healthMetrics.errorCount++;
+      this.recentRequests.recordFailure();
       console.error('❌ OpenAI embedding failed:', error);
       throw error;
     }
   }
 
+  async generateEmbeddings(texts: string[]): Promise<BatchEmbeddingResponse> {
+    if (!this.isInitialized || !this.client) {
+      throw new Error('OpenAI provider not initialized');
+    }
+
+    const embeddings: number[][] = [];
+    let model = OPENAI_EMBEDDING_MODEL;
+    let totalTokens = 0;
+
+    // The embeddings endpoint takes an array of inputs; keep each request a manageable size
+    for (let i = 0; i < texts.length; i += OPENAI_EMBEDDING_BATCH_SIZE) {
+      const startTime = Date.now();
+
+      try {
+        const response = await this.client.embeddings.create({
+          model: OPENAI_EMBEDDING_MODEL,
+          input: texts.slice(i, i + OPENAI_EMBEDDING_BATCH_SIZE),
+          encoding_format: 'float'
+        });
+
+        this.healthMetrics.totalLatency += Date.now() - startTime;
+        this.recentRequests.recordSuccess();
+        this.healthMetrics.requestCount++;
+
+        // Results carry their input index; don't rely on response order
+        const batch = [...response.data].sort((a, b) => a.index - b.index);
+        embeddings.push(...batch.map(item => item.embedding));
+        model = response.model;
+        totalTokens += response.usage?.total_tokens || 0;
+
+      } catch (error) {
+        this.healthMetrics.errorCount++;
+        this.recentRequests.recordFailure();
+        console.error('❌ OpenAI batch embedding failed:', error);
+        throw error;
+      }
+    }
+
+    return { embeddings, model, usage: { totalTokens } };
+  }
+
   supportsEmbeddings(): boolean {
     return true;
   }
 
+  getEmbeddingModel() {
+    return { model: OPENAI_EMBEDDING_MODEL, dimensions: OPENAI_EMBEDDING_DIMENSIONS };
+  }
+
   getCapabilities() {
     const model = this.config?.model || 'gpt-3.5-turbo';
     
@@ -157,7 +288,8 @@ export class OpenAIProvider implements LLMProvider {
     return {
       ...modelCaps,
       supportsStreaming: true,
-      supportsEmbeddings: true
+      supportsEmbeddings: true,
+      supportsVision: /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-4-vision|o1|o3|o4)/.test(model)
     };
   }
 
@@ -166,9 +298,7 @@ export class OpenAIProvider implements LLMProvider {
     const avgLatency = this.healthMetrics.requestCount > 0 
       ? this.healthMetrics.totalLatency / this.healthMetrics.requestCount 
       : 0;
-    const errorRate = this.healthMetrics.requestCount > 0 
-      ? this.healthMetrics.errorCount / this.healthMetrics.requestCount 
-      : 0;
+    const errorRate = this.recentRequests.getErrorRate();
 
     // Perform health check
     let status: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
@@ -0,0 +1,566 @@
+// File: backend/src/core/llm/testing/StubLLMServer.ts
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+
+export type StubApi = 'openai' | 'anthropic' | 'ollama';
+
+/**
+ * A scripted reply. Rules are checked newest first; every field that is set must match.
+ */
+export interface StubRule {
+  name?: string;
+  api?: StubApi;               // Only answer this protocol (unset = all)
+  path?: string;               // Only answer this endpoint, e.g. '/api/pull' (unset = all)
+  match?: string;              // Case-insensitive regex against the last user message / prompt
+  times?: number;              // Remove the rule after it has answered this many requests
+  latencyMs?: number;          // Delay before responding (added to the server-wide latency)
+  error?: {
+    status: number;
+    message?: string;
+    type?: string;
+  };
+  dropConnection?: boolean;    // Destroy the socket instead of answering
+  response?: {
+    content?: string;
+    json?: any;                // Serialized into content
+    toolCalls?: { name: string; arguments?: Record<string, any> }[];
+    finishReason?: string;
+  };
+}
+
+export interface StubRequest {
+  api: StubApi;
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+  rule: string | null;
+  timestamp: Date;
+}
+
+export interface StubServerOptions {
+  port?: number;                 // 0 (default) picks a free port
+  apiKey?: string;               // When set, requests without this key get a 401
+  latencyMs?: number;
+  defaultContent?: string;
+  embeddingDimensions?: number;
+  models?: string[];             // Reported by Ollama's /api/tags
+}
+
+interface ActiveRule {
+  rule: StubRule;
+  pattern?: RegExp;
+  remaining: number;
+}
+
+interface StubReply {
+  content: string;
+  toolCalls: { id: string; name: string; arguments: Record<string, any> }[];
+  finishReason?: string;
+}
+
+const DEFAULT_CONTENT = 'This is a stub response.';
+
+/**
+ * Local HTTP server speaking the OpenAI (chat completions, embeddings), Anthropic (messages)
+ * and Ollama (generate, embed, tags, pull) protocols, streaming included. Replies, latency
+ * and errors are scripted per request, so the real provider classes can be exercised in
+ * tests and scripts without API keys or network access.
+ */
+export class StubLLMServer {
+  private server: http.Server | null = null;
+  private rules: ActiveRule[] = [];
+  private requests: StubRequest[] = [];
+  private models: Set<string>;
+  private baseUrl: string | null = null;
+
+  constructor(private readonly options: StubServerOptions = {}) {
+    this.models = new Set(options.models || ['llama2:latest', 'nomic-embed-text:latest']);
+  }
+
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.url;
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: { message: (error as Error).message, type: 'stub_error' } });
+        } else {
+          res.destroy();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port || 0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    this.baseUrl = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('Stub LLM server is not running');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Base URLs in the form each provider's baseURL setting expects
+   */
+  get urls(): Record<StubApi, string> {
+    return {
+      openai: `${this.url}/v1`,
+      anthropic: this.url,
+      ollama: this.url
+    };
+  }
+
+  /**
+   * Script a reply; the newest matching rule wins
+   */
+  on(rule: StubRule): this {
+    this.rules.unshift({
+      rule,
+      pattern: rule.match ? new RegExp(rule.match, 'i') : undefined,
+      remaining: rule.times ?? Infinity
+    });
+    return this;
+  }
+
+  /**
+   * Forget scripted rules and recorded requests
+   */
+  reset(): void {
+    this.rules = [];
+    this.requests = [];
+  }
+
+  getRequests(api?: StubApi): StubRequest[] {
+    return this.requests.filter(request => !api || request.api === api);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0];
+    const body = await this.readBody(req);
+
+    const api: StubApi | null = path.startsWith('/v1/messages') ? 'anthropic'
+      : path.startsWith('/v1/') ? 'openai'
+      : path.startsWith('/api/') ? 'ollama'
+      : null;
+
+    if (!api) {
+      this.sendJson(res, 404, { error: { message: `Unknown path ${path}`, type: 'not_found' } });
+      return;
+    }
+
+    if (!this.isAuthorized(api, req)) {
+      this.sendError(res, api, 401, 'Invalid API key', 'authentication_error');
+      return;
+    }
+
+    const active = this.findRule(api, path, this.getPromptText(api, path, body));
+    this.requests.push({ api, method: req.method || 'GET', path, headers: req.headers, body, rule: active?.rule.name || null, timestamp: new Date() });
+
+    const latency = (this.options.latencyMs || 0) + (active?.rule.latencyMs || 0);
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    if (active?.rule.dropConnection) {
+      req.socket.destroy();
+      return;
+    }
+
+    if (active?.rule.error) {
+      const { status, message, type } = active.rule.error;
+      this.sendError(res, api, status, message || `Injected error ${status}`, type);
+      return;
+    }
+
+    const route = `${req.method} ${path}`;
+    switch (route) {
+      case 'POST /v1/chat/completions':
+        return this.openAIChat(res, body, this.buildReply(active?.rule));
+      case 'POST /v1/embeddings':
+        return this.openAIEmbeddings(res, body);
+      case 'POST /v1/messages':
+        return this.anthropicMessages(res, body, this.buildReply(active?.rule));
+      case 'POST /api/generate':
+        return this.ollamaGenerate(res, body, this.buildReply(active?.rule));
+      case 'POST /api/embed':
+      case 'POST /api/embeddings':
+        return this.ollamaEmbed(res, path, body);
+      case 'GET /api/tags':
+        return this.ollamaTags(res);
+      case 'POST /api/pull':
+        return this.ollamaPull(res, body);
+      default:
+        this.sendError(res, api, 404, `No stub for ${route}`, 'not_found');
+    }
+  }
+
+  private openAIChat(res: http.ServerResponse, body: any, reply: StubReply): void {
+    const model = body.model || 'gpt-3.5-turbo';
+    const id = `chatcmpl-${crypto.randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const toolCalls = reply.toolCalls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+    }));
+    const finishReason = reply.finishReason || (toolCalls.length > 0 ? 'tool_calls' : 'stop');
+    const usage = this.usage(JSON.stringify(body.messages || []), reply.content);
+    const openAIUsage = { prompt_tokens: usage.prompt, completion_tokens: usage.completion, total_tokens: usage.prompt + usage.completion };
+
+    if (!body.stream) {
+      this.sendJson(res, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: reply.content || null, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) },
+          finish_reason: finishReason
+        }],
+        usage: openAIUsage
+      });
+      return;
+    }
+
+    const chunk = (choices: any[], extra: Record<string, any> = {}) =>
+      ({ id, object: 'chat.completion.chunk', created, model, choices, ...extra });
+
+    const events = [
+      chunk([{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }]),
+      ...this.splitWords(reply.content).map(piece => chunk([{ index: 0, delta: { content: piece }, finish_reason: null }])),
+      chunk([{ index: 0, delta: {}, finish_reason: finishReason }])
+    ];
+    if (body.stream_options?.include_usage) {
+      events.push(chunk([], { usage: openAIUsage }));
+    }
+
+    this.sendSSE(res, events.map(data => ({ data: JSON.stringify(data) })).concat({ data: '[DONE]' }));
+  }
+
+  private openAIEmbeddings(res: http.ServerResponse, body: any): void {
+    const inputs: string[] = Array.isArray(body.input) ? body.input : [body.input];
+    const tokens = inputs.reduce((sum, text) => sum + this.estimateTokens(text), 0);
+
+    this.sendJson(res, 200, {
+      object: 'list',
+      data: inputs.map((text, index) => ({ object: 'embedding', index, embedding: this.embed(text) })),
+      model: body.model || 'text-embedding-ada-002',
+      usage: { prompt_tokens: tokens, total_tokens: tokens }
+    });
+  }
+
+  private anthropicMessages(res: http.ServerResponse, body: any, reply: StubReply): void {
+    const model = body.model || 'claude-3-haiku-20240307';
+    const id = `msg_${crypto.randomBytes(12).toString('hex')}`;
+
+    // A trailing assistant turn is a prefill - the reply continues from it
+    const messages: any[] = body.messages || [];
+    const last = messages[messages.length - 1];
+    const prefill = last?.role === 'assistant' ? this.anthropicText(last.content) : '';
+    const text = prefill && reply.content.startsWith(prefill) ? reply.content.slice(prefill.length) : reply.content;
+
+    const content: any[] = [
+      ...(text ? [{ type: 'text', text }] : []),
+      ...reply.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+    ];
+    const stopReason = reply.finishReason || (reply.toolCalls.length > 0 ? 'tool_use' : 'end_turn');
+    const usage = this.usage(JSON.stringify([body.system || '', messages]), text);
+
+    if (!body.stream) {
+      this.sendJson(res, 200, {
+        id,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content,
+        stop_reason: stopReason,
+        stop_sequence: null,
+        usage: { input_tokens: usage.prompt, output_tokens: usage.completion }
+      });
+      return;
+    }
+
+    const event = (type: string, data: Record<string, any>) => ({ event: type, data: JSON.stringify({ type, ...data }) });
+    this.sendSSE(res, [
+      event('message_start', {
+        message: { id, type: 'message', role: 'assistant', model, content: [], stop_reason: null, usage: { input_tokens: usage.prompt, output_tokens: 1 } }
+      }),
+      event('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }),
+      ...this.splitWords(text).map(piece => event('content_block_delta', { index: 0, delta: { type: 'text_delta', text: piece } })),
+      event('content_block_stop', { index: 0 }),
+      event('message_delta', { delta: { stop_reason: stopReason, stop_sequence: null }, usage: { output_tokens: usage.completion } }),
+      event('message_stop', {})
+    ]);
+  }
+
+  private ollamaGenerate(res: http.ServerResponse, body: any, reply: StubReply): void {
+    const model = body.model || 'llama2';
+
+    if (!Array.from(this.models).some(name => name === model || name === `${model}:latest`)) {
+      this.sendError(res, 'ollama', 404, `model "${model}" not found, try pulling it first`);
+      return;
+    }
+
+    // An empty prompt only loads the model into memory
+    if (!body.prompt) {
+      this.sendJson(res, 200, {
+        model,
+        created_at: new Date().toISOString(),
+        response: '',
+        done: true,
+        done_reason: 'load',
+        load_duration: 1_500_000,
+        total_duration: 2_000_000
+      });
+      return;
+    }
+
+    // Ollama has no native tool calls; models are prompted to answer in the <tool_call> protocol
+    const text = [
+      reply.content,
+      ...reply.toolCalls.map(call => `<tool_call>${JSON.stringify({ name: call.name, arguments: call.arguments })}</tool_call>`)
+    ].filter(Boolean).join('\n');
+    const usage = this.usage(body.prompt || '', text);
+    const final = {
+      model,
+      created_at: new Date().toISOString(),
+      response: '',
+      done: true,
+      done_reason: reply.finishReason || 'stop',
+      prompt_eval_count: usage.prompt,
+      eval_count: usage.completion
+    };
+
+    // Ollama streams unless told otherwise
+    if (body.stream === false) {
+      this.sendJson(res, 200, { ...final, response: text });
+      return;
+    }
+
+    this.sendNDJSON(res, [
+      ...this.splitWords(text).map(piece => ({ model, created_at: new Date().toISOString(), response: piece, done: false })),
+      final
+    ]);
+  }
+
+  private ollamaEmbed(res: http.ServerResponse, path: string, body: any): void {
+    // Legacy /api/embeddings takes one prompt; /api/embed takes input as a string or a list
+    if (path === '/api/embeddings') {
+      this.sendJson(res, 200, { embedding: this.embed(body.prompt || '') });
+      return;
+    }
+
+    const inputs: string[] = Array.isArray(body.input) ? body.input : [body.input];
+    this.sendJson(res, 200, {
+      model: body.model || 'nomic-embed-text',
+      embeddings: inputs.map(text => this.embed(text)),
+      prompt_eval_count: inputs.reduce((sum, text) => sum + this.estimateTokens(text), 0)
+    });
+  }
+
+  private ollamaTags(res: http.ServerResponse): void {
+    this.sendJson(res, 200, {
+      models: Array.from(this.models).map(name => ({
+        name,
+        model: name,
+        modified_at: new Date().toISOString(),
+        size: 3825819519,
+        digest: crypto.createHash('sha256').update(name).digest('hex'),
+        details: { format: 'gguf', family: name.split(/[:\-]/)[0] }
+      }))
+    });
+  }
+
+  private ollamaPull(res: http.ServerResponse, body: any): void {
+    const rawName: string = body.model || body.name || '';
+    const name = rawName.includes(':') ? rawName : `${rawName}:latest`;
+    this.models.add(name);
+
+    const statuses = [
+      { status: 'pulling manifest' },
+      { status: 'downloading', digest: 'sha256:stub', total: 100, completed: 100 },
+      { status: 'verifying sha256 digest' },
+      { status: 'writing manifest' },
+      { status: 'success' }
+    ];
+
+    if (body.stream === false) {
+      this.sendJson(res, 200, { status: 'success' });
+    } else {
+      this.sendNDJSON(res, statuses);
+    }
+  }
+
+  private findRule(api: StubApi, path: string, prompt: string): ActiveRule | null {
+    const active = this.rules.find(({ rule, pattern }) =>
+      (!rule.api || rule.api === api) && (!rule.path || rule.path === path) && (!pattern || pattern.test(prompt))
+    );
+
+    if (active && --active.remaining <= 0) {
+      this.rules = this.rules.filter(candidate => candidate !== active);
+    }
+    return active || null;
+  }
+
+  private buildReply(rule?: StubRule): StubReply {
+    const response = rule?.response;
+    const content = response?.json !== undefined
+      ? JSON.stringify(response.json)
+      : response?.content ?? (response?.toolCalls ? '' : this.options.defaultContent || DEFAULT_CONTENT);
+
+    return {
+      content,
+      toolCalls: (response?.toolCalls || []).map((call, index) => ({
+        id: `call_stub_${index}`,
+        name: call.name,
+        arguments: call.arguments || {}
+      })),
+      finishReason: response?.finishReason
+    };
+  }
+
+  // The text rules match against: the last user turn for chat APIs, the prompt for Ollama
+  private getPromptText(api: StubApi, path: string, body: any): string {
+    if (api === 'ollama') {
+      const prompt: string = body?.prompt || '';
+      const lastHuman = prompt.lastIndexOf('Human: ');
+      return lastHuman >= 0 ? prompt.slice(lastHuman + 7) : prompt;
+    }
+
+    if (path.endsWith('/embeddings')) {
+      return Array.isArray(body?.input) ? body.input.join('\n') : body?.input || '';
+    }
+
+    const lastUser = [...(body?.messages || [])].reverse().find((message: any) => message.role === 'user');
+    if (!lastUser) {
+      return '';
+    }
+    return api === 'anthropic' ? this.anthropicText(lastUser.content) : this.openAIText(lastUser.content);
+  }
+
+  private anthropicText(content: any): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return (content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join('');
+  }
+
+  private openAIText(content: any): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return (content || []).filter((part: any) => part.type === 'text').map((part: any) => part.text).join('');
+  }
+
+  private isAuthorized(api: StubApi, req: http.IncomingMessage): boolean {
+    if (!this.options.apiKey || api === 'ollama') {
+      return true;
+    }
+
+    const key = api === 'anthropic'
+      ? req.headers['x-api-key']
+      : (req.headers.authorization || '').replace(/^Bearer /, '');
+    return key === this.options.apiKey;
+  }
+
+  private sendError(res: http.ServerResponse, api: StubApi, status: number, message: string, type?: string): void {
+    if (api === 'anthropic') {
+      this.sendJson(res, status, { type: 'error', error: { type: type || 'api_error', message } });
+    } else if (api === 'ollama') {
+      this.sendJson(res, status, { error: message });
+    } else {
+      this.sendJson(res, status, { error: { message, type: type || 'api_error', param: null, code: null } });
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendSSE(res: http.ServerResponse, events: { event?: string; data: string }[]): void {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    for (const { event, data } of events) {
+      res.write(`${event ? `event: ${event}\n` : ''}data: ${data}\n\n`);
+    }
+    res.end();
+  }
+
+  private sendNDJSON(res: http.ServerResponse, lines: any[]): void {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    for (const line of lines) {
+      res.write(JSON.stringify(line) + '\n');
+    }
+    res.end();
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const raw = Buffer.concat(chunks).toString('utf-8');
+        try {
+          resolve(raw ? JSON.parse(raw) : {});
+        } catch {
+          resolve({ raw });
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  // Deterministic unit vector, so the same text always gets the same embedding
+  private embed(text: string): number[] {
+    const dimensions = this.options.embeddingDimensions || 16;
+    const vector: number[] = [];
+
+    for (let i = 0; vector.length < dimensions; i++) {
+      const hash = crypto.createHash('sha256').update(`${i}:${text}`).digest();
+      for (let offset = 0; offset + 4 <= hash.length && vector.length < dimensions; offset += 4) {
+        vector.push(hash.readInt32BE(offset) / 0x80000000);
+      }
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / magnitude);
+  }
+
+  private splitWords(text: string): string[] {
+    return text.match(/\S+\s*|\s+/g) || [];
+  }
+
+  private usage(prompt: string, completion: string): { prompt: number; completion: number } {
+    return { prompt: this.estimateTokens(prompt), completion: this.estimateTokens(completion) };
+  }
+
+  private estimateTokens(text: string): number {
+    return Math.ceil((text || '').length / 4);
+  }
+}
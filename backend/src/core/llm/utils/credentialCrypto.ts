@@ -0,0 +1,65 @@
+// File: backend/src/core/llm/utils/credentialCrypto.ts
+
+import * as crypto from 'crypto';
+
+// enc:v1:<iv>:<auth tag>:<ciphertext>, each part base64
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+export class CredentialEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialEncryptionError';
+  }
+}
+
+/**
+ * Whether a stored credential is already in the encrypted format
+ */
+export function isEncryptedCredential(value: string): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt a company API key with AES-256-GCM using LLM_CREDENTIALS_KEY
+ */
+export function encryptCredential(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptCredential. Throws if the value was not
+ * encrypted, was tampered with, or LLM_CREDENTIALS_KEY has changed.
+ */
+export function decryptCredential(value: string): string {
+  if (!isEncryptedCredential(value)) {
+    throw new CredentialEncryptionError('Credential is not encrypted');
+  }
+
+  const [iv, authTag, ciphertext] = value.substring(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !ciphertext) {
+    throw new CredentialEncryptionError('Malformed encrypted credential');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    throw new CredentialEncryptionError('Credential could not be decrypted - check LLM_CREDENTIALS_KEY');
+  }
+}
+
+// Any secret string works; it is stretched to a 256-bit key
+function getEncryptionKey(): Buffer {
+  const secret = process.env.LLM_CREDENTIALS_KEY;
+  if (!secret) {
+    throw new CredentialEncryptionError('LLM_CREDENTIALS_KEY is not set');
+  }
+
+  return crypto.createHash('sha256').update(secret).digest();
+}
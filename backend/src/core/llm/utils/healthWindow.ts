@@ -0,0 +1,61 @@
+// File: backend/src/core/llm/utils/healthWindow.ts
+
+interface Outcome {
+  at: number;
+  ok: boolean;
+}
+
+/**
+ * Request outcomes over a sliding time window (LLM_HEALTH_WINDOW_MS, default 5 minutes).
+ * Health checks report this error rate instead of a lifetime one, so a provider that
+ * has recovered from an outage reads healthy again once the failures age out.
+ */
+export class HealthWindow {
+  private outcomes: Outcome[] = [];
+
+  constructor(
+    private readonly windowMs: number = parseInt(process.env.LLM_HEALTH_WINDOW_MS || '300000'),
+    private readonly maxSamples: number = 500
+  ) {}
+
+  recordSuccess(): void {
+    this.record(true);
+  }
+
+  recordFailure(): void {
+    this.record(false);
+  }
+
+  /**
+   * Share of failed requests in the window (0 when there were none)
+   */
+  getErrorRate(): number {
+    this.prune();
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    return this.outcomes.filter(outcome => !outcome.ok).length / this.outcomes.length;
+  }
+
+  get size(): number {
+    this.prune();
+    return this.outcomes.length;
+  }
+
+  private record(ok: boolean): void {
+    this.outcomes.push({ at: Date.now(), ok });
+    this.prune();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.windowMs;
+    let expired = 0;
+    while (expired < this.outcomes.length && this.outcomes[expired].at < cutoff) {
+      expired++;
+    }
+    expired = Math.max(expired, this.outcomes.length - this.maxSamples);
+    if (expired > 0) {
+      this.outcomes.splice(0, expired);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+// File: backend/src/core/llm/utils/streamParsers.ts
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Read a fetch response body line by line
+ */
+export async function* readLines(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex >= 0) {
+        yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      yield buffer;
+    }
+  } finally {
+    // Consumer stopped early - stop the underlying download
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse a server-sent events body (OpenAI, DeepSeek and Anthropic streaming format)
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array> | null): AsyncGenerator<SSEEvent> {
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+      }
+      event = undefined;
+      data = [];
+      continue;
+    }
+
+    // Comment / keep-alive line
+    if (line.startsWith(':')) {
+      continue;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
+
+/**
+ * Parse a newline-delimited JSON body (Ollama streaming format)
+ */
+export async function* readNDJSON<T = any>(body: ReadableStream<Uint8Array> | null): AsyncGenerator<T> {
+  for await (const line of readLines(body)) {
+    const trimmed = line.trim();
+    if (trimmed) {
+      yield JSON.parse(trimmed) as T;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+// File: backend/src/core/llm/utils/structuredOutput.ts
+
+import Joi from 'joi';
+
+/**
+ * The subset of JSON Schema understood by the validator below
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<string>;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+// Joi is what the rest of the codebase validates with; plain JSON Schema is accepted too
+export type StructuredSchema = Joi.Schema | JsonSchema;
+
+export interface StructuredValidationResult<T = any> {
+  value: T;
+  errors: string[];
+}
+
+/**
+ * Pull the JSON value out of a model reply, tolerating markdown fences and
+ * chatter before or after the object. Throws if nothing parses.
+ */
+export function extractJson(text: string): any {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Fall back to the outermost object/array in the text
+  }
+
+  const start = cleaned.search(/[{[]/);
+  if (start === -1) {
+    throw new Error('No JSON object found in response');
+  }
+
+  const closing = cleaned[start] === '{' ? '}' : ']';
+  const end = cleaned.lastIndexOf(closing);
+  if (end <= start) {
+    throw new Error('Unterminated JSON in response');
+  }
+
+  return JSON.parse(cleaned.substring(start, end + 1));
+}
+
+/**
+ * Validate (and with Joi, coerce and fill defaults on) a parsed value
+ */
+export function validateStructured<T>(value: any, schema: StructuredSchema): StructuredValidationResult<T> {
+  if (Joi.isSchema(schema)) {
+    const result = (schema as Joi.Schema).validate(value, { abortEarly: false, allowUnknown: true, convert: true });
+    return {
+      value: result.value,
+      errors: result.error ? result.error.details.map(detail => detail.message) : []
+    };
+  }
+
+  const errors: string[] = [];
+  validateJsonSchema(value, schema as JsonSchema, '$', errors);
+  return { value, errors };
+}
+
+/**
+ * Render the schema as JSON Schema text for the prompt
+ */
+export function describeSchema(schema: StructuredSchema): string {
+  const jsonSchema = Joi.isSchema(schema)
+    ? joiToJsonSchema((schema as Joi.Schema).describe())
+    : schema;
+
+  return JSON.stringify(jsonSchema);
+}
+
+function validateJsonSchema(value: any, schema: JsonSchema, at: string, errors: string[]): void {
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    errors.push(`${at} must be one of ${JSON.stringify(schema.enum)}`);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${at} must be of type ${types.join(' | ')}`);
+      return;
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at} must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at} must be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at} must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${at} must be at most ${schema.maxLength} characters`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at} must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${at} must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => validateJsonSchema(item, schema.items!, `${at}[${index}]`, errors));
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${at}.${key} is required`);
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        validateJsonSchema(value[key], propertySchema, `${at}.${key}`, errors);
+      }
+    }
+
+    if (schema.additionalProperties === false && schema.properties) {
+      for (const key of Object.keys(value)) {
+        if (!(key in schema.properties)) {
+          errors.push(`${at}.${key} is not allowed`);
+        }
+      }
+    }
+  }
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+/**
+ * Convert a Joi description into JSON Schema (covers the rules used for model output schemas)
+ */
+function joiToJsonSchema(description: any): JsonSchema {
+  const schema: JsonSchema = {};
+  const allowed: any[] = description.allow || [];
+
+  if (description.flags?.description) {
+    schema.description = description.flags.description;
+  }
+
+  if (description.flags?.only && allowed.length > 0) {
+    schema.enum = allowed;
+    return schema;
+  }
+
+  switch (description.type) {
+    case 'object': {
+      schema.type = 'object';
+      schema.properties = {};
+      const required: string[] = [];
+      for (const [key, child] of Object.entries<any>(description.keys || {})) {
+        schema.properties[key] = joiToJsonSchema(child);
+        if (child.flags?.presence === 'required') {
+          required.push(key);
+        }
+      }
+      if (required.length > 0) {
+        schema.required = required;
+      }
+      break;
+    }
+
+    case 'array':
+      schema.type = 'array';
+      if (description.items?.length === 1) {
+        schema.items = joiToJsonSchema(description.items[0]);
+      }
+      break;
+
+    case 'number':
+      schema.type = (description.rules || []).some((rule: any) => rule.name === 'integer') ? 'integer' : 'number';
+      break;
+
+    case 'string':
+    case 'boolean':
+      schema.type = description.type;
+      break;
+
+    default:
+      // any / alternatives - leave unconstrained
+      return schema;
+  }
+
+  for (const rule of description.rules || []) {
+    const limit = rule.args?.limit;
+    if (rule.name === 'min') {
+      if (schema.type === 'array') schema.minItems = limit;
+      else if (schema.type === 'string') schema.minLength = limit;
+      else schema.minimum = limit;
+    } else if (rule.name === 'max') {
+      if (schema.type === 'array') schema.maxItems = limit;
+      else if (schema.type === 'string') schema.maxLength = limit;
+      else schema.maximum = limit;
+    }
+  }
+
+  if (allowed.includes(null) && schema.type) {
+    schema.type = [schema.type as string, 'null'];
+  }
+
+  return schema;
+}
@@ -0,0 +1,175 @@
+// File: backend/src/core/llm/utils/toolCalling.ts
+
+import {
+  LLMMessage,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMToolDefinition
+} from '../interfaces/LLMProvider';
+
+/**
+ * Parse a tool call's JSON arguments string. Models occasionally emit invalid JSON,
+ * in which case the raw text is kept so the handler can still see it.
+ */
+export function parseToolArguments(raw: string | Record<string, any> | undefined): Record<string, any> {
+  if (!raw) {
+    return {};
+  }
+  if (typeof raw !== 'string') {
+    return raw;
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { value: parsed };
+  } catch {
+    return { _raw: raw };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible wire format (OpenAI, DeepSeek)
+// ---------------------------------------------------------------------------
+
+export function toOpenAIMessages(messages: LLMMessage[]): any[] {
+  return messages.map(msg => {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: msg.toolCallId,
+        content: msg.content
+      };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments)
+          }
+        }))
+      };
+    }
+
+    if (msg.images?.length) {
+      return {
+        role: msg.role,
+        content: [
+          ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+          ...msg.images.map(image => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mimeType};base64,${image.data}`, detail: image.detail || 'auto' }
+          }))
+        ]
+      };
+    }
+
+    return {
+      role: msg.role,
+      content: msg.content
+    };
+  });
+}
+
+export function toOpenAITools(tools: LLMToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+}
+
+export function toOpenAIToolChoice(choice?: LLMToolChoice): any {
+  if (!choice) {
+    return undefined;
+  }
+  if (typeof choice === 'string') {
+    return choice;
+  }
+  return { type: 'function', function: { name: choice.name } };
+}
+
+export function fromOpenAIToolCalls(toolCalls: any[] | undefined): LLMToolCall[] | undefined {
+  if (!toolCalls?.length) {
+    return undefined;
+  }
+
+  return toolCalls
+    .filter(call => call.type === 'function' || call.function)
+    .map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: parseToolArguments(call.function.arguments)
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// Prompt-based protocol for models without native tool support (Ollama)
+// ---------------------------------------------------------------------------
+
+const TOOL_CALL_PATTERN = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g;
+
+/**
+ * Instructions appended to the system prompt describing the available tools
+ * and the exact format the model must use to call one.
+ */
+export function buildToolProtocolPrompt(tools: LLMToolDefinition[], choice?: LLMToolChoice): string {
+  const toolList = tools
+    .map(tool => `- ${tool.name}: ${tool.description}\n  Arguments (JSON schema): ${JSON.stringify(tool.parameters)}`)
+    .join('\n');
+
+  let requirement = 'If one of these tools is needed to answer, reply with ONLY the tool call and nothing else. Otherwise answer normally.';
+  if (choice === 'required') {
+    requirement = 'You MUST reply with a tool call.';
+  } else if (choice && typeof choice === 'object') {
+    requirement = `You MUST reply with a call to the ${choice.name} tool.`;
+  }
+
+  return `You can call the following tools:
+${toolList}
+
+To call a tool, reply in exactly this format:
+<tool_call>{"name": "tool_name", "arguments": {"argument": "value"}}</tool_call>
+
+${requirement} Only include argument values the customer actually provided.`;
+}
+
+/**
+ * Extract <tool_call> blocks from a model reply. Returns the remaining text and
+ * the parsed calls; unknown tool names are ignored.
+ */
+export function parseToolProtocolResponse(
+  text: string,
+  tools: LLMToolDefinition[]
+): { content: string; toolCalls: LLMToolCall[] } {
+  const toolNames = new Set(tools.map(tool => tool.name));
+  const toolCalls: LLMToolCall[] = [];
+
+  for (const match of text.matchAll(TOOL_CALL_PATTERN)) {
+    try {
+      const parsed = JSON.parse(match[1]);
+      if (parsed?.name && toolNames.has(parsed.name)) {
+        toolCalls.push({
+          id: `call_${Date.now()}_${toolCalls.length}`,
+          name: parsed.name,
+          arguments: parseToolArguments(parsed.arguments)
+        });
+      }
+    } catch {
+      console.warn('⚠️  Ignoring malformed tool call from model:', match[1].substring(0, 200));
+    }
+  }
+
+  return {
+    content: text.replace(TOOL_CALL_PATTERN, '').trim(),
+    toolCalls
+  };
+}
@@ -0,0 +1,301 @@
+// File: backend/src/core/prompts/PromptRegistry.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CompanyConfig } from '../../types/CompanyTypes';
+import { DEFAULT_PROMPT_TEMPLATES } from './defaultTemplates';
+
+export interface PromptTemplateVersion {
+  version: number;
+  template: string;
+  description?: string;
+  createdAt: string;
+  createdBy?: string;
+  builtIn?: boolean;  // Shipped with the code (domain configs / default templates) - never persisted
+}
+
+export interface PromptTemplate {
+  name: string;
+  description?: string;
+  activeVersion: number;
+  versions: PromptTemplateVersion[];
+}
+
+// Values available to every template as {{name}}; callers add their own (message, knowledge, ...)
+export interface PromptVariables {
+  companyName?: string;
+  brandVoice?: string;
+  currency?: string;
+  stage?: string;
+  [key: string]: any;
+}
+
+export interface PromptVersionRef {
+  name: string;
+  version: number;
+  source: 'registry' | 'company';
+}
+
+export interface RenderedPrompt extends PromptVersionRef {
+  content: string;
+}
+
+// The parts of a domain config that become templates
+export interface PromptDomainConfig {
+  domain: string;
+  systemPrompt: string;
+  analysisInstructions?: string;
+  responseInstructions?: string;
+}
+
+export class PromptTemplateNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Prompt template not found: ${name}`);
+    this.name = 'PromptTemplateNotFoundError';
+  }
+}
+
+export class PromptVersionNotFoundError extends Error {
+  constructor(name: string, version: number) {
+    super(`Prompt template ${name} has no version ${version}`);
+    this.name = 'PromptVersionNotFoundError';
+  }
+}
+
+/**
+ * The version references to record on a response
+ */
+export function toVersionRefs(prompts: RenderedPrompt[]): PromptVersionRef[] {
+  return prompts.map(({ name, version, source }) => ({ name, version, source }));
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  GHS: 'GH₵',
+  USD: '$',
+  EUR: '€'
+};
+
+/**
+ * Named, versioned prompt templates with {{variable}} placeholders.
+ * Version 1 of each template comes from the code; later versions are added at runtime,
+ * persisted to disk and can be activated (rolled forward or back) without a redeploy.
+ * Companies can pin a version or replace a template through CompanyConfig.promptOverrides.
+ */
+export class PromptRegistry {
+  private static instance: PromptRegistry;
+  private templates: Map<string, PromptTemplate> = new Map();
+  private dataFile: string;
+  private persist: boolean;
+
+  private constructor() {
+    const dataDir = process.env.PROMPT_REGISTRY_DIR || path.join(process.cwd(), 'data', 'prompts');
+    this.dataFile = path.join(dataDir, 'prompt_registry.json');
+    this.persist = process.env.PROMPT_REGISTRY_PERSIST !== 'false';
+
+    this.loadFromFile();
+
+    for (const [name, { template, description }] of Object.entries(DEFAULT_PROMPT_TEMPLATES)) {
+      this.registerDefault(name, template, description);
+    }
+  }
+
+  static getInstance(): PromptRegistry {
+    if (!PromptRegistry.instance) {
+      PromptRegistry.instance = new PromptRegistry();
+    }
+    return PromptRegistry.instance;
+  }
+
+  /**
+   * Register the code-defined text of a template as version 1.
+   * Versions added at runtime (and the active pointer) are kept.
+   */
+  registerDefault(name: string, template: string, description?: string): void {
+    const existing = this.templates.get(name);
+    const builtIn: PromptTemplateVersion = {
+      version: 1,
+      template,
+      description,
+      createdAt: new Date(0).toISOString(),
+      builtIn: true
+    };
+
+    if (!existing) {
+      this.templates.set(name, { name, description, activeVersion: 1, versions: [builtIn] });
+      return;
+    }
+
+    existing.description = existing.description || description;
+    existing.versions = [builtIn, ...existing.versions.filter(v => v.version !== 1)];
+  }
+
+  /**
+   * Register a domain's system prompt and instructions as `<domain>.system`,
+   * `<domain>.analysis_instructions` and `<domain>.response_instructions`
+   */
+  registerDomainDefaults(domainConfig: PromptDomainConfig): void {
+    const { domain } = domainConfig;
+
+    this.registerDefault(`${domain}.system`, domainConfig.systemPrompt, `System prompt for the ${domain} assistant`);
+    this.registerDefault(`${domain}.analysis_instructions`, domainConfig.analysisInstructions || '', `Analysis instructions for ${domain} messages`);
+    this.registerDefault(`${domain}.response_instructions`, domainConfig.responseInstructions || '', `Response guidelines for ${domain} replies`);
+  }
+
+  /**
+   * Add a new version of a template (activated by default)
+   */
+  addVersion(
+    name: string,
+    template: string,
+    options: { description?: string; createdBy?: string; activate?: boolean } = {}
+  ): PromptTemplateVersion {
+    const existing = this.getTemplate(name);
+    const version: PromptTemplateVersion = {
+      version: Math.max(...existing.versions.map(v => v.version)) + 1,
+      template,
+      description: options.description,
+      createdAt: new Date().toISOString(),
+      createdBy: options.createdBy
+    };
+
+    existing.versions.push(version);
+    if (options.activate !== false) {
+      existing.activeVersion = version.version;
+    }
+
+    this.saveToFile();
+    console.log(`📝 Prompt ${name} v${version.version} added${options.activate !== false ? ' and activated' : ''}`);
+    return version;
+  }
+
+  /**
+   * Make a version the one rendered by default - used both to roll forward and to roll back
+   */
+  activate(name: string, version: number): PromptTemplate {
+    const existing = this.getTemplate(name);
+    if (!existing.versions.some(v => v.version === version)) {
+      throw new PromptVersionNotFoundError(name, version);
+    }
+
+    existing.activeVersion = version;
+    this.saveToFile();
+    console.log(`📝 Prompt ${name} now at v${version}`);
+    return existing;
+  }
+
+  get(name: string): PromptTemplate | undefined {
+    return this.templates.get(name);
+  }
+
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Render a template with the company's override (if any) and variables.
+   * Company name, brand voice and currency are filled from the company config unless given.
+   */
+  render(
+    name: string,
+    variables: PromptVariables = {},
+    companyConfig?: CompanyConfig
+  ): RenderedPrompt {
+    const existing = this.getTemplate(name);
+    const override = companyConfig?.promptOverrides?.[name];
+    const values = this.getCompanyVariables(companyConfig);
+    for (const [key, value] of Object.entries(variables)) {
+      if (value !== undefined) {
+        values[key] = value;
+      }
+    }
+
+    if (override?.template) {
+      return {
+        name,
+        version: override.version ?? 1,
+        source: 'company',
+        content: this.interpolate(override.template, values)
+      };
+    }
+
+    let selected = existing.versions.find(v => v.version === (override?.version ?? existing.activeVersion));
+    if (!selected) {
+      console.warn(`⚠️  ${companyConfig?.id} pins missing version ${override?.version} of ${name}, using v${existing.activeVersion}`);
+      selected = existing.versions.find(v => v.version === existing.activeVersion)!;
+    }
+
+    return {
+      name,
+      version: selected.version,
+      source: 'registry',
+      content: this.interpolate(selected.template, values)
+    };
+  }
+
+  /**
+   * Template variables derived from a company config
+   */
+  getCompanyVariables(companyConfig?: CompanyConfig): PromptVariables {
+    if (!companyConfig) {
+      return {};
+    }
+
+    const currency = companyConfig.businessSettings?.currency;
+    return {
+      companyName: companyConfig.name,
+      brandVoice: companyConfig.branding?.brandVoice || 'professional',
+      currency: currency ? CURRENCY_SYMBOLS[currency] || currency : undefined,
+      contactPhone: companyConfig.contactInfo?.phone
+    };
+  }
+
+  private getTemplate(name: string): PromptTemplate {
+    const existing = this.templates.get(name);
+    if (!existing) {
+      throw new PromptTemplateNotFoundError(name);
+    }
+    return existing;
+  }
+
+  // Unknown variables render as empty strings so a missing value never leaks "{{...}}" to the model
+  private interpolate(template: string, values: PromptVariables): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+      const value = values[key];
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+
+  private loadFromFile(): void {
+    if (!this.persist || !fs.existsSync(this.dataFile)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.dataFile, 'utf-8'));
+      for (const template of parsed.templates || []) {
+        this.templates.set(template.name, template);
+      }
+      console.log(`📝 Loaded ${this.templates.size} prompt templates from ${this.dataFile}`);
+    } catch (error) {
+      console.error('❌ Failed to load prompt registry:', error);
+    }
+  }
+
+  private saveToFile(): void {
+    if (!this.persist) {
+      return;
+    }
+
+    // Only runtime versions are stored; built-in text always comes from the code
+    const templates = this.list()
+      .map(template => ({ ...template, versions: template.versions.filter(v => !v.builtIn) }))
+      .filter(template => template.versions.length > 0 || template.activeVersion !== 1);
+
+    try {
+      fs.mkdirSync(path.dirname(this.dataFile), { recursive: true });
+      fs.writeFileSync(this.dataFile, JSON.stringify({ templates }, null, 2));
+    } catch (error) {
+      console.error('❌ Failed to save prompt registry:', error);
+    }
+  }
+}
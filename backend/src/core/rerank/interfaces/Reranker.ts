@@ -0,0 +1,34 @@
+// File: backend/src/core/rerank/interfaces/Reranker.ts
+
+import { CompanyConfig } from '../../../types/CompanyTypes';
+import { UsageTags } from '../../llm/managers/UsageLedger';
+
+export interface RerankCandidate {
+  id: string;
+  content: string;
+  score: number;                      // Retrieval score the candidate arrived with (higher is better)
+  metadata?: Record<string, any>;
+}
+
+export interface RerankResult {
+  id: string;
+  score: number;                      // Reranker score, 0-1
+  originalScore: number;
+  rank: number;                       // 0-based position after reranking
+  originalRank: number;
+  reason?: string;                    // LLM reranker: why the passage was scored so
+}
+
+export interface RerankOptions {
+  companyConfig?: CompanyConfig;
+  usage?: UsageTags;
+}
+
+export interface Reranker {
+  name: string;
+
+  /**
+   * Rescore the candidates for the query and return them all, best first
+   */
+  rerank(query: string, candidates: RerankCandidate[], options?: RerankOptions): Promise<RerankResult[]>;
+}
@@ -0,0 +1,81 @@
+// File: backend/src/core/rerank/managers/RerankerManager.ts
+
+import { Reranker } from '../interfaces/Reranker';
+import { LexicalReranker } from '../providers/LexicalReranker';
+import { LLMReranker } from '../providers/LLMReranker';
+import { RerankerConfig } from '../../../types/domain';
+
+export const DEFAULT_RERANKER: Required<RerankerConfig> = {
+  enabled: true,
+  type: 'lexical',
+  candidates: 20
+};
+
+export class RerankerNotFoundError extends Error {
+  constructor(type: string) {
+    super(`Unknown reranker "${type}"`);
+    this.name = 'RerankerNotFoundError';
+  }
+}
+
+/**
+ * Registry of rerankers by type. The lexical and LLM rerankers are built in; others can be
+ * registered at startup and selected per domain with ragConfig.reranker.type.
+ */
+export class RerankerManager {
+  private static instance: RerankerManager;
+  private factories: Map<string, () => Reranker> = new Map();
+  private rerankers: Map<string, Reranker> = new Map();
+
+  private constructor() {
+    this.register('lexical', () => new LexicalReranker());
+    this.register('llm', () => new LLMReranker());
+  }
+
+  static getInstance(): RerankerManager {
+    if (!RerankerManager.instance) {
+      RerankerManager.instance = new RerankerManager();
+    }
+    return RerankerManager.instance;
+  }
+
+  /**
+   * Add or replace a reranker type
+   */
+  register(type: string, factory: () => Reranker): void {
+    this.factories.set(type, factory);
+    this.rerankers.delete(type);
+  }
+
+  get(type: string): Reranker {
+    let reranker = this.rerankers.get(type);
+    if (!reranker) {
+      const factory = this.factories.get(type);
+      if (!factory) {
+        throw new RerankerNotFoundError(type);
+      }
+      reranker = factory();
+      this.rerankers.set(type, reranker);
+    }
+    return reranker;
+  }
+
+  getAvailableTypes(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Defaults, then RERANKER_* environment overrides, then the given config
+   * (e.g. the domain's ragConfig.reranker). RERANKER_ENABLED=false turns reranking off everywhere.
+   */
+  resolveConfig(config?: RerankerConfig): Required<RerankerConfig> {
+    const resolved: Required<RerankerConfig> = {
+      ...DEFAULT_RERANKER,
+      ...(process.env.RERANKER_TYPE && { type: process.env.RERANKER_TYPE }),
+      ...(process.env.RERANKER_CANDIDATES && { candidates: parseInt(process.env.RERANKER_CANDIDATES) }),
+      ...Object.fromEntries(Object.entries(config || {}).filter(([, value]) => value !== undefined))
+    };
+
+    return process.env.RERANKER_ENABLED === 'false' ? { ...resolved, enabled: false } : resolved;
+  }
+}
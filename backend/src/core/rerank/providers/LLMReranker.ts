@@ -0,0 +1,97 @@
+// File: backend/src/core/rerank/providers/LLMReranker.ts
+
+import Joi from 'joi';
+import { Reranker, RerankCandidate, RerankOptions, RerankResult } from '../interfaces/Reranker';
+import { LLMManager } from '../../llm/managers/LLMManager';
+import { PromptRegistry } from '../../prompts/PromptRegistry';
+import { rankByScore } from '../utils/ranking';
+
+const relevanceSchema = Joi.object({
+  relevance: Joi.number().min(0).max(10).required(),
+  reason: Joi.string().allow('').default('')
+});
+
+export interface LLMRerankerOptions {
+  concurrency?: number;       // Candidates scored at once (default 4)
+  maxPassageChars?: number;   // Longer passages are cut before scoring (default 1500)
+  timeoutMs?: number;         // Per candidate; a timed-out candidate keeps its retrieval score
+}
+
+/**
+ * Pointwise reranking with the company's LLM chain: each candidate passage is scored 0-10
+ * for the question on its own. More accurate than lexical features on paraphrased questions,
+ * at one small completion per candidate - keep the candidate set short.
+ */
+export class LLMReranker implements Reranker {
+  name = 'llm';
+  private concurrency: number;
+  private maxPassageChars: number;
+  private timeoutMs: number;
+
+  constructor(options: LLMRerankerOptions = {}) {
+    this.concurrency = options.concurrency || parseInt(process.env.RERANKER_LLM_CONCURRENCY || '4');
+    this.maxPassageChars = options.maxPassageChars || 1500;
+    this.timeoutMs = options.timeoutMs || parseInt(process.env.RERANKER_LLM_TIMEOUT_MS || '5000');
+  }
+
+  async rerank(query: string, candidates: RerankCandidate[], options: RerankOptions = {}): Promise<RerankResult[]> {
+    const scores: number[] = new Array(candidates.length);
+    const reasons: Array<string | undefined> = new Array(candidates.length);
+    let failures = 0;
+
+    for (let start = 0; start < candidates.length; start += this.concurrency) {
+      const batch = candidates.slice(start, start + this.concurrency);
+      await Promise.all(batch.map(async (candidate, offset) => {
+        const i = start + offset;
+        try {
+          const verdict = await this.score(query, candidate, options);
+          scores[i] = verdict.relevance / 10;
+          reasons[i] = verdict.reason || undefined;
+        } catch (error) {
+          failures++;
+          scores[i] = Math.max(0, Math.min(1, candidate.score || 0));
+        }
+      }));
+    }
+
+    if (failures === candidates.length && candidates.length > 0) {
+      throw new Error(`LLM reranker could not score any of ${candidates.length} candidates`);
+    }
+    if (failures > 0) {
+      console.warn(`⚠️  LLM reranker kept retrieval scores for ${failures} of ${candidates.length} candidates`);
+    }
+
+    return rankByScore(candidates, scores, reasons);
+  }
+
+  private async score(
+    query: string,
+    candidate: RerankCandidate,
+    options: RerankOptions
+  ): Promise<{ relevance: number; reason: string }> {
+    const passage = candidate.content.length > this.maxPassageChars
+      ? `${candidate.content.slice(0, this.maxPassageChars)}...`
+      : candidate.content;
+
+    const prompt = PromptRegistry.getInstance().render('rerank.relevance', {
+      query: query.replace(/"/g, "'"),
+      passage: passage.replace(/"""/g, "'''")
+    }, options.companyConfig);
+
+    const response = await LLMManager.getInstance().generateStructured<{ relevance: number; reason: string }>(
+      [{ role: 'user', content: prompt.content }],
+      relevanceSchema,
+      {
+        maxTokens: 60,
+        temperature: 0,
+        timeout: this.timeoutMs,
+        retries: 0,
+        maxRepairs: 0,
+        companyConfig: options.companyConfig,
+        priority: 'interactive',
+        usage: { ...options.usage, operation: 'rerank' }
+      }
+    );
+    return response.data;
+  }
+}
@@ -0,0 +1,100 @@
+// File: backend/src/core/rerank/providers/LexicalReranker.ts
+
+import { Reranker, RerankCandidate, RerankResult } from '../interfaces/Reranker';
+import { tokenize } from '../../vector/utils/Bm25Index';
+import { rankByScore } from '../utils/ranking';
+
+// Share of the final score per feature
+const FEATURE_WEIGHTS = {
+  coverage: 0.35,    // Query words present in the passage
+  phrase: 0.2,       // Query word pairs present in the same order
+  proximity: 0.15,   // Query words found close together
+  heading: 0.1,      // Query words in the title or heading breadcrumb
+  retrieval: 0.15,   // The score the candidate arrived with
+  priority: 0.05     // Curated document priority
+};
+
+// Words a passage window may span and still count as "close together"
+const PROXIMITY_WINDOW = 25;
+
+const PRIORITY_SCORES: Record<string, number> = { high: 1, medium: 0.5, low: 0 };
+
+/**
+ * Rescoring from query/passage features, with no model calls: how many of the query's
+ * words and phrases the passage contains, how close together, whether its headings match,
+ * plus the retrieval score and document priority. Cheap enough to run on every query.
+ */
+export class LexicalReranker implements Reranker {
+  name = 'lexical';
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult[]> {
+    const queryTerms = tokenize(query);
+    const words = new Set(queryTerms.filter(term => !term.includes('_')));
+    const pairs = new Set(queryTerms.filter(term => term.includes('_')));
+
+    const scores = candidates.map(candidate => {
+      if (words.size === 0) {
+        return this.clamp(candidate.score);
+      }
+
+      const passage = tokenize(candidate.content);
+      const passageWords = passage.filter(term => !term.includes('_'));
+      const passageTerms = new Set(passage);
+      const headingTerms = new Set(tokenize([candidate.metadata?.title, candidate.metadata?.breadcrumb, candidate.metadata?.category]
+        .filter(value => typeof value === 'string')
+        .join(' ')));
+
+      const features = {
+        coverage: this.share(words, passageTerms),
+        phrase: pairs.size > 0 ? this.share(pairs, passageTerms) : this.share(words, passageTerms),
+        proximity: this.proximity(words, passageWords),
+        heading: this.share(words, headingTerms),
+        retrieval: this.clamp(candidate.score),
+        priority: PRIORITY_SCORES[candidate.metadata?.priority] ?? 0.5
+      };
+
+      return (Object.keys(FEATURE_WEIGHTS) as Array<keyof typeof FEATURE_WEIGHTS>)
+        .reduce((sum, feature) => sum + FEATURE_WEIGHTS[feature] * features[feature], 0);
+    });
+
+    return rankByScore(candidates, scores);
+  }
+
+  private share(terms: Set<string>, found: Set<string>): number {
+    let matched = 0;
+    terms.forEach(term => {
+      if (found.has(term)) matched++;
+    });
+    return matched / terms.size;
+  }
+
+  // Most distinct query words inside any window of PROXIMITY_WINDOW passage words
+  private proximity(words: Set<string>, passage: string[]): number {
+    const counts = new Map<string, number>();
+    let best = 0;
+
+    for (let end = 0; end < passage.length; end++) {
+      if (words.has(passage[end])) {
+        counts.set(passage[end], (counts.get(passage[end]) || 0) + 1);
+      }
+
+      const start = end - PROXIMITY_WINDOW;
+      if (start >= 0 && words.has(passage[start])) {
+        const remaining = counts.get(passage[start])! - 1;
+        if (remaining === 0) {
+          counts.delete(passage[start]);
+        } else {
+          counts.set(passage[start], remaining);
+        }
+      }
+
+      best = Math.max(best, counts.size);
+    }
+
+    return best / words.size;
+  }
+
+  private clamp(score: number): number {
+    return Math.max(0, Math.min(1, score || 0));
+  }
+}
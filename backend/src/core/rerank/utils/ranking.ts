@@ -0,0 +1,24 @@
+// File: backend/src/core/rerank/utils/ranking.ts
+
+import { RerankCandidate, RerankResult } from '../interfaces/Reranker';
+
+/**
+ * Candidates ordered by their new scores; ties keep the retrieval order
+ */
+export function rankByScore(
+  candidates: RerankCandidate[],
+  scores: number[],
+  reasons: Array<string | undefined> = []
+): RerankResult[] {
+  return candidates
+    .map((candidate, i) => ({
+      id: candidate.id,
+      score: scores[i],
+      originalScore: candidate.score,
+      rank: 0,
+      originalRank: i,
+      ...(reasons[i] && { reason: reasons[i] })
+    }))
+    .sort((a, b) => b.score - a.score || a.originalRank - b.originalRank)
+    .map((result, rank) => ({ ...result, rank }));
+}
@@ -10,16 +10,23 @@ export interface VectorDocument {
 export interface VectorSearchResult {
   document: VectorDocument;
   score: number;
+  vectorScore?: number;    // Hybrid search: the embedding similarity, when the vector search found it
+  keywordScore?: number;   // Hybrid search: the BM25 score, when the keyword search found it
 }
 
 export interface VectorStoreConfig {
-  provider: 'pinecone' | 'weaviate' | 'qdrant' | 'postgresql';
+  provider: 'pinecone' | 'weaviate' | 'qdrant' | 'postgresql' | 'memory' | 'local';
   apiKey?: string;
   environment?: string;
   indexName?: string;
   host?: string;
   dimensions?: number;
   metric?: 'cosine' | 'euclidean' | 'dotproduct';
+  seedFile?: string;
+  connectionString?: string;        // PostgreSQL (pgvector) connection URL
+  dataDir?: string;                 // Local store snapshot directory (unset = not persisted)
+  indexType?: 'hnsw' | 'ivfflat' | 'flat';  // ANN index (ivfflat is PostgreSQL only)
+  collectionPerCompany?: boolean;   // Qdrant: one collection per companyId (default true)
 }
 
 export interface VectorStoreProvider {
@@ -79,6 +86,11 @@ export interface VectorStoreProvider {
    */
   documentExists(id: string): Promise<boolean>;
   
+  /**
+   * Every stored document, for stores that hold them in process (used to build keyword indexes)
+   */
+  listDocuments?(): Promise<VectorDocument[]>;
+  
   /**
    * Get collection/index statistics
    */
@@ -2,6 +2,14 @@
 
 import { VectorStoreProvider, VectorStoreConfig } from '../interfaces/VectorStoreProvider';
 import { PineconeProvider } from '../providers/PineconeProvider';
+import { InMemoryProvider } from '../providers/InMemoryProvider';
+import { LocalVectorStoreProvider } from '../providers/LocalVectorStoreProvider';
+import { PgVectorProvider } from '../providers/PgVectorProvider';
+import { QdrantProvider } from '../providers/QdrantProvider';
+import { HybridSearchProvider } from '../providers/HybridSearchProvider';
+import { resolveHybridSearchConfig } from '../utils/rankFusion';
+import { EmbeddingCache, EmbeddingCacheStats } from '../../llm/managers/EmbeddingCache';
+import * as path from 'path';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -23,7 +31,9 @@ export class VectorStoreManager {
    * Initialize vector store based on environment configuration
    */
   async initialize(): Promise<VectorStoreProvider> {
-    const providerType = process.env.VECTOR_STORE_PROVIDER || 'pinecone';
+    // Offline (mock LLM) runs default to the in-memory store, setups without Pinecone to the local one
+    const providerType = process.env.VECTOR_STORE_PROVIDER ||
+      (process.env.LLM_MOCK === 'true' ? 'memory' : process.env.PINECONE_API_KEY ? 'pinecone' : 'local');
     
     console.log(`🔧 Initializing vector store: ${providerType}`);
 
@@ -116,7 +126,35 @@ export class VectorStoreManager {
         return {
           ...baseConfig,
           host: process.env.QDRANT_HOST || 'http://localhost:6333',
-          apiKey: process.env.QDRANT_API_KEY
+          apiKey: process.env.QDRANT_API_KEY,
+          indexName: process.env.QDRANT_COLLECTION || 'ai-insure-agent',
+          dimensions: parseInt(process.env.QDRANT_DIMENSIONS || '') || baseConfig.dimensions,
+          collectionPerCompany: process.env.QDRANT_COLLECTION_PER_COMPANY !== 'false'
+        };
+
+      case 'postgresql':
+        return {
+          ...baseConfig,
+          connectionString: process.env.PGVECTOR_DATABASE_URL || process.env.DATABASE_URL,
+          indexName: process.env.PGVECTOR_TABLE || 'vector_documents',
+          indexType: (process.env.PGVECTOR_INDEX_TYPE as VectorStoreConfig['indexType']) || 'hnsw',
+          dimensions: parseInt(process.env.PGVECTOR_DIMENSIONS || '') || baseConfig.dimensions
+        };
+
+      case 'memory':
+        return {
+          ...baseConfig,
+          seedFile: process.env.MEMORY_VECTOR_SEED_FILE
+        };
+
+      case 'local':
+        return {
+          ...baseConfig,
+          indexName: process.env.LOCAL_VECTOR_INDEX_NAME || 'ai-insure-agent',
+          indexType: process.env.LOCAL_VECTOR_INDEX_TYPE === 'flat' ? 'flat' : 'hnsw',
+          dataDir: process.env.LOCAL_VECTOR_STORE_PERSIST === 'false'
+            ? undefined
+            : process.env.LOCAL_VECTOR_STORE_DIR || path.join(process.cwd(), 'data', 'vectors')
         };
       
       default:
@@ -125,19 +163,45 @@ export class VectorStoreManager {
   }
 
   /**
-   * Create a provider instance based on type
+   * Create a provider instance based on type, with a keyword index alongside unless
+   * HYBRID_SEARCH_ENABLED=false
    */
   private createProvider(providerType: string): VectorStoreProvider {
+    const provider = this.createVectorProvider(providerType);
+    if (!resolveHybridSearchConfig().enabled) {
+      return provider;
+    }
+
+    return new HybridSearchProvider(provider, {
+      snapshotFile: process.env.HYBRID_SEARCH_PERSIST === 'false'
+        ? undefined
+        : path.join(
+          process.env.KEYWORD_INDEX_DIR || process.env.LOCAL_VECTOR_STORE_DIR || path.join(process.cwd(), 'data', 'vectors'),
+          `keywords-${providerType}.json`
+        )
+    });
+  }
+
+  private createVectorProvider(providerType: string): VectorStoreProvider {
     switch (providerType) {
       case 'pinecone':
         return new PineconeProvider();
+
+      case 'memory':
+        return new InMemoryProvider();
+
+      case 'local':
+        return new LocalVectorStoreProvider();
+
+      case 'postgresql':
+        return new PgVectorProvider();
       
       // TODO: Add other providers when implemented
       case 'weaviate':
         throw new Error('Weaviate provider not yet implemented');
       
       case 'qdrant':
-        throw new Error('Qdrant provider not yet implemented');
+        return new QdrantProvider();
       
       default:
         throw new Error(`Unknown vector store provider: ${providerType}`);
@@ -148,7 +212,14 @@ export class VectorStoreManager {
    * Get all available providers
    */
   getAvailableProviders(): string[] {
-    return ['pinecone']; // Add more as they're implemented
+    return ['pinecone', 'memory', 'local', 'postgresql', 'qdrant']; // Add more as they're implemented
+  }
+
+  /**
+   * Hit/miss counts of the embedding cache shared by every provider
+   */
+  getEmbeddingCacheStats(): EmbeddingCacheStats {
+    return EmbeddingCache.getInstance().getStats();
   }
 
   /**
@@ -164,6 +235,7 @@ export class VectorStoreManager {
       }
     }
     
+    await EmbeddingCache.getInstance().flush();
     this.providers.clear();
     this.activeProvider = null;
     console.log('✅ Vector store manager shutdown complete');
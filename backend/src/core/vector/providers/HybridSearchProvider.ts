@@ -0,0 +1,294 @@
+// File: backend/src/core/vector/providers/HybridSearchProvider.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  VectorStoreProvider,
+  VectorDocument,
+  VectorSearchResult,
+  VectorStoreConfig
+} from '../interfaces/VectorStoreProvider';
+import { Bm25Index } from '../utils/Bm25Index';
+import { MetadataFilter, matchesMetadataFilter } from '../utils/metadataFilter';
+import { reciprocalRankFusion, resolveHybridSearchConfig } from '../utils/rankFusion';
+import { HybridSearchConfig } from '../../../types/domain';
+
+export interface HybridSearchProviderOptions {
+  config?: HybridSearchConfig;
+  snapshotFile?: string;   // Where the keyword index is saved for stores that cannot list their documents
+}
+
+interface KeywordEntry {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+}
+
+interface KeywordSnapshot {
+  version: 1;
+  provider: string;
+  updatedAt: string;
+  documents: KeywordEntry[];
+}
+
+// Documents without a companyId share one index
+const UNSCOPED = '';
+
+/**
+ * Adds BM25 keyword search to any vector store. Writes go to the wrapped store and into a
+ * keyword index per company; searchByText runs both searches and merges them by reciprocal
+ * rank fusion, so exact terms ("SSNIT", "Tier 2", a vintage) are found even when the
+ * embedding ranks them low. In-process stores rebuild the keyword index from their documents
+ * on startup; remote stores (Pinecone, Qdrant, pgvector) keep it in a snapshot file, so
+ * documents written by another process only appear after a restart.
+ */
+export class HybridSearchProvider implements VectorStoreProvider {
+  private indexes: Map<string, Bm25Index> = new Map();
+  private entries: Map<string, KeywordEntry> = new Map();
+  private config: Required<HybridSearchConfig>;
+  private snapshotFile: string | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private savePending = false;
+
+  constructor(private readonly inner: VectorStoreProvider, options: HybridSearchProviderOptions = {}) {
+    this.config = resolveHybridSearchConfig(options.config);
+    this.snapshotFile = options.snapshotFile || null;
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get isInitialized(): boolean {
+    return this.inner.isInitialized;
+  }
+
+  /**
+   * The wrapped vector store
+   */
+  get vectorStore(): VectorStoreProvider {
+    return this.inner;
+  }
+
+  async initialize(config: VectorStoreConfig): Promise<void> {
+    await this.inner.initialize(config);
+    this.clearIndexes();
+
+    if (this.inner.listDocuments) {
+      for (const document of await this.inner.listDocuments()) {
+        this.index(document);
+      }
+      this.snapshotFile = null;
+    } else if (this.snapshotFile && fs.existsSync(this.snapshotFile)) {
+      const snapshot: KeywordSnapshot = JSON.parse(await fs.promises.readFile(this.snapshotFile, 'utf-8'));
+      if (snapshot.provider === this.inner.name) {
+        for (const entry of snapshot.documents || []) {
+          this.index(entry);
+        }
+      }
+    }
+
+    console.log(`🔤 Keyword index ready for ${this.inner.name}: ${this.entries.size} documents in ${this.indexes.size} company indexes`);
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    await this.inner.addDocuments(documents);
+    documents.forEach(document => this.index(document));
+    this.touch();
+  }
+
+  async addDocument(document: VectorDocument): Promise<void> {
+    await this.addDocuments([document]);
+  }
+
+  async updateDocument(id: string, document: Partial<VectorDocument>): Promise<void> {
+    await this.inner.updateDocument(id, document);
+
+    // Stores differ in how they merge partial updates - index what was actually stored
+    const updated = await this.inner.getDocument(id);
+    if (updated) {
+      this.index(updated);
+      this.touch();
+    }
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    const deleted = await this.inner.deleteDocument(id);
+    if (this.unindex(id)) {
+      this.touch();
+    }
+    return deleted;
+  }
+
+  async similaritySearch(
+    queryEmbedding: number[],
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    // No query text to match keywords against
+    return this.inner.similaritySearch(queryEmbedding, topK, filter);
+  }
+
+  async searchByText(
+    query: string,
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    return this.hybridSearch(query, topK, filter);
+  }
+
+  /**
+   * Vector and keyword search fused by reciprocal rank. `config` overrides the provider's
+   * weights for one call, e.g. with a domain's ragConfig.hybridSearch.
+   */
+  async hybridSearch(
+    query: string,
+    topK: number = 3,
+    filter?: MetadataFilter,
+    config?: HybridSearchConfig
+  ): Promise<VectorSearchResult[]> {
+    const settings = config ? resolveHybridSearchConfig(this.config, config) : this.config;
+    if (!settings.enabled || settings.keywordWeight <= 0) {
+      return this.inner.searchByText(query, topK, filter);
+    }
+
+    const candidates = Math.max(topK, Math.ceil(topK * settings.candidateMultiplier));
+    const keywordHits = this.keywordSearch(query, candidates, filter);
+    const vectorResults = settings.vectorWeight > 0
+      ? await this.inner.searchByText(query, candidates, filter)
+      : [];
+
+    const fused = reciprocalRankFusion([
+      { ids: vectorResults.map(result => result.document.id), weight: settings.vectorWeight },
+      { ids: keywordHits.map(hit => hit.id), weight: settings.keywordWeight }
+    ], settings.rrfK);
+
+    const vectorById = new Map(vectorResults.map(result => [result.document.id, result]));
+    const keywordById = new Map(keywordHits.map(hit => [hit.id, hit.score]));
+
+    return Array.from(fused)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topK)
+      .map(([id, score]) => {
+        const vectorResult = vectorById.get(id);
+        const entry = this.entries.get(id)!;
+        return {
+          document: vectorResult?.document || { id, content: entry.content, metadata: entry.metadata },
+          score,
+          ...(vectorResult && { vectorScore: vectorResult.score }),
+          ...(keywordById.has(id) && { keywordScore: keywordById.get(id) })
+        };
+      });
+  }
+
+  /**
+   * BM25 hits, searching only the filtered company's index when the filter names one
+   */
+  keywordSearch(query: string, topK: number, filter?: MetadataFilter): Array<{ id: string; score: number }> {
+    const companyId = filter?.companyId;
+    const indexes = typeof companyId === 'string'
+      ? [this.indexes.get(companyId)].filter((index): index is Bm25Index => !!index)
+      : Array.from(this.indexes.values());
+
+    const accept = (id: string) => matchesMetadataFilter(this.entries.get(id)?.metadata, filter);
+
+    // Scores from separate indexes are close enough to merge - each uses its own statistics
+    return indexes
+      .flatMap(index => index.search(query, topK, accept))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    return this.inner.getDocument(id);
+  }
+
+  async documentExists(id: string): Promise<boolean> {
+    return this.inner.documentExists(id);
+  }
+
+  async getStats(): Promise<{ documentCount: number; indexSize: number; lastUpdated: Date }> {
+    return this.inner.getStats();
+  }
+
+  async clearCollection(): Promise<void> {
+    await this.inner.clearCollection();
+    this.clearIndexes();
+    this.touch();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.writeQueue;
+    this.clearIndexes();
+    await this.inner.disconnect();
+  }
+
+  private index(document: { id: string; content: string; metadata?: Record<string, any> }): void {
+    const metadata = document.metadata || {};
+    const company = typeof metadata.companyId === 'string' ? metadata.companyId : UNSCOPED;
+
+    // A document moved to another company leaves its old index
+    const previous = this.entries.get(document.id);
+    if (previous && (previous.metadata.companyId ?? UNSCOPED) !== company) {
+      this.unindex(document.id);
+    }
+
+    let index = this.indexes.get(company);
+    if (!index) {
+      index = new Bm25Index();
+      this.indexes.set(company, index);
+    }
+    index.add(document.id, document.content);
+    this.entries.set(document.id, { id: document.id, content: document.content, metadata });
+  }
+
+  private unindex(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    const company = typeof entry.metadata.companyId === 'string' ? entry.metadata.companyId : UNSCOPED;
+    const index = this.indexes.get(company);
+    index?.remove(id);
+    if (index && index.size === 0) {
+      this.indexes.delete(company);
+    }
+    this.entries.delete(id);
+    return true;
+  }
+
+  private clearIndexes(): void {
+    this.indexes.clear();
+    this.entries.clear();
+  }
+
+  // Mutations in the same tick share one snapshot write
+  private touch(): void {
+    if (!this.snapshotFile || this.savePending) {
+      return;
+    }
+    this.savePending = true;
+
+    const snapshotFile = this.snapshotFile;
+    this.writeQueue = this.writeQueue
+      .then(() => new Promise<void>(resolve => setImmediate(resolve)))
+      .then(async () => {
+        this.savePending = false;
+        const snapshot: KeywordSnapshot = {
+          version: 1,
+          provider: this.inner.name,
+          updatedAt: new Date().toISOString(),
+          documents: Array.from(this.entries.values())
+        };
+
+        await fs.promises.mkdir(path.dirname(snapshotFile), { recursive: true });
+        await fs.promises.writeFile(`${snapshotFile}.tmp`, JSON.stringify(snapshot));
+        await fs.promises.rename(`${snapshotFile}.tmp`, snapshotFile);
+      })
+      .catch(error => {
+        this.savePending = false;
+        console.error('❌ Failed to persist keyword index:', error);
+      });
+  }
+}
@@ -0,0 +1,218 @@
+// File: backend/src/core/vector/providers/InMemoryProvider.ts
+
+import * as fs from 'fs';
+import {
+  VectorStoreProvider,
+  VectorDocument,
+  VectorSearchResult,
+  VectorStoreConfig
+} from '../interfaces/VectorStoreProvider';
+import { matchesMetadataFilter } from '../utils/metadataFilter';
+import { LLMManager } from '../../llm/managers/LLMManager';
+import { RequestPriority } from '../../llm/managers/RequestScheduler';
+
+/**
+ * Process-local vector store with brute-force cosine search.
+ * Needs no external service, so it backs offline runs and CI (together with the mock LLM provider).
+ * Embeddings come from the LLM manager's embedding provider.
+ */
+export class InMemoryProvider implements VectorStoreProvider {
+  public name = 'memory';
+  public isInitialized = false;
+
+  private documents: Map<string, VectorDocument> = new Map();
+  private llmManager: LLMManager;
+  private lastUpdated: Date = new Date();
+
+  constructor() {
+    this.llmManager = LLMManager.getInstance();
+  }
+
+  async initialize(config: VectorStoreConfig): Promise<void> {
+    console.log('🔧 Initializing in-memory vector store...');
+
+    // Optional seed file in the backend/data knowledge format: { documents: [...] }
+    if (config.seedFile && fs.existsSync(config.seedFile)) {
+      const parsed = JSON.parse(fs.readFileSync(config.seedFile, 'utf-8'));
+      for (const doc of parsed.documents || []) {
+        // Stored embeddings may come from a different model - re-embed lazily on first search
+        this.documents.set(doc.id, {
+          id: doc.id,
+          content: doc.content,
+          metadata: doc.metadata || {}
+        });
+      }
+      console.log(`📚 Seeded ${this.documents.size} documents from ${config.seedFile}`);
+    }
+
+    this.isInitialized = true;
+    console.log('✅ In-memory vector store initialized');
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    this.ensureInitialized();
+
+    // One batched call for everything missing an embedding (cached texts are not re-embedded)
+    const pending = documents.filter(document => !document.embedding);
+    const { embeddings } = pending.length > 0
+      ? await this.llmManager.generateEmbeddings(pending.map(document => document.content), { priority: 'batch' })
+      : { embeddings: [] as number[][] };
+    const embeddingById = new Map(pending.map((document, i) => [document.id, embeddings[i]]));
+
+    for (const document of documents) {
+      this.documents.set(document.id, {
+        ...document,
+        embedding: document.embedding || embeddingById.get(document.id)
+      });
+    }
+    this.lastUpdated = new Date();
+  }
+
+  async addDocument(document: VectorDocument): Promise<void> {
+    this.ensureInitialized();
+
+    this.documents.set(document.id, {
+      ...document,
+      embedding: document.embedding || await this.embed(document.content, 'batch')
+    });
+    this.lastUpdated = new Date();
+  }
+
+  async updateDocument(id: string, document: Partial<VectorDocument>): Promise<void> {
+    this.ensureInitialized();
+
+    const existing = this.documents.get(id);
+    if (!existing) {
+      throw new Error(`Document ${id} not found`);
+    }
+
+    const contentChanged = document.content !== undefined && document.content !== existing.content;
+    const updated: VectorDocument = {
+      ...existing,
+      ...document,
+      id,
+      metadata: { ...existing.metadata, ...document.metadata }
+    };
+
+    if (contentChanged && !document.embedding) {
+      updated.embedding = await this.embed(updated.content, 'batch');
+    }
+
+    this.documents.set(id, updated);
+    this.lastUpdated = new Date();
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    const deleted = this.documents.delete(id);
+    if (deleted) {
+      this.lastUpdated = new Date();
+    }
+    return deleted;
+  }
+
+  async similaritySearch(
+    queryEmbedding: number[],
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    this.ensureInitialized();
+
+    const results: VectorSearchResult[] = [];
+
+    for (const document of this.documents.values()) {
+      if (!matchesMetadataFilter(document.metadata, filter)) {
+        continue;
+      }
+
+      if (!document.embedding) {
+        document.embedding = await this.embed(document.content, 'interactive');
+      }
+
+      results.push({
+        document: { id: document.id, content: document.content, metadata: document.metadata },
+        score: this.cosineSimilarity(queryEmbedding, document.embedding)
+      });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async searchByText(
+    query: string,
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    const queryEmbedding = await this.embed(query, 'interactive');
+    return this.similaritySearch(queryEmbedding, topK, filter);
+  }
+
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    this.ensureInitialized();
+    return this.documents.get(id) || null;
+  }
+
+  async documentExists(id: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.documents.has(id);
+  }
+
+  async listDocuments(): Promise<VectorDocument[]> {
+    this.ensureInitialized();
+    return Array.from(this.documents.values());
+  }
+
+  async getStats(): Promise<{
+    documentCount: number;
+    indexSize: number;
+    lastUpdated: Date;
+  }> {
+    return {
+      documentCount: this.documents.size,
+      indexSize: this.documents.size,
+      lastUpdated: this.lastUpdated
+    };
+  }
+
+  async clearCollection(): Promise<void> {
+    this.documents.clear();
+    this.lastUpdated = new Date();
+  }
+
+  async disconnect(): Promise<void> {
+    this.documents.clear();
+    this.isInitialized = false;
+    console.log('🔌 In-memory vector store disconnected');
+  }
+
+  private async embed(text: string, priority: RequestPriority): Promise<number[]> {
+    const response = await this.llmManager.generateEmbedding(text, { priority });
+    return response.embedding;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let magnitudeA = 0;
+    let magnitudeB = 0;
+
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      magnitudeA += a[i] * a[i];
+      magnitudeB += b[i] * b[i];
+    }
+
+    if (magnitudeA === 0 || magnitudeB === 0) {
+      return 0;
+    }
+    return dot / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('In-memory vector store not initialized');
+    }
+  }
+}
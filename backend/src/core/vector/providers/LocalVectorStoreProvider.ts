@@ -0,0 +1,323 @@
+// File: backend/src/core/vector/providers/LocalVectorStoreProvider.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  VectorStoreProvider,
+  VectorDocument,
+  VectorSearchResult,
+  VectorStoreConfig
+} from '../interfaces/VectorStoreProvider';
+import { HnswIndex, HnswGraph } from '../utils/HnswIndex';
+import { matchesMetadataFilter } from '../utils/metadataFilter';
+import { LLMManager } from '../../llm/managers/LLMManager';
+import { RequestPriority } from '../../llm/managers/RequestScheduler';
+
+interface LocalVectorSnapshot {
+  version: 1;
+  dimensions: number | null;
+  updatedAt: string;
+  documents: VectorDocument[];
+  graph?: HnswGraph;
+}
+
+// Below this many matching documents a filtered search scans them directly
+const FLAT_FILTER_THRESHOLD = 500;
+
+/**
+ * Vector store kept in process and saved as a JSON snapshot under backend/data/vectors,
+ * so development and self-hosted setups get persistent RAG without an external service.
+ * Searches use an HNSW graph (or a flat cosine scan with indexType 'flat'), and filters
+ * accept plain values or Pinecone-style operators ($eq, $ne, $in, $nin, $gt, $gte, $lt, $lte).
+ */
+export class LocalVectorStoreProvider implements VectorStoreProvider {
+  public name = 'local';
+  public isInitialized = false;
+
+  private documents: Map<string, VectorDocument> = new Map();
+  private index: HnswIndex | null = null;
+  private dimensions: number | null = null;
+  private dataFile: string | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private savePending = false;
+  private llmManager: LLMManager;
+  private lastUpdated: Date = new Date();
+
+  constructor() {
+    this.llmManager = LLMManager.getInstance();
+  }
+
+  async initialize(config: VectorStoreConfig): Promise<void> {
+    console.log('🔧 Initializing local vector store...');
+
+    this.index = config.indexType === 'flat' ? null : new HnswIndex();
+    this.dataFile = config.dataDir
+      ? path.join(config.dataDir, `${config.indexName || 'default'}.json`)
+      : null;
+
+    if (this.dataFile && fs.existsSync(this.dataFile)) {
+      const snapshot: LocalVectorSnapshot = JSON.parse(await fs.promises.readFile(this.dataFile, 'utf-8'));
+      this.dimensions = snapshot.dimensions;
+      this.lastUpdated = new Date(snapshot.updatedAt);
+
+      // Restoring the saved graph skips re-inserting every vector, which is slow at 1536 dimensions
+      const vectors = new Map((snapshot.documents || [])
+        .filter(document => document.embedding)
+        .map(document => [document.id, document.embedding!] as [string, number[]]));
+      const restored = !!this.index && !!snapshot.graph && this.index.restore(snapshot.graph, vectors);
+
+      for (const document of snapshot.documents || []) {
+        this.documents.set(document.id, { ...document, metadata: document.metadata || {} });
+        if (this.index && !restored && document.embedding) {
+          this.index.insert(document.id, document.embedding);
+        }
+      }
+      console.log(`📚 Loaded ${this.documents.size} documents from ${this.dataFile}`);
+    }
+
+    this.isInitialized = true;
+    console.log(`✅ Local vector store initialized (${this.index ? 'hnsw' : 'flat'} index${this.dataFile ? '' : ', not persisted'})`);
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    this.ensureInitialized();
+
+    // One batched call for everything missing an embedding (cached texts are not re-embedded)
+    const pending = documents.filter(document => !document.embedding);
+    const { embeddings } = pending.length > 0
+      ? await this.llmManager.generateEmbeddings(pending.map(document => document.content), { priority: 'batch' })
+      : { embeddings: [] as number[][] };
+    const embeddingById = new Map(pending.map((document, i) => [document.id, embeddings[i]]));
+
+    for (const document of documents) {
+      this.store({
+        ...document,
+        embedding: document.embedding || embeddingById.get(document.id)
+      });
+    }
+    this.touch();
+  }
+
+  async addDocument(document: VectorDocument): Promise<void> {
+    this.ensureInitialized();
+
+    this.store({
+      ...document,
+      embedding: document.embedding || await this.embed(document.content, 'batch')
+    });
+    this.touch();
+  }
+
+  async updateDocument(id: string, document: Partial<VectorDocument>): Promise<void> {
+    this.ensureInitialized();
+
+    const existing = this.documents.get(id);
+    if (!existing) {
+      throw new Error(`Document ${id} not found`);
+    }
+
+    const contentChanged = document.content !== undefined && document.content !== existing.content;
+    const updated: VectorDocument = {
+      ...existing,
+      ...document,
+      id,
+      metadata: { ...existing.metadata, ...document.metadata }
+    };
+
+    if (contentChanged && !document.embedding) {
+      updated.embedding = await this.embed(updated.content, 'batch');
+    }
+
+    this.store(updated);
+    this.touch();
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    const deleted = this.documents.delete(id);
+    if (deleted) {
+      this.index?.remove(id);
+      this.touch();
+    }
+    return deleted;
+  }
+
+  async similaritySearch(
+    queryEmbedding: number[],
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    this.ensureInitialized();
+
+    if (this.dimensions !== null && queryEmbedding.length !== this.dimensions) {
+      throw new Error(`Query embedding has ${queryEmbedding.length} dimensions, the local index holds ${this.dimensions}`);
+    }
+
+    const hasFilter = !!filter && Object.keys(filter).length > 0;
+    const matching = hasFilter
+      ? Array.from(this.documents.values()).filter(document => matchesMetadataFilter(document.metadata, filter))
+      : null;
+
+    if (this.index && (!matching || matching.length > FLAT_FILTER_THRESHOLD)) {
+      const accept = matching ? (id: string) => matchesMetadataFilter(this.documents.get(id)!.metadata, filter) : undefined;
+      const hits = this.index.search(queryEmbedding, topK, accept);
+
+      // A selective filter can leave the graph walk short - scan the matches instead
+      if (hits.length >= Math.min(topK, matching ? matching.length : this.index.size)) {
+        return hits.map(hit => this.toResult(this.documents.get(hit.id)!, hit.similarity));
+      }
+    }
+
+    return (matching || Array.from(this.documents.values()))
+      .filter(document => document.embedding)
+      .map(document => this.toResult(document, cosineSimilarity(queryEmbedding, document.embedding!)))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async searchByText(
+    query: string,
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    const queryEmbedding = await this.embed(query, 'interactive');
+    return this.similaritySearch(queryEmbedding, topK, filter);
+  }
+
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    this.ensureInitialized();
+    return this.documents.get(id) || null;
+  }
+
+  async documentExists(id: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.documents.has(id);
+  }
+
+  async listDocuments(): Promise<VectorDocument[]> {
+    this.ensureInitialized();
+    return Array.from(this.documents.values());
+  }
+
+  async getStats(): Promise<{
+    documentCount: number;
+    indexSize: number;
+    lastUpdated: Date;
+  }> {
+    return {
+      documentCount: this.documents.size,
+      indexSize: this.index ? this.index.size : this.documents.size,
+      lastUpdated: this.lastUpdated
+    };
+  }
+
+  async clearCollection(): Promise<void> {
+    this.documents.clear();
+    this.index?.clear();
+    this.dimensions = null;
+    this.touch();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.flush();
+    this.documents.clear();
+    this.index = null;
+    this.dimensions = null;
+    this.isInitialized = false;
+    console.log('🔌 Local vector store disconnected');
+  }
+
+  /**
+   * Wait for the pending snapshot write
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private store(document: VectorDocument): void {
+    const embedding = document.embedding;
+    if (embedding) {
+      if (this.dimensions === null) {
+        this.dimensions = embedding.length;
+      } else if (embedding.length !== this.dimensions) {
+        throw new Error(
+          `Document ${document.id} has a ${embedding.length}-dimension embedding, the local index holds ${this.dimensions} - clear it after changing embedding models`
+        );
+      }
+    }
+
+    this.documents.set(document.id, { ...document, metadata: document.metadata || {} });
+    if (this.index && embedding) {
+      this.index.insert(document.id, embedding);
+    }
+  }
+
+  private toResult(document: VectorDocument, score: number): VectorSearchResult {
+    return {
+      document: { id: document.id, content: document.content, metadata: document.metadata },
+      score
+    };
+  }
+
+  // Mutations in the same tick share one snapshot write
+  private touch(): void {
+    this.lastUpdated = new Date();
+
+    if (!this.dataFile || this.savePending) {
+      return;
+    }
+    this.savePending = true;
+
+    const dataFile = this.dataFile;
+    this.writeQueue = this.writeQueue
+      .then(() => new Promise<void>(resolve => setImmediate(resolve)))
+      .then(async () => {
+        this.savePending = false;
+        const snapshot: LocalVectorSnapshot = {
+          version: 1,
+          dimensions: this.dimensions,
+          updatedAt: this.lastUpdated.toISOString(),
+          documents: Array.from(this.documents.values()),
+          graph: this.index?.toGraph()
+        };
+
+        // Write then rename, so a crash mid-write never leaves a truncated snapshot
+        await fs.promises.mkdir(path.dirname(dataFile), { recursive: true });
+        await fs.promises.writeFile(`${dataFile}.tmp`, JSON.stringify(snapshot));
+        await fs.promises.rename(`${dataFile}.tmp`, dataFile);
+      })
+      .catch(error => {
+        this.savePending = false;
+        console.error('❌ Failed to persist local vector store:', error);
+      });
+  }
+
+  private async embed(text: string, priority: RequestPriority): Promise<number[]> {
+    const response = await this.llmManager.generateEmbedding(text, { priority });
+    return response.embedding;
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('Local vector store not initialized');
+    }
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+
+  if (magnitudeA === 0 || magnitudeB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
+}
@@ -0,0 +1,452 @@
+// File: backend/src/core/vector/providers/PgVectorProvider.ts
+
+import {
+  VectorStoreProvider,
+  VectorDocument,
+  VectorSearchResult,
+  VectorStoreConfig
+} from '../interfaces/VectorStoreProvider';
+import { LLMManager } from '../../llm/managers/LLMManager';
+import { RequestPriority } from '../../llm/managers/RequestScheduler';
+
+// Operator class, distance operator and distance -> similarity score per metric
+const METRICS = {
+  cosine: { opclass: 'vector_cosine_ops', operator: '<=>', score: (distance: number) => 1 - distance },
+  euclidean: { opclass: 'vector_l2_ops', operator: '<->', score: (distance: number) => 1 / (1 + distance) },
+  dotproduct: { opclass: 'vector_ip_ops', operator: '<#>', score: (distance: number) => -distance }  // <#> is the negative inner product
+};
+
+// Rows per INSERT statement when adding documents in bulk
+const INSERT_BATCH_SIZE = 200;
+
+// Serializes migrations when several instances start at once
+const MIGRATION_LOCK_ID = 742019;
+
+/**
+ * Vector store on PostgreSQL with the pgvector extension, so deployments that already run
+ * Postgres for the PostgreSQLAdapter need no separate vector service. The provider creates and
+ * migrates its own table, keeps metadata in JSONB (filtered with containment, so the GIN index
+ * applies) and builds an HNSW or IVFFlat index for the configured metric.
+ */
+export class PgVectorProvider implements VectorStoreProvider {
+  public name = 'postgresql';
+  public isInitialized = false;
+
+  private pool: any;
+  private table = 'vector_documents';
+  private dimensions = 1536;
+  private metric: keyof typeof METRICS = 'cosine';
+  private llmManager: LLMManager;
+
+  constructor() {
+    this.llmManager = LLMManager.getInstance();
+  }
+
+  async initialize(config: VectorStoreConfig): Promise<void> {
+    console.log('🔧 Initializing pgvector store...');
+
+    this.table = config.indexName || this.table;
+    if (!/^[a-z_][a-z0-9_]{0,50}$/i.test(this.table)) {
+      throw new Error(`Invalid pgvector table name "${this.table}"`);
+    }
+    this.dimensions = config.dimensions || this.dimensions;
+    this.metric = config.metric || this.metric;
+
+    let Pool: any;
+    try {
+      ({ Pool } = require('pg'));
+    } catch {
+      throw new Error('The postgresql vector store needs the "pg" package - run npm install pg');
+    }
+
+    // Without a connection string, connect like the PostgreSQLAdapter does
+    this.pool = new Pool({
+      ...(config.connectionString
+        ? { connectionString: config.connectionString }
+        : {
+            host: process.env.DB_HOST || 'localhost',
+            port: process.env.DB_PORT || 5432,
+            database: process.env.DB_NAME || 'postgres',
+            user: process.env.DB_USER || 'postgres',
+            password: process.env.DB_PASSWORD || ''
+          }),
+      max: 10,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 5000
+    });
+
+    // Recall/speed trade-off of the ANN index, per connection
+    if (config.indexType === 'ivfflat') {
+      const probes = parseInt(process.env.PGVECTOR_IVFFLAT_PROBES || '') || 10;
+      this.pool.on('connect', (client: any) => client.query(`SET ivfflat.probes = ${probes}`));
+    } else if (config.indexType !== 'flat') {
+      const efSearch = parseInt(process.env.PGVECTOR_HNSW_EF_SEARCH || '') || 100;
+      this.pool.on('connect', (client: any) => client.query(`SET hnsw.ef_search = ${efSearch}`));
+    }
+
+    try {
+      await this.migrate(config.indexType || 'hnsw');
+    } catch (error) {
+      await this.pool.end();
+      this.pool = null;
+      throw error;
+    }
+
+    this.isInitialized = true;
+    console.log(`✅ pgvector store initialized (table ${this.table}, ${config.indexType || 'hnsw'} index, ${this.metric})`);
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    this.ensureInitialized();
+
+    // One batched call for everything missing an embedding (cached texts are not re-embedded)
+    const pending = documents.filter(document => !document.embedding);
+    const { embeddings } = pending.length > 0
+      ? await this.llmManager.generateEmbeddings(pending.map(document => document.content), { priority: 'batch' })
+      : { embeddings: [] as number[][] };
+    const embeddingById = new Map(pending.map((document, i) => [document.id, embeddings[i]]));
+
+    const rows = documents.map(document => ({
+      ...document,
+      embedding: document.embedding || embeddingById.get(document.id)
+    }));
+
+    await this.transaction(async client => {
+      for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+        const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+        const values: any[] = [];
+        const placeholders = batch.map(row => {
+          values.push(row.id, row.content, JSON.stringify(row.metadata || {}), this.toVector(row.embedding!));
+          const n = values.length;
+          return `($${n - 3}, $${n - 2}, $${n - 1}::jsonb, $${n}::vector)`;
+        });
+
+        await client.query(
+          `INSERT INTO ${this.table} (id, content, metadata, embedding)
+           VALUES ${placeholders.join(', ')}
+           ON CONFLICT (id) DO UPDATE SET
+             content = EXCLUDED.content,
+             metadata = EXCLUDED.metadata,
+             embedding = EXCLUDED.embedding,
+             updated_at = now()`,
+          values
+        );
+      }
+    });
+  }
+
+  async addDocument(document: VectorDocument): Promise<void> {
+    await this.addDocuments([document]);
+  }
+
+  /**
+   * Merge the change into the stored row inside a transaction, holding a row lock so
+   * concurrent updates cannot drop each other's metadata
+   */
+  async updateDocument(id: string, document: Partial<VectorDocument>): Promise<void> {
+    this.ensureInitialized();
+
+    // Embed outside the transaction so the row is not locked during the API call
+    let embedding = document.embedding;
+    if (!embedding && document.content !== undefined) {
+      const existing = await this.getDocument(id);
+      if (existing && existing.content !== document.content) {
+        embedding = await this.embed(document.content, 'batch');
+      }
+    }
+
+    await this.transaction(async client => {
+      const locked = await client.query(`SELECT id FROM ${this.table} WHERE id = $1 FOR UPDATE`, [id]);
+      if (locked.rowCount === 0) {
+        throw new Error(`Document ${id} not found`);
+      }
+
+      await client.query(
+        `UPDATE ${this.table} SET
+           content = COALESCE($2, content),
+           metadata = metadata || $3::jsonb,
+           embedding = COALESCE($4::vector, embedding),
+           updated_at = now()
+         WHERE id = $1`,
+        [id, document.content ?? null, JSON.stringify(document.metadata || {}), embedding ? this.toVector(embedding) : null]
+      );
+    });
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    const result = await this.pool.query(`DELETE FROM ${this.table} WHERE id = $1`, [id]);
+    return result.rowCount > 0;
+  }
+
+  async similaritySearch(
+    queryEmbedding: number[],
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    this.ensureInitialized();
+
+    if (queryEmbedding.length !== this.dimensions) {
+      throw new Error(`Query embedding has ${queryEmbedding.length} dimensions, ${this.table} holds ${this.dimensions}`);
+    }
+
+    const { operator, score } = METRICS[this.metric];
+    const values: any[] = [this.toVector(queryEmbedding), topK];
+    const where = this.buildFilter(filter, values);
+
+    const result = await this.pool.query(
+      `SELECT id, content, metadata, embedding ${operator} $1::vector AS distance
+       FROM ${this.table}
+       WHERE embedding IS NOT NULL${where ? ` AND ${where}` : ''}
+       ORDER BY embedding ${operator} $1::vector
+       LIMIT $2`,
+      values
+    );
+
+    return result.rows.map((row: any) => ({
+      document: { id: row.id, content: row.content, metadata: row.metadata },
+      score: score(Number(row.distance))
+    }));
+  }
+
+  async searchByText(
+    query: string,
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    const queryEmbedding = await this.embed(query, 'interactive');
+    return this.similaritySearch(queryEmbedding, topK, filter);
+  }
+
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    this.ensureInitialized();
+
+    const result = await this.pool.query(
+      `SELECT id, content, metadata, embedding::text AS embedding FROM ${this.table} WHERE id = $1`,
+      [id]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      content: row.content,
+      metadata: row.metadata,
+      embedding: row.embedding ? JSON.parse(row.embedding) : undefined
+    };
+  }
+
+  async documentExists(id: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    const result = await this.pool.query(`SELECT 1 FROM ${this.table} WHERE id = $1`, [id]);
+    return result.rowCount > 0;
+  }
+
+  async getStats(): Promise<{
+    documentCount: number;
+    indexSize: number;
+    lastUpdated: Date;
+  }> {
+    this.ensureInitialized();
+
+    const result = await this.pool.query(
+      `SELECT count(*)::int AS count,
+              pg_total_relation_size('${this.table}') AS size,
+              max(updated_at) AS last_updated
+       FROM ${this.table}`
+    );
+    const row = result.rows[0];
+
+    return {
+      documentCount: row.count,
+      indexSize: Number(row.size),
+      lastUpdated: row.last_updated || new Date()
+    };
+  }
+
+  async clearCollection(): Promise<void> {
+    this.ensureInitialized();
+    await this.pool.query(`TRUNCATE ${this.table}`);
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+    }
+    this.isInitialized = false;
+    console.log('🔌 pgvector store disconnected');
+  }
+
+  /**
+   * Create the extension, table and indexes, applying each migration once. Migrations are
+   * recorded per table, so several stores can share a database.
+   */
+  private async migrate(indexType: NonNullable<VectorStoreConfig['indexType']>): Promise<void> {
+    const { opclass } = METRICS[this.metric];
+    const migrations: Array<{ version: number; name: string; sql: string[] }> = [
+      {
+        version: 1,
+        name: 'create_table',
+        sql: [
+          'CREATE EXTENSION IF NOT EXISTS vector',
+          `CREATE TABLE IF NOT EXISTS ${this.table} (
+             id TEXT PRIMARY KEY,
+             content TEXT NOT NULL,
+             metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+             embedding vector(${this.dimensions}),
+             created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+             updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+           )`
+        ]
+      },
+      {
+        version: 2,
+        name: 'metadata_index',
+        sql: [`CREATE INDEX IF NOT EXISTS ${this.table}_metadata_idx ON ${this.table} USING gin (metadata jsonb_path_ops)`]
+      }
+    ];
+
+    await this.transaction(async client => {
+      await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_ID]);
+      await client.query(
+        `CREATE TABLE IF NOT EXISTS vector_store_migrations (
+           table_name TEXT NOT NULL,
+           version INT NOT NULL,
+           name TEXT NOT NULL,
+           applied_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+           PRIMARY KEY (table_name, version)
+         )`
+      );
+
+      const applied = await client.query('SELECT version FROM vector_store_migrations WHERE table_name = $1', [this.table]);
+      const appliedVersions = new Set(applied.rows.map((row: any) => row.version));
+
+      for (const migration of migrations.filter(m => !appliedVersions.has(m.version))) {
+        for (const statement of migration.sql) {
+          await client.query(statement);
+        }
+        await client.query(
+          'INSERT INTO vector_store_migrations (table_name, version, name) VALUES ($1, $2, $3)',
+          [this.table, migration.version, migration.name]
+        );
+        console.log(`📦 Applied pgvector migration ${migration.version} (${migration.name}) to ${this.table}`);
+      }
+
+      // The column type is fixed at creation - a different embedding model needs a new table
+      const column = await client.query(
+        `SELECT atttypmod AS dimensions FROM pg_attribute WHERE attrelid = $1::regclass AND attname = 'embedding'`,
+        [this.table]
+      );
+      const storedDimensions = column.rows[0]?.dimensions;
+      if (storedDimensions > 0 && storedDimensions !== this.dimensions) {
+        throw new Error(
+          `${this.table} stores ${storedDimensions}-dimension embeddings but ${this.dimensions} are configured - use another PGVECTOR_TABLE after changing embedding models`
+        );
+      }
+
+      // The ANN index follows the configuration rather than a migration, so it can be switched
+      if (indexType !== 'flat') {
+        const options = indexType === 'ivfflat'
+          ? `lists = ${parseInt(process.env.PGVECTOR_IVFFLAT_LISTS || '') || 100}`
+          : `m = 16, ef_construction = 64`;
+        await client.query(
+          `CREATE INDEX IF NOT EXISTS ${this.table}_embedding_${indexType}_${this.metric}_idx
+           ON ${this.table} USING ${indexType} (embedding ${opclass}) WITH (${options})`
+        );
+      }
+    });
+  }
+
+  /**
+   * Translate a metadata filter into SQL, appending its parameters to `values`. Plain values
+   * and $eq/$in use JSONB containment, which also matches inside list metadata (as in Pinecone).
+   */
+  private buildFilter(filter: Record<string, any> | undefined, values: any[]): string {
+    if (!filter) {
+      return '';
+    }
+
+    const contains = (key: string, value: any) => {
+      values.push(JSON.stringify({ [key]: value }));
+      return `metadata @> $${values.length}::jsonb`;
+    };
+    const field = (key: string, operand: any) => {
+      values.push(key);
+      return typeof operand === 'number'
+        ? `(metadata->>$${values.length})::numeric`
+        : `metadata->>$${values.length}`;
+    };
+    const compare = (key: string, sqlOperator: string, operand: any) => {
+      const left = field(key, operand);
+      values.push(operand);
+      return `${left} ${sqlOperator} $${values.length}`;
+    };
+
+    const clauses: string[] = [];
+    for (const [key, condition] of Object.entries(filter)) {
+      if (condition === undefined || condition === null) {
+        continue;
+      }
+
+      if (typeof condition !== 'object' || Array.isArray(condition)) {
+        clauses.push(contains(key, condition));
+        continue;
+      }
+
+      for (const [operator, operand] of Object.entries(condition)) {
+        switch (operator) {
+          case '$eq': clauses.push(contains(key, operand)); break;
+          case '$ne': clauses.push(`NOT (${contains(key, operand)})`); break;
+          case '$in': clauses.push(`(${(operand as any[]).map(item => contains(key, item)).join(' OR ') || 'false'})`); break;
+          case '$nin': clauses.push(`NOT (${(operand as any[]).map(item => contains(key, item)).join(' OR ') || 'false'})`); break;
+          case '$gt': clauses.push(compare(key, '>', operand)); break;
+          case '$gte': clauses.push(compare(key, '>=', operand)); break;
+          case '$lt': clauses.push(compare(key, '<', operand)); break;
+          case '$lte': clauses.push(compare(key, '<=', operand)); break;
+          default:
+            throw new Error(`Unsupported filter operator "${operator}" on "${key}"`);
+        }
+      }
+    }
+
+    return clauses.join(' AND ');
+  }
+
+  private async transaction<T>(work: (client: any) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private toVector(embedding: number[]): string {
+    if (embedding.length !== this.dimensions) {
+      throw new Error(`Embedding has ${embedding.length} dimensions, ${this.table} holds ${this.dimensions}`);
+    }
+    return JSON.stringify(embedding);
+  }
+
+  private async embed(text: string, priority: RequestPriority): Promise<number[]> {
+    const response = await this.llmManager.generateEmbedding(text, { priority });
+    return response.embedding;
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('pgvector store not initialized');
+    }
+  }
+}
@@ -9,6 +9,9 @@ import {
   VectorStoreConfig 
 } from '../interfaces/VectorStoreProvider';
 import { SimpleCache } from '../../cache/SimpleCache';
+import { EmbeddingCache, CachedEmbedding } from '../../llm/managers/EmbeddingCache';
+
+const EMBEDDING_BATCH_SIZE = 100;
 
 export class PineconeProvider implements VectorStoreProvider {
   public name = 'pinecone';
@@ -144,6 +147,11 @@ export class PineconeProvider implements VectorStoreProvider {
 
     console.log(`📝 Adding ${documents.length} documents to Pinecone...`);
 
+    // Embed everything that needs it up front - unchanged documents come straight from the embedding cache
+    const pending = documents.filter(doc => !doc.embedding);
+    const embeddings = await this.generateEmbeddings(pending.map(doc => doc.content));
+    const embeddingById = new Map(pending.map((doc, i) => [doc.id, embeddings[i]]));
+
     // Process documents in batches of 50 (smaller for better performance)
     const batchSize = 50;
     let totalAdded = 0;
@@ -151,34 +159,15 @@ export class PineconeProvider implements VectorStoreProvider {
     for (let i = 0; i < documents.length; i += batchSize) {
       const batch = documents.slice(i, i + batchSize);
       
-      const vectors = await Promise.all(
-        batch.map(async (doc) => {
-          // Generate embedding if not provided
-          let embedding = doc.embedding;
-          if (!embedding) {
-            // Check cache first
-            const cacheKey = `embedding:${doc.content.substring(0, 100)}`;
-            const cachedEmbedding = await this.cache.get<number[]>(cacheKey);
-            
-            if (cachedEmbedding !== null) {
-              embedding = cachedEmbedding;
-            } else {
-              embedding = await this.generateEmbedding(doc.content);
-              this.cache.set(cacheKey, embedding, 3600000); // 1 hour cache
-            }
-          }
-
-          return {
-            id: doc.id,
-            values: embedding,
-            metadata: {
-              content: doc.content,
-              ...doc.metadata,
-              addedAt: new Date().toISOString()
-            }
-          };
-        })
-      );
+      const vectors = batch.map(doc => ({
+        id: doc.id,
+        values: doc.embedding || embeddingById.get(doc.id),
+        metadata: {
+          content: doc.content,
+          ...doc.metadata,
+          addedAt: new Date().toISOString()
+        }
+      }));
 
       await this.index.upsert(vectors);
       totalAdded += vectors.length;
@@ -264,8 +253,9 @@ export class PineconeProvider implements VectorStoreProvider {
     
     Object.keys(filter).forEach(key => {
       if (filter[key] !== undefined && filter[key] !== null) {
-        // Convert to Pinecone filter format
-        pineconeFilter[key] = { "$eq": filter[key] };
+        // Convert to Pinecone filter format (operator objects are already in it)
+        const isOperator = typeof filter[key] === 'object' && !Array.isArray(filter[key]);
+        pineconeFilter[key] = isOperator ? filter[key] : { "$eq": filter[key] };
       }
     });
     
@@ -343,7 +333,7 @@ export class PineconeProvider implements VectorStoreProvider {
       return cached;
     }
 
-    const queryEmbedding = await this.generateEmbedding(query);
+    const [queryEmbedding] = await this.generateEmbeddings([query]);
     const results = await this.similaritySearch(queryEmbedding, topK, filter);
     
     // Cache text search results
@@ -431,23 +421,44 @@ export class PineconeProvider implements VectorStoreProvider {
     console.log('🔌 Disconnected from Pinecone');
   }
 
-  private async generateEmbedding(text: string): Promise<number[]> {
+  /**
+   * Embed texts in batched API calls, skipping any already in the shared embedding cache.
+   * Uses the same model as the OpenAI LLM provider, so both share cache entries.
+   */
+  private async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
     if (!this.openai) {
       throw new Error('OpenAI not initialized for embedding generation');
     }
 
-    try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: text.substring(0, 8000), // Limit input size for speed
-        encoding_format: 'float'
-      });
+    const inputs = texts.map(text => text.substring(0, 8000)); // Limit input size for speed
+    const { embeddings } = await EmbeddingCache.getInstance().getOrEmbed('openai', inputs, async missing => {
+      const results: CachedEmbedding[] = [];
+
+      for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+        try {
+          const response = await this.openai!.embeddings.create({
+            model: 'text-embedding-ada-002',
+            input: missing.slice(i, i + EMBEDDING_BATCH_SIZE),
+            encoding_format: 'float'
+          });
+
+          results.push(...[...response.data]
+            .sort((a, b) => a.index - b.index)
+            .map(item => ({ embedding: item.embedding, model: response.model })));
+        } catch (error) {
+          console.error('❌ Failed to generate embeddings:', error);
+          throw error;
+        }
+      }
 
-      return response.data[0].embedding;
-    } catch (error) {
-      console.error('❌ Failed to generate embedding:', error);
-      throw error;
-    }
+      return results;
+    });
+
+    return embeddings.map(entry => entry.embedding);
   }
 
   private clearSearchCache(): void {
@@ -0,0 +1,431 @@
+// File: backend/src/core/vector/providers/QdrantProvider.ts
+
+import * as crypto from 'crypto';
+import {
+  VectorStoreProvider,
+  VectorDocument,
+  VectorSearchResult,
+  VectorStoreConfig
+} from '../interfaces/VectorStoreProvider';
+import { LLMManager } from '../../llm/managers/LLMManager';
+import { RequestPriority } from '../../llm/managers/RequestScheduler';
+
+const DISTANCES = {
+  cosine: 'Cosine',
+  euclidean: 'Euclid',
+  dotproduct: 'Dot'
+};
+
+// Points per upsert request
+const UPSERT_BATCH_SIZE = 256;
+
+/**
+ * Vector store on a (usually self-hosted) Qdrant server, over its REST API.
+ * Documents with a companyId go to that company's own collection (`<collection>_<companyId>`),
+ * the rest to the shared collection; collections are created on first write. Metadata is
+ * stored in the point payload and our filter objects are translated into Qdrant filters.
+ */
+export class QdrantProvider implements VectorStoreProvider {
+  public name = 'qdrant';
+  public isInitialized = false;
+
+  private baseUrl = 'http://localhost:6333';
+  private apiKey?: string;
+  private collection = 'ai-insure-agent';
+  private dimensions = 1536;
+  private metric: keyof typeof DISTANCES = 'cosine';
+  private collectionPerCompany = true;
+  private knownCollections: Set<string> = new Set();
+  private llmManager: LLMManager;
+
+  constructor() {
+    this.llmManager = LLMManager.getInstance();
+  }
+
+  async initialize(config: VectorStoreConfig): Promise<void> {
+    console.log('🔧 Initializing Qdrant vector store...');
+
+    this.baseUrl = (config.host || this.baseUrl).replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.collection = config.indexName || this.collection;
+    this.dimensions = config.dimensions || this.dimensions;
+    this.metric = config.metric || this.metric;
+    this.collectionPerCompany = config.collectionPerCompany !== false;
+
+    // Also verifies the URL and API key
+    await this.refreshCollections();
+
+    this.isInitialized = true;
+    console.log(`✅ Qdrant vector store initialized (${this.baseUrl}, ${this.knownCollections.size} collections)`);
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    this.ensureInitialized();
+
+    // One batched call for everything missing an embedding (cached texts are not re-embedded)
+    const pending = documents.filter(document => !document.embedding);
+    const { embeddings } = pending.length > 0
+      ? await this.llmManager.generateEmbeddings(pending.map(document => document.content), { priority: 'batch' })
+      : { embeddings: [] as number[][] };
+    const embeddingById = new Map(pending.map((document, i) => [document.id, embeddings[i]]));
+
+    // A document that moved to another company must not stay behind in its old collection
+    const stale = await this.locate(documents.map(document => document.id));
+
+    const byCollection = new Map<string, VectorDocument[]>();
+    for (const document of documents) {
+      const collection = this.collectionFor(document.metadata);
+      byCollection.set(collection, [
+        ...(byCollection.get(collection) || []),
+        { ...document, embedding: document.embedding || embeddingById.get(document.id) }
+      ]);
+
+      const previous = stale.get(document.id);
+      if (previous && previous !== collection) {
+        await this.deletePoints(previous, [document.id]);
+      }
+    }
+
+    for (const [collection, batch] of byCollection) {
+      await this.ensureCollection(collection);
+      for (let start = 0; start < batch.length; start += UPSERT_BATCH_SIZE) {
+        await this.request('PUT', `/collections/${collection}/points?wait=true`, {
+          points: batch.slice(start, start + UPSERT_BATCH_SIZE).map(document => this.toPoint(document))
+        });
+      }
+    }
+  }
+
+  async addDocument(document: VectorDocument): Promise<void> {
+    await this.addDocuments([document]);
+  }
+
+  async updateDocument(id: string, document: Partial<VectorDocument>): Promise<void> {
+    this.ensureInitialized();
+
+    const existing = await this.getDocument(id);
+    if (!existing) {
+      throw new Error(`Document ${id} not found`);
+    }
+
+    const contentChanged = document.content !== undefined && document.content !== existing.content;
+    const updated: VectorDocument = {
+      ...existing,
+      ...document,
+      id,
+      metadata: { ...existing.metadata, ...document.metadata }
+    };
+
+    if (contentChanged && !document.embedding) {
+      updated.embedding = await this.embed(updated.content, 'batch');
+    }
+
+    await this.addDocuments([updated]);
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    const collection = (await this.locate([id])).get(id);
+    if (!collection) {
+      return false;
+    }
+
+    await this.deletePoints(collection, [id]);
+    return true;
+  }
+
+  async similaritySearch(
+    queryEmbedding: number[],
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    this.ensureInitialized();
+
+    if (queryEmbedding.length !== this.dimensions) {
+      throw new Error(`Query embedding has ${queryEmbedding.length} dimensions, Qdrant collections hold ${this.dimensions}`);
+    }
+
+    const companyId = typeof filter?.companyId === 'string' ? filter.companyId : null;
+    const collections = companyId && this.collectionPerCompany
+      ? [this.collectionFor({ companyId })]
+      : Array.from(this.knownCollections);
+    const qdrantFilter = this.toQdrantFilter(filter);
+
+    const results: VectorSearchResult[] = [];
+    for (const collection of collections) {
+      // A company collection may not exist yet, or was created by another instance
+      const response = await this.request('POST', `/collections/${collection}/points/search`, {
+        vector: queryEmbedding,
+        limit: topK,
+        filter: qdrantFilter,
+        with_payload: true
+      }, true);
+      if (!response) {
+        continue;
+      }
+      this.knownCollections.add(collection);
+
+      for (const point of response.result || []) {
+        results.push({
+          document: this.fromPoint(point),
+          score: this.metric === 'euclidean' ? 1 / (1 + point.score) : point.score
+        });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async searchByText(
+    query: string,
+    topK: number = 3,
+    filter?: Record<string, any>
+  ): Promise<VectorSearchResult[]> {
+    const queryEmbedding = await this.embed(query, 'interactive');
+    return this.similaritySearch(queryEmbedding, topK, filter);
+  }
+
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    this.ensureInitialized();
+
+    for (const collection of this.knownCollections) {
+      const response = await this.request('POST', `/collections/${collection}/points`, {
+        ids: [this.toPointId(id)],
+        with_payload: true,
+        with_vector: true
+      });
+
+      const point = response.result?.[0];
+      if (point) {
+        return { ...this.fromPoint(point), embedding: point.vector };
+      }
+    }
+
+    return null;
+  }
+
+  async documentExists(id: string): Promise<boolean> {
+    this.ensureInitialized();
+    return (await this.locate([id])).has(id);
+  }
+
+  async getStats(): Promise<{
+    documentCount: number;
+    indexSize: number;
+    lastUpdated: Date;
+  }> {
+    this.ensureInitialized();
+    await this.refreshCollections();
+
+    let documentCount = 0;
+    let indexSize = 0;
+    for (const collection of this.knownCollections) {
+      const response = await this.request('GET', `/collections/${collection}`);
+      documentCount += response.result?.points_count || 0;
+      indexSize += response.result?.indexed_vectors_count || 0;
+    }
+
+    return { documentCount, indexSize, lastUpdated: new Date() };
+  }
+
+  /**
+   * Drop the shared collection and every company collection
+   */
+  async clearCollection(): Promise<void> {
+    this.ensureInitialized();
+    await this.refreshCollections();
+
+    for (const collection of this.knownCollections) {
+      await this.request('DELETE', `/collections/${collection}`);
+    }
+    this.knownCollections.clear();
+  }
+
+  async disconnect(): Promise<void> {
+    this.knownCollections.clear();
+    this.isInitialized = false;
+    console.log('🔌 Qdrant vector store disconnected');
+  }
+
+  /**
+   * Company collections share the configured name as prefix, so they are easy to find and drop
+   */
+  private collectionFor(metadata?: Record<string, any>): string {
+    const companyId = metadata?.companyId;
+    if (!this.collectionPerCompany || typeof companyId !== 'string' || !companyId) {
+      return this.collection;
+    }
+    return `${this.collection}_${companyId.toLowerCase().replace(/[^a-z0-9_-]/g, '_')}`;
+  }
+
+  private async refreshCollections(): Promise<void> {
+    const response = await this.request('GET', '/collections');
+    this.knownCollections = new Set(
+      (response.result?.collections || [])
+        .map((collection: any) => collection.name as string)
+        .filter((name: string) => name === this.collection || name.startsWith(`${this.collection}_`))
+    );
+  }
+
+  private async ensureCollection(collection: string): Promise<void> {
+    if (this.knownCollections.has(collection)) {
+      return;
+    }
+
+    const existing = await this.request('GET', `/collections/${collection}`, undefined, true);
+    if (!existing) {
+      await this.request('PUT', `/collections/${collection}`, {
+        vectors: { size: this.dimensions, distance: DISTANCES[this.metric] }
+      });
+      // Company and type filters are the common ones - index them
+      for (const field of ['metadata.companyId', 'metadata.type']) {
+        await this.request('PUT', `/collections/${collection}/index?wait=true`, { field_name: field, field_schema: 'keyword' });
+      }
+      console.log(`📦 Created Qdrant collection ${collection}`);
+    }
+
+    this.knownCollections.add(collection);
+  }
+
+  // The collection holding each id, for ids that exist
+  private async locate(ids: string[]): Promise<Map<string, string>> {
+    const found = new Map<string, string>();
+    const byPointId = new Map(ids.map(id => [this.toPointId(id), id]));
+
+    for (const collection of this.knownCollections) {
+      const response = await this.request('POST', `/collections/${collection}/points`, {
+        ids: Array.from(byPointId.keys()),
+        with_payload: false,
+        with_vector: false
+      });
+      for (const point of response.result || []) {
+        found.set(byPointId.get(point.id)!, collection);
+      }
+    }
+
+    return found;
+  }
+
+  private async deletePoints(collection: string, ids: string[]): Promise<void> {
+    await this.request('POST', `/collections/${collection}/points/delete?wait=true`, {
+      points: ids.map(id => this.toPointId(id))
+    });
+  }
+
+  /**
+   * Translate a metadata filter: plain values and $eq/$in become match conditions (which also
+   * match inside list payloads, as in Pinecone), $ne/$nin go to must_not, $gt..$lte to a range
+   */
+  private toQdrantFilter(filter?: Record<string, any>): any {
+    if (!filter) {
+      return undefined;
+    }
+
+    const must: any[] = [];
+    const mustNot: any[] = [];
+
+    for (const [key, condition] of Object.entries(filter)) {
+      if (condition === undefined || condition === null) {
+        continue;
+      }
+      const field = `metadata.${key}`;
+
+      if (typeof condition !== 'object' || Array.isArray(condition)) {
+        must.push({ key: field, match: { value: condition } });
+        continue;
+      }
+
+      const range: Record<string, number> = {};
+      for (const [operator, operand] of Object.entries(condition)) {
+        switch (operator) {
+          case '$eq': must.push({ key: field, match: { value: operand } }); break;
+          case '$ne': mustNot.push({ key: field, match: { value: operand } }); break;
+          case '$in': must.push({ key: field, match: { any: operand } }); break;
+          case '$nin': mustNot.push({ key: field, match: { any: operand } }); break;
+          case '$gt': range.gt = operand as number; break;
+          case '$gte': range.gte = operand as number; break;
+          case '$lt': range.lt = operand as number; break;
+          case '$lte': range.lte = operand as number; break;
+          default:
+            throw new Error(`Unsupported filter operator "${operator}" on "${key}"`);
+        }
+      }
+      if (Object.keys(range).length > 0) {
+        must.push({ key: field, range });
+      }
+    }
+
+    if (must.length === 0 && mustNot.length === 0) {
+      return undefined;
+    }
+    return {
+      ...(must.length > 0 && { must }),
+      ...(mustNot.length > 0 && { must_not: mustNot })
+    };
+  }
+
+  private toPoint(document: VectorDocument): any {
+    if (!document.embedding || document.embedding.length !== this.dimensions) {
+      throw new Error(`Document ${document.id} needs a ${this.dimensions}-dimension embedding`);
+    }
+
+    return {
+      id: this.toPointId(document.id),
+      vector: document.embedding,
+      payload: { documentId: document.id, content: document.content, metadata: document.metadata || {} }
+    };
+  }
+
+  private fromPoint(point: any): VectorDocument {
+    return {
+      id: point.payload?.documentId,
+      content: point.payload?.content || '',
+      metadata: point.payload?.metadata || {}
+    };
+  }
+
+  // Qdrant ids must be integers or UUIDs - derive a stable UUID from our string id
+  private toPointId(id: string): string {
+    const hex = crypto.createHash('md5').update(id).digest('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  /**
+   * Call the REST API. With allowNotFound, a 404 resolves to null instead of throwing.
+   */
+  private async request(method: string, path: string, body?: any, allowNotFound = false): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'api-key': this.apiKey })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(15000)
+    });
+
+    if (allowNotFound && response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Qdrant API error: ${method} ${path} returned ${response.status} ${detail.substring(0, 200)}`);
+    }
+
+    return response.json();
+  }
+
+  private async embed(text: string, priority: RequestPriority): Promise<number[]> {
+    const response = await this.llmManager.generateEmbedding(text, { priority });
+    return response.embedding;
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('Qdrant vector store not initialized');
+    }
+  }
+}
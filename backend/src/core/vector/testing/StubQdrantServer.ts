@@ -0,0 +1,321 @@
+// File: backend/src/core/vector/testing/StubQdrantServer.ts
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubQdrantOptions {
+  port?: number;      // 0 (default) picks a free port
+  apiKey?: string;    // When set, requests without this api-key header get a 401
+}
+
+export interface StubQdrantRequest {
+  method: string;
+  path: string;
+  body: any;
+  timestamp: Date;
+}
+
+interface StubPoint {
+  id: string | number;
+  vector: number[];
+  payload: Record<string, any>;
+}
+
+interface StubCollection {
+  size: number;
+  distance: 'Cosine' | 'Euclid' | 'Dot';
+  points: Map<string, StubPoint>;
+  payloadIndexes: Set<string>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * In-process stand-in for a Qdrant server: the REST endpoints QdrantProvider uses
+ * (collections, payload indexes, upsert, retrieve, search, delete) with exact search,
+ * Qdrant's filter semantics and its error responses. Contract tests run against it when
+ * no real Qdrant container is available.
+ */
+export class StubQdrantServer {
+  private server: http.Server | null = null;
+  private collections: Map<string, StubCollection> = new Map();
+  private requests: StubQdrantRequest[] = [];
+  private baseUrl: string | null = null;
+
+  constructor(private readonly options: StubQdrantOptions = {}) {}
+
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.url;
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.sendJson(res, 500, { status: { error: (error as Error).message } });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port || 0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    this.baseUrl = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('Stub Qdrant server is not running');
+    }
+    return this.baseUrl;
+  }
+
+  getCollectionNames(): string[] {
+    return Array.from(this.collections.keys());
+  }
+
+  getPayloadIndexes(collection: string): string[] {
+    return Array.from(this.collections.get(collection)?.payloadIndexes || []);
+  }
+
+  getRequests(): StubQdrantRequest[] {
+    return [...this.requests];
+  }
+
+  reset(): void {
+    this.collections.clear();
+    this.requests = [];
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readBody(req);
+    const { pathname } = new URL(req.url || '/', 'http://stub');
+    const method = req.method || 'GET';
+    this.requests.push({ method, path: pathname, body, timestamp: new Date() });
+
+    if (this.options.apiKey && req.headers['api-key'] !== this.options.apiKey) {
+      return this.sendJson(res, 401, { status: { error: 'Must provide an API key or an Authorization bearer token' } });
+    }
+
+    if (method === 'GET' && pathname === '/collections') {
+      return this.ok(res, { collections: this.getCollectionNames().map(name => ({ name })) });
+    }
+
+    const match = pathname.match(/^\/collections\/([^/]+)(\/.*)?$/);
+    if (!match) {
+      return this.sendJson(res, 404, { status: { error: `Not found: ${pathname}` } });
+    }
+
+    const name = decodeURIComponent(match[1]);
+    const action = match[2] || '';
+    const collection = this.collections.get(name);
+
+    if (method === 'PUT' && action === '') {
+      if (collection) {
+        return this.sendJson(res, 400, { status: { error: `Wrong input: Collection \`${name}\` already exists!` } });
+      }
+      const size = body?.vectors?.size;
+      if (!Number.isInteger(size) || size <= 0) {
+        return this.sendJson(res, 400, { status: { error: 'Wrong input: vectors.size is required' } });
+      }
+      this.collections.set(name, {
+        size,
+        distance: body.vectors.distance || 'Cosine',
+        points: new Map(),
+        payloadIndexes: new Set()
+      });
+      return this.ok(res, true);
+    }
+
+    if (!collection) {
+      return this.sendJson(res, 404, { status: { error: `Not found: Collection \`${name}\` doesn't exist!` } });
+    }
+
+    if (method === 'GET' && action === '') {
+      return this.ok(res, {
+        status: 'green',
+        points_count: collection.points.size,
+        indexed_vectors_count: collection.points.size,
+        config: { params: { vectors: { size: collection.size, distance: collection.distance } } }
+      });
+    }
+
+    if (method === 'DELETE' && action === '') {
+      this.collections.delete(name);
+      return this.ok(res, true);
+    }
+
+    if (method === 'PUT' && action === '/index') {
+      collection.payloadIndexes.add(body.field_name);
+      return this.ok(res, { operation_id: 0, status: 'completed' });
+    }
+
+    if (method === 'PUT' && action === '/points') {
+      for (const point of body.points || []) {
+        const error = this.validatePoint(point, collection);
+        if (error) {
+          return this.sendJson(res, 400, { status: { error: `Wrong input: ${error}` } });
+        }
+      }
+      for (const point of body.points) {
+        collection.points.set(String(point.id), { id: point.id, vector: point.vector, payload: point.payload || {} });
+      }
+      return this.ok(res, { operation_id: 0, status: 'completed' });
+    }
+
+    if (method === 'POST' && action === '/points') {
+      const points = (body.ids || [])
+        .map((id: any) => collection.points.get(String(id)))
+        .filter(Boolean)
+        .map((point: StubPoint) => ({
+          id: point.id,
+          ...(body.with_payload !== false && { payload: point.payload }),
+          ...(body.with_vector && { vector: point.vector })
+        }));
+      return this.ok(res, points);
+    }
+
+    if (method === 'POST' && action === '/points/delete') {
+      for (const id of body.points || []) {
+        collection.points.delete(String(id));
+      }
+      return this.ok(res, { operation_id: 0, status: 'completed' });
+    }
+
+    if (method === 'POST' && action === '/points/search') {
+      if (!Array.isArray(body.vector) || body.vector.length !== collection.size) {
+        return this.sendJson(res, 400, { status: { error: `Wrong input: Vector dimension error: expected dim: ${collection.size}` } });
+      }
+
+      // Euclid scores are distances (lower is better); the others similarities
+      const ascending = collection.distance === 'Euclid';
+      const hits = Array.from(collection.points.values())
+        .filter(point => this.matchesFilter(point.payload, body.filter))
+        .map(point => ({ point, score: this.score(collection.distance, body.vector, point.vector) }))
+        .sort((a, b) => ascending ? a.score - b.score : b.score - a.score)
+        .slice(0, body.limit || 10);
+
+      return this.ok(res, hits.map(({ point, score }) => ({
+        id: point.id,
+        version: 0,
+        score,
+        ...(body.with_payload && { payload: point.payload })
+      })));
+    }
+
+    return this.sendJson(res, 404, { status: { error: `Not found: ${method} ${pathname}` } });
+  }
+
+  private validatePoint(point: any, collection: StubCollection): string | null {
+    const validId = (typeof point.id === 'number' && Number.isInteger(point.id) && point.id >= 0)
+      || (typeof point.id === 'string' && UUID_PATTERN.test(point.id));
+    if (!validId) {
+      return `Unable to parse point id "${point.id}" - expected an unsigned integer or a UUID`;
+    }
+    if (!Array.isArray(point.vector) || point.vector.length !== collection.size) {
+      return `Vector dimension error: expected dim: ${collection.size}, got ${point.vector?.length}`;
+    }
+    return null;
+  }
+
+  private matchesFilter(payload: Record<string, any>, filter: any): boolean {
+    if (!filter) {
+      return true;
+    }
+
+    const must = (filter.must || []).every((condition: any) => this.matchesCondition(payload, condition));
+    const mustNot = (filter.must_not || []).every((condition: any) => !this.matchesCondition(payload, condition));
+    const should = !filter.should?.length || filter.should.some((condition: any) => this.matchesCondition(payload, condition));
+    return must && mustNot && should;
+  }
+
+  // Keys are dotted payload paths; a list payload value matches when any element does
+  private matchesCondition(payload: Record<string, any>, condition: any): boolean {
+    if (condition.must || condition.must_not || condition.should) {
+      return this.matchesFilter(payload, condition);
+    }
+
+    const raw = String(condition.key).split('.').reduce((value: any, part) => value?.[part], payload);
+    const values: any[] = raw === undefined || raw === null ? [] : Array.isArray(raw) ? raw : [raw];
+
+    if (condition.match) {
+      if ('value' in condition.match) {
+        return values.some(value => value === condition.match.value);
+      }
+      if ('any' in condition.match) {
+        return values.some(value => condition.match.any.includes(value));
+      }
+      if ('except' in condition.match) {
+        return values.some(value => !condition.match.except.includes(value));
+      }
+    }
+
+    if (condition.range) {
+      const { gt, gte, lt, lte } = condition.range;
+      return values.some(value =>
+        typeof value === 'number'
+        && (gt === undefined || value > gt)
+        && (gte === undefined || value >= gte)
+        && (lt === undefined || value < lt)
+        && (lte === undefined || value <= lte)
+      );
+    }
+
+    throw new Error(`Unsupported filter condition ${JSON.stringify(condition)}`);
+  }
+
+  private score(distance: StubCollection['distance'], a: number[], b: number[]): number {
+    let dot = 0;
+    let magnitudeA = 0;
+    let magnitudeB = 0;
+    let squared = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      magnitudeA += a[i] * a[i];
+      magnitudeB += b[i] * b[i];
+      squared += (a[i] - b[i]) ** 2;
+    }
+
+    if (distance === 'Euclid') {
+      return Math.sqrt(squared);
+    }
+    if (distance === 'Dot') {
+      return dot;
+    }
+    return magnitudeA === 0 || magnitudeB === 0 ? 0 : dot / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8');
+    return text ? JSON.parse(text) : undefined;
+  }
+
+  private ok(res: http.ServerResponse, result: any): void {
+    this.sendJson(res, 200, { result, status: 'ok', time: 0.0001 });
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,152 @@
+// File: backend/src/core/vector/utils/Bm25Index.ts
+
+export interface Bm25Options {
+  k1?: number;   // Term frequency saturation
+  b?: number;    // Document length normalization (0 = none, 1 = full)
+}
+
+export interface Bm25Hit {
+  id: string;
+  score: number;
+}
+
+interface IndexedDocument {
+  length: number;
+  terms: Map<string, number>;
+}
+
+// Too common to say anything about a document; numbers and short codes ("2", "gh") are kept
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the',
+  'their', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Terms of a text: lowercased words and numbers without accents or stopwords, with a plural
+ * "s" trimmed, plus each pair of neighbouring words ("tier 2" -> tier, 2, tier_2) so exact
+ * phrases outrank documents that only share the separate words
+ */
+export function tokenize(text: string): string[] {
+  const words = (text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+
+  const terms = [...words];
+  for (let i = 1; i < words.length; i++) {
+    terms.push(`${words[i - 1]}_${words[i]}`);
+  }
+  return terms;
+}
+
+/**
+ * Okapi BM25 keyword index. Catches what embeddings blur: codes, names, numbers and exact
+ * phrases ("SSNIT", "Tier 2", "2015 Rioja"). Add and remove are incremental.
+ */
+export class Bm25Index {
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map();  // term -> document id -> frequency
+  private totalLength = 0;
+  private k1: number;
+  private b: number;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  add(id: string, text: string): void {
+    if (this.documents.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    const terms = new Map<string, number>();
+    for (const term of tokens) {
+      terms.set(term, (terms.get(term) || 0) + 1);
+    }
+
+    for (const [term, frequency] of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.documents.set(id, { length: tokens.length, terms });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) {
+      return false;
+    }
+
+    for (const term of document.terms.keys()) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    return true;
+  }
+
+  /**
+   * Best matching documents for the query, highest score first. Documents sharing no term
+   * with the query are never returned; `accept` narrows the hits (e.g. a metadata filter).
+   */
+  search(query: string, k: number, accept?: (id: string) => boolean): Bm25Hit[] {
+    const count = this.documents.size;
+    if (count === 0 || k <= 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        const length = this.documents.get(id)!.length;
+        const weight = idf * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + weight);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .filter(hit => !accept || accept(hit.id))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+}
@@ -0,0 +1,344 @@
+// File: backend/src/core/vector/utils/HnswIndex.ts
+
+export interface HnswOptions {
+  m?: number;               // Links per node on the upper layers (twice this on layer 0)
+  efConstruction?: number;  // Candidate list size while inserting
+  efSearch?: number;        // Candidate list size while searching
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;     // Normalized, so cosine similarity is a dot product
+  level: number;
+  neighbors: string[][];    // One list per layer, 0..level
+}
+
+// The graph without its vectors, which the owner stores anyway
+export interface HnswGraph {
+  entryPoint: string | null;
+  maxLevel: number;
+  links: Record<string, string[][]>;
+}
+
+interface Candidate {
+  id: string;
+  similarity: number;
+}
+
+/**
+ * Hierarchical navigable small world graph for approximate cosine search
+ * (Malkov & Yashunin, 2016). Insert, remove and search are incremental; toGraph()/
+ * restore() save the links so large indexes are not rebuilt on every startup.
+ */
+export class HnswIndex {
+  private nodes: Map<string, HnswNode> = new Map();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private m: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelMultiplier: number;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m || 16;
+    this.efConstruction = options.efConstruction || 100;
+    this.efSearch = options.efSearch || 64;
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  insert(id: string, vector: number[]): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      level: Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier),
+      neighbors: []
+    };
+    for (let layer = 0; layer <= node.level; layer++) {
+      node.neighbors.push([]);
+    }
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = node.level;
+      return;
+    }
+
+    // Greedy descent through the layers above the new node's top layer
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > node.level; layer--) {
+      current = this.greedyClosest(node.vector, current, layer);
+    }
+
+    let entryPoints = [current];
+    for (let layer = Math.min(node.level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entryPoints, this.efConstruction, layer);
+      node.neighbors[layer] = this.selectNeighbors(candidates, this.maxLinks(layer));
+
+      for (const neighborId of node.neighbors[layer]) {
+        this.link(neighborId, id, layer);
+      }
+      entryPoints = candidates.map(candidate => candidate.id);
+    }
+
+    if (node.level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = node.level;
+    }
+  }
+
+  /**
+   * Remove a node and reconnect its neighbors to each other, so the graph stays navigable.
+   * One-way links to it from elsewhere are skipped during traversal and dropped on the next prune.
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return false;
+    }
+    this.nodes.delete(id);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = node.neighbors[layer].filter(neighborId => this.nodes.has(neighborId));
+
+      for (const orphanId of orphans) {
+        const orphan = this.nodes.get(orphanId)!;
+        const remaining = orphan.neighbors[layer].filter(neighborId => this.nodes.has(neighborId));
+        const replacements = orphans.filter(otherId => otherId !== orphanId && !remaining.includes(otherId));
+
+        const candidates = [...remaining, ...replacements].map(candidateId => ({
+          id: candidateId,
+          similarity: dot(orphan.vector, this.nodes.get(candidateId)!.vector)
+        }));
+        orphan.neighbors[layer] = this.selectNeighbors(candidates, this.maxLinks(layer));
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const candidate of this.nodes.values()) {
+        if (candidate.level > this.maxLevel) {
+          this.entryPoint = candidate.id;
+          this.maxLevel = candidate.level;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * The k most similar nodes that pass `accept`. Rejected nodes are still traversed,
+   * so a selective filter may return fewer than k - callers fall back to a flat scan.
+   */
+  search(query: number[], k: number, accept?: (id: string) => boolean): Candidate[] {
+    if (this.entryPoint === null || k <= 0) {
+      return [];
+    }
+
+    const vector = normalize(query);
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(vector, current, layer);
+    }
+
+    const ef = Math.max(this.efSearch, k);
+    return this.searchLayer(vector, [current], ef, 0)
+      .filter(candidate => !accept || accept(candidate.id))
+      .slice(0, k);
+  }
+
+  toGraph(): HnswGraph {
+    const links: Record<string, string[][]> = {};
+    for (const node of this.nodes.values()) {
+      links[node.id] = node.neighbors.map(layer => layer.filter(id => this.nodes.has(id)));
+    }
+    return { entryPoint: this.entryPoint, maxLevel: this.maxLevel, links };
+  }
+
+  /**
+   * Rebuild the index from a saved graph. Returns false (leaving the index empty) when the
+   * graph does not cover exactly the given vectors, so the caller can insert them instead.
+   */
+  restore(graph: HnswGraph, vectors: Map<string, number[]>): boolean {
+    this.clear();
+
+    const ids = Object.keys(graph.links || {});
+    if (ids.length !== vectors.size || ids.some(id => !vectors.has(id))) {
+      return false;
+    }
+
+    for (const id of ids) {
+      const neighbors = graph.links[id];
+      this.nodes.set(id, { id, vector: normalize(vectors.get(id)!), level: neighbors.length - 1, neighbors });
+    }
+    this.entryPoint = graph.entryPoint;
+    this.maxLevel = graph.maxLevel;
+    return true;
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+  }
+
+  private greedyClosest(vector: Float32Array, startId: string, layer: number): string {
+    let current = startId;
+    let best = dot(vector, this.nodes.get(current)!.vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighborId of this.nodes.get(current)!.neighbors[layer] || []) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) {
+          continue;
+        }
+        const similarity = dot(vector, neighbor.vector);
+        if (similarity > best) {
+          best = similarity;
+          current = neighborId;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  // Best-first search keeping the ef most similar nodes seen, most similar first
+  private searchLayer(vector: Float32Array, entryIds: string[], ef: number, layer: number): Candidate[] {
+    const visited = new Set(entryIds);
+    const frontier: Candidate[] = entryIds.map(id => ({ id, similarity: dot(vector, this.nodes.get(id)!.vector) }));
+    const found: Candidate[] = [...frontier];
+    sortBySimilarity(frontier);
+    sortBySimilarity(found);
+
+    while (frontier.length > 0) {
+      const closest = frontier.shift()!;
+      if (found.length >= ef && closest.similarity < found[found.length - 1].similarity) {
+        break;
+      }
+
+      for (const neighborId of this.nodes.get(closest.id)!.neighbors[layer] || []) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || visited.has(neighborId)) {
+          continue;
+        }
+        visited.add(neighborId);
+
+        const similarity = dot(vector, neighbor.vector);
+        if (found.length < ef || similarity > found[found.length - 1].similarity) {
+          insertSorted(frontier, { id: neighborId, similarity });
+          insertSorted(found, { id: neighborId, similarity });
+          if (found.length > ef) {
+            found.pop();
+          }
+        }
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Keep candidates that are closer to the node than to any neighbor already kept,
+   * which preserves links in every direction instead of only the densest cluster
+   */
+  private selectNeighbors(candidates: Candidate[], maxLinks: number): string[] {
+    const sorted = sortBySimilarity([...candidates]);
+    const selected: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= maxLinks) {
+        break;
+      }
+      const vector = this.nodes.get(candidate.id)!.vector;
+      const dominated = selected.some(kept => dot(vector, this.nodes.get(kept.id)!.vector) > candidate.similarity);
+      if (!dominated) {
+        selected.push(candidate);
+      }
+    }
+
+    // Top up with the nearest pruned candidates so sparse regions keep enough links
+    for (const candidate of sorted) {
+      if (selected.length >= maxLinks) {
+        break;
+      }
+      if (!selected.includes(candidate)) {
+        selected.push(candidate);
+      }
+    }
+
+    return selected.map(candidate => candidate.id);
+  }
+
+  private link(fromId: string, toId: string, layer: number): void {
+    const from = this.nodes.get(fromId)!;
+    const neighbors = from.neighbors[layer];
+    if (neighbors.includes(toId)) {
+      return;
+    }
+    neighbors.push(toId);
+
+    // Overflowing lists drop their least similar link - the full heuristic here dominates insert time
+    if (neighbors.length > this.maxLinks(layer)) {
+      from.neighbors[layer] = sortBySimilarity(
+        neighbors
+          .filter(id => this.nodes.has(id))
+          .map(id => ({ id, similarity: dot(from.vector, this.nodes.get(id)!.vector) }))
+      ).slice(0, this.maxLinks(layer)).map(candidate => candidate.id);
+    }
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+}
+
+function normalize(vector: number[]): Float32Array {
+  const normalized = new Float32Array(vector.length);
+  let magnitude = 0;
+  for (let i = 0; i < vector.length; i++) {
+    magnitude += vector[i] * vector[i];
+  }
+  magnitude = Math.sqrt(magnitude) || 1;
+  for (let i = 0; i < vector.length; i++) {
+    normalized[i] = vector[i] / magnitude;
+  }
+  return normalized;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function sortBySimilarity(candidates: Candidate[]): Candidate[] {
+  return candidates.sort((a, b) => b.similarity - a.similarity);
+}
+
+function insertSorted(candidates: Candidate[], candidate: Candidate): void {
+  let index = candidates.findIndex(existing => existing.similarity < candidate.similarity);
+  if (index === -1) {
+    index = candidates.length;
+  }
+  candidates.splice(index, 0, candidate);
+}
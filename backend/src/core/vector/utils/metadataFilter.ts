@@ -0,0 +1,45 @@
+// File: backend/src/core/vector/utils/metadataFilter.ts
+
+/**
+ * Metadata filters accepted by every vector store: plain values (equality) or Pinecone-style
+ * operators, e.g. { companyId: 'acme', type: { $in: ['faq', 'policy'] }, year: { $gte: 2020 } }.
+ * Stores that filter in process use this; the others translate the same object.
+ */
+export type MetadataFilter = Record<string, any>;
+
+export function matchesMetadataFilter(metadata: Record<string, any> | undefined, filter?: MetadataFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined || condition === null) {
+      return true;
+    }
+
+    const value = metadata?.[key];
+    if (typeof condition !== 'object' || Array.isArray(condition)) {
+      return matchesValue(value, condition);
+    }
+
+    return Object.entries(condition).every(([operator, operand]) => {
+      switch (operator) {
+        case '$eq': return matchesValue(value, operand);
+        case '$ne': return !matchesValue(value, operand);
+        case '$in': return (operand as any[]).some(item => matchesValue(value, item));
+        case '$nin': return !(operand as any[]).some(item => matchesValue(value, item));
+        case '$gt': return value !== undefined && value > operand;
+        case '$gte': return value !== undefined && value >= operand;
+        case '$lt': return value !== undefined && value < operand;
+        case '$lte': return value !== undefined && value <= operand;
+        default:
+          throw new Error(`Unsupported filter operator "${operator}" on "${key}"`);
+      }
+    });
+  });
+}
+
+// List metadata matches when any element does, as in Pinecone
+function matchesValue(value: any, expected: any): boolean {
+  return Array.isArray(value) ? value.includes(expected) : value === expected;
+}
@@ -0,0 +1,58 @@
+// File: backend/src/core/vector/utils/rankFusion.ts
+
+import { HybridSearchConfig } from '../../../types/domain';
+
+export const DEFAULT_HYBRID_SEARCH: Required<HybridSearchConfig> = {
+  enabled: true,
+  vectorWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+  candidateMultiplier: 4
+};
+
+export interface RankedList {
+  ids: string[];      // Best first
+  weight: number;
+}
+
+/**
+ * Defaults, then HYBRID_SEARCH_* environment overrides, then each config in turn
+ * (e.g. the domain's ragConfig.hybridSearch)
+ */
+export function resolveHybridSearchConfig(...configs: Array<HybridSearchConfig | undefined>): Required<HybridSearchConfig> {
+  const fromEnv: HybridSearchConfig = {
+    ...(process.env.HYBRID_SEARCH_ENABLED && { enabled: process.env.HYBRID_SEARCH_ENABLED !== 'false' }),
+    ...(process.env.HYBRID_SEARCH_VECTOR_WEIGHT && { vectorWeight: parseFloat(process.env.HYBRID_SEARCH_VECTOR_WEIGHT) }),
+    ...(process.env.HYBRID_SEARCH_KEYWORD_WEIGHT && { keywordWeight: parseFloat(process.env.HYBRID_SEARCH_KEYWORD_WEIGHT) }),
+    ...(process.env.HYBRID_SEARCH_RRF_K && { rrfK: parseFloat(process.env.HYBRID_SEARCH_RRF_K) })
+  };
+
+  const resolved = [fromEnv, ...configs].reduce<Required<HybridSearchConfig>>((merged, config) => ({
+    ...merged,
+    ...Object.fromEntries(Object.entries(config || {}).filter(([, value]) => value !== undefined))
+  }), { ...DEFAULT_HYBRID_SEARCH });
+
+  // The environment switch wins, so hybrid search can be turned off everywhere at once
+  return fromEnv.enabled === false ? { ...resolved, enabled: false } : resolved;
+}
+
+/**
+ * Reciprocal rank fusion (Cormack et al., 2009): each list adds weight / (k + rank) to the
+ * documents it ranks, so agreement between lists beats a high rank in just one of them and
+ * the lists' raw scores never need to be comparable. Returned scores are divided by the
+ * best possible score (first in every list), so they fall in 0..1.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = DEFAULT_HYBRID_SEARCH.rrfK): Map<string, number> {
+  const scores = new Map<string, number>();
+  const best = lists.reduce((sum, list) => sum + list.weight / (k + 1), 0);
+  if (best <= 0) {
+    return scores;
+  }
+
+  for (const list of lists) {
+    list.ids.forEach((id, i) => {
+      scores.set(id, (scores.get(id) || 0) + list.weight / (k + i + 1) / best);
+    });
+  }
+  return scores;
+}
@@ -0,0 +1,116 @@
+// File: backend/src/core/vision/ImageAnalyzer.ts
+
+import Joi from 'joi';
+import { LLMManager } from '../llm/managers/LLMManager';
+import { UsageTags } from '../llm/managers/UsageLedger';
+import { LLMImagePart } from '../llm/interfaces/LLMProvider';
+import { PromptRegistry } from '../prompts/PromptRegistry';
+import { CompanyConfig } from '../../types/CompanyTypes';
+
+export type ImageKind =
+  | 'vehicle_damage'
+  | 'property_damage'
+  | 'id_document'
+  | 'wine_label'
+  | 'receipt'
+  | 'document'
+  | 'other';
+
+export interface ImageDescription {
+  kind: ImageKind;
+  description: string;
+  visibleText: string;
+  details: Record<string, string | number>;
+  confidence: number;
+  providerUsed: string;
+  model: string;
+  cost?: number;
+}
+
+// Stands in for a photo that could not be downloaded or described, so the reply asks about it
+export const UNREADABLE_PHOTO_NOTE = '[The customer sent a photo that could not be viewed - ask them to describe it]';
+
+const descriptionSchema = Joi.object({
+  kind: Joi.string()
+    .valid('vehicle_damage', 'property_damage', 'id_document', 'wine_label', 'receipt', 'document', 'other')
+    .default('other'),
+  description: Joi.string().required(),
+  visibleText: Joi.string().allow('').default(''),
+  details: Joi.object().pattern(Joi.string(), Joi.alternatives(Joi.string().allow(''), Joi.number())).default({}),
+  confidence: Joi.number().min(0).max(1).default(0.5)
+});
+
+/**
+ * Turns photos customers send (car damage, ID cards, wine labels...) into a structured
+ * description, on the first vision-capable provider in the company's chain. The reply
+ * pipeline then works from the description, so text-only providers can still answer.
+ */
+export class ImageAnalyzer {
+  private static instance: ImageAnalyzer;
+
+  static getInstance(): ImageAnalyzer {
+    if (!ImageAnalyzer.instance) {
+      ImageAnalyzer.instance = new ImageAnalyzer();
+    }
+    return ImageAnalyzer.instance;
+  }
+
+  /**
+   * Whether any provider the company can use accepts images
+   */
+  isAvailable(companyConfig?: CompanyConfig): boolean {
+    return LLMManager.getInstance().getVisionProviderChain(companyConfig).length > 0;
+  }
+
+  /**
+   * Describe the images sent with one customer message.
+   * Throws LLMVisionUnavailableError when no provider in the chain accepts images.
+   */
+  async describe(
+    images: LLMImagePart[],
+    options: { caption?: string; companyConfig?: CompanyConfig; usage?: UsageTags } = {}
+  ): Promise<ImageDescription> {
+    const caption = options.caption?.trim();
+    const prompt = PromptRegistry.getInstance().render('vision.describe', {
+      businessType: options.companyConfig?.businessType || 'customer service',
+      captionNote: caption ? ` with the caption "${caption.replace(/"/g, "'")}"` : ''
+    }, options.companyConfig);
+
+    const response = await LLMManager.getInstance().generateStructured<Omit<ImageDescription, 'providerUsed' | 'model' | 'cost'>>(
+      [{ role: 'user', content: prompt.content, images }],
+      descriptionSchema,
+      {
+        maxTokens: 400,
+        temperature: 0.1,
+        timeout: 20000,  // Images take longer to process than text
+        retries: 0,
+        maxRepairs: 1,
+        companyConfig: options.companyConfig,
+        priority: 'interactive',
+        usage: { ...options.usage, operation: 'vision' }
+      }
+    );
+
+    return {
+      ...response.data,
+      providerUsed: response.providerUsed,
+      model: response.model,
+      cost: response.cost
+    };
+  }
+
+  /**
+   * The description as a line of conversation text
+   */
+  toContextText(description: ImageDescription): string {
+    const details = Object.entries(description.details)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join(', ');
+
+    return [
+      `[Photo - ${description.kind.replace(/_/g, ' ')}] ${description.description}`,
+      description.visibleText ? `Visible text: ${description.visibleText}` : '',
+      details ? `Details: ${details}` : ''
+    ].filter(Boolean).join('\n');
+  }
+}
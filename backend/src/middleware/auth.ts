@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+
+/**
+ * Admin-only routes need `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ * Without ADMIN_API_TOKEN set they are switched off rather than left open.
+ */
+export const requireAdminToken = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.ADMIN_API_TOKEN;
+
+  if (!expected) {
+    return res.status(403).json({
+      success: false,
+      error: 'Admin routes are disabled - set ADMIN_API_TOKEN to enable them'
+    });
+  }
+
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+
+  if (!provided || !tokensMatch(provided, expected)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Admin token required'
+    });
+  }
+
+  next();
+};
+
+// Constant-time comparison so the token cannot be guessed from response timings
+const tokensMatch = (provided: string, expected: string): boolean => {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(provided), digest(expected));
+};
@@ -1,11 +1,13 @@
 // File: backend/src/platforms/PlatformManager.ts
 // Central platform orchestration system
 
-import { PlatformProvider } from './interfaces/PlatformInterface';
+import { PlatformProvider, PlatformMessage } from './interfaces/PlatformInterface';
 import { InstagramPlatform } from './instagram/InstagramPlatform';
 import { CompanyManager } from '../core/companies/CompanyManager';
 import { AIService } from '../services/AIService';
 import { ContextBuilder, UnifiedQueryContext } from '../types/UnifiedContext';
+import { LLMImagePart } from '../core/llm/interfaces/LLMProvider';
+import { UNREADABLE_PHOTO_NOTE } from '../core/vision/ImageAnalyzer';
 
 export class PlatformManager {
   private static instance: PlatformManager;
@@ -103,24 +105,32 @@ export class PlatformManager {
 
   private async processMessage(platform: string, companyId: string, message: any): Promise<void> {
     try {
+      const platformProvider = this.platforms.get(platform);
+
+      // Photos go to AIService, which has a vision model describe them
+      const images = platformProvider ? await this.downloadImages(platformProvider, message) : [];
+      const content = message.type === 'image' && images.length === 0
+        ? [message.content, UNREADABLE_PHOTO_NOTE].filter(Boolean).join('\n\n')
+        : message.content;
+
       // Build unified context
       const context = ContextBuilder
         .forPlatform(platform, companyId, message.senderId, message.id)
         .withUser(message.senderId)
-        .withMessage(message.content, message.type)
+        .withMessage(content, message.type)
+        .withImages(images)
         .withMetadata(message.metadata || {})
         .build();
 
       // Process with AI service
       const aiResponse = await this.aiService.processMessage(
-        message.content,
+        content,
         message.senderId,
         context,
         companyId
       );
 
       // Send response back through platform
-      const platformProvider = this.platforms.get(platform);
       if (platformProvider) {
         await platformProvider.sendMessage(
           message.senderId,
@@ -135,6 +145,27 @@ export class PlatformManager {
     }
   }
 
+  /**
+   * Download a message's image attachments. A failed download is logged and skipped,
+   * so the caption still gets an answer.
+   */
+  private async downloadImages(platformProvider: PlatformProvider, message: PlatformMessage): Promise<LLMImagePart[]> {
+    const media = (message.media || []).filter(item => item.kind === 'image');
+    if (media.length === 0 || !platformProvider.downloadMedia) {
+      return [];
+    }
+
+    const images: LLMImagePart[] = [];
+    for (const item of media) {
+      try {
+        images.push(await platformProvider.downloadMedia(item));
+      } catch (error) {
+        console.warn(`⚠️  Failed to download ${platformProvider.name} image for message ${message.id}:`, (error as Error).message);
+      }
+    }
+    return images;
+  }
+
   getPlatformStats(): Record<string, any> {
     const stats: Record<string, any> = {};
     
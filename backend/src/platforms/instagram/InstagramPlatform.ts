@@ -1,8 +1,10 @@
 // File: backend/src/platforms/instagram/InstagramPlatform.ts
 // Instagram Business API implementation
 
-import { PlatformProvider, PlatformConfig, PlatformMessage, PlatformWebhookData, MessageResponse, PlatformFeature, PlatformStats } from '../interfaces/PlatformInterface';
+import { PlatformProvider, PlatformConfig, PlatformMessage, PlatformMedia, PlatformWebhookData, MessageResponse, PlatformFeature, PlatformStats } from '../interfaces/PlatformInterface';
 import { CompanyManager } from '../../core/companies/CompanyManager';
+import { LLMImagePart } from '../../core/llm/interfaces/LLMProvider';
+import { downloadImage, MediaDownloadError } from '../../utils/media';
 import { UnifiedQueryContext, ContextBuilder } from '../../types/UnifiedContext';
 import crypto from 'crypto';
 
@@ -17,6 +19,7 @@ export class InstagramPlatform implements PlatformProvider {
     { name: 'story_mentions', enabled: true, description: 'Respond to story mentions' },
     { name: 'story_replies', enabled: true, description: 'Reply to story comments' },
     { name: 'rich_media', enabled: true, description: 'Send images and videos' },
+    { name: 'image_understanding', enabled: true, description: 'Read photos customers send (damage, documents, labels)' },
     { name: 'quick_replies', enabled: true, description: 'Interactive quick reply buttons' },
     { name: 'lead_forms', enabled: false, description: 'Instagram lead generation forms' }
   ];
@@ -134,14 +137,20 @@ export class InstagramPlatform implements PlatformProvider {
           if (entry.messaging && Array.isArray(entry.messaging)) {
             for (const messagingEvent of entry.messaging) {
               
+              // Photos travel with the text they were sent with, as its caption
+              const images: PlatformMedia[] = (messagingEvent.message?.attachments || [])
+                .filter((attachment: any) => attachment.type === 'image' && attachment.payload?.url)
+                .map((attachment: any) => ({ kind: 'image', url: attachment.payload.url }));
+
               // Extract message data
-              if (messagingEvent.message && messagingEvent.message.text) {
+              if (messagingEvent.message && (messagingEvent.message.text || images.length > 0)) {
                 const message: PlatformMessage = {
                   id: messagingEvent.message.mid,
-                  content: messagingEvent.message.text,
+                  content: messagingEvent.message.text || '',
                   senderId: messagingEvent.sender.id,
                   timestamp: new Date(messagingEvent.timestamp).toISOString(),
-                  type: 'text',
+                  type: images.length > 0 ? 'image' : 'text',
+                  ...(images.length > 0 && { media: images }),
                   metadata: {
                     platform: 'instagram',
                     recipientId: messagingEvent.recipient.id,
@@ -154,7 +163,7 @@ export class InstagramPlatform implements PlatformProvider {
                 // Try to determine company from Instagram account
                 companyId = await this.determineCompanyFromInstagram(
                   messagingEvent.recipient.id,
-                  messagingEvent.message.text
+                  messagingEvent.message.text || ''
                 );
               }
 
@@ -222,6 +231,22 @@ export class InstagramPlatform implements PlatformProvider {
     }
   }
 
+  /**
+   * Instagram attachment URLs are signed CDN links - no token needed
+   */
+  async downloadMedia(media: PlatformMedia): Promise<LLMImagePart> {
+    if (media.kind !== 'image' || !media.url) {
+      throw new MediaDownloadError(`Cannot download ${media.kind} attachment without a URL`);
+    }
+
+    try {
+      return await downloadImage(media.url, { mimeType: media.mimeType });
+    } catch (error) {
+      this.stats.errors++;
+      throw error;
+    }
+  }
+
   isInitialized(): boolean {
     return this.config !== null && !!this.config.accessToken && !!this.config.businessAccountId;
   }
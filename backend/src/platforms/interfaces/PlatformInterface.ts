@@ -1,6 +1,8 @@
 // File: backend/src/platforms/interfaces/PlatformInterface.ts
 // Platform abstraction interface for multi-platform support
 
+import { LLMImagePart } from '../../core/llm/interfaces/LLMProvider';
+
 export interface PlatformConfig {
   enabled: boolean;
   accessToken?: string;
@@ -18,9 +20,18 @@ export interface PlatformMessage {
   senderId: string;
   timestamp: string;
   type: 'text' | 'image' | 'video' | 'audio' | 'file';
+  media?: PlatformMedia[];  // Attachments, downloaded on demand with downloadMedia()
   metadata?: Record<string, any>;
 }
 
+// A platform attachment - either a direct URL or an id the platform resolves first
+export interface PlatformMedia {
+  kind: 'image' | 'video' | 'audio' | 'file';
+  url?: string;
+  mediaId?: string;
+  mimeType?: string;
+}
+
 export interface PlatformWebhookData {
   platform: string;
   companyId: string;
@@ -44,6 +55,7 @@ export interface PlatformProvider {
   sendMessage(to: string, message: string, companyId: string): Promise<MessageResponse>;
   handleWebhook(data: any): Promise<PlatformWebhookData | null>;
   validateWebhook(signature: string, body: string, secret: string): boolean;
+  downloadMedia?(media: PlatformMedia): Promise<LLMImagePart>;  // Images only, for vision models
   
   // Platform capabilities
   supportedFeatures: PlatformFeature[];
@@ -2,9 +2,10 @@
 // File: backend/src/routes/chat.ts
 
 import { Router, Request, Response } from 'express';
-import GenericAIServiceWrapper from '../services/GenericAIServiceWrapper';
+import GenericAIServiceWrapper, { GenericAIResponse } from '../services/GenericAIServiceWrapper';
 import { InsuranceDomainConfig } from '../config/InsuranceDomainConfig';
 import { validateChatMessage } from '../middleware/validation';
+import { streamChatResponse } from '../utils/sse';
 
 const router = Router();
 let aiService: GenericAIServiceWrapper | null = null;
@@ -24,6 +25,21 @@ const initializeAIService = async () => {
   return aiService;
 };
 
+// Shape shared by the JSON and streaming message endpoints
+const formatChatResponse = (response: GenericAIResponse) => ({
+  success: true,
+  data: {
+    response: response.message,
+    confidence: response.confidence,
+    recommendations: response.recommendations || [],
+    metadata: {
+      usedKnowledge: response.usedKnowledge || {},
+      nextState: response.nextState || 'continue',
+      timestamp: new Date().toISOString()
+    }
+  }
+});
+
 // Chat endpoint
 router.post('/message', validateChatMessage, async (req: Request, res: Response) => {
   try {
@@ -34,19 +50,7 @@ router.post('/message', validateChatMessage, async (req: Request, res: Response)
     const service = await initializeAIService();
     const response = await service.processMessage(message, userId, context);
 
-    res.json({
-      success: true,
-      data: {
-        response: response.message,
-        confidence: response.confidence,
-        recommendations: response.recommendations || [],
-        metadata: {
-          usedKnowledge: response.usedKnowledge || {},
-          nextState: response.nextState || 'continue',
-          timestamp: new Date().toISOString()
-        }
-      }
-    });
+    res.json(formatChatResponse(response));
 
   } catch (error) {
     console.error('Chat endpoint error:', error);
@@ -58,6 +62,27 @@ router.post('/message', validateChatMessage, async (req: Request, res: Response)
   }
 });
 
+// Streaming chat endpoint - tokens are sent as server-sent events while they are generated
+router.post('/message/stream', validateChatMessage, async (req: Request, res: Response) => {
+  const { message, userId, context = {} } = req.body;
+
+  console.log(`Streaming message from user ${userId}: ${message}`);
+
+  let service: GenericAIServiceWrapper;
+  try {
+    service = await initializeAIService();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process message',
+      message: 'I apologize, but I\'m experiencing technical difficulties. Please try again in a moment.'
+    });
+    return;
+  }
+
+  await streamChatResponse(res, service.streamMessage(message, userId, context), formatChatResponse);
+});
+
 // Get conversation history
 router.get('/history/:userId', async (req: Request, res: Response) => {
   try {
@@ -2,7 +2,14 @@
 
 import express, { Request, Response } from 'express';
 import Joi from 'joi';
+import multer from 'multer';
 import { CompanyManager } from '../core/companies/CompanyManager';
+import { LLMManager } from '../core/llm/managers/LLMManager';
+import { UsageLedger } from '../core/llm/managers/UsageLedger';
+import { MessageGuard } from '../core/guard/MessageGuard';
+import { ShadowTrafficManager } from '../core/llm/managers/ShadowTrafficManager';
+import { DocumentIngestionService } from '../core/ingestion/DocumentIngestionService';
+import { isMonthKey } from '../utils/monthlyJsonl';
 import { CompanyConfig, CompanyProfile, CompanyValidationResult } from '../types/CompanyTypes';
 
 const router = express.Router();
@@ -20,6 +27,73 @@ const initializeManager = async () => {
 };
 
 // Validation schemas
+const usageBudgetSchema = Joi.object({
+  monthlyLimit: Joi.number().positive().required(),
+  softLimitPercent: Joi.number().min(1).max(100).optional(),
+  downgradeProvider: Joi.string().valid('openai', 'claude', 'local_llama', 'deepseek').optional()
+});
+
+const promptOverridesSchema = Joi.object().pattern(
+  Joi.string(),
+  Joi.object({
+    version: Joi.number().integer().min(1).optional(),
+    template: Joi.string().optional()
+  }).or('version', 'template')
+);
+
+// Plain-text API keys are accepted here and encrypted before the config is stored
+const llmProviderSettingsSchema = Joi.object({
+  apiKey: Joi.string().optional(),
+  model: Joi.string().optional(),
+  baseURL: Joi.string().uri().optional(),
+  requestsPerMinute: Joi.number().integer().min(1).optional(),
+  tokensPerMinute: Joi.number().integer().min(1).optional()
+}).or('apiKey', 'model', 'baseURL');
+
+// Hosted APIs never get the platform's key sent to a company's own baseURL
+const hostedProviderSettingsSchema = llmProviderSettingsSchema.with('baseURL', 'apiKey');
+
+const llmCredentialsSchema = Joi.object({
+  openai: hostedProviderSettingsSchema.optional(),
+  claude: hostedProviderSettingsSchema.optional(),
+  local_llama: llmProviderSettingsSchema.optional(),
+  deepseek: hostedProviderSettingsSchema.optional()
+});
+
+const messageGuardSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  onInjection: Joi.string().valid('log', 'sanitize', 'refuse').optional(),
+  onPolicyChange: Joi.string().valid('log', 'flag', 'refuse').optional(),
+  classifier: Joi.string().valid('off', 'suspicious', 'always').optional(),
+  threshold: Joi.number().min(0.1).max(1).optional(),
+  refusalMessage: Joi.string().min(1).max(1000).optional()
+});
+
+const shadowTrafficSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  provider: Joi.string().valid('openai', 'claude', 'local_llama', 'deepseek').required(),
+  percentage: Joi.number().min(0).max(100).required()
+});
+
+// Form fields sent with a knowledge document upload
+const documentUploadSchema = Joi.object({
+  type: Joi.string().required().pattern(/^[a-z0-9_]+$/),
+  category: Joi.string().required().pattern(/^[a-z0-9_]+$/),
+  subcategory: Joi.string().pattern(/^[a-z0-9_]+$/).optional(),
+  priority: Joi.string().valid('high', 'medium', 'low').optional(),
+  version: Joi.string().max(50).optional(),
+  language: Joi.string().max(10).optional(),
+  tags: Joi.string().max(500).optional(),
+  title: Joi.string().max(200).optional(),
+  maxTokens: Joi.number().integer().min(100).max(2000).optional(),
+  overlapTokens: Joi.number().integer().min(0).max(500).optional()
+});
+
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: parseInt(process.env.DOCUMENT_UPLOAD_MAX_BYTES || String(20 * 1024 * 1024)), files: 1 }
+}).single('file');
+
 const createCompanySchema = Joi.object({
   id: Joi.string().required().pattern(/^[a-zA-Z0-9_-]+$/),
   name: Joi.string().required().min(1).max(100),
@@ -49,7 +123,12 @@ const createCompanySchema = Joi.object({
     }).optional()
   }).optional(),
   preferredLLMProvider: Joi.string().valid('openai', 'claude', 'local_llama', 'deepseek').optional(),
-  llmPriority: Joi.string().valid('cost', 'speed', 'quality').optional()
+  llmPriority: Joi.string().valid('cost', 'speed', 'quality').optional(),
+  usageBudget: usageBudgetSchema.optional(),
+  promptOverrides: promptOverridesSchema.optional(),
+  llmCredentials: llmCredentialsSchema.optional(),
+  messageGuard: messageGuardSchema.optional(),
+  shadowTraffic: shadowTrafficSchema.optional()
 });
 
 const updateCompanySchema = Joi.object({
@@ -72,7 +151,12 @@ const updateCompanySchema = Joi.object({
   platforms: Joi.object().optional(),
   status: Joi.string().valid('active', 'inactive', 'setup', 'suspended').optional(),
   preferredLLMProvider: Joi.string().valid('openai', 'claude', 'local_llama', 'deepseek').optional(),
-  llmPriority: Joi.string().valid('cost', 'speed', 'quality').optional()
+  llmPriority: Joi.string().valid('cost', 'speed', 'quality').optional(),
+  usageBudget: usageBudgetSchema.optional(),
+  promptOverrides: promptOverridesSchema.optional(),
+  llmCredentials: llmCredentialsSchema.optional(),
+  messageGuard: messageGuardSchema.optional(),
+  shadowTraffic: shadowTrafficSchema.optional()
 });
 
 /**
@@ -286,6 +370,7 @@ router.delete('/:companyId', async (req: Request, res: Response) => {
 
     const manager = await initializeManager();
     await manager.deleteCompany(companyId);
+    LLMManager.getInstance().releaseCompanyProviders(companyId);
     
     res.json({
       success: true,
@@ -384,6 +469,349 @@ router.get('/:companyId/stats', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/companies/:companyId/usage
+ * LLM token and cost report for a month (?month=YYYY-MM, defaults to the current month)
+ */
+router.get('/:companyId/usage', async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const { month } = req.query;
+
+    if (month && !isMonthKey(month)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid month',
+        message: 'month must be formatted as YYYY-MM'
+      });
+      return;
+    }
+
+    const manager = await initializeManager();
+    const config = await manager.getCompanyConfig(companyId);
+
+    const report = UsageLedger.getInstance().getReport(companyId, {
+      month: month as string | undefined,
+      budget: config.usageBudget
+    });
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching company usage ${req.params.companyId}:`, error);
+
+    if (error instanceof Error && error.name === 'CompanyNotFoundError') {
+      res.status(404).json({
+        success: false,
+        error: 'Company not found',
+        message: error.message
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch company usage',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/companies/:companyId/usage/records
+ * Individual usage records, newest first (?month=YYYY-MM&limit=100)
+ */
+router.get('/:companyId/usage/records', async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const { month, limit } = req.query;
+
+    if (month && !isMonthKey(month)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid month',
+        message: 'month must be formatted as YYYY-MM'
+      });
+      return;
+    }
+
+    const manager = await initializeManager();
+    await manager.getCompanyConfig(companyId);
+
+    const records = UsageLedger.getInstance().getRecords(companyId, {
+      month: month as string | undefined,
+      limit: limit ? Math.min(parseInt(limit as string) || 100, 1000) : 100
+    });
+
+    res.json({
+      success: true,
+      data: records,
+      count: records.length
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching company usage records ${req.params.companyId}:`, error);
+
+    if (error instanceof Error && error.name === 'CompanyNotFoundError') {
+      res.status(404).json({
+        success: false,
+        error: 'Company not found',
+        message: error.message
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch company usage records',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/companies/:companyId/guard/hits
+ * Messages flagged by the message guard, newest first (?month=YYYY-MM&limit=100)
+ */
+router.get('/:companyId/guard/hits', async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const { month, limit } = req.query;
+
+    if (month && !isMonthKey(month)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid month',
+        message: 'month must be formatted as YYYY-MM'
+      });
+      return;
+    }
+
+    const manager = await initializeManager();
+    await manager.getCompanyConfig(companyId);
+
+    const hits = MessageGuard.getInstance().getHits(companyId, {
+      month: month as string | undefined,
+      limit: limit ? Math.min(parseInt(limit as string) || 100, 1000) : 100
+    });
+
+    res.json({
+      success: true,
+      data: hits,
+      count: hits.length
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching guard hits ${req.params.companyId}:`, error);
+
+    if (error instanceof Error && error.name === 'CompanyNotFoundError') {
+      res.status(404).json({
+        success: false,
+        error: 'Company not found',
+        message: error.message
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch guard hits',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/companies/:companyId/shadow/summary
+ * How the shadow provider agrees with the primary on intent and lead score, with latency
+ * and cost for both (?month=YYYY-MM&provider=deepseek)
+ */
+router.get('/:companyId/shadow/summary', async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const { month, provider } = req.query;
+
+    if (month && !isMonthKey(month)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid month',
+        message: 'month must be formatted as YYYY-MM'
+      });
+      return;
+    }
+
+    const manager = await initializeManager();
+    const config = await manager.getCompanyConfig(companyId);
+
+    const summary = ShadowTrafficManager.getInstance().getSummary(companyId, {
+      month: month as string | undefined,
+      provider: provider as string | undefined
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...summary,
+        policy: config.shadowTraffic || null
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching shadow summary ${req.params.companyId}:`, error);
+
+    if (error instanceof Error && error.name === 'CompanyNotFoundError') {
+      res.status(404).json({
+        success: false,
+        error: 'Company not found',
+        message: error.message
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch shadow summary',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
+/**
+ * GET /api/companies/:companyId/shadow/records
+ * Primary and shadow outputs side by side, newest first (?month=YYYY-MM&limit=100&provider=deepseek)
+ */
+router.get('/:companyId/shadow/records', async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const { month, limit, provider } = req.query;
+
+    if (month && !isMonthKey(month)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid month',
+        message: 'month must be formatted as YYYY-MM'
+      });
+      return;
+    }
+
+    const manager = await initializeManager();
+    await manager.getCompanyConfig(companyId);
+
+    const records = ShadowTrafficManager.getInstance().getRecords(companyId, {
+      month: month as string | undefined,
+      provider: provider as string | undefined,
+      limit: limit ? Math.min(parseInt(limit as string) || 100, 1000) : 100
+    });
+
+    res.json({
+      success: true,
+      data: records,
+      count: records.length
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching shadow records ${req.params.companyId}:`, error);
+
+    if (error instanceof Error && error.name === 'CompanyNotFoundError') {
+      res.status(404).json({
+        success: false,
+        error: 'Company not found',
+        message: error.message
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch shadow records',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
+/**
+ * POST /api/companies/:companyId/documents
+ * Ingest a knowledge document (PDF, Markdown, CSV, HTML or text) sent as multipart "file",
+ * with type, category and optional version/priority/tags form fields
+ */
+router.post('/:companyId/documents', async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+
+    await new Promise<void>((resolve, reject) => {
+      documentUpload(req, res, error => error ? reject(error) : resolve());
+    });
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: 'No file uploaded',
+        message: 'Send the document as the multipart field "file"'
+      });
+      return;
+    }
+
+    const { error, value } = documentUploadSchema.validate(req.body);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        message: error.details[0].message
+      });
+      return;
+    }
+
+    await initializeManager();
+    const result = await DocumentIngestionService.getInstance().ingest({
+      data: req.file.buffer,
+      filename: req.file.originalname,
+      mimeType: req.file.mimetype,
+      title: value.title,
+      metadata: {
+        companyId,
+        type: value.type,
+        category: value.category,
+        subcategory: value.subcategory,
+        priority: value.priority,
+        version: value.version,
+        language: value.language,
+        tags: value.tags?.split(',').map((tag: string) => tag.trim()).filter(Boolean)
+      },
+      chunking: {
+        maxTokens: value.maxTokens,
+        overlapTokens: value.overlapTokens
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: `Ingested ${result.chunks} chunks from ${result.source}`
+    });
+  } catch (error) {
+    console.error(`❌ Error ingesting document for ${req.params.companyId}:`, error);
+
+    if (error instanceof multer.MulterError) {
+      res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        error: 'Invalid upload',
+        message: error.message
+      });
+    } else if (error instanceof Error && error.name === 'CompanyNotFoundError') {
+      res.status(404).json({
+        success: false,
+        error: 'Company not found',
+        message: error.message
+      });
+    } else if (error instanceof Error && error.name === 'DocumentIngestionError') {
+      res.status(400).json({
+        success: false,
+        error: 'Document could not be ingested',
+        message: error.message
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to ingest document',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+});
+
 /**
  * GET /api/companies/platform/:platform
  * Get companies by platform
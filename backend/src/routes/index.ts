@@ -10,9 +10,12 @@ import companiesRoutes from './companies';
 import whatsappRouter from './whatsapp';
 import companiesRouter from './companies';
 import instagramRouter from './instagram'; // NEW: Instagram routes
+import promptsRouter from './prompts';
+import llmRouter from './llm';
 import { AIService } from '../services/AIService';
 import { CompanyManager } from '../core/companies/CompanyManager';
 import { PlatformManager } from '../platforms/PlatformManager'; // NEW: Platform manager
+import { LLMManager } from '../core/llm/managers/LLMManager';
 import { ContextBuilder } from '../types/UnifiedContext';
 
 const router = Router();
@@ -26,6 +29,8 @@ router.use('/companies', companiesRouter);
 router.use('/chat', chatRoutes);                 // Original chat routes
 router.use('/leads', leadsRoutes);               // Lead management routes
 router.use('/whatsapp', whatsappRoutes);         // WhatsApp routes
+router.use('/prompts', promptsRouter);           // Prompt template registry
+router.use('/llm', llmRouter);                   // Local model management
 
 // NEW: Platform routes
 
@@ -42,6 +47,7 @@ router.get('/health', async (req, res) => {
     const aiService = AIService.getInstance();
     const companyManager = CompanyManager.getInstance();
     const platformManager = PlatformManager.getInstance(); // NEW
+    const llmManager = LLMManager.getInstance();
     
     
     // Get manager status
@@ -58,7 +64,13 @@ router.get('/health', async (req, res) => {
       services: {
         ai: aiService.isInitialized() ? 'operational' : 'not_initialized',
         companies: companyManager.getManagerStatus(),
-        platforms: platformManager.isInitialized() // NEW
+        platforms: platformManager.isInitialized(), // NEW
+        llm: {
+          providers: llmManager.getInitializedProviders(),
+          circuitBreakers: llmManager.getCircuitBreakerStates(),
+          queue: llmManager.getQueueMetrics(),
+          localModel: llmManager.getLocalModelStatus()
+        }
       },
       companies: companyManager.getActiveCompanies().length,
       platforms: platformManager.getPlatformStats(), // NEW
@@ -73,7 +85,9 @@ router.get('/health', async (req, res) => {
         chatV2: '/api/chat/v2',             // Enhanced
         leads: '/api/leads',
         whatsapp: '/api/whatsapp',
-        instagram: '/api/instagram'           // Enhanced
+        instagram: '/api/instagram',          // Enhanced
+        prompts: '/api/prompts',
+        llm: '/api/llm'
       },
       features: {
         multiCompany: true,                 // NEW
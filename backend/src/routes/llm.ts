@@ -0,0 +1,230 @@
+// File: backend/src/routes/llm.ts
+
+import express, { Request, Response } from 'express';
+import Joi from 'joi';
+import { CompanyManager } from '../core/companies/CompanyManager';
+import { LLMManager } from '../core/llm/managers/LLMManager';
+import { LLMModelNotFoundError } from '../core/llm/interfaces/LLMProvider';
+import { LocalLlamaProvider } from '../core/llm/providers/LocalLlamaProvider';
+import { initSSE, sendSSEEvent } from '../utils/sse';
+import { requireAdminToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// These routes pull models onto the Ollama host and change company routing
+router.use(requireAdminToken);
+
+// Validation schemas
+const pullModelSchema = Joi.object({
+  model: Joi.string().required().min(1).max(200),
+  stream: Joi.boolean().default(true)
+});
+
+const warmupSchema = Joi.object({
+  keepAlive: Joi.string().pattern(/^-?\d+[smh]?$/).optional()
+});
+
+const companyModelSchema = Joi.object({
+  model: Joi.string().required().min(1).max(200),
+  preferred: Joi.boolean().default(false)
+});
+
+// Ollama being down is an upstream failure, not ours
+const sendOllamaError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof Error && error.name === 'LLMModelNotFoundError') {
+    const notFound = error as LLMModelNotFoundError;
+    return res.status(404).json({
+      success: false,
+      error: 'Model not installed',
+      message: notFound.message,
+      installedModels: notFound.installedModels
+    });
+  }
+
+  res.status(502).json({
+    success: false,
+    error: fallback,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+};
+
+/**
+ * GET /api/llm/local/models
+ * Models installed on the Ollama server, and whether the configured one is among them
+ */
+router.get('/local/models', async (req: Request, res: Response) => {
+  try {
+    const llmManager = LLMManager.getInstance();
+    const models = await llmManager.listLocalModels();
+
+    res.json({
+      success: true,
+      data: {
+        models,
+        configured: await llmManager.verifyLocalModel()
+      },
+      count: models.length
+    });
+  } catch (error) {
+    console.error('❌ Error listing local models:', error);
+    sendOllamaError(res, error, 'Failed to list local models');
+  }
+});
+
+/**
+ * POST /api/llm/local/models/pull
+ * Pull a model onto the Ollama server. Streams `progress` events, then `done` or `error`,
+ * unless `stream: false` is sent, in which case it answers once the pull finishes.
+ */
+router.post('/local/models/pull', async (req: Request, res: Response) => {
+  const { error, value } = pullModelSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: error.details.map(d => d.message)
+    });
+  }
+
+  const llmManager = LLMManager.getInstance();
+
+  if (!value.stream) {
+    try {
+      const configured = await llmManager.pullLocalModel(value.model);
+      return res.json({
+        success: true,
+        data: { model: value.model, configured },
+        message: `Model ${value.model} pulled successfully`
+      });
+    } catch (error) {
+      console.error(`❌ Error pulling local model ${value.model}:`, error);
+      return sendOllamaError(res, error, 'Failed to pull model');
+    }
+  }
+
+  initSSE(res);
+
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = true;
+  });
+
+  try {
+    // The pull carries on server-side if the client goes away - it just stops hearing about it
+    const configured = await llmManager.pullLocalModel(value.model, progress => {
+      if (!clientClosed) {
+        sendSSEEvent(res, 'progress', progress);
+      }
+    });
+
+    if (!clientClosed) {
+      sendSSEEvent(res, 'done', { model: value.model, configured });
+    }
+  } catch (error) {
+    console.error(`❌ Error pulling local model ${value.model}:`, error);
+    if (!clientClosed) {
+      sendSSEEvent(res, 'error', {
+        error: 'Failed to pull model',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  } finally {
+    res.end();
+  }
+});
+
+/**
+ * POST /api/llm/local/models/:model/warmup
+ * Load a model into memory so the first customer message does not pay the load time
+ */
+router.post('/local/models/:model/warmup', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = warmupSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const result = await LLMManager.getInstance().warmLocalModel(req.params.model, value.keepAlive);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Model ${result.model} loaded in ${result.loadDurationMs}ms`
+    });
+  } catch (error) {
+    console.error(`❌ Error warming local model ${req.params.model}:`, error);
+    sendOllamaError(res, error, 'Failed to warm up model');
+  }
+});
+
+/**
+ * PUT /api/llm/local/companies/:companyId/model
+ * Set the local model a company uses, optionally making local_llama its preferred provider
+ */
+router.put('/local/companies/:companyId/model', async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+
+    const { error, value } = companyModelSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: error.details.map(d => d.message)
+      });
+    }
+
+    const llmManager = LLMManager.getInstance();
+    const installed = (await llmManager.listLocalModels()).map(model => model.name);
+    if (!installed.some(name => LocalLlamaProvider.isSameModel(name, value.model))) {
+      throw new LLMModelNotFoundError('local_llama', value.model, installed);
+    }
+
+    const companyManager = CompanyManager.getInstance();
+    const company = await companyManager.getCompanyConfig(companyId);
+    const updatedCompany = await companyManager.updateCompany(companyId, {
+      llmCredentials: {
+        ...company.llmCredentials,
+        local_llama: { ...company.llmCredentials?.local_llama, model: value.model }
+      },
+      ...(value.preferred && { preferredLLMProvider: 'local_llama' as const })
+    });
+
+    // Drop the company's cached providers so the next request picks up the new model
+    llmManager.releaseCompanyProviders(companyId);
+
+    res.json({
+      success: true,
+      data: {
+        companyId,
+        model: value.model,
+        preferredLLMProvider: updatedCompany.preferredLLMProvider
+      },
+      message: `Company ${companyId} now uses local model ${value.model}`
+    });
+  } catch (error) {
+    console.error(`❌ Error setting local model for company ${req.params.companyId}:`, error);
+
+    if (error instanceof Error && error.name === 'CompanyNotFoundError') {
+      res.status(404).json({
+        success: false,
+        error: 'Company not found',
+        message: error.message
+      });
+    } else if (error instanceof Error && error.name === 'CompanyConfigurationError') {
+      res.status(400).json({
+        success: false,
+        error: 'Company configuration error',
+        message: error.message
+      });
+    } else {
+      sendOllamaError(res, error, 'Failed to set company model');
+    }
+  }
+});
+
+export default router;
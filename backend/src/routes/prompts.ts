@@ -0,0 +1,137 @@
+// File: backend/src/routes/prompts.ts
+
+import express, { Request, Response } from 'express';
+import Joi from 'joi';
+import { PromptRegistry } from '../core/prompts/PromptRegistry';
+import { requireAdminToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation schemas
+const addVersionSchema = Joi.object({
+  template: Joi.string().required().min(1),
+  description: Joi.string().max(500).optional(),
+  createdBy: Joi.string().max(100).optional(),
+  activate: Joi.boolean().default(true)
+});
+
+const activateSchema = Joi.object({
+  version: Joi.number().integer().min(1).required()
+});
+
+/**
+ * GET /api/prompts
+ * List prompt templates with their active version
+ */
+router.get('/', (req: Request, res: Response) => {
+  const templates = PromptRegistry.getInstance().list().map(template => ({
+    name: template.name,
+    description: template.description,
+    activeVersion: template.activeVersion,
+    versions: template.versions.map(v => v.version)
+  }));
+
+  res.json({
+    success: true,
+    data: templates,
+    count: templates.length
+  });
+});
+
+/**
+ * GET /api/prompts/:name
+ * A template with the text of every version
+ */
+router.get('/:name', (req: Request, res: Response) => {
+  const template = PromptRegistry.getInstance().get(req.params.name);
+
+  if (!template) {
+    res.status(404).json({
+      success: false,
+      error: 'Prompt template not found',
+      message: `No prompt template named ${req.params.name}`
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: template
+  });
+});
+
+/**
+ * POST /api/prompts/:name/versions
+ * Add a new version of a template (activated unless activate=false). Admin only.
+ */
+router.post('/:name/versions', requireAdminToken, (req: Request, res: Response) => {
+  const { error, value } = addVersionSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: error.details.map(d => d.message)
+    });
+    return;
+  }
+
+  try {
+    const version = PromptRegistry.getInstance().addVersion(req.params.name, value.template, value);
+
+    res.status(201).json({
+      success: true,
+      data: version,
+      message: `Prompt ${req.params.name} v${version.version} added`
+    });
+  } catch (error) {
+    handleRegistryError(res, error, 'Failed to add prompt version');
+  }
+});
+
+/**
+ * POST /api/prompts/:name/activate
+ * Roll a template forward or back to an existing version. Admin only.
+ */
+router.post('/:name/activate', requireAdminToken, (req: Request, res: Response) => {
+  const { error, value } = activateSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: error.details.map(d => d.message)
+    });
+    return;
+  }
+
+  try {
+    const template = PromptRegistry.getInstance().activate(req.params.name, value.version);
+
+    res.json({
+      success: true,
+      data: { name: template.name, activeVersion: template.activeVersion },
+      message: `Prompt ${template.name} now at v${template.activeVersion}`
+    });
+  } catch (error) {
+    handleRegistryError(res, error, 'Failed to activate prompt version');
+  }
+});
+
+function handleRegistryError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof Error && (error.name === 'PromptTemplateNotFoundError' || error.name === 'PromptVersionNotFoundError')) {
+    res.status(404).json({
+      success: false,
+      error: 'Prompt not found',
+      message: error.message
+    });
+    return;
+  }
+
+  console.error(`❌ ${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export default router;
@@ -1,9 +1,10 @@
 // File: backend/src/routes/resortChat.ts
 
 import { Router, Request, Response } from 'express';
-import GenericAIServiceWrapper from '../services/GenericAIServiceWrapper';
+import GenericAIServiceWrapper, { GenericAIResponse } from '../services/GenericAIServiceWrapper';
 import { ResortDomainConfig } from '../config/ResortDomainConfig';
 import { validateChatMessage } from '../middleware/validation';
+import { streamChatResponse } from '../utils/sse';
 
 const router = Router();
 let genericResortService: GenericAIServiceWrapper;
@@ -36,6 +37,27 @@ router.use(async (req, res, next) => {
   }
 });
 
+// Shape shared by the JSON and streaming message endpoints
+const formatChatResponse = (response: GenericAIResponse) => ({
+  success: true,
+  agent: 'resort',
+  data: {
+    response: response.message,
+    confidence: response.confidence,
+    leadScore: response.leadScore,
+    shouldCaptureLead: response.shouldCaptureLead,
+    businessResult: response.businessResult,
+    recommendations: response.recommendations,
+    metadata: {
+      usedKnowledge: response.usedKnowledge,
+      nextState: response.nextState,
+      timestamp: new Date().toISOString(),
+      domain: 'resort',
+      agent_type: 'generic'
+    }
+  }
+});
+
 // Generic Resort Chat endpoint
 router.post('/message', validateChatMessage, async (req: Request, res: Response) => {
   try {
@@ -48,25 +70,7 @@ router.post('/message', validateChatMessage, async (req: Request, res: Response)
       domain: 'resort' // Ensure domain is set
     });
 
-    res.json({
-      success: true,
-      agent: 'resort',
-      data: {
-        response: response.message,
-        confidence: response.confidence,
-        leadScore: response.leadScore,
-        shouldCaptureLead: response.shouldCaptureLead,
-        businessResult: response.businessResult,
-        recommendations: response.recommendations,
-        metadata: {
-          usedKnowledge: response.usedKnowledge,
-          nextState: response.nextState,
-          timestamp: new Date().toISOString(),
-          domain: 'resort',
-          agent_type: 'generic'
-        }
-      }
-    });
+    res.json(formatChatResponse(response));
 
   } catch (error) {
     console.error('Generic Resort chat endpoint error:', error);
@@ -78,6 +82,22 @@ router.post('/message', validateChatMessage, async (req: Request, res: Response)
   }
 });
 
+// Streaming variant of the resort chat endpoint (server-sent events)
+router.post('/message/stream', validateChatMessage, async (req: Request, res: Response) => {
+  const { message, userId, context = {} } = req.body;
+
+  console.log(`🌴 Processing RESORT stream from user ${userId}: ${message}`);
+
+  await streamChatResponse(
+    res,
+    genericResortService.streamMessage(message, userId, {
+      ...context,
+      domain: 'resort'
+    }),
+    formatChatResponse
+  );
+});
+
 // Get conversation context for generic resort agent
 router.get('/context/:userId', async (req: Request, res: Response) => {
   try {
@@ -5,6 +5,9 @@ import express from 'express';
 import { ContextBuilder } from '../types/UnifiedContext';
 import { CompanyManager } from '../core/companies/CompanyManager';
 import { AIService } from '../services/AIService';
+import { LLMImagePart } from '../core/llm/interfaces/LLMProvider';
+import { UNREADABLE_PHOTO_NOTE } from '../core/vision/ImageAnalyzer';
+import { downloadImage, MediaDownloadError } from '../utils/media';
 
 const router = express.Router();
 
@@ -41,12 +44,24 @@ router.post('/webhook', async (req, res) => {
         const message = value.messages[0];
         const phoneNumberId = value.metadata.phone_number_id;
         const fromNumber = message.from;
-        const messageBody = message.text?.body || '';
+        let messageBody = message.text?.body || message.image?.caption || '';
+
+        // Photos are downloaded here and described by a vision model in AIService
+        const images: LLMImagePart[] = [];
+        if (message.type === 'image' && message.image?.id) {
+          try {
+            images.push(await downloadWhatsAppMedia(message.image.id, message.image.mime_type));
+          } catch (error) {
+            console.warn('⚠️ Failed to download WhatsApp image:', (error as Error).message);
+            messageBody = [messageBody, UNREADABLE_PHOTO_NOTE].filter(Boolean).join('\n\n');
+          }
+        }
 
         console.log('📞 Processing message:', {
           from: fromNumber,
           phoneNumberId,
-          message: messageBody
+          message: messageBody,
+          images: images.length
         });
 
         // **ENHANCED: Determine company from phone number or message context**
@@ -58,7 +73,8 @@ router.post('/webhook', async (req, res) => {
         const context = ContextBuilder
           .forWhatsApp(companyId, fromNumber, message.id)
           .withUser(fromNumber, `WhatsApp User ${fromNumber}`)
-          .withMessage(messageBody, 'text')
+          .withMessage(messageBody, message.type === 'image' ? 'image' : 'text')
+          .withImages(images)
           .withMetadata({
             phoneNumberId,
             timestamp: message.timestamp
@@ -212,6 +228,25 @@ async function sendWhatsAppMessage(
   }
 }
 
+// Media ids resolve to a short-lived URL, which needs the same bearer token to download
+async function downloadWhatsAppMedia(mediaId: string, mimeType?: string): Promise<LLMImagePart> {
+  const WHATSAPP_TOKEN = process.env.WHATSAPP_ACCESS_TOKEN;
+
+  if (!WHATSAPP_TOKEN) {
+    throw new Error('WhatsApp access token not configured');
+  }
+
+  const headers = { 'Authorization': `Bearer ${WHATSAPP_TOKEN}` };
+  const response = await fetch(`https://graph.facebook.com/v17.0/${mediaId}`, { headers });
+
+  if (!response.ok) {
+    throw new MediaDownloadError(`WhatsApp media lookup failed: ${response.status}`, response.status);
+  }
+
+  const media = await response.json() as any;
+  return downloadImage(media.url, { headers, mimeType: mimeType || media.mime_type });
+}
+
 // **NEW: Phone number to company mapping (you'd implement this based on your setup)**
 async function getPhoneNumberCompanyMapping(): Promise<Record<string, string>> {
   // This would typically come from your database or configuration
@@ -2,9 +2,10 @@
 // File: backend/src/routes/wineRetailChat.ts
 
 import { Router, Request, Response } from 'express';
-import GenericAIServiceWrapper from '../services/GenericAIServiceWrapper';
+import GenericAIServiceWrapper, { GenericAIResponse } from '../services/GenericAIServiceWrapper';
 import { WineRetailDomainConfig } from '../config/WineRetailDomainConfig';
 import { validateChatMessage } from '../middleware/validation';
+import { streamChatResponse } from '../utils/sse';
 
 const router = Router();
 let genericWineRetailService: GenericAIServiceWrapper;
@@ -37,6 +38,27 @@ router.use(async (req, res, next) => {
   }
 });
 
+// Shape shared by the JSON and streaming message endpoints
+const formatChatResponse = (response: GenericAIResponse) => ({
+  success: true,
+  agent: 'wine_retail',
+  data: {
+    response: response.message,
+    confidence: response.confidence,
+    leadScore: response.leadScore,
+    shouldCaptureLead: response.shouldCaptureLead,
+    businessResult: response.businessResult,
+    recommendations: response.recommendations,
+    metadata: {
+      usedKnowledge: response.usedKnowledge,
+      nextState: response.nextState,
+      timestamp: new Date().toISOString(),
+      domain: 'wine_retail',
+      agent_type: 'generic'
+    }
+  }
+});
+
 // Generic Wine Retail Chat endpoint
 router.post('/message', validateChatMessage, async (req: Request, res: Response) => {
   try {
@@ -49,25 +71,7 @@ router.post('/message', validateChatMessage, async (req: Request, res: Response)
       domain: 'wine_retail' // Ensure domain is set
     });
 
-    res.json({
-      success: true,
-      agent: 'wine_retail',
-      data: {
-        response: response.message,
-        confidence: response.confidence,
-        leadScore: response.leadScore,
-        shouldCaptureLead: response.shouldCaptureLead,
-        businessResult: response.businessResult,
-        recommendations: response.recommendations,
-        metadata: {
-          usedKnowledge: response.usedKnowledge,
-          nextState: response.nextState,
-          timestamp: new Date().toISOString(),
-          domain: 'wine_retail',
-          agent_type: 'generic'
-        }
-      }
-    });
+    res.json(formatChatResponse(response));
 
   } catch (error) {
     console.error('Generic Wine Retail chat endpoint error:', error);
@@ -79,6 +83,22 @@ router.post('/message', validateChatMessage, async (req: Request, res: Response)
   }
 });
 
+// Streaming variant of the wine retail chat endpoint (server-sent events)
+router.post('/message/stream', validateChatMessage, async (req: Request, res: Response) => {
+  const { message, userId, context = {} } = req.body;
+
+  console.log(`🍷 Processing WINE RETAIL stream from user ${userId}: ${message}`);
+
+  await streamChatResponse(
+    res,
+    genericWineRetailService.streamMessage(message, userId, {
+      ...context,
+      domain: 'wine_retail'
+    }),
+    formatChatResponse
+  );
+});
+
 // Get conversation context for generic wine retail agent
 router.get('/context/:userId', async (req: Request, res: Response) => {
   try {
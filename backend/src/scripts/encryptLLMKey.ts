@@ -0,0 +1,28 @@
+// File: backend/src/scripts/encryptLLMKey.ts
+
+import dotenv from 'dotenv';
+import path from 'path';
+import { encryptCredential } from '../core/llm/utils/credentialCrypto';
+
+// Load environment variables (LLM_CREDENTIALS_KEY)
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+/**
+ * Encrypt a company's provider API key for llmCredentials in companies.json
+ * Usage: npx ts-node src/scripts/encryptLLMKey.ts <api key>
+ */
+if (require.main === module) {
+  const apiKey = process.argv[2];
+
+  if (!apiKey) {
+    console.error('Usage: npx ts-node src/scripts/encryptLLMKey.ts <api key>');
+    process.exit(1);
+  }
+
+  try {
+    console.log(encryptCredential(apiKey));
+  } catch (error) {
+    console.error('💥 Encryption failed:', (error as Error).message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,112 @@
+// File: backend/src/scripts/evaluateProviders.ts
+
+import dotenv from 'dotenv';
+import * as fs from 'fs';
+import path from 'path';
+import { LLMManager } from '../core/llm/managers/LLMManager';
+import { ProviderEvaluator } from '../core/eval/ProviderEvaluator';
+import { DomainConfig, InsuranceDomainConfig } from '../config/InsuranceDomainConfig';
+import { PensionDomainConfig } from '../config/PensionDomainConfig';
+import { ResortDomainConfig } from '../config/ResortDomainConfig';
+import { WineRetailDomainConfig } from '../config/WineRetailDomainConfig';
+
+// Load environment variables (provider keys)
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+const DOMAIN_CONFIGS: Record<string, DomainConfig> = {
+  insurance: InsuranceDomainConfig,
+  pension: PensionDomainConfig,
+  resort: ResortDomainConfig,
+  wine_retail: WineRetailDomainConfig
+};
+
+const USAGE = `Usage: npm run eval:providers -- [options]
+  --providers openai,claude   Providers to compare (default: every initialized provider)
+  --domains resort,pension    Datasets to run (default: all in --datasets)
+  --company <id>              Evaluate with this company's prompts, credentials and brand voice
+  --limit <n>                 Cases per dataset
+  --datasets <dir>            Dataset directory (default: fixtures/eval)
+  --out <dir>                 Report directory (default: data/eval)`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) {
+      throw new Error(`Unexpected argument "${argv[i]}"`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+    i++;
+  }
+  return args;
+}
+
+/**
+ * Score each provider's answers to the labelled datasets and write a JSON + HTML report
+ */
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const datasetDir = args.datasets || path.join(__dirname, '../../fixtures/eval');
+  const domains = args.domains?.split(',');
+
+  const suites = fs.readdirSync(datasetDir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => ProviderEvaluator.loadDataset(path.join(datasetDir, file)))
+    .filter(dataset => !domains || domains.includes(dataset.domain))
+    .map(dataset => {
+      const domainConfig = DOMAIN_CONFIGS[dataset.domain];
+      if (!domainConfig) {
+        throw new Error(`No domain config for dataset domain "${dataset.domain}"`);
+      }
+      return { dataset, domainConfig };
+    });
+
+  if (suites.length === 0) {
+    throw new Error(`No datasets found in ${datasetDir}${domains ? ` for ${domains.join(', ')}` : ''}`);
+  }
+
+  const llmManager = LLMManager.getInstance();
+  await llmManager.initialize();
+
+  console.log(`🧪 Evaluating providers on ${suites.length} datasets...\n`);
+  const evaluator = new ProviderEvaluator({
+    providers: args.providers?.split(','),
+    companyId: args.company,
+    limit: args.limit ? parseInt(args.limit) : undefined
+  });
+  const report = await evaluator.run(suites);
+
+  console.log('\n📊 Results');
+  for (const summary of report.summaries) {
+    console.log(
+      `   ${summary.domain.padEnd(12)} ${summary.provider.padEnd(12)} overall ${summary.scores.overall.toFixed(2)} ` +
+      `(grounding ${summary.scores.grounding.toFixed(2)}, facts ${summary.scores.facts.toFixed(2)}, ` +
+      `tone ${summary.scores.tone.toFixed(2)}, length ${summary.scores.length.toFixed(2)}) ` +
+      `${summary.avgLatencyMs}ms $${summary.totalCost.toFixed(4)}${summary.errors ? ` ❌ ${summary.errors} errors` : ''}`
+    );
+  }
+
+  console.log('\n🏆 Recommended');
+  for (const rec of report.recommendations) {
+    console.log(`   ${rec.domain}${rec.companyId ? ` (${rec.companyId})` : ''}: ${rec.provider} (${rec.overall.toFixed(2)})`);
+  }
+
+  const files = ProviderEvaluator.writeReport(report, args.out || path.join(process.cwd(), 'data', 'eval'));
+  console.log(`\n📝 Report written to ${files.json} and ${files.html}`);
+
+  await llmManager.shutdown();
+}
+
+if (require.main === module) {
+  if (process.argv.includes('--help')) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('💥 Evaluation failed:', (error as Error).message);
+      console.error(USAGE);
+      process.exit(1);
+    });
+}
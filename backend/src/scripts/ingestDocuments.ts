@@ -0,0 +1,155 @@
+// File: backend/src/scripts/ingestDocuments.ts
+
+import dotenv from 'dotenv';
+import * as fs from 'fs';
+import path from 'path';
+import { LLMManager } from '../core/llm/managers/LLMManager';
+import { VectorStoreManager } from '../core/vector/managers/VectorStoreManager';
+import { DocumentIngestionService } from '../core/ingestion/DocumentIngestionService';
+import { detectFormat } from '../core/ingestion/parsers';
+
+// Load environment variables (provider keys, vector store settings)
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+const USAGE = `Usage: npm run ingest -- --company <id> --type <type> --category <category> [options] <file or directory>...
+  --company <id>              Company the documents belong to ("generic" for shared knowledge)
+  --type <type>               Document type, e.g. product, claims, regulatory, process
+  --category <category>       Category, e.g. auto_insurance, room_rates
+  --subcategory <name>        Optional subcategory
+  --priority high|medium|low  Retrieval priority (default: medium)
+  --version <version>         Version recorded on every chunk (default: 1.0)
+  --language <code>           Language of the documents, e.g. en
+  --tags a,b                  Tags recorded on every chunk
+  --title <title>             Title used in breadcrumbs (single file only; default: the filename)
+  --max-tokens <n>            Chunk size in tokens (default: 400)
+  --overlap <n>               Tokens repeated between neighbouring chunks (default: 60)
+
+Directories are searched for PDF, Markdown, CSV, HTML and text files.`;
+
+function parseArgs(argv: string[]): { args: Record<string, string>; files: string[] } {
+  const args: Record<string, string> = {};
+  const files: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    } else {
+      files.push(argv[i]);
+    }
+  }
+  return { args, files };
+}
+
+// Files as given, directories expanded to the supported files inside them
+function collectFiles(inputs: string[]): string[] {
+  return inputs.flatMap(input => {
+    if (!fs.existsSync(input)) {
+      throw new Error(`No such file or directory: ${input}`);
+    }
+    if (!fs.statSync(input).isDirectory()) {
+      return [input];
+    }
+    return fs.readdirSync(input)
+      .map(name => path.join(input, name))
+      .filter(file => fs.statSync(file).isFile() && isSupported(file))
+      .sort();
+  });
+}
+
+function isSupported(file: string): boolean {
+  try {
+    detectFormat(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse, chunk and upsert documents into the configured vector store
+ */
+async function main(): Promise<void> {
+  const { args, files: inputs } = parseArgs(process.argv.slice(2));
+
+  for (const required of ['company', 'type', 'category']) {
+    if (!args[required]) {
+      throw new Error(`--${required} is required`);
+    }
+  }
+  if (args.priority && !['high', 'medium', 'low'].includes(args.priority)) {
+    throw new Error('--priority must be high, medium or low');
+  }
+
+  const files = collectFiles(inputs);
+  if (files.length === 0) {
+    throw new Error('No documents to ingest');
+  }
+  if (args.title && files.length > 1) {
+    throw new Error('--title can only be used with a single file');
+  }
+
+  await LLMManager.getInstance().initialize();
+  await VectorStoreManager.getInstance().initialize();
+
+  console.log(`📚 Ingesting ${files.length} document(s) for ${args.company}...\n`);
+  const service = DocumentIngestionService.getInstance();
+  let failures = 0;
+
+  for (const file of files) {
+    try {
+      const result = await service.ingest({
+        data: fs.readFileSync(file),
+        filename: path.basename(file),
+        title: args.title,
+        metadata: {
+          companyId: args.company,
+          type: args.type,
+          category: args.category,
+          subcategory: args.subcategory,
+          priority: args.priority as 'high' | 'medium' | 'low' | undefined,
+          version: args.version,
+          language: args.language,
+          tags: args.tags?.split(',').map(tag => tag.trim()).filter(Boolean)
+        },
+        chunking: {
+          maxTokens: args['max-tokens'] ? parseInt(args['max-tokens']) : undefined,
+          overlapTokens: args.overlap ? parseInt(args.overlap) : undefined
+        }
+      });
+
+      console.log(
+        `   ✅ ${file}: ${result.chunks} chunks, ~${result.tokens} tokens (${result.format}, v${result.version})` +
+        `${result.removedChunks ? `, ${result.removedChunks} stale chunks removed` : ''}`
+      );
+    } catch (error) {
+      failures++;
+      console.error(`   ❌ ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  const stats = await VectorStoreManager.getInstance().getActiveProvider().getStats();
+  console.log(`\n📊 Vector store now holds ${stats.documentCount} documents`);
+
+  // process.exit() follows - flush snapshots and new embeddings first
+  await VectorStoreManager.getInstance().shutdown();
+  await LLMManager.getInstance().shutdown();
+
+  if (failures > 0) {
+    throw new Error(`${failures} of ${files.length} documents failed`);
+  }
+}
+
+if (require.main === module) {
+  if (process.argv.includes('--help')) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  main()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('💥 Ingestion failed:', (error as Error).message);
+      console.error(USAGE);
+      process.exit(1);
+    });
+}
@@ -2,6 +2,7 @@
 
 import { VectorStoreManager } from '../core/vector/managers/VectorStoreManager';
 import { VectorDocument } from '../core/vector/interfaces/VectorStoreProvider';
+import { EmbeddingCache } from '../core/llm/managers/EmbeddingCache';
 import dotenv from 'dotenv';
 import path from 'path';
 
@@ -34,20 +35,21 @@ export class KnowledgeBasePopulator {
       
       console.log(`📝 Adding ${documents.length} documents to Pinecone...`);
       
-      // Add documents in smaller batches for better performance
-      const batchSize = 20;
-      for (let i = 0; i < documents.length; i += batchSize) {
-        const batch = documents.slice(i, i + batchSize);
-        await vectorStore.addDocuments(batch);
-        console.log(`✅ Batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(documents.length/batchSize)} completed`);
-      }
+      // The provider batches embedding requests; documents embedded on a previous run come from the cache
+      await vectorStore.addDocuments(documents);
       
       // Verify population
       const stats = await vectorStore.getStats();
       console.log(`✅ Knowledge base populated! ${stats.documentCount} documents added.`);
+
+      const cacheStats = this.vectorManager.getEmbeddingCacheStats();
+      console.log(`🧮 Embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses`);
       
       // Test search functionality
       await this.testKnowledgeSearch(vectorStore);
+
+      // process.exit() follows - make sure new embeddings reach the cache file first
+      await EmbeddingCache.getInstance().flush();
       
     } catch (error) {
       console.error('❌ Failed to populate knowledge base:', error);
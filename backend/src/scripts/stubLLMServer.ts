@@ -0,0 +1,44 @@
+// File: backend/src/scripts/stubLLMServer.ts
+
+import * as fs from 'fs';
+import { StubLLMServer, StubRule } from '../core/llm/testing/StubLLMServer';
+
+/**
+ * Run the stub LLM server on its own, e.g. to point a local backend at it:
+ *   OPENAI_BASE_URL=http://127.0.0.1:8089/v1 ANTHROPIC_BASE_URL=http://127.0.0.1:8089 LOCAL_LLM_ENDPOINT=http://127.0.0.1:8089
+ *
+ * Usage: npm run llm:stub [rules.json]   (a JSON array of StubRule)
+ */
+async function main(): Promise<void> {
+  const server = new StubLLMServer({
+    port: parseInt(process.env.STUB_LLM_PORT || '8089'),
+    apiKey: process.env.STUB_LLM_API_KEY,
+    latencyMs: parseInt(process.env.STUB_LLM_LATENCY_MS || '0')
+  });
+
+  const rulesFile = process.argv[2];
+  if (rulesFile) {
+    const rules: StubRule[] = JSON.parse(fs.readFileSync(rulesFile, 'utf-8'));
+    // on() puts each rule first - add in reverse so the file order is the match order
+    [...rules].reverse().forEach(rule => server.on(rule));
+    console.log(`📜 Loaded ${rules.length} stub rules from ${rulesFile}`);
+  }
+
+  const url = await server.start();
+  console.log(`📡 Stub LLM server listening on ${url}`);
+  console.log(`   OpenAI / DeepSeek: ${server.urls.openai}`);
+  console.log(`   Anthropic:         ${server.urls.anthropic}`);
+  console.log(`   Ollama:            ${server.urls.ollama}`);
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ Stub LLM server failed to start:', error);
+  process.exit(1);
+});
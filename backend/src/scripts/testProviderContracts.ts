@@ -0,0 +1,356 @@
+// File: backend/src/scripts/testProviderContracts.ts
+
+import * as path from 'path';
+import { LLMProvider, LLMConfig, LLMToolDefinition, LLMModelNotFoundError } from '../core/llm/interfaces/LLMProvider';
+import { OpenAIProvider } from '../core/llm/providers/OpenAIProvider';
+import { ClaudeProvider } from '../core/llm/providers/ClaudeProvider';
+import { DeepSeekProvider } from '../core/llm/providers/DeepSeekProvider';
+import { LocalLlamaProvider } from '../core/llm/providers/LocalLlamaProvider';
+import { MockLLMProvider } from '../core/llm/providers/MockLLMProvider';
+import { StubLLMServer, StubApi, StubRule } from '../core/llm/testing/StubLLMServer';
+
+process.env.LLM_MOCK_FIXTURES = process.env.LLM_MOCK_FIXTURES || path.join(__dirname, '../../fixtures/llm');
+
+const STUB_API_KEY = 'stub-contract-key';
+
+// 1x1 transparent PNG
+const TINY_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const QUOTE_TOOL: LLMToolDefinition = {
+  name: 'get_quote',
+  description: 'Get an insurance premium quote',
+  parameters: {
+    type: 'object',
+    properties: { product: { type: 'string' } },
+    required: ['product']
+  }
+};
+
+interface ContractTarget {
+  name: string;
+  create: () => LLMProvider;
+  config: (server: StubLLMServer) => LLMConfig;
+  api?: StubApi;  // Unset = does not talk HTTP (no injected errors or latency)
+}
+
+const TARGETS: ContractTarget[] = [
+  {
+    name: 'openai',
+    api: 'openai',
+    create: () => new OpenAIProvider(),
+    config: server => ({ provider: 'openai', model: 'gpt-3.5-turbo', apiKey: STUB_API_KEY, baseURL: server.urls.openai, retries: 0 })
+  },
+  {
+    name: 'deepseek',
+    api: 'openai',
+    create: () => new DeepSeekProvider(),
+    config: server => ({ provider: 'deepseek', model: 'deepseek-chat', apiKey: STUB_API_KEY, baseURL: server.urls.openai })
+  },
+  {
+    name: 'claude',
+    api: 'anthropic',
+    create: () => new ClaudeProvider(),
+    config: server => ({ provider: 'claude', model: 'claude-3-haiku-20240307', apiKey: STUB_API_KEY, baseURL: server.urls.anthropic })
+  },
+  {
+    name: 'local_llama',
+    api: 'ollama',
+    create: () => new LocalLlamaProvider(),
+    config: server => ({ provider: 'local_llama', model: 'llama2', baseURL: server.urls.ollama })
+  },
+  {
+    name: 'mock',
+    create: () => new MockLLMProvider(),
+    config: () => ({ provider: 'mock', model: 'mock-model' })
+  }
+];
+
+/**
+ * Runs every LLMProvider implementation through the same behavioural contract against
+ * the local stub server - no API keys or network needed
+ */
+class ProviderContractTester {
+  private server = new StubLLMServer({ apiKey: STUB_API_KEY });
+  private failures: string[] = [];
+
+  async runAllTests(): Promise<void> {
+    console.log('🧪 Starting LLM provider contract tests...\n');
+    await this.server.start();
+    console.log(`📡 Stub LLM server listening on ${this.server.url}\n`);
+
+    try {
+      for (const target of TARGETS) {
+        await this.testProvider(target);
+      }
+      await this.testLocalModelLifecycle();
+    } finally {
+      await this.server.stop();
+    }
+
+    if (this.failures.length > 0) {
+      console.error(`\n❌ ${this.failures.length} contract check(s) failed:`);
+      this.failures.forEach(failure => console.error(`   - ${failure}`));
+      throw new Error('Provider contract tests failed');
+    }
+
+    console.log('\n✅ All provider contract tests passed!');
+  }
+
+  private async testProvider(target: ContractTarget): Promise<void> {
+    console.log(`🔌 ${target.name}`);
+    this.server.reset();
+
+    const provider = target.create();
+    const ok = await this.check(target, 'initializes', async () => {
+      await provider.initialize(target.config(this.server));
+      this.assert(provider.isInitialized, 'isInitialized should be true');
+    });
+    if (!ok) {
+      return;
+    }
+
+    const script = (rule: StubRule) => {
+      if (target.api) {
+        this.server.on({ ...rule, api: target.api });
+      } else {
+        (provider as MockLLMProvider).addFixtures([{ name: rule.name, match: { user: rule.match }, response: rule.response! }]);
+      }
+    };
+
+    await this.check(target, 'returns the scripted completion with usage', async () => {
+      script({ name: 'completion', match: 'contract completion', response: { content: `Contract reply from ${target.name}` } });
+
+      const response = await provider.generateCompletion([
+        { role: 'system', content: 'You are a contract test.' },
+        { role: 'user', content: 'contract completion please' }
+      ]);
+
+      this.assert(response.content === `Contract reply from ${target.name}`, `unexpected content "${response.content}"`);
+      this.assert(typeof response.model === 'string' && response.model.length > 0, 'model should be reported');
+      this.assert(!!response.usage && response.usage.totalTokens > 0, 'usage should be reported');
+      this.assert(
+        response.usage!.totalTokens === response.usage!.promptTokens + response.usage!.completionTokens,
+        'totalTokens should equal prompt + completion tokens'
+      );
+    });
+
+    await this.check(target, 'streams deltas that join to the full reply, then one done chunk', async () => {
+      script({ name: 'stream', match: 'contract stream', response: { content: 'Streaming works one word at a time.' } });
+
+      const chunks = [];
+      for await (const chunk of provider.streamCompletion([{ role: 'user', content: 'contract stream please' }])) {
+        chunks.push(chunk);
+      }
+
+      const last = chunks[chunks.length - 1];
+      this.assert(chunks.length > 2, 'reply should arrive in several chunks');
+      this.assert(chunks.filter(chunk => chunk.done).length === 1 && last.done, 'only the final chunk should be done');
+      this.assert(chunks.map(chunk => chunk.content).join('') === 'Streaming works one word at a time.', 'chunks should join to the reply');
+      this.assert(!!last.usage && last.usage.totalTokens > 0, 'final chunk should carry usage');
+    });
+
+    await this.check(target, 'returns tool calls with parsed arguments', async () => {
+      script({ name: 'tools', match: 'contract tools', response: { toolCalls: [{ name: 'get_quote', arguments: { product: 'auto' } }] } });
+
+      const response = await provider.generateCompletion(
+        [{ role: 'user', content: 'contract tools: quote my car' }],
+        { tools: [QUOTE_TOOL], toolChoice: 'auto' }
+      );
+
+      this.assert(response.toolCalls?.length === 1, 'one tool call expected');
+      this.assert(response.toolCalls![0].name === 'get_quote', 'tool name should round-trip');
+      this.assert(response.toolCalls![0].arguments.product === 'auto', 'arguments should be parsed into an object');
+      this.assert(typeof response.toolCalls![0].id === 'string', 'tool call should have an id');
+    });
+
+    await this.check(target, 'returns parseable JSON in JSON mode', async () => {
+      script({ name: 'json', match: 'contract json', response: { json: { intent: 'quote', confidence: 0.9 } } });
+
+      const response = await provider.generateCompletion(
+        [{ role: 'user', content: 'contract json please' }],
+        { responseFormat: 'json' }
+      );
+
+      this.assert(JSON.parse(response.content).intent === 'quote', `content should be the JSON object, got "${response.content}"`);
+    });
+
+    if (target.api) {
+      await this.check(target, 'sends image parts in the API\'s format', async () => {
+        script({ name: 'vision', match: 'contract vision', response: { content: 'A dented rear bumper.' } });
+
+        const image = { mimeType: 'image/png', data: TINY_PNG };
+        const response = await provider.generateCompletion([
+          { role: 'user', content: 'contract vision: what is in this photo?', images: [image] }
+        ]);
+        this.assert(response.content === 'A dented rear bumper.', 'image requests should still match on their text');
+
+        const body = this.server.getRequests(target.api).pop()!.body;
+        const sent = target.api === 'ollama'
+          ? body.images?.[0] === TINY_PNG
+          : target.api === 'anthropic'
+            ? body.messages[0].content.some((block: any) => block.type === 'image' && block.source.data === TINY_PNG && block.source.media_type === 'image/png')
+            : body.messages[0].content.some((part: any) => part.type === 'image_url' && part.image_url.url === `data:image/png;base64,${TINY_PNG}`);
+        this.assert(sent, 'the image should be in the request body');
+      });
+    }
+
+    await this.check(target, 'embeds single texts and batches consistently', async () => {
+      const texts = ['motor insurance', 'health cover', 'motor insurance'];
+
+      if (!provider.supportsEmbeddings()) {
+        await this.expectRejection(provider.generateEmbedding(texts[0]), 'generateEmbedding');
+        await this.expectRejection(provider.generateEmbeddings(texts), 'generateEmbeddings');
+        return;
+      }
+
+      const single = await provider.generateEmbedding(texts[0]);
+      const batch = await provider.generateEmbeddings(texts);
+
+      this.assert(single.embedding.length > 0, 'embedding should not be empty');
+      this.assert(batch.embeddings.length === texts.length, 'one embedding per input');
+      this.assert(
+        batch.embeddings.every(embedding => embedding.length === single.embedding.length),
+        'all embeddings should have the same dimensions'
+      );
+      this.assert(
+        batch.embeddings[0].every((value, i) => value === single.embedding[i]) &&
+        batch.embeddings[2].every((value, i) => value === batch.embeddings[0][i]),
+        'batch results should be in input order'
+      );
+    });
+
+    if (target.api) {
+      await this.check(target, 'rejects when the API returns an error', async () => {
+        this.server.on({ name: 'error', api: target.api, match: 'contract error', error: { status: 503, message: 'Overloaded' } });
+        const error = await this.expectRejection(
+          provider.generateCompletion([{ role: 'user', content: 'contract error' }]),
+          'generateCompletion'
+        );
+        this.assert(error.message.includes('503'), `error should carry the status code, got "${error.message}"`);
+      });
+
+      await this.check(target, 'rejects when the stream request fails', async () => {
+        this.server.on({ name: 'stream-error', api: target.api, match: 'contract stream error', error: { status: 500 } });
+        await this.expectRejection((async () => {
+          for await (const _chunk of provider.streamCompletion([{ role: 'user', content: 'contract stream error' }])) {
+            // Drain
+          }
+        })(), 'streamCompletion');
+      });
+
+      await this.check(target, 'honours the per-request timeout', async () => {
+        this.server.on({ name: 'slow', api: target.api, match: 'contract slow', latencyMs: 1000 });
+        const started = Date.now();
+        await this.expectRejection(
+          provider.generateCompletion([{ role: 'user', content: 'contract slow' }], { timeout: 200 }),
+          'generateCompletion'
+        );
+        this.assert(Date.now() - started < 900, 'should give up before the stub answers');
+      });
+
+      await this.check(target, 'rejects when the connection drops', async () => {
+        this.server.on({ name: 'drop', api: target.api, match: 'contract drop', dropConnection: true });
+        await this.expectRejection(
+          provider.generateCompletion([{ role: 'user', content: 'contract drop' }]),
+          'generateCompletion'
+        );
+      });
+
+      if (target.api !== 'ollama') {
+        await this.check(target, 'fails to initialize with a wrong API key', async () => {
+          const unauthorized = target.create();
+          await this.expectRejection(
+            unauthorized.initialize({ ...target.config(this.server), apiKey: 'wrong-key' }),
+            'initialize'
+          );
+        });
+      }
+    }
+
+    await this.check(target, 'reports health and capabilities', async () => {
+      const health = await provider.getHealthStatus();
+      const capabilities = provider.getCapabilities();
+
+      this.assert(['healthy', 'degraded', 'unhealthy'].includes(health.status), 'health status should be known');
+      this.assert(capabilities.supportsEmbeddings === provider.supportsEmbeddings(), 'capabilities should agree with supportsEmbeddings()');
+      this.assert(capabilities.maxContextLength > 0, 'maxContextLength should be positive');
+      this.assert(provider.estimateCost(1000, 500) >= 0, 'estimateCost should not be negative');
+    });
+
+    await provider.disconnect();
+    this.assert(!provider.isInitialized, `${target.name} should be uninitialized after disconnect`);
+  }
+
+  private async testLocalModelLifecycle(): Promise<void> {
+    console.log('🦙 local_llama model lifecycle');
+    const target = TARGETS.find(t => t.name === 'local_llama')!;
+    const config = { ...target.config(this.server), model: 'contract-missing:7b' };
+    const admin = new LocalLlamaProvider(config.baseURL);
+
+    await this.check(target, 'refuses to initialize with a model that is not installed', async () => {
+      const error = await this.expectRejection(new LocalLlamaProvider().initialize(config), 'initialize');
+      this.assert(error instanceof LLMModelNotFoundError, `expected LLMModelNotFoundError, got "${error.message}"`);
+      this.assert((error as LLMModelNotFoundError).installedModels.length > 0, 'error should list the installed models');
+    });
+
+    await this.check(target, 'pulls the model with progress, then initializes', async () => {
+      const progress: number[] = [];
+      await admin.pullModel(config.model, update => {
+        if (update.percent !== undefined) {
+          progress.push(update.percent);
+        }
+      });
+
+      this.assert(progress.length > 0 && progress[progress.length - 1] === 100, 'progress should reach 100%');
+      this.assert((await admin.listModels()).some(m => LocalLlamaProvider.isSameModel(m.name, config.model)), 'model should be listed');
+
+      const provider = new LocalLlamaProvider();
+      await provider.initialize(config);
+      this.assert(provider.isInitialized, 'isInitialized should be true');
+      await provider.disconnect();
+    });
+
+    await this.check(target, 'warms a model and rejects unknown ones', async () => {
+      const warm = await admin.warmModel(config.model);
+      this.assert(warm.model === config.model && warm.loadDurationMs >= 0, 'warm-up should report the load time');
+      const error = await this.expectRejection(admin.warmModel('contract-unknown'), 'warmModel');
+      this.assert(error instanceof LLMModelNotFoundError, `expected LLMModelNotFoundError, got "${error.message}"`);
+    });
+  }
+
+  private async check(target: ContractTarget, description: string, fn: () => Promise<void>): Promise<boolean> {
+    try {
+      await fn();
+      console.log(`   ✅ ${description}`);
+      return true;
+    } catch (error) {
+      console.log(`   ❌ ${description}: ${(error as Error).message}`);
+      this.failures.push(`${target.name}: ${description} - ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  private async expectRejection(promise: Promise<unknown>, operation: string): Promise<Error> {
+    try {
+      await promise;
+    } catch (error) {
+      return error as Error;
+    }
+    throw new Error(`${operation} should have been rejected`);
+  }
+
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(`Assertion failed: ${message}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  new ProviderContractTester()
+    .runAllTests()
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
+
+export default ProviderContractTester;
@@ -0,0 +1,344 @@
+// File: backend/src/scripts/testVectorStoreContracts.ts
+
+import { VectorStoreProvider, VectorStoreConfig, VectorDocument } from '../core/vector/interfaces/VectorStoreProvider';
+import { InMemoryProvider } from '../core/vector/providers/InMemoryProvider';
+import { LocalVectorStoreProvider } from '../core/vector/providers/LocalVectorStoreProvider';
+import { QdrantProvider } from '../core/vector/providers/QdrantProvider';
+import { PgVectorProvider } from '../core/vector/providers/PgVectorProvider';
+import { HybridSearchProvider } from '../core/vector/providers/HybridSearchProvider';
+import { StubQdrantServer } from '../core/vector/testing/StubQdrantServer';
+import { LLMManager } from '../core/llm/managers/LLMManager';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Embeddings for searchByText come from the mock provider, sized like the test vectors
+const DIMENSIONS = 32;
+process.env.LLM_MOCK = 'true';
+process.env.LLM_MOCK_EMBEDDING_DIMENSIONS = String(DIMENSIONS);
+process.env.EMBEDDING_CACHE_BACKEND = 'memory';
+process.env.USAGE_LEDGER_PERSIST = 'false';
+
+const STUB_API_KEY = 'stub-qdrant-key';
+
+interface ContractTarget {
+  name: string;
+  create: () => VectorStoreProvider;
+  config: () => VectorStoreConfig;
+}
+
+// A unit vector along one axis, nudged towards a second one - so nearest neighbours are known
+function axis(index: number, nudge?: number): number[] {
+  const vector = new Array(DIMENSIONS).fill(0);
+  vector[index] = 1;
+  if (nudge !== undefined) {
+    vector[nudge] = 0.3;
+  }
+  return vector;
+}
+
+const DOCUMENTS: VectorDocument[] = [
+  { id: 'acme-motor', content: 'Comprehensive motor cover for private cars', embedding: axis(0), metadata: { companyId: 'acme', type: 'motor', year: 2024, tags: ['car', 'popular'] } },
+  { id: 'acme-motor-tp', content: 'Third-party motor cover', embedding: axis(0, 1), metadata: { companyId: 'acme', type: 'motor', year: 2021, tags: ['car'] } },
+  { id: 'acme-home', content: 'Home insurance against fire and flood', embedding: axis(2), metadata: { companyId: 'acme', type: 'home', year: 2019 } },
+  { id: 'zenith-motor', content: 'Motor cover for commercial vehicles', embedding: axis(0, 3), metadata: { companyId: 'zenith', type: 'motor', year: 2023 } },
+  { id: 'shared-faq', content: 'How to file a claim', embedding: axis(4), metadata: { type: 'faq' } }
+];
+
+/**
+ * Runs every VectorStoreProvider implementation through the same behavioural contract.
+ * Qdrant runs against an in-process stand-in unless QDRANT_TEST_URL points at a real server
+ * (e.g. docker run -p 6333:6333 qdrant/qdrant); pgvector only runs when PGVECTOR_TEST_URL is set.
+ * The hybrid (BM25 + vector) wrapper runs the same contract over the memory and Qdrant stores.
+ */
+class VectorStoreContractTester {
+  private qdrant = new StubQdrantServer({ apiKey: STUB_API_KEY });
+  private tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-contracts-'));
+  private failures: string[] = [];
+
+  async runAllTests(): Promise<void> {
+    console.log('🧪 Starting vector store contract tests...\n');
+    await LLMManager.getInstance().initialize();
+
+    const qdrantUrl = process.env.QDRANT_TEST_URL || await this.qdrant.start();
+    console.log(`📡 Qdrant: ${process.env.QDRANT_TEST_URL ? qdrantUrl : `stub server on ${qdrantUrl}`}\n`);
+
+    const targets: ContractTarget[] = [
+      {
+        name: 'memory',
+        create: () => new InMemoryProvider(),
+        config: () => ({ provider: 'memory', dimensions: DIMENSIONS })
+      },
+      {
+        name: 'local (flat)',
+        create: () => new LocalVectorStoreProvider(),
+        config: () => ({ provider: 'local', dimensions: DIMENSIONS, indexType: 'flat' })
+      },
+      {
+        name: 'local (hnsw)',
+        create: () => new LocalVectorStoreProvider(),
+        config: () => ({ provider: 'local', dimensions: DIMENSIONS, indexType: 'hnsw' })
+      },
+      {
+        name: 'qdrant',
+        create: () => new QdrantProvider(),
+        config: () => ({
+          provider: 'qdrant',
+          host: qdrantUrl,
+          apiKey: process.env.QDRANT_TEST_URL ? process.env.QDRANT_TEST_API_KEY : STUB_API_KEY,
+          indexName: 'contract_test',
+          dimensions: DIMENSIONS
+        })
+      }
+    ];
+
+    // The keyword index wrapper must keep the contract of the store it wraps
+    const qdrantTarget = targets[targets.length - 1];
+    targets.push(
+      {
+        name: 'hybrid (memory)',
+        create: () => new HybridSearchProvider(new InMemoryProvider()),
+        config: () => ({ provider: 'memory', dimensions: DIMENSIONS })
+      },
+      {
+        name: 'hybrid (qdrant)',
+        create: () => new HybridSearchProvider(new QdrantProvider(), { snapshotFile: path.join(this.tmpDir, 'keywords-qdrant.json') }),
+        config: qdrantTarget.config
+      }
+    );
+
+    if (process.env.PGVECTOR_TEST_URL) {
+      targets.push({
+        name: 'postgresql',
+        create: () => new PgVectorProvider(),
+        config: () => ({ provider: 'postgresql', connectionString: process.env.PGVECTOR_TEST_URL, indexName: 'contract_test', dimensions: DIMENSIONS })
+      });
+    }
+
+    try {
+      for (const target of targets) {
+        await this.testProvider(target);
+      }
+      if (!process.env.QDRANT_TEST_URL) {
+        await this.testQdrantSpecifics(qdrantTarget);
+      }
+      await this.testHybridSpecifics(qdrantTarget);
+    } finally {
+      await this.qdrant.stop();
+      fs.rmSync(this.tmpDir, { recursive: true, force: true });
+      await LLMManager.getInstance().shutdown();
+    }
+
+    if (this.failures.length > 0) {
+      console.error(`\n❌ ${this.failures.length} contract check(s) failed:`);
+      this.failures.forEach(failure => console.error(`   - ${failure}`));
+      throw new Error('Vector store contract tests failed');
+    }
+
+    console.log('\n✅ All vector store contract tests passed!');
+  }
+
+  private async testProvider(target: ContractTarget): Promise<void> {
+    console.log(`🗄️  ${target.name}`);
+
+    const store = target.create();
+    const ok = await this.check(target, 'initializes', async () => {
+      await store.initialize(target.config());
+      await store.clearCollection();
+      this.assert(store.isInitialized, 'isInitialized should be true');
+    });
+    if (!ok) {
+      return;
+    }
+
+    await this.check(target, 'adds documents in a batch and reads them back', async () => {
+      await store.addDocuments(DOCUMENTS);
+
+      const document = await store.getDocument('acme-motor');
+      this.assert(document?.content === DOCUMENTS[0].content, 'content should round-trip');
+      this.assert(document?.metadata.year === 2024 && document.metadata.tags.includes('car'), 'metadata should round-trip');
+      this.assert(await store.documentExists('shared-faq'), 'documentExists should find a document');
+      this.assert(!(await store.documentExists('missing')), 'documentExists should not find unknown ids');
+      this.assert(await store.getDocument('missing') === null, 'getDocument should return null for unknown ids');
+    });
+
+    await this.check(target, 'ranks the nearest documents first', async () => {
+      const results = await store.similaritySearch(axis(0), 3);
+      this.assert(results.length === 3, `expected 3 results, got ${results.length}`);
+      this.assert(results[0].document.id === 'acme-motor', `expected acme-motor first, got ${results[0].document.id}`);
+      this.assert(results[0].score > results[1].score && results[1].score >= results[2].score, 'scores should descend');
+    });
+
+    await this.check(target, 'filters on plain values and operators', async () => {
+      const ids = async (filter: Record<string, any>) =>
+        (await store.similaritySearch(axis(0), 10, filter)).map(result => result.document.id).sort().join(',');
+
+      this.assert(await ids({ companyId: 'acme', type: 'motor' }) === 'acme-motor,acme-motor-tp', 'plain equality');
+      this.assert(await ids({ type: { $in: ['home', 'faq'] } }) === 'acme-home,shared-faq', '$in');
+      this.assert(await ids({ companyId: 'acme', type: { $ne: 'motor' } }) === 'acme-home', '$ne');
+      this.assert(await ids({ year: { $gte: 2021, $lt: 2024 } }) === 'acme-motor-tp,zenith-motor', 'range operators');
+      this.assert(await ids({ tags: 'popular' }) === 'acme-motor', 'list metadata should match any element');
+      this.assert(await ids({ companyId: 'nobody' }) === '', 'an unknown company should match nothing');
+    });
+
+    await this.check(target, 'updates metadata without losing the rest', async () => {
+      await store.updateDocument('acme-home', { metadata: { reviewed: true } });
+      const document = await store.getDocument('acme-home');
+      this.assert(document?.metadata.reviewed === true && document.metadata.type === 'home', 'metadata should be merged');
+      this.assert(document?.content === DOCUMENTS[2].content, 'content should be kept');
+    });
+
+    await this.check(target, 'updates content and re-embeds it', async () => {
+      await store.updateDocument('shared-faq', { content: 'Roadside assistance hotline numbers' });
+      const results = await store.searchByText('roadside assistance hotline', 1);
+      this.assert(results[0]?.document.id === 'shared-faq', `expected shared-faq, got ${results[0]?.document.id}`);
+      await this.expectRejection(store.updateDocument('missing', { content: 'x' }), 'updateDocument of an unknown id');
+    });
+
+    await this.check(target, 'deletes documents', async () => {
+      this.assert(await store.deleteDocument('acme-motor-tp'), 'first delete should return true');
+      this.assert(!(await store.deleteDocument('acme-motor-tp')), 'second delete should return false');
+      const results = await store.similaritySearch(axis(0, 1), 10);
+      this.assert(!results.some(result => result.document.id === 'acme-motor-tp'), 'deleted documents should not be found');
+    });
+
+    await this.check(target, 'reports stats and clears', async () => {
+      this.assert((await store.getStats()).documentCount === DOCUMENTS.length - 1, 'documentCount should follow adds and deletes');
+      await store.clearCollection();
+      this.assert((await store.getStats()).documentCount === 0, 'clearCollection should remove everything');
+      this.assert((await store.similaritySearch(axis(0), 3)).length === 0, 'search after clear should be empty');
+    });
+
+    await store.disconnect();
+    this.assert(!store.isInitialized, `${target.name} should be uninitialized after disconnect`);
+  }
+
+  private async testQdrantSpecifics(target: ContractTarget): Promise<void> {
+    console.log('🗄️  qdrant collections');
+    this.qdrant.reset();
+
+    const store = new QdrantProvider();
+    await store.initialize(target.config());
+
+    await this.check(target, 'keeps a collection per company', async () => {
+      await store.addDocuments(DOCUMENTS);
+      const collections = this.qdrant.getCollectionNames().sort().join(',');
+      this.assert(collections === 'contract_test,contract_test_acme,contract_test_zenith', `unexpected collections ${collections}`);
+      this.assert(this.qdrant.getPayloadIndexes('contract_test_acme').includes('metadata.companyId'), 'companyId should be indexed');
+
+      const searched = this.qdrant.getRequests().length;
+      await store.similaritySearch(axis(0), 3, { companyId: 'zenith' });
+      const searches = this.qdrant.getRequests().slice(searched).filter(request => request.path.endsWith('/points/search'));
+      this.assert(searches.length === 1 && searches[0].path.includes('contract_test_zenith'), 'a company search should only query its collection');
+    });
+
+    await this.check(target, 'moves a document when its company changes', async () => {
+      await store.updateDocument('shared-faq', { metadata: { companyId: 'zenith' } });
+      const zenith = (await store.similaritySearch(axis(4), 5, { companyId: 'zenith' })).map(result => result.document.id);
+      this.assert(zenith.includes('shared-faq'), 'document should be in the new company collection');
+      this.assert((await store.getStats()).documentCount === DOCUMENTS.length, 'no copy should stay behind');
+    });
+
+    await this.check(target, 'upserts in batches', async () => {
+      const many = Array.from({ length: 300 }, (_, i) => ({
+        id: `bulk-${i}`, content: `bulk ${i}`, embedding: axis(i % DIMENSIONS), metadata: { companyId: 'bulk' }
+      }));
+      const before = this.qdrant.getRequests().length;
+      await store.addDocuments(many);
+      const upserts = this.qdrant.getRequests().slice(before).filter(request => request.method === 'PUT' && request.path.endsWith('/points'));
+      this.assert(upserts.length === 2, `expected 2 upsert requests, got ${upserts.length}`);
+    });
+
+    await this.check(target, 'fails to initialize with a wrong API key', async () => {
+      await this.expectRejection(new QdrantProvider().initialize({ ...target.config(), apiKey: 'wrong-key' }), 'initialize');
+    });
+
+    await store.clearCollection();
+    await store.disconnect();
+  }
+
+  private async testHybridSpecifics(qdrantTarget: ContractTarget): Promise<void> {
+    console.log('🗄️  hybrid search');
+    const target: ContractTarget = { ...qdrantTarget, name: 'hybrid search' };
+    const snapshotFile = path.join(this.tmpDir, 'keywords-hybrid.json');
+
+    // Embeddings unrelated to the text, so only the keyword index can find the exact terms
+    const documents: VectorDocument[] = [
+      { id: 'pension-tier2', content: 'SSNIT Tier 2 occupational scheme contributions of 5%', embedding: axis(7), metadata: { companyId: 'acme', type: 'pension' } },
+      { id: 'pension-tier3', content: 'Voluntary Tier 3 provident fund', embedding: axis(8), metadata: { companyId: 'acme', type: 'pension' } },
+      { id: 'wine-rioja', content: 'Rioja Reserva 2015 from Tempranillo', embedding: axis(9), metadata: { companyId: 'zenith', type: 'wine' } },
+      ...DOCUMENTS
+    ];
+
+    const store = new HybridSearchProvider(new QdrantProvider(), { snapshotFile });
+    await store.initialize(target.config());
+    await store.clearCollection();
+    await store.addDocuments(documents);
+
+    await this.check(target, 'finds exact terms the embedding misses', async () => {
+      const results = await store.searchByText('SSNIT Tier 2', 3, { companyId: 'acme' });
+      this.assert(results[0]?.document.id === 'pension-tier2', `expected pension-tier2 first, got ${results.map(result => result.document.id)}`);
+      this.assert(results[0].keywordScore! > 0 && results[0].score > 0 && results[0].score <= 1, 'fused results should carry their keyword score');
+    });
+
+    await this.check(target, 'keeps keyword matches within the filtered company', async () => {
+      const results = await store.searchByText('Rioja 2015', 5, { companyId: 'acme' });
+      this.assert(!results.some(result => result.document.id === 'wine-rioja'), 'another company\'s document was returned');
+      const wine = await store.hybridSearch('Rioja 2015', 1, { companyId: 'zenith' }, { vectorWeight: 0 });
+      this.assert(wine[0]?.document.id === 'wine-rioja' && wine[0].vectorScore === undefined, 'keyword-only search should find the vintage');
+    });
+
+    await this.check(target, 'falls back to vector search when disabled', async () => {
+      const results = await store.hybridSearch('SSNIT Tier 2', 3, { companyId: 'acme' }, { enabled: false });
+      this.assert(results.every(result => result.keywordScore === undefined), 'no keyword scores expected');
+    });
+
+    await this.check(target, 'restores the keyword index of a remote store from its snapshot', async () => {
+      await store.deleteDocument('pension-tier3');
+      await store.disconnect();
+
+      const restarted = new HybridSearchProvider(new QdrantProvider(), { snapshotFile });
+      await restarted.initialize(target.config());
+      const hits = restarted.keywordSearch('Tier', 5, { companyId: 'acme' }).map(hit => hit.id);
+      this.assert(hits.join(',') === 'pension-tier2', `expected only pension-tier2, got ${hits}`);
+      await restarted.clearCollection();
+      await restarted.disconnect();
+    });
+  }
+
+  private async check(target: ContractTarget, description: string, fn: () => Promise<void>): Promise<boolean> {
+    try {
+      await fn();
+      console.log(`   ✅ ${description}`);
+      return true;
+    } catch (error) {
+      console.log(`   ❌ ${description}: ${(error as Error).message}`);
+      this.failures.push(`${target.name}: ${description} - ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  private async expectRejection(promise: Promise<unknown>, operation: string): Promise<Error> {
+    try {
+      await promise;
+    } catch (error) {
+      return error as Error;
+    }
+    throw new Error(`${operation} should have been rejected`);
+  }
+
+  private assert(condition: boolean, message: string): void {
+    if (!condition) {
+      throw new Error(`Assertion failed: ${message}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  new VectorStoreContractTester()
+    .runAllTests()
+    .then(() => process.exit(0))
+    .catch(() => process.exit(1));
+}
+
+export default VectorStoreContractTester;
@@ -1,12 +1,20 @@
 // File: backend/src/services/AIService.ts
 // Fixed version with proper context handling
 
+import Joi from 'joi';
 import { VectorStoreManager } from '../core/vector/managers/VectorStoreManager';
 import { VectorStoreProvider } from '../core/vector/interfaces/VectorStoreProvider';
 import { LLMManager } from '../core/llm/managers/LLMManager';
-import { LLMProvider } from '../core/llm/interfaces/LLMProvider';
+import { LLMProvider, LLMMessage, LLMImagePart } from '../core/llm/interfaces/LLMProvider';
+import { UsageTags } from '../core/llm/managers/UsageLedger';
+import { ContextWindowManager } from '../core/llm/managers/ContextWindowManager';
 import { SimpleCache } from '../core/cache/SimpleCache';
 import { CompanyManager } from '../core/companies/CompanyManager';
+import { PromptRegistry, PromptVersionRef, toVersionRefs } from '../core/prompts/PromptRegistry';
+import { MessageGuard, GuardSummary } from '../core/guard/MessageGuard';
+import { ShadowTrafficManager, ShadowCapture } from '../core/llm/managers/ShadowTrafficManager';
+import { ImageAnalyzer, ImageKind, UNREADABLE_PHOTO_NOTE } from '../core/vision/ImageAnalyzer';
+import { SourceCitation, checkCitations, formatSource, toSourceCitations } from '../core/citations/sourceCitations';
 import { CompanyConfig } from '../types/CompanyTypes';
 
 // FIXED: Simplified imports - only use UnifiedQueryContext
@@ -25,6 +33,25 @@ import {
   EnhancedRAGDocument
 } from '../types/unified-rag';
 
+// What the analysis call must return - validated by LLMManager.generateStructured, with defaults filled in
+const companyAnalysisSchema = Joi.object({
+  intent: Joi.string()
+    .valid('quote_request', 'information_seeking', 'support', 'comparison', 'complaint', 'greeting', 'unknown')
+    .required(),
+  insuranceType: Joi.string()
+    .valid('auto', 'health', 'life', 'business', 'property', 'travel', 'unknown')
+    .default('unknown'),
+  urgency: Joi.string().valid('low', 'medium', 'high').default('medium'),
+  leadScore: Joi.number().min(0).max(100).required(),
+  extractedInfo: Joi.object({
+    age: Joi.number().allow(null),
+    location: Joi.string().allow(null),
+    specificNeeds: Joi.array().items(Joi.string())
+  }).default({}),
+  nextActions: Joi.array().items(Joi.string()).default([]),
+  confidence: Joi.number().min(0).max(1).default(0.5)
+});
+
 export interface AIResponse {
   message: string;
   confidence: number;
@@ -38,6 +65,10 @@ export interface AIResponse {
   cost?: number;
   responseTime?: number;
   companyId?: string;
+  promptVersions?: PromptVersionRef[];  // Prompt templates (and versions) that produced the message
+  guard?: GuardSummary;  // Set when the message guard flagged the inbound message
+  image?: { kind: ImageKind; description: string; providerUsed: string };  // What a vision model saw in the attached photo
+  citations?: SourceCitation[];  // Knowledge the reply was generated from, and whether it cited each item
 }
 
 export class AIService {
@@ -47,6 +78,11 @@ export class AIService {
   private vectorManager: VectorStoreManager;
   private llmManager: LLMManager;
   private companyManager: CompanyManager;
+  private promptRegistry: PromptRegistry;
+  private contextManager: ContextWindowManager;
+  private messageGuard: MessageGuard;
+  private shadowTraffic: ShadowTrafficManager;
+  private imageAnalyzer: ImageAnalyzer;
   private conversationHistory: Map<string, any[]> = new Map();
   private customerProfiles: Map<string, CustomerProfile> = new Map();
   private currentState: string = 'initial_contact';
@@ -55,16 +91,18 @@ export class AIService {
   // Performance caches
   private responseCache: SimpleCache;
   private analysisCache: SimpleCache;
-  
-  // Concurrency control
-  private activeRequests: number = 0;
-  private maxConcurrentRequests: number = 5;
+
 
    constructor() {
     // Get manager instances
     this.vectorManager = VectorStoreManager.getInstance();
     this.llmManager = LLMManager.getInstance();
     this.companyManager = CompanyManager.getInstance();
+    this.promptRegistry = PromptRegistry.getInstance();
+    this.contextManager = ContextWindowManager.getInstance();
+    this.messageGuard = MessageGuard.getInstance();
+    this.shadowTraffic = ShadowTrafficManager.getInstance();
+    this.imageAnalyzer = ImageAnalyzer.getInstance();
     
     // Initialize caches
     this.responseCache = SimpleCache.getInstance(200, 300000); // 5 min cache
@@ -116,13 +154,6 @@ export class AIService {
     context: UnifiedQueryContext = {},
     companyId?: string  // Optional for backward compatibility
   ): Promise<AIResponse> {
-    // Concurrency control
-    if (this.activeRequests >= this.maxConcurrentRequests) {
-      console.log('⏳ Request queued due to high load');
-      await this.waitForSlot();
-    }
-    
-    this.activeRequests++;
     const startTime = Date.now();
     
     try {
@@ -136,6 +167,34 @@ export class AIService {
       
       console.log(`🤖 Processing message from ${userId} for company ${effectiveCompanyId}: "${message.substring(0, 50)}..."`);
 
+      // Photos are described first - everything after works from text, guard included
+      let image: AIResponse['image'];
+      if (context.images?.length) {
+        const described = await this.describeImages(message, context.images, userId, effectiveCompanyId, companyConfig, context.platform);
+        message = described.message;
+        image = described.image;
+      }
+
+      // Screen the message before any of it reaches a prompt
+      const verdict = await this.messageGuard.inspect(message, companyConfig, {
+        companyId: effectiveCompanyId,
+        userId,
+        platform: context.platform || 'api'
+      });
+      if (verdict.action === 'refuse') {
+        return {
+          message: verdict.refusalMessage!,
+          confidence: 1,
+          conversationStage: context.conversationStage,
+          responseTime: Date.now() - startTime,
+          companyId: effectiveCompanyId,
+          guard: this.messageGuard.summarize(verdict),
+          image
+        };
+      }
+      const guard = this.messageGuard.summarize(verdict);
+      message = verdict.message;
+
       // FIXED: Build unified context with company information and auto-enrichment
       const unifiedContext = ContextUtils.enrichContext({
         ...context,
@@ -160,15 +219,17 @@ export class AIService {
         return {
           ...cachedResponse,
           responseTime: Date.now() - startTime,
-          companyId: effectiveCompanyId
+          companyId: effectiveCompanyId,
+          guard,
+          image
         };
       }
 
-      // Company-specific LLM provider selection
-      await this.selectOptimalProviderForCompany(message, unifiedContext, companyConfig);
+      // Sampled requests also record what the primary provider did, to replay against the shadow provider
+      const shadow = this.shadowTraffic.sample(message, companyConfig);
 
       // 1. Analyze user intent with company context
-      const analysis = await this.analyzeUserIntentWithCompany(message, unifiedContext);
+      const analysis = await this.analyzeUserIntentWithCompany(message, unifiedContext, shadow);
       
       // 2. Query company-specific knowledge base
       const knowledgeResult = await this.queryCompanyKnowledgeBase(message, unifiedContext, analysis);
@@ -179,11 +240,17 @@ export class AIService {
         unifiedContext, 
         analysis, 
         knowledgeResult,
-        companyConfig
+        companyConfig,
+        shadow
       );
 
       // 4. Update conversation history with company context
-      this.updateConversationHistory(userId, message, response, effectiveCompanyId);
+      this.updateConversationHistory(unifiedContext, message, response, analysis);
+
+      // 5. Replay against the shadow provider in the background - the customer only gets the primary answer
+      if (shadow) {
+        this.shadowTraffic.mirror(shadow, companyConfig, this.getUsageTags(unifiedContext, 'shadow'));
+      }
 
       // Cache the response with company context
       this.responseCache.set(cacheKey, response, 300000);
@@ -191,7 +258,9 @@ export class AIService {
       return {
         ...response,
         responseTime: Date.now() - startTime,
-        companyId: effectiveCompanyId
+        companyId: effectiveCompanyId,
+        guard,
+        image
       };
 
     } catch (error) {
@@ -203,126 +272,99 @@ export class AIService {
         responseTime: Date.now() - startTime,
         companyId: companyId || 'default'
       };
-      
-    } finally {
-      this.activeRequests--;
     }
   }
 
-  // Company-specific LLM provider selection
-  private async selectOptimalProviderForCompany(
-  message: string, 
-  context: UnifiedQueryContext, 
-  companyConfig: CompanyConfig
-): Promise<void> {
-  try {
-    // FIX: Prefer reliable providers over Local Llama
-    let preferredProvider = 'openai'; // Default to OpenAI instead of Local Llama
-
-    // Use company's preferred LLM provider if specified
-    if (companyConfig.preferredLLMProvider) {
-      const provider = this.llmManager.getProvider(companyConfig.preferredLLMProvider);
-      if (provider) {
-        preferredProvider = companyConfig.preferredLLMProvider;
-        console.log(`🎯 Using company preferred LLM: ${preferredProvider}`);
-      }
-    } else {
-      // Intelligent selection based on company's priorities
-      const priority = companyConfig.llmPriority || 'quality';
-      
-      switch (priority) {
-        case 'speed':
-          preferredProvider = 'claude'; // OpenAI is fast and reliable
-          break;
-        case 'cost':
-          preferredProvider = 'claude'; // Claude is cost-effective
-          break;
-        case 'quality':
-        default:
-          preferredProvider = 'claude'; // OpenAI for quality
-          break;
-      }
-    }
-
-    // FIX: Verify the provider is available before setting it
-    const availableProviders = this.llmManager.getInitializedProviders();
-    if (!availableProviders.includes(preferredProvider)) {
-      console.warn(`⚠️ Preferred provider ${preferredProvider} not available, using openai`);
-      preferredProvider = 'openai';
-    }
+  /**
+   * Replace a photo message with its caption plus what the vision model saw, and pin the
+   * photo's key facts to the conversation. Without a vision provider the reply can still
+   * ask the customer to describe the photo.
+   */
+  private async describeImages(
+    caption: string,
+    images: LLMImagePart[],
+    userId: string,
+    companyId: string,
+    companyConfig: CompanyConfig,
+    platform?: UnifiedQueryContext['platform']
+  ): Promise<{ message: string; image?: AIResponse['image'] }> {
+    const context: UnifiedQueryContext = { userId, companyId, platform: platform || 'api' };
 
-    await this.llmManager.setActiveProvider(preferredProvider);
-    console.log(`🎯 Active LLM provider set to: ${preferredProvider}`);
-    
-  } catch (error) {
-    console.warn('⚠️ Provider selection failed, using openai:', error);
-    // Fallback to OpenAI (most reliable)
     try {
-      await this.llmManager.setActiveProvider('openai');
-    } catch (fallbackError) {
-      console.error('❌ Even OpenAI fallback failed:', fallbackError);
+      const description = await this.imageAnalyzer.describe(images, {
+        caption,
+        companyConfig,
+        usage: this.getUsageTags(context, 'vision')
+      });
+
+      this.contextManager.pinFacts(this.getConversationKey(context), {
+        photo: `${description.kind.replace(/_/g, ' ')}: ${description.description.substring(0, 200)}`,
+        ...description.details
+      });
+      console.log(`🖼️  Described ${images.length} image(s) for ${companyId} with ${description.providerUsed}: ${description.kind}`);
+
+      return {
+        message: [caption.trim(), this.imageAnalyzer.toContextText(description)].filter(Boolean).join('\n\n'),
+        image: { kind: description.kind, description: description.description, providerUsed: description.providerUsed }
+      };
+    } catch (error) {
+      console.warn('⚠️  Image description failed, continuing with the caption only:', (error as Error).message);
+      return {
+        message: [caption.trim(), UNREADABLE_PHOTO_NOTE].filter(Boolean).join('\n\n')
+      };
     }
   }
-}
 
   // Company-specific intent analysis
   private async analyzeUserIntentWithCompany(
   message: string, 
-  context: UnifiedQueryContext
+  context: UnifiedQueryContext,
+  shadow?: ShadowCapture | null
 ): Promise<AIAnalysis> {
   const cacheKey = SimpleCache.generateKey('analysis', message, { companyId: context.companyId });
   const cached = await this.analysisCache.get<AIAnalysis>(cacheKey);
-  if (cached !== null) return cached;
+  if (cached !== null) {
+    if (shadow) shadow.analysisSource = 'cache';
+    return cached;
+  }
 
   try {
-    const llmProvider = this.llmManager.getActiveProvider();
-    
     // Enhanced analysis prompt with company context
-    const analysisPrompt = `
-      Analyze this insurance customer message for ${context.companyConfig?.name || 'insurance company'}:
-      
-      Message: "${message}"
-      Company Context: ${context.companyConfig?.businessType || 'general insurance'}
-      Previous Stage: ${context.conversationStage || 'initial'}
-      Platform: ${context.platform || 'unknown'}
-      Customer Type: ${context.customerType || 'individual'}
-      
-      Return JSON with:
-      {
-        "intent": "quote_request|information_seeking|support|comparison|complaint",
-        "insuranceType": "auto|health|life|business|property|travel",
-        "urgency": "low|medium|high",
-        "leadScore": 0-100,
-        "extractedInfo": {
-          "age": null,
-          "location": null,
-          "specificNeeds": []
-        },
-        "nextActions": [],
-        "confidence": 0-1
-      }
-    `;
-
-    // FIX: Reduce timeout from 4000ms to 2000ms and add better error handling
-    const response = await Promise.race([
-      llmProvider.generateCompletion([
-        { role: 'user', content: analysisPrompt }
-      ], {
-        maxTokens: 200,
-        temperature: 0.1
-      }),
-      this.createTimeoutPromise(2000, 'Analysis timed out') // Reduced timeout
-    ]);
-
-    // Safe JSON parsing
-    let analysis: AIAnalysis;
-    try {
-      const cleanContent = response.content.replace(/```json\n?|\n?```/g, '').trim();
-      const parsedAnalysis = JSON.parse(cleanContent);
-      analysis = { ...this.getDefaultAnalysis(), ...parsedAnalysis };
-    } catch (parseError) {
-      console.warn('JSON parse failed, using pattern analysis');
-      analysis = this.performFastAnalysis(message) || this.getDefaultAnalysis();
+    const analysisPrompt = this.promptRegistry.render('company.analysis', {
+      companyName: context.companyConfig?.name || 'insurance company',
+      message,
+      businessType: context.companyConfig?.businessType || 'general insurance',
+      stage: context.conversationStage || 'initial',
+      platform: context.platform || 'unknown',
+      customerType: context.customerType || 'individual'
+    }, context.companyConfig);
+
+    // Analysis falls back to pattern matching, so fail over without retrying and allow a single repair
+    const messages: LLMMessage[] = [{ role: 'user', content: analysisPrompt.content }];
+    const startTime = Date.now();
+    const response = await this.llmManager.generateStructured<AIAnalysis>(messages, companyAnalysisSchema, {
+      maxTokens: 200,
+      temperature: 0.1,
+      timeout: 2000,
+      retries: 0,
+      maxRepairs: 1,
+      companyConfig: context.companyConfig,
+      priority: 'interactive',
+      usage: this.getUsageTags(context, 'analysis')
+    });
+
+    const analysis: AIAnalysis = { ...this.getDefaultAnalysis(), ...response.data };
+
+    if (shadow) {
+      Object.assign(shadow, {
+        analysisMessages: messages,
+        analysisSchema: companyAnalysisSchema,
+        analysisSource: 'llm',
+        analysis: { intent: analysis.intent, leadScore: analysis.leadScore },
+        analysisProvider: response.providerUsed,
+        analysisLatencyMs: Date.now() - startTime,
+        analysisCost: response.cost || 0
+      });
     }
     
     // Cache the analysis
@@ -332,6 +374,7 @@ export class AIService {
 
   } catch (error) {
     console.warn('❌ Analysis failed, using pattern matching:', (error as Error).message);
+    if (shadow) shadow.analysisSource = 'fallback';
     return this.performFastAnalysis(message) || this.getDefaultAnalysis();
   }
 }
@@ -371,6 +414,9 @@ export class AIService {
       metadata: {
         type: result.document.metadata?.type || 'insurance_document',
         source: result.document.metadata?.source || 'knowledge_base',
+        ...(result.document.metadata?.documentId && { documentId: result.document.metadata.documentId }),
+        ...(result.document.metadata?.title && { title: result.document.metadata.title }),
+        ...(typeof result.document.metadata?.chunkIndex === 'number' && { chunkIndex: result.document.metadata.chunkIndex }),
         companyId: context.companyId,
         relevanceScore: result.score,
         timestamp: new Date().toISOString()
@@ -407,59 +453,64 @@ export class AIService {
   context: UnifiedQueryContext,
   analysis: AIAnalysis,
   knowledgeResult: ContextualQueryResult,
-  companyConfig: CompanyConfig
+  companyConfig: CompanyConfig,
+  shadow?: ShadowCapture | null
 ): Promise<AIResponse> {
   try {
-    const llmProvider = this.llmManager.getActiveProvider();
-    const startTime = Date.now();
-
-    // Build company-specific context
+    // Build company-specific context, each document headed by the source label the reply cites
+    const sources = toSourceCitations(knowledgeResult.documents);
     const contextDocs = knowledgeResult.documents
-      .map(doc => `[${doc.metadata.type}] ${doc.content}`)
+      .map((doc, i) => formatSource(sources[i], `[${doc.metadata.type}] ${doc.content}`))
       .join('\n\n');
 
-    // Company-specific system prompt
-    const systemPrompt = `You are an AI insurance assistant for ${companyConfig.name}.
-      
-      Company Information:
-      - Name: ${companyConfig.name}
-      - Business Type: ${companyConfig.businessType || 'insurance'}
-      - Brand Voice: ${companyConfig.branding?.brandVoice || 'professional and friendly'}
-      - Contact Info: ${companyConfig.contactInfo?.phone || 'Contact us for more details'}
-      
-      Customer Context:
-      - Intent: ${analysis.intent}
-      - Insurance Type: ${analysis.insuranceType}
-      - Lead Score: ${analysis.leadScore}
-      - Platform: ${context.platform}
-      
-      Available Knowledge:
-      ${contextDocs}
-      
-      Instructions:
-      1. Respond in ${companyConfig.branding?.brandVoice || 'professional'} tone
-      2. Include company-specific contact information when relevant
-      3. Mention ${companyConfig.name} naturally in the response
-      4. Focus on ${analysis.insuranceType} insurance if identified
-      5. Keep responses concise and actionable
-      6. Use Ghana-specific language and context
-      `;
-
-    const userPrompt = `Customer message: "${message}"
-      
-      Generate a helpful response that addresses their needs while representing ${companyConfig.name} professionally.`;
-
-    // FIX: Reduce timeout from 8000ms to 5000ms
-    const response = await Promise.race([
-      llmProvider.generateCompletion([
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ], {
-        maxTokens: 400,
-        temperature: 0.7
-      }),
-      this.createTimeoutPromise(5000, 'Response generation timed out') // Reduced timeout
-    ]);
+    // Company-specific system prompt (companies can override or pin template versions)
+    const systemPrompt = this.promptRegistry.render('company.system', {
+      businessType: companyConfig.businessType || 'insurance',
+      contactPhone: companyConfig.contactInfo?.phone || 'Contact us for more details',
+      intent: analysis.intent,
+      insuranceType: analysis.insuranceType,
+      leadScore: analysis.leadScore,
+      platform: context.platform,
+      stage: context.conversationStage || 'initial',
+      knowledge: contextDocs
+    }, companyConfig);
+
+    const userPrompt = this.promptRegistry.render('company.response', { message }, companyConfig);
+
+    // Earlier turns (summarized once they near the provider's context window) and pinned customer facts
+    const history = await this.contextManager.buildMessages(this.getConversationKey(context));
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: history.context ? `${systemPrompt.content}\n\n${history.context}` : systemPrompt.content },
+      ...history.messages,
+      { role: 'user', content: userPrompt.content }
+    ];
+
+    // Walk the company's provider fallback chain (5s per attempt)
+    const startTime = Date.now();
+    const response = await this.llmManager.generateCompletion(messages, {
+      maxTokens: 400,
+      temperature: 0.7,
+      timeout: 5000,
+      companyConfig,
+      priority: 'interactive',
+      usage: this.getUsageTags(context, 'response')
+    });
+
+    if (shadow) {
+      Object.assign(shadow, {
+        responseMessages: messages,
+        responseOptions: { maxTokens: 400, temperature: 0.7 },
+        response: response.content,
+        responseProvider: response.providerUsed,
+        responseModel: response.model,
+        responseLatencyMs: Date.now() - startTime,
+        responseCost: response.cost || 0
+      });
+    }
+
+    // Citations of sources that were not retrieved are removed from the reply
+    const checked = checkCitations(response.content, sources);
 
     // Calculate premium quote if relevant
     let premiumQuote = null;
@@ -472,16 +523,18 @@ export class AIService {
     }
 
     return {
-      message: response.content,
+      message: checked.message,
       confidence: analysis.confidence || 0.8,
       shouldCaptureLead: analysis.leadScore > 60,
       leadScore: analysis.leadScore,
       premiumQuote,
       nextActions: analysis.nextActions || [],
       conversationStage: this.determineNextStage(analysis),
-      providerUsed: llmProvider.name,
-      cost: this.estimateCost(response),
-      companyId: context.companyId
+      providerUsed: response.providerUsed,
+      cost: response.cost,
+      companyId: context.companyId,
+      promptVersions: toVersionRefs([systemPrompt, userPrompt]),
+      citations: checked.citations
     };
 
   } catch (error) {
@@ -527,12 +580,12 @@ export class AIService {
 
   // Update conversation history with company context
   private updateConversationHistory(
-    userId: string, 
-    message: string, 
+    context: UnifiedQueryContext,
+    message: string,
     response: AIResponse,
-    companyId: string
+    analysis: AIAnalysis
   ): void {
-    const conversationKey = `${userId}_${companyId}`;
+    const conversationKey = this.getConversationKey(context);
     
     if (!this.conversationHistory.has(conversationKey)) {
       this.conversationHistory.set(conversationKey, []);
@@ -545,7 +598,7 @@ export class AIService {
       userMessage: message,
       botResponse: response.message,
       confidence: response.confidence,
-      companyId: companyId,
+      companyId: context.companyId,
       metadata: {
         leadScore: response.leadScore,
         conversationStage: response.conversationStage,
@@ -557,23 +610,31 @@ export class AIService {
     if (history.length > 10) {
       history.splice(0, history.length - 10);
     }
-  }
 
-  // Helper methods
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    // Prompt history lives in the context window manager, which summarizes instead of dropping turns
+    this.contextManager.addTurns(conversationKey, [
+      { role: 'user', content: message },
+      { role: 'assistant', content: response.message }
+    ], {
+      companyConfig: context.companyConfig,
+      usage: this.getUsageTags(context, 'context_summary'),
+      facts: analysis.extractedInfo
+    });
   }
 
-  private estimateCost(response: any): number {
-    const provider = this.llmManager.getActiveProvider();
-    const tokens = this.estimateTokens(response.content);
-    return provider.estimateCost(tokens, tokens);
+  private getConversationKey(context: UnifiedQueryContext): string {
+    return `${context.userId}_${context.companyId}`;
   }
 
-  private async createTimeoutPromise(ms: number, message: string): Promise<any> {
-    return new Promise((_, reject) => {
-      setTimeout(() => reject(new Error(message)), ms);
-    });
+  // Helper methods
+  // Tags written to the usage ledger with every LLM call
+  private getUsageTags(context: UnifiedQueryContext, operation: string): UsageTags {
+    return {
+      companyId: context.companyId,
+      userId: context.userId,
+      platform: context.platform,
+      operation
+    };
   }
 
   private getDefaultAnalysis(): AIAnalysis {
@@ -627,19 +688,6 @@ export class AIService {
     };
   }
 
-  private async waitForSlot(): Promise<void> {
-    return new Promise(resolve => {
-      const checkSlot = () => {
-        if (this.activeRequests < this.maxConcurrentRequests) {
-          resolve();
-        } else {
-          setTimeout(checkSlot, 100);
-        }
-      };
-      checkSlot();
-    });
-  }
-
   // Check if AIService is initialized
   isInitialized(): boolean {
     return this.initialized;
@@ -670,10 +718,7 @@ export class AIService {
         responseCache: this.responseCache.getStats(),
         analysisCache: this.analysisCache.getStats()
       },
-      concurrency: {
-        activeRequests: this.activeRequests,
-        maxConcurrentRequests: this.maxConcurrentRequests
-      },
+      llmQueue: this.llmManager.getQueueMetrics(),
       mode: 'enhanced_v2_multi_company_multi_llm'
     };
   }
@@ -735,10 +780,7 @@ export class AIService {
         responseCache: this.responseCache.getStats(),
         analysisCache: this.analysisCache.getStats()
       },
-      concurrency: {
-        activeRequests: this.activeRequests,
-        maxConcurrentRequests: this.maxConcurrentRequests
-      },
+      llmQueue: this.llmManager.getQueueMetrics(),
       mode: 'enhanced_v2_multi_llm'
     };
   }
@@ -0,0 +1,164 @@
+// Business Logic Tool Router
+// File: backend/src/services/BusinessLogicToolRouter.ts
+
+import { LLMManager, RoutingCompanyConfig } from '../core/llm/managers/LLMManager';
+import { LLMMessage, LLMToolCall, LLMToolDefinition } from '../core/llm/interfaces/LLMProvider';
+import { UsageTags } from '../core/llm/managers/UsageLedger';
+import { BusinessLogicToolSchema } from '../types/domain';
+
+// The parts of a domain configuration the router needs (works with every DomainConfig variant)
+interface BusinessLogicDomain {
+  domain: string;
+  systemPrompt: string;
+  businessLogicHandlers: Record<string, (params: any, queryParams: any, dbAdapter?: any) => Promise<any>>;
+  businessLogicTools?: Record<string, BusinessLogicToolSchema>;
+}
+
+export interface BusinessLogicToolResult {
+  handlerType: string;
+  toolCall: LLMToolCall;
+  result: any;
+  error?: string;
+}
+
+/**
+ * Exposes a domain's businessLogicHandlers to the model as tools.
+ * The model decides whether a handler should run and extracts its arguments,
+ * replacing keyword matching on businessLogicTriggers.
+ */
+export class BusinessLogicToolRouter {
+  private domainConfig: BusinessLogicDomain;
+  private llmManager: LLMManager;
+  private tools: LLMToolDefinition[];
+
+  constructor(domainConfig: BusinessLogicDomain) {
+    this.domainConfig = domainConfig;
+    this.llmManager = LLMManager.getInstance();
+    this.tools = this.buildTools();
+  }
+
+  getTools(): LLMToolDefinition[] {
+    return this.tools;
+  }
+
+  /**
+   * Ask the model whether the latest message needs a business logic handler.
+   * Returns the requested tool calls, or an empty list when no handler applies.
+   */
+  async selectToolCalls(
+    userMessage: string,
+    conversationHistory: { role: string; content: string }[] = [],
+    usage?: UsageTags,
+    companyConfig?: RoutingCompanyConfig
+  ): Promise<LLMToolCall[]> {
+    if (this.tools.length === 0 || this.llmManager.getInitializedProviders().length === 0) {
+      return [];
+    }
+
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `${this.domainConfig.systemPrompt}
+
+Decide whether the customer's latest message needs one of the available tools.
+Call a tool only when its result is needed to answer, and only pass argument values the customer has actually given.
+If no tool is needed, reply with the single word NONE.`
+      },
+      ...conversationHistory
+        .filter(msg => msg.role === 'user' || msg.role === 'assistant')
+        .slice(-4)
+        .map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content })),
+      { role: 'user', content: userMessage }
+    ];
+
+    try {
+      const response = await this.llmManager.generateCompletion(messages, {
+        tools: this.tools,
+        toolChoice: 'auto',
+        maxTokens: 300,
+        temperature: 0,
+        timeout: 5000,
+        retries: 0,
+        companyConfig,
+        priority: 'interactive',
+        usage: { ...usage, operation: 'tool_selection' }
+      });
+
+      const toolCalls = (response.toolCalls || []).filter(call => {
+        const known = !!this.domainConfig.businessLogicHandlers[call.name];
+        if (!known) {
+          console.warn(`⚠️  Model requested unknown business logic tool: ${call.name}`);
+        }
+        return known;
+      });
+
+      if (toolCalls.length > 0) {
+        console.log(`🛠️  Model selected business logic: ${toolCalls.map(call => call.name).join(', ')}`);
+      }
+
+      return toolCalls;
+
+    } catch (error) {
+      console.error('Business logic tool selection failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Run the handlers for the model's tool calls
+   */
+  async execute(
+    toolCalls: LLMToolCall[],
+    customerInfo: any,
+    dbAdapter?: any
+  ): Promise<BusinessLogicToolResult[]> {
+    const results: BusinessLogicToolResult[] = [];
+
+    for (const toolCall of toolCalls) {
+      const handler = this.domainConfig.businessLogicHandlers[toolCall.name];
+
+      if (!handler) {
+        results.push({
+          handlerType: toolCall.name,
+          toolCall,
+          result: null,
+          error: `No business logic handler found for: ${toolCall.name}`
+        });
+        continue;
+      }
+
+      try {
+        const result = await handler(customerInfo, toolCall.arguments, dbAdapter);
+        results.push({ handlerType: toolCall.name, toolCall, result });
+      } catch (error) {
+        console.error(`❌ Business logic handler ${toolCall.name} failed:`, error);
+        results.push({
+          handlerType: toolCall.name,
+          toolCall,
+          result: null,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Build a tool definition for every handler. Handlers without a declared schema
+   * still get a tool, with free-form arguments.
+   */
+  private buildTools(): LLMToolDefinition[] {
+    return Object.keys(this.domainConfig.businessLogicHandlers || {}).map(name => {
+      const schema = this.domainConfig.businessLogicTools?.[name];
+
+      return {
+        name,
+        description: schema?.description || `Run the ${name.replace(/_/g, ' ')} calculation for ${this.domainConfig.domain}`,
+        parameters: schema?.parameters || { type: 'object', properties: {}, additionalProperties: true }
+      };
+    });
+  }
+}
+
+export default BusinessLogicToolRouter;
@@ -1,10 +1,22 @@
 // Generic AI Service for Multi-Domain Retail Applications
 // File: backend/src/services/GenericAIService.ts
 
-import OpenAI from 'openai';
-import { GenericRAGService } from './GenericRAGService';
+import Joi from 'joi';
+import { GenericRAGService, RAGDomainConfig } from './GenericRAGService';
 import { DatabaseAdapter } from './adapters/DatabaseAdapter';
 import { DomainConfig } from '../types/domain';
+import { LLMManager } from '../core/llm/managers/LLMManager';
+import { UsageTags } from '../core/llm/managers/UsageLedger';
+import { LLMToolCall } from '../core/llm/interfaces/LLMProvider';
+import { PromptRegistry, PromptVersionRef, RenderedPrompt, toVersionRefs } from '../core/prompts/PromptRegistry';
+import { CompanyManager } from '../core/companies/CompanyManager';
+import { MessageGuard, GuardSummary } from '../core/guard/MessageGuard';
+import { SourceCitation, checkCitations } from '../core/citations/sourceCitations';
+import { CompanyConfig } from '../types/CompanyTypes';
+import BusinessLogicToolRouter from './BusinessLogicToolRouter';
+
+// The parts of a domain config the agent uses (works with every DomainConfig variant - no database tables needed)
+type AgentDomainConfig = Omit<DomainConfig, 'databaseConfig' | 'ragConfig'> & RAGDomainConfig;
 
 interface ConversationMessage {
   role: 'user' | 'assistant' | 'system';
@@ -31,6 +43,9 @@ interface AIResponse {
   context: GenericContext;
   businessResult?: any; // Domain-specific results (quotes, recommendations, etc.)
   followUpQuestions?: string[];
+  promptVersions?: PromptVersionRef[]; // Prompt templates (and versions) that produced the message
+  guard?: GuardSummary; // Set when the message guard flagged the inbound message
+  citations?: SourceCitation[]; // Knowledge the reply was generated from, and whether it cited each item
 }
 
 interface Recommendation {
@@ -41,22 +56,29 @@ interface Recommendation {
 }
 
 export class GenericAIService {
-  private openai: OpenAI;
   private ragService: GenericRAGService;
   private databaseAdapter?: DatabaseAdapter;
-  private domainConfig: DomainConfig;
+  private domainConfig: AgentDomainConfig;
+  private llmManager: LLMManager;
+  private toolRouter: BusinessLogicToolRouter;
+  private promptRegistry: PromptRegistry;
+  private messageGuard: MessageGuard;
+  private analysisSchema: Joi.ObjectSchema;
   private conversations: Map<string, any> = new Map();
 
   constructor(
-    domainConfig: DomainConfig,
+    domainConfig: AgentDomainConfig,
     databaseAdapter?: DatabaseAdapter
   ) {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || ''
-    });
     this.domainConfig = domainConfig;
     this.ragService = new GenericRAGService(domainConfig);
     this.databaseAdapter = databaseAdapter; // Make it optional
+    this.llmManager = LLMManager.getInstance();
+    this.toolRouter = new BusinessLogicToolRouter(domainConfig);
+    this.promptRegistry = PromptRegistry.getInstance();
+    this.promptRegistry.registerDomainDefaults(domainConfig);
+    this.messageGuard = MessageGuard.getInstance();
+    this.analysisSchema = this.buildAnalysisSchema();
   }
 
   /**
@@ -64,6 +86,16 @@ export class GenericAIService {
    */
   async initialize(): Promise<void> {
     console.log(`🤖 Initializing Generic AI Service for domain: ${this.domainConfig.domain}`);
+
+    // Completions, embeddings and business logic tools all go through the shared LLM manager
+    if (this.llmManager.getInitializedProviders().length === 0) {
+      try {
+        await this.llmManager.initialize();
+      } catch (error) {
+        console.warn('⚠️  LLM Manager unavailable:', (error as Error).message);
+      }
+    }
+
     await this.ragService.initialize();
     
     // Only initialize database adapter if provided
@@ -90,6 +122,26 @@ export class GenericAIService {
         conversation.context = { ...conversation.context, ...contextOverride };
       }
 
+      // Screen the message before any of it reaches a prompt - refused messages are not kept in the history
+      const verdict = await this.messageGuard.inspect(
+        message,
+        await this.getCompanyConfig(conversation.context.companyId),
+        this.getUsageTags(conversation)
+      );
+      if (verdict.action === 'refuse') {
+        return {
+          message: verdict.refusalMessage!,
+          confidence: 1,
+          leadScore: conversation.leadScore,
+          shouldCaptureLead: false,
+          nextAction: 'continue_conversation',
+          context: conversation.context,
+          guard: this.messageGuard.summarize(verdict)
+        };
+      }
+      const guard = this.messageGuard.summarize(verdict);
+      message = verdict.message;
+
       // Add user message to history
       conversation.messages.push({
         role: 'user',
@@ -98,14 +150,20 @@ export class GenericAIService {
       });
 
       // Analyze message using domain configuration
-      const messageAnalysis = await this.analyzeMessage(message, conversation.context);
+      const messageAnalysis = await this.analyzeMessage(message, conversation.context, this.getUsageTags(conversation, 'analysis'));
 
       // Update conversation context
       conversation.context = this.updateContext(conversation.context, messageAnalysis, message);
 
-      // Check for domain-specific business logic (quotes, calculations, etc.)
-      if (messageAnalysis.requiresBusinessLogic) {
-        return await this.handleBusinessLogic(userId, message, conversation, messageAnalysis);
+      // Let the model decide whether a business logic handler (quotes, calculations, etc.) should run
+      const toolCalls = await this.toolRouter.selectToolCalls(
+        message,
+        conversation.messages.slice(0, -1),
+        this.getUsageTags(conversation),
+        await this.getCompanyConfig(conversation.context.companyId)
+      );
+      if (toolCalls.length > 0) {
+        return { ...await this.handleBusinessLogic(userId, message, conversation, messageAnalysis, toolCalls), guard };
       }
 
       // Query knowledge base with enhanced context
@@ -154,7 +212,7 @@ export class GenericAIService {
       conversation.lastUpdated = new Date();
       this.conversations.set(userId, conversation);
 
-      return response;
+      return { ...response, guard };
 
     } catch (error) {
       console.error('❌ Error processing message:', error);
@@ -165,28 +223,30 @@ export class GenericAIService {
   /**
    * Analyze message with domain-specific intelligence
    */
-  private async analyzeMessage(message: string, context: GenericContext): Promise<any> {
-    const analysisPrompt = this.buildAnalysisPrompt(message, context);
+  private async analyzeMessage(message: string, context: GenericContext, usage?: UsageTags): Promise<any> {
+    const companyConfig = await this.getCompanyConfig(context.companyId);
+    const analysisPrompt = this.buildAnalysisPrompt(message, context, companyConfig);
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.MODEL_NAME || 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert analyzer for ${this.domainConfig.domain} domain. 
-                     Analyze customer messages for intent, entity types, business logic needs, and database queries.`
-          },
-          {
-            role: 'user',
-            content: analysisPrompt
-          }
-        ],
+      const response = await this.llmManager.generateStructured([
+        {
+          role: 'system',
+          content: `You are an expert analyzer for ${this.domainConfig.domain} domain.
+                   Analyze customer messages for intent, entity types, business logic needs, and database queries.`
+        },
+        {
+          role: 'user',
+          content: analysisPrompt.content
+        }
+      ], this.analysisSchema, {
         temperature: 0.3,
-        max_tokens: 1000
+        maxTokens: 1000,
+        companyConfig,
+        priority: 'interactive',
+        usage
       });
 
-      return JSON.parse(response.choices[0].message.content || '{}');
+      return response.data;
     } catch (error) {
       console.error('Failed to analyze message:', error);
       return this.getDefaultAnalysis(message, context);
@@ -196,64 +256,71 @@ export class GenericAIService {
   /**
    * Build domain-specific analysis prompt
    */
-  private buildAnalysisPrompt(message: string, context: GenericContext): string {
-    const domainSpecifics = this.domainConfig.analysisInstructions || '';
-    const entityTypes = this.domainConfig.entityTypes?.join(', ') || 'products';
-    const businessLogicTriggers = this.domainConfig.businessLogicTriggers?.join(', ') || '';
-
-    return `
-Analyze this ${this.domainConfig.domain} customer message:
-
-MESSAGE: "${message}"
-
-DOMAIN CONTEXT:
-- Domain: ${this.domainConfig.domain}
-- Available entity types: ${entityTypes}
-- Current stage: ${context.stage}
-- Business logic triggers: ${businessLogicTriggers}
-
-${domainSpecifics}
-
-REQUIRED ANALYSIS (return as JSON):
-{
-  "primaryIntent": "string", 
-  "entityType": "string",
-  "urgencyLevel": "high|medium|low",
-  "emotionalState": "string",
-  "requiresBusinessLogic": boolean,
-  "businessLogicType": "string",
-  "requiresDatabaseQuery": boolean,
-  "queryParams": {},
-  "leadReadiness": "string",
-  "nextBestAction": "string",
-  "confidence": number
-}
-`;
+  private buildAnalysisPrompt(message: string, context: GenericContext, companyConfig?: CompanyConfig): RenderedPrompt {
+    const variables = { stage: context.stage, domain: this.domainConfig.domain };
+    const domainSpecifics = this.promptRegistry.render(`${this.domainConfig.domain}.analysis_instructions`, variables, companyConfig);
+
+    return this.promptRegistry.render('generic.analysis', {
+      ...variables,
+      message,
+      entityTypes: this.domainConfig.entityTypes?.join(', ') || 'products',
+      analysisInstructions: domainSpecifics.content
+    }, companyConfig);
+  }
+
+  /**
+   * Schema the analysis must satisfy. Missing optional fields get the same defaults as getDefaultAnalysis.
+   */
+  private buildAnalysisSchema(): Joi.ObjectSchema {
+    const entityTypes = this.domainConfig.entityTypes || [];
+
+    return Joi.object({
+      primaryIntent: Joi.string().required(),
+      entityType: entityTypes.length > 0
+        ? Joi.string().valid(...entityTypes, 'general').default('general')
+        : Joi.string().default('general'),
+      urgencyLevel: Joi.string().valid('high', 'medium', 'low').default('medium'),
+      emotionalState: Joi.string().default('neutral'),
+      requiresDatabaseQuery: Joi.boolean().default(false),
+      queryParams: Joi.object().default({}),
+      leadReadiness: Joi.string().default('exploring'),
+      nextBestAction: Joi.string().default('provide_info'),
+      confidence: Joi.number().min(0).max(1).default(0.5)
+    });
   }
 
   /**
    * Handle domain-specific business logic (quotes, calculations, recommendations)
+   * for the tool calls the model requested
    */
   private async handleBusinessLogic(
     userId: string,
     message: string,
     conversation: any,
-    analysis: any
+    analysis: any,
+    toolCalls: LLMToolCall[]
   ): Promise<AIResponse> {
     try {
-      // Use domain configuration to determine business logic handler
-      const businessLogicHandler = this.domainConfig.businessLogicHandlers?.[analysis.businessLogicType];
-      
-      if (!businessLogicHandler) {
-        throw new Error(`No handler found for business logic: ${analysis.businessLogicType}`);
-      }
-
-      // Execute business logic
-      const businessResult = await businessLogicHandler(
+      // Execute business logic with the arguments the model extracted
+      const results = await this.toolRouter.execute(
+        toolCalls,
         conversation.context.customerInfo,
-        analysis.queryParams,
         this.databaseAdapter // Pass the adapter (could be undefined)
       );
+      const succeeded = results.filter(r => !r.error);
+
+      if (succeeded.length === 0) {
+        throw new Error(results.map(r => r.error).join('; '));
+      }
+
+      const businessResult = succeeded.length === 1
+        ? succeeded[0].result
+        : Object.fromEntries(succeeded.map(r => [r.handlerType, r.result]));
+
+      conversation.context.businessLogic = {
+        hasEngaged: true,
+        lastHandler: succeeded.map(r => r.handlerType).join(',')
+      };
 
       // Generate response with business result
       const response = await this.generateBusinessLogicResponse(
@@ -284,41 +351,49 @@ REQUIRED ANALYSIS (return as JSON):
     databaseResults: any,
     analysis: any
   ): Promise<AIResponse> {
+    const companyConfig = await this.getCompanyConfig(conversation.context.companyId);
+    const [systemPrompt, instructions] = this.renderDomainPrompts(conversation, companyConfig);
     const responsePrompt = this.buildResponsePrompt(
       message,
       conversation,
       ragResult,
       databaseResults,
-      analysis
+      analysis,
+      instructions.content,
+      companyConfig
     );
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.MODEL_NAME || 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: this.domainConfig.systemPrompt || `You are a helpful ${this.domainConfig.domain} assistant.`
-          },
-          {
-            role: 'user',
-            content: responsePrompt
-          }
-        ],
+      const response = await this.llmManager.generateCompletion([
+        {
+          role: 'system',
+          content: systemPrompt.content || `You are a helpful ${this.domainConfig.domain} assistant.`
+        },
+        {
+          role: 'user',
+          content: responsePrompt.content
+        }
+      ], {
         temperature: 0.7,
-        max_tokens: 600
+        maxTokens: 600,
+        companyConfig,
+        priority: 'interactive',
+        usage: this.getUsageTags(conversation, 'response')
       });
 
-      const responseText = response.choices[0].message.content || '';
-      
+      // Citations of sources that were not retrieved are removed from the reply
+      const checked = checkCitations(response.content || '', ragResult?.sources);
+
       return {
-        message: responseText,
+        message: checked.message,
         confidence: ragResult?.confidence || 0.7,
         leadScore: this.calculateLeadScore(analysis, conversation),
         shouldCaptureLead: this.shouldCaptureLead(analysis, conversation),
         nextAction: analysis.nextBestAction || 'continue_conversation',
         context: conversation.context,
-        followUpQuestions: this.generateFollowUpQuestions(analysis, conversation)
+        followUpQuestions: this.generateFollowUpQuestions(analysis, conversation),
+        promptVersions: toVersionRefs([systemPrompt, responsePrompt, instructions]),
+        citations: checked.citations
       };
 
     } catch (error) {
@@ -335,42 +410,67 @@ REQUIRED ANALYSIS (return as JSON):
     conversation: any,
     ragResult: any,
     databaseResults: any,
-    analysis: any
-  ): string {
-    const domainInstructions = this.domainConfig.responseInstructions || '';
+    analysis: any,
+    responseInstructions: string,
+    companyConfig?: CompanyConfig
+  ): RenderedPrompt {
     const conversationHistory = conversation.messages.slice(-4)
       .map((msg: any) => `${msg.role}: ${msg.content.substring(0, 150)}...`)
       .join('\n');
 
-    return `
-DOMAIN: ${this.domainConfig.domain}
-CUSTOMER MESSAGE: "${message}"
-
-KNOWLEDGE BASE CONTEXT:
-${ragResult?.context || 'No relevant knowledge found'}
+    return this.promptRegistry.render('generic.response', {
+      domain: this.domainConfig.domain,
+      stage: conversation.context.stage,
+      message,
+      knowledge: ragResult?.context || 'No relevant knowledge found',
+      databaseResults: databaseResults ? `DATABASE RESULTS:\n${JSON.stringify(databaseResults, null, 2)}` : '',
+      intent: analysis.primaryIntent,
+      entityType: analysis.entityType,
+      emotionalState: analysis.emotionalState,
+      leadReadiness: analysis.leadReadiness,
+      conversationHistory,
+      responseInstructions
+    }, companyConfig);
+  }
 
-${databaseResults ? `DATABASE RESULTS:
-${JSON.stringify(databaseResults, null, 2)}` : ''}
+  /**
+   * The domain's system prompt and response instructions for this conversation's company
+   */
+  private renderDomainPrompts(conversation: any, companyConfig?: CompanyConfig): [RenderedPrompt, RenderedPrompt] {
+    const variables = { stage: conversation.context.stage };
 
-CUSTOMER ANALYSIS:
-- Intent: ${analysis.primaryIntent}
-- Entity Interest: ${analysis.entityType}
-- Emotional State: ${analysis.emotionalState}
-- Lead Readiness: ${analysis.leadReadiness}
+    return [
+      this.promptRegistry.render(`${this.domainConfig.domain}.system`, variables, companyConfig),
+      this.promptRegistry.render(`${this.domainConfig.domain}.response_instructions`, variables, companyConfig)
+    ];
+  }
 
-CONVERSATION HISTORY:
-${conversationHistory}
+  /**
+   * Company config for prompt overrides and variables (none when the conversation has no company)
+   */
+  private async getCompanyConfig(companyId?: string): Promise<CompanyConfig | undefined> {
+    if (!companyId) {
+      return undefined;
+    }
 
-DOMAIN-SPECIFIC INSTRUCTIONS:
-${domainInstructions}
+    try {
+      return await CompanyManager.getInstance().getCompanyConfig(companyId);
+    } catch (error) {
+      console.warn(`⚠️  No company config for ${companyId}, using default prompts:`, (error as Error).message);
+      return undefined;
+    }
+  }
 
-Generate a helpful, personalized response that:
-1. Uses accurate domain knowledge
-2. Addresses the customer's specific intent
-3. Moves the conversation forward appropriately
-4. Follows domain-specific tone and style guidelines
-5. Includes relevant ${this.domainConfig.domain} context
-`;
+  /**
+   * Usage ledger tags for a conversation (companyId and platform come from the context override)
+   */
+  private getUsageTags(conversation: any, operation?: string): UsageTags {
+    return {
+      companyId: conversation.context.companyId,
+      userId: conversation.userId,
+      platform: conversation.context.platform,
+      operation
+    };
   }
 
   /**
@@ -614,6 +714,8 @@ Generate a helpful, personalized response that:
     businessResult: any,
     analysis: any
   ): Promise<AIResponse> {
+    const companyConfig = await this.getCompanyConfig(conversation.context.companyId);
+    const [systemPrompt, instructions] = this.renderDomainPrompts(conversation, companyConfig);
     const conversationHistory = conversation.messages.slice(-4)
       .map((msg: any) => `${msg.role}: ${msg.content.substring(0, 100)}...`)
       .join('\n');
@@ -637,7 +739,7 @@ RECENT CONVERSATION:
 ${conversationHistory}
 
 DOMAIN-SPECIFIC GUIDELINES:
-${this.domainConfig.responseInstructions}
+${instructions.content}
 
 Create a professional, engaging response that:
 1. Acknowledges their specific request
@@ -674,23 +776,24 @@ Generate a response that moves the customer toward a purchase decision.
 `;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.MODEL_NAME || 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: this.domainConfig.systemPrompt
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+      const response = await this.llmManager.generateCompletion([
+        {
+          role: 'system',
+          content: systemPrompt.content
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ], {
         temperature: 0.7,
-        max_tokens: 600
+        maxTokens: 600,
+        companyConfig,
+        priority: 'interactive',
+        usage: this.getUsageTags(conversation, 'business_logic_response')
       });
 
-      const responseText = response.choices[0].message.content || '';
+      const responseText = response.content || '';
       
       // Generate recommendations based on the business result
       const recommendations = this.generateBusinessRecommendations(businessResult, analysis);
@@ -701,7 +804,8 @@ Generate a response that moves the customer toward a purchase decision.
         leadScore: this.calculateLeadScore(analysis, conversation),
         shouldCaptureLead: this.shouldCaptureLead(analysis, conversation),
         nextAction: this.determineNextAction(analysis, conversation, businessResult),
-        context: conversation.context
+        context: conversation.context,
+        promptVersions: toVersionRefs([systemPrompt, instructions])
       };
 
     } catch (error) {
@@ -897,7 +1001,6 @@ Generate a response that moves the customer toward a purchase decision.
       entityType: 'general',
       urgencyLevel: 'medium',
       emotionalState: 'neutral',
-      requiresBusinessLogic: false,
       requiresDatabaseQuery: false,
       leadReadiness: 'exploring',
       nextBestAction: 'provide_info',
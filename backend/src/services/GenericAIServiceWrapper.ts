@@ -1,10 +1,19 @@
 // Step 2: Generic Wrapper for Your Current AIService
 // File: backend/src/services/GenericAIServiceWrapper.ts
 
-import OpenAI from 'openai';
 import RAGService from './GenericRAGService'; // Your existing RAG service
 import { DomainConfig } from '../config/InsuranceDomainConfig';
 import { AIAnalysis, QueryContext } from '../types/rag';
+import { LLMManager } from '../core/llm/managers/LLMManager';
+import { UsageTags } from '../core/llm/managers/UsageLedger';
+import { ContextWindowManager, ConversationWindow } from '../core/llm/managers/ContextWindowManager';
+import { LLMToolCall } from '../core/llm/interfaces/LLMProvider';
+import { PromptRegistry, PromptVersionRef, RenderedPrompt, toVersionRefs } from '../core/prompts/PromptRegistry';
+import { CompanyManager } from '../core/companies/CompanyManager';
+import { SourceCitation, checkCitations } from '../core/citations/sourceCitations';
+import { MessageGuard, GuardSummary, GuardVerdict } from '../core/guard/MessageGuard';
+import { CompanyConfig } from '../types/CompanyTypes';
+import BusinessLogicToolRouter from './BusinessLogicToolRouter';
 
 interface ConversationMessage {
   role: 'user' | 'assistant';
@@ -12,7 +21,7 @@ interface ConversationMessage {
   timestamp: Date;
 }
 
-interface GenericAIResponse {
+export interface GenericAIResponse {
   message: string;
   confidence: number;
   recommendations: any[];
@@ -21,26 +30,50 @@ interface GenericAIResponse {
   leadScore?: number;
   shouldCaptureLead?: boolean;
   businessResult?: any;
+  promptVersions?: PromptVersionRef[];  // Prompt templates (and versions) that produced the message
+  citations?: SourceCitation[];  // Knowledge the reply was generated from, and whether it cited each item
+  guard?: GuardSummary;  // Set when the message guard flagged the inbound message
 }
 
+export type GenericAIStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; response: GenericAIResponse };
+
 export class GenericAIServiceWrapper {
-  private openai: OpenAI;
   private ragService: RAGService;
+  private llmManager: LLMManager;
+  private toolRouter: BusinessLogicToolRouter;
+  private promptRegistry: PromptRegistry;
+  private messageGuard: MessageGuard;
   private domainConfig: DomainConfig;
-  private conversationHistory: Map<string, ConversationMessage[]> = new Map();
+  private companyId: string;
+  private contextManager: ContextWindowManager;
   private currentState: string;
 
   constructor(domainConfig: DomainConfig, companyId: string = 'default') {
     this.domainConfig = domainConfig;
+    this.companyId = companyId;
     this.currentState = domainConfig.defaultStage;
     
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
     this.ragService = new RAGService(new (require('./adapters/DatabaseAdapter').DatabaseAdapter)(companyId));
+    this.llmManager = LLMManager.getInstance();
+    this.contextManager = ContextWindowManager.getInstance();
+    this.toolRouter = new BusinessLogicToolRouter(domainConfig);
+    this.promptRegistry = PromptRegistry.getInstance();
+    this.promptRegistry.registerDomainDefaults(domainConfig);
+    this.messageGuard = MessageGuard.getInstance();
   }
 
   async initialize(): Promise<void> {
+    // Completions, streaming and embeddings go through the shared LLM manager
+    if (this.llmManager.getInitializedProviders().length === 0) {
+      try {
+        await this.llmManager.initialize();
+      } catch (error) {
+        console.warn('⚠️  LLM Manager unavailable:', (error as Error).message);
+      }
+    }
+
     await this.ragService.initialize();
     console.log(`✅ Generic AI Service initialized for domain: ${this.domainConfig.domain}`);
   }
@@ -54,12 +87,26 @@ export class GenericAIServiceWrapper {
     context: QueryContext = {}
   ): Promise<GenericAIResponse> {
     try {
+      // Screen the message before any of it reaches a prompt - refused messages are not kept in the history
+      const verdict = await this.messageGuard.inspect(userMessage, await this.getCompanyConfig(), this.getUsageTags(userId));
+      if (verdict.action === 'refuse') {
+        return this.buildRefusal(verdict);
+      }
+      const guard = this.messageGuard.summarize(verdict);
+      userMessage = verdict.message;
+
       // 1. Analyze user input with domain-specific instructions
       const analysis = await this.analyzeUserInputWithDomain(userMessage, userId);
 
-      // 2. Check for business logic triggers (like premium calculation)
-      if (this.requiresBusinessLogic(userMessage, analysis)) {
-        return await this.handleBusinessLogic(userMessage, userId, analysis, context);
+      // 2. Let the model decide whether a business logic handler (quote, availability, ...) is needed
+      const toolCalls = await this.toolRouter.selectToolCalls(
+        userMessage,
+        this.getConversationHistory(userId),
+        this.getUsageTags(userId),
+        await this.getCompanyConfig()
+      );
+      if (toolCalls.length > 0) {
+        return { ...await this.handleBusinessLogic(userMessage, userId, analysis, context, toolCalls), guard };
       }
 
       // 3. Query knowledge base (your existing RAG logic)
@@ -98,7 +145,10 @@ export class GenericAIServiceWrapper {
         nextState: this.currentState,
         leadScore,
         shouldCaptureLead,
-        businessResult: null
+        businessResult: null,
+        promptVersions: response.promptVersions,
+        citations: response.citations,
+        guard
       };
 
     } catch (error) {
@@ -107,12 +157,119 @@ export class GenericAIServiceWrapper {
     }
   }
 
+  /**
+   * Streaming variant of processMessage. Yields response tokens as the model produces them
+   * and finishes with the complete response. Business logic replies arrive as a single token.
+   */
+  async *streamMessage(
+    userMessage: string,
+    userId: string,
+    context: QueryContext = {}
+  ): AsyncGenerator<GenericAIStreamEvent> {
+    let message = '';
+
+    try {
+      const verdict = await this.messageGuard.inspect(userMessage, await this.getCompanyConfig(), this.getUsageTags(userId));
+      if (verdict.action === 'refuse') {
+        const refusal = this.buildRefusal(verdict);
+        yield { type: 'token', content: refusal.message };
+        yield { type: 'done', response: refusal };
+        return;
+      }
+      const guard = this.messageGuard.summarize(verdict);
+      userMessage = verdict.message;
+
+      const analysis = await this.analyzeUserInputWithDomain(userMessage, userId);
+
+      const toolCalls = await this.toolRouter.selectToolCalls(
+        userMessage,
+        this.getConversationHistory(userId),
+        this.getUsageTags(userId),
+        await this.getCompanyConfig()
+      );
+      if (toolCalls.length > 0) {
+        const response = { ...await this.handleBusinessLogic(userMessage, userId, analysis, context, toolCalls), guard };
+        yield { type: 'token', content: response.message };
+        yield { type: 'done', response };
+        return;
+      }
+
+      const knowledge = await this.ragService.queryKnowledge(userMessage, {
+        productType: analysis.insuranceType,
+        stage: this.currentState,
+        leadSource: context.leadSource,
+        personalityType: context.personalityType,
+        budgetRange: context.budget
+      });
+
+      const companyConfig = await this.getCompanyConfig();
+      const [systemPrompt, instructions] = this.renderDomainPrompts(companyConfig);
+      const window = await this.contextManager.getWindowReady(this.getConversationKey(userId));
+      const prompt = this.buildDomainResponsePrompt(userMessage, knowledge, analysis, context, window, instructions.content, companyConfig);
+
+      for await (const chunk of this.llmManager.streamCompletion(
+        [
+          { role: 'system', content: systemPrompt.content },
+          { role: 'user', content: prompt.content }
+        ],
+        { maxTokens: 600, temperature: 0.7, companyConfig, priority: 'interactive', usage: this.getUsageTags(userId, 'response') }
+      )) {
+        if (chunk.content) {
+          message += chunk.content;
+          yield { type: 'token', content: chunk.content };
+        }
+      }
+
+      // The tokens are already out; the final response carries the checked reply
+      const checked = checkCitations(message, knowledge.sources);
+      this.updateConversationHistory(userId, userMessage, checked.message);
+
+      const leadScore = this.calculateDomainLeadScore(analysis, userId);
+      const shouldCaptureLead = leadScore >= this.domainConfig.leadCaptureThreshold;
+
+      this.updateConversationState(analysis);
+
+      yield {
+        type: 'done',
+        response: {
+          message: checked.message,
+          confidence: knowledge.confidence,
+          recommendations: this.generateRecommendations(analysis),
+          usedKnowledge: knowledge.metadata || {},
+          nextState: this.currentState,
+          leadScore,
+          shouldCaptureLead,
+          businessResult: null,
+          promptVersions: toVersionRefs([systemPrompt, prompt, instructions]),
+          citations: checked.citations,
+          guard
+        }
+      };
+
+    } catch (error) {
+      // Part of the answer already reached the client - let the caller report the failure
+      if (message) {
+        throw error;
+      }
+
+      console.error('Error streaming message:', error);
+      const response = this.handleError(error, userMessage, userId);
+      yield { type: 'token', content: response.message };
+      yield { type: 'done', response };
+    }
+  }
+
   /**
    * Enhanced analysis using domain-specific instructions
    */
   private async analyzeUserInputWithDomain(message: string, userId?: string): Promise<AIAnalysis> {
+    const analysisInstructions = this.promptRegistry.render(
+      `${this.domainConfig.domain}.analysis_instructions`,
+      { stage: this.currentState },
+      await this.getCompanyConfig()
+    );
     const conversationHistory = userId ? this.getConversationHistory(userId) : [];
-    const messageCount = Math.floor(conversationHistory.length / 2);
+    const messageCount = userId ? this.getExchangeCount(userId) : 0;
     
     const recentMessages = conversationHistory
       .slice(-4)
@@ -121,7 +278,7 @@ export class GenericAIServiceWrapper {
 
     // Use domain-specific analysis instructions
     const prompt = `
-${this.domainConfig.analysisInstructions}
+${analysisInstructions.content}
 
 CURRENT MESSAGE: "${message}"
 
@@ -137,23 +294,24 @@ ${conversationHistory.length > 0 ? 'IMPORTANT: Consider how this message builds
 `;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.MODEL_NAME || 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert at analyzing customer conversations for ${this.domainConfig.domain} sales.`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+      const response = await this.llmManager.generateCompletion([
+        {
+          role: 'system',
+          content: `You are an expert at analyzing customer conversations for ${this.domainConfig.domain} sales.`
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ], {
         temperature: 0.3,
-        max_tokens: 1000
+        maxTokens: 1000,
+        companyConfig: await this.getCompanyConfig(),
+        priority: 'interactive',
+        usage: this.getUsageTags(userId, 'analysis')
       });
 
-      const analysisText = response.choices[0].message.content;
+      const analysisText = response.content;
       return JSON.parse(analysisText || '{}');
     } catch (error) {
       console.error('Failed to analyze user input:', error);
@@ -162,40 +320,36 @@ ${conversationHistory.length > 0 ? 'IMPORTANT: Consider how this message builds
   }
 
   /**
-   * Check if message requires business logic (e.g., premium calculation)
-   */
-  private requiresBusinessLogic(message: string, analysis: AIAnalysis): boolean {
-    const lowerMessage = message.toLowerCase();
-    return this.domainConfig.businessLogicTriggers.some(trigger => 
-      lowerMessage.includes(trigger)
-    ) || analysis.primaryIntent === 'PRICE_INQUIRY';
-  }
-
-  /**
-   * Handle business logic like premium calculations
+   * Handle business logic like premium calculations.
+   * The handlers and their arguments come from the model's tool calls.
    */
   private async handleBusinessLogic(
     userMessage: string,
     userId: string,
     analysis: AIAnalysis,
-    context: QueryContext
+    context: QueryContext,
+    toolCalls: LLMToolCall[]
   ): Promise<GenericAIResponse> {
     try {
-      // Determine which business logic handler to use
-      const handlerType = this.determineBusinessLogicType(userMessage, analysis);
-      const handler = this.domainConfig.businessLogicHandlers[handlerType];
-      
-      if (!handler) {
-        throw new Error(`No business logic handler found for: ${handlerType}`);
-      }
-
-      // Extract parameters for business logic
-      const queryParams = this.extractBusinessLogicParams(userMessage, analysis, context);
       const conversationHistory = this.getConversationHistory(userId);
-      const customerInfo = this.extractCustomerInfo(conversationHistory);
+      const customerInfo = {
+        ...this.extractCustomerInfo(conversationHistory),
+        age: context.age,
+        budget: context.budget
+      };
 
       // Execute business logic
-      const businessResult = await handler(customerInfo, queryParams);
+      const results = await this.toolRouter.execute(toolCalls, customerInfo);
+      const succeeded = results.filter(r => !r.error);
+
+      if (succeeded.length === 0) {
+        throw new Error(results.map(r => r.error).join('; '));
+      }
+
+      const handlerType = succeeded.map(r => r.handlerType).join(',');
+      const businessResult = succeeded.length === 1
+        ? succeeded[0].result
+        : Object.fromEntries(succeeded.map(r => [r.handlerType, r.result]));
 
       // Generate response that includes the business result
       const response = await this.generateBusinessLogicResponse(
@@ -215,7 +369,8 @@ ${conversationHistory.length > 0 ? 'IMPORTANT: Consider how this message builds
         nextState: this.currentState,
         businessResult,
         leadScore: this.calculateDomainLeadScore(analysis, userId),
-        shouldCaptureLead: businessResult ? true : false
+        shouldCaptureLead: businessResult ? true : false,
+        promptVersions: response.promptVersions
       };
 
     } catch (error) {
@@ -233,65 +388,38 @@ ${conversationHistory.length > 0 ? 'IMPORTANT: Consider how this message builds
     analysis: AIAnalysis,
     context: QueryContext,
     userId: string
-  ): Promise<{ message: string; recommendations: any[] }> {
-    
-    const conversationHistory = this.getConversationHistory(userId);
-    const messageCount = Math.floor(conversationHistory.length / 2);
-    
-    const contextSummary = conversationHistory.length > 0 
-      ? `Previous conversation (${messageCount} exchanges):
-${conversationHistory.slice(-4).map(msg => `${msg.role}: ${msg.content.substring(0, 100)}...`).join('\n')}`
-      : 'First interaction - establish rapport and understand needs';
-    
-    const prompt = `
-You are a ${this.domainConfig.domain} agent. Use this knowledge to help the customer:
-
-COMPANY KNOWLEDGE:
-${knowledge.context}
-
-USER MESSAGE: "${userMessage}"
-
-USER ANALYSIS:
-- Intent: ${analysis.primaryIntent}
-- ${this.domainConfig.domain === 'insurance' ? 'Insurance' : 'Product'} Interest: ${analysis.insuranceType || analysis.entityType || 'unknown'}
-- Urgency: ${analysis.urgencyLevel}
-- Budget Sensitivity: ${analysis.budgetSignals?.join(', ')}
-- Emotional State: ${analysis.emotionalState}
-- Lead Readiness: ${analysis.leadReadiness}
-
-CONVERSATION CONTEXT:
-- Lead Source: ${context.leadSource || 'unknown'}
-- Current Stage: ${this.currentState}
-- ${contextSummary}
-
-DOMAIN-SPECIFIC GUIDELINES:
-${this.domainConfig.responseInstructions}
-
-Generate a helpful, personalized response that moves the conversation forward appropriately.
-`;
+  ): Promise<{ message: string; recommendations: any[]; promptVersions: PromptVersionRef[]; citations: SourceCitation[] }> {
+    const companyConfig = await this.getCompanyConfig();
+    const [systemPrompt, instructions] = this.renderDomainPrompts(companyConfig);
+    const window = await this.contextManager.getWindowReady(this.getConversationKey(userId));
+    const prompt = this.buildDomainResponsePrompt(userMessage, knowledge, analysis, context, window, instructions.content, companyConfig);
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.MODEL_NAME || 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: this.domainConfig.systemPrompt
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+      const response = await this.llmManager.generateCompletion([
+        {
+          role: 'system',
+          content: systemPrompt.content
+        },
+        {
+          role: 'user',
+          content: prompt.content
+        }
+      ], {
         temperature: 0.7,
-        max_tokens: 600
+        maxTokens: 600,
+        companyConfig,
+        priority: 'interactive',
+        usage: this.getUsageTags(userId, 'response')
       });
 
-      const message = response.choices[0].message.content || '';
-      
+      // Citations of sources that were not retrieved are removed from the reply
+      const checked = checkCitations(response.content || '', knowledge.sources);
+
       return {
-        message,
-        recommendations: this.generateRecommendations(analysis)
+        message: checked.message,
+        recommendations: this.generateRecommendations(analysis),
+        promptVersions: toVersionRefs([systemPrompt, prompt, instructions]),
+        citations: checked.citations
       };
 
     } catch (error) {
@@ -300,6 +428,69 @@ Generate a helpful, personalized response that moves the conversation forward ap
     }
   }
 
+  /**
+   * Build the response prompt from knowledge, analysis and conversation context
+   */
+  private buildDomainResponsePrompt(
+    userMessage: string,
+    knowledge: any,
+    analysis: AIAnalysis,
+    context: QueryContext,
+    window: ConversationWindow,
+    responseInstructions: string,
+    companyConfig?: CompanyConfig
+  ): RenderedPrompt {
+    const messageCount = Math.floor(window.totalTurns / 2);
+    const recentTurns = window.turns.map(msg => `${msg.role}: ${msg.content}`).join('\n');
+
+    // Older turns arrive summarized, pinned customer facts are always included
+    const contextSummary = window.totalTurns > 0 
+      ? `Previous conversation (${messageCount} exchanges):
+${[this.contextManager.formatContext(window), recentTurns].filter(Boolean).join('\n\n')}`
+      : 'First interaction - establish rapport and understand needs';
+    
+    return this.promptRegistry.render('agent.response', {
+      domain: this.domainConfig.domain,
+      stage: this.currentState,
+      knowledge: knowledge.context,
+      message: userMessage,
+      intent: analysis.primaryIntent,
+      interestLabel: this.domainConfig.domain === 'insurance' ? 'Insurance' : 'Product',
+      interest: analysis.insuranceType || analysis.entityType || 'unknown',
+      urgency: analysis.urgencyLevel,
+      budgetSignals: analysis.budgetSignals?.join(', '),
+      emotionalState: analysis.emotionalState,
+      leadReadiness: analysis.leadReadiness,
+      leadSource: context.leadSource || 'unknown',
+      conversationSummary: contextSummary,
+      responseInstructions
+    }, companyConfig);
+  }
+
+  /**
+   * The domain's system prompt and response instructions for this wrapper's company
+   */
+  private renderDomainPrompts(companyConfig?: CompanyConfig): [RenderedPrompt, RenderedPrompt] {
+    const variables = { stage: this.currentState };
+
+    return [
+      this.promptRegistry.render(`${this.domainConfig.domain}.system`, variables, companyConfig),
+      this.promptRegistry.render(`${this.domainConfig.domain}.response_instructions`, variables, companyConfig)
+    ];
+  }
+
+  /**
+   * Company config for prompt overrides and variables
+   */
+  private async getCompanyConfig(): Promise<CompanyConfig | undefined> {
+    try {
+      return await CompanyManager.getInstance().getCompanyConfig(this.companyId);
+    } catch (error) {
+      console.warn(`⚠️  No company config for ${this.companyId}, using default prompts:`, (error as Error).message);
+      return undefined;
+    }
+  }
+
   /**
    * Calculate lead score using domain configuration
    */
@@ -330,7 +521,7 @@ Generate a helpful, personalized response that moves the conversation forward ap
     });
 
     // Boost for conversation engagement
-    const messageCount = Math.floor(conversationHistory.length / 2);
+    const messageCount = this.getExchangeCount(userId);
     if (messageCount > 2) score += 5;
     if (messageCount > 5) score += 10;
 
@@ -349,23 +540,6 @@ Generate a helpful, personalized response that moves the conversation forward ap
 
   // Helper methods (keeping your existing logic)
   
-  private determineBusinessLogicType(message: string, analysis: AIAnalysis): string {
-    if (this.domainConfig.domain === 'insurance') {
-      return 'premium_calculation';
-    }
-    return 'default_calculation';
-  }
-
-  private extractBusinessLogicParams(message: string, analysis: AIAnalysis, context: QueryContext): any {
-    // Extract relevant parameters for business logic
-    return {
-      insuranceType: analysis.insuranceType || 'auto',
-      age: context.age || 30,
-      urgency: analysis.urgencyLevel,
-      budget: context.budget
-    };
-  }
-
   private extractCustomerInfo(conversationHistory: ConversationMessage[]): any {
     // Extract customer information from conversation history
     return {
@@ -379,11 +553,12 @@ Generate a helpful, personalized response that moves the conversation forward ap
     businessResult: any,
     analysis: AIAnalysis,
     userId: string
-  ): Promise<{ message: string; recommendations?: any[] }> {
-    
+  ): Promise<{ message: string; recommendations?: any[]; promptVersions?: PromptVersionRef[] }> {
+    const companyConfig = await this.getCompanyConfig();
+    const [systemPrompt, instructions] = this.renderDomainPrompts(companyConfig);
     const conversationHistory = this.getConversationHistory(userId);
     const customerContext = conversationHistory.length > 0 
-      ? `Previous conversation context: Customer has been engaged for ${Math.floor(conversationHistory.length / 2)} exchanges`
+      ? `Previous conversation context: Customer has been engaged for ${this.getExchangeCount(userId)} exchanges`
       : 'First interaction with customer';
 
     const prompt = `
@@ -404,7 +579,7 @@ CONVERSATION CONTEXT:
 ${customerContext}
 
 DOMAIN-SPECIFIC GUIDELINES:
-${this.domainConfig.responseInstructions}
+${instructions.content}
 
 Create a friendly, professional response that:
 1. Acknowledges their specific request
@@ -428,30 +603,32 @@ Generate a response that moves the customer closer to a purchase decision.
 `;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: process.env.MODEL_NAME || 'gpt-4',
-        messages: [
-          { 
-            role: 'system', 
-            content: this.domainConfig.systemPrompt 
-          },
-          { 
-            role: 'user', 
-            content: prompt 
-          }
-        ],
+      const response = await this.llmManager.generateCompletion([
+        {
+          role: 'system',
+          content: systemPrompt.content
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ], {
         temperature: 0.7,
-        max_tokens: 500
+        maxTokens: 500,
+        companyConfig,
+        priority: 'interactive',
+        usage: this.getUsageTags(userId, 'business_logic_response')
       });
 
-      const message = response.choices[0].message.content || this.generateFallbackBusinessResponse(businessResult);
+      const message = response.content || this.generateFallbackBusinessResponse(businessResult);
 
       // Generate recommendations based on the business result
       const recommendations = this.generateBusinessRecommendations(businessResult, analysis);
 
       return {
         message,
-        recommendations
+        recommendations,
+        promptVersions: toVersionRefs([systemPrompt, instructions])
       };
 
     } catch (error) {
@@ -559,18 +736,49 @@ Generate a response that moves the customer closer to a purchase decision.
     };
   }
 
+  // Usage ledger tags - this wrapper serves the web chat routes
+  private getUsageTags(userId?: string, operation?: string): UsageTags {
+    return {
+      companyId: this.companyId,
+      userId,
+      platform: 'webchat',
+      operation
+    };
+  }
+
   // Keep your existing helper methods
+  // Recent turns only - older ones are folded into the context manager's running summary
   private getConversationHistory(userId: string): ConversationMessage[] {
-    return this.conversationHistory.get(userId) || [];
+    return this.contextManager.getTurns(this.getConversationKey(userId));
+  }
+
+  private getExchangeCount(userId: string): number {
+    return Math.floor(this.contextManager.getTotalTurns(this.getConversationKey(userId)) / 2);
   }
 
   private updateConversationHistory(userId: string, userMessage: string, assistantMessage: string): void {
-    const history = this.getConversationHistory(userId);
-    history.push(
-      { role: 'user', content: userMessage, timestamp: new Date() },
-      { role: 'assistant', content: assistantMessage, timestamp: new Date() }
-    );
-    this.conversationHistory.set(userId, history);
+    this.contextManager.addTurns(this.getConversationKey(userId), [
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: assistantMessage }
+    ], {
+      usage: this.getUsageTags(userId, 'context_summary')
+    });
+  }
+
+  // Wrappers for different domains share the context manager, so the domain is part of the key
+  private getConversationKey(userId: string): string {
+    return `${this.domainConfig.domain}_${this.companyId}_${userId}`;
+  }
+
+  private buildRefusal(verdict: GuardVerdict): GenericAIResponse {
+    return {
+      message: verdict.refusalMessage!,
+      confidence: 1,
+      recommendations: [],
+      usedKnowledge: {},
+      nextState: this.currentState,
+      guard: this.messageGuard.summarize(verdict)
+    };
   }
 
   private handleError(error: any, userMessage: string, userId: string): GenericAIResponse {
@@ -587,7 +795,7 @@ Generate a response that moves the customer closer to a purchase decision.
   getConversationContext(userId: string): any {
     const history = this.getConversationHistory(userId);
     return {
-      messageCount: history.length,
+      messageCount: this.contextManager.getTotalTurns(this.getConversationKey(userId)),
       lastActivity: history.length > 0 ? history[history.length - 1].timestamp : null,
       conversationStage: this.currentState,
       domain: this.domainConfig.domain
@@ -3,6 +3,13 @@
 
 import { DomainConfig } from '../types/domain';
 import OpenAI from 'openai';
+import { LLMManager } from '../core/llm/managers/LLMManager';
+import { RequestPriority } from '../core/llm/managers/RequestScheduler';
+import { EmbeddingCache, embeddingNamespace } from '../core/llm/managers/EmbeddingCache';
+import { Bm25Index } from '../core/vector/utils/Bm25Index';
+import { reciprocalRankFusion, resolveHybridSearchConfig } from '../core/vector/utils/rankFusion';
+import { RerankerManager } from '../core/rerank/managers/RerankerManager';
+import { SourceCitation, formatSource, toSourceCitations } from '../core/citations/sourceCitations';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -27,6 +34,24 @@ export interface GenericRAGQueryResult {
   confidence: number;
   metadata: any;
   domainSpecific?: any;
+  ranking?: GenericRAGRanking;
+  sources: SourceCitation[];      // The documents as labelled in `context`, for citing in replies
+}
+
+// How the returned documents were ranked, for debugging retrieval
+export interface GenericRAGRanking {
+  reranker: string | null;        // null when reranking is off or failed
+  candidates: number;             // Documents rescored to pick the returned ones
+  scores: GenericRAGDocumentScore[];
+}
+
+export interface GenericRAGDocumentScore {
+  id: string;
+  originalScore: number;          // Retrieval score: fused vector + keyword rank, or the similarity alone
+  rerankedScore?: number;
+  vectorScore: number;
+  keywordScore?: number;
+  reason?: string;
 }
 
 interface VectorDocument {
@@ -36,19 +61,37 @@ interface VectorDocument {
   metadata: any;
 }
 
+interface RetrievedDocument {
+  document: VectorDocument;
+  similarity: number;
+  score: number;
+  keywordScore?: number;
+  rerankedScore?: number;
+  reason?: string;
+}
+
+// The parts of a domain config retrieval uses
+export interface RAGDomainConfig {
+  domain: string;
+  ragConfig?: Partial<DomainConfig['ragConfig']>;
+}
+
 export class GenericRAGService {
   private openai: OpenAI;
-  private domainConfig: DomainConfig;
+  private llmManager: LLMManager;
+  private domainConfig: RAGDomainConfig;
   private documents: VectorDocument[] = [];
+  private keywordIndex: Bm25Index = new Bm25Index();
   private initialized: boolean = false;
   private knowledgeCache: Map<string, GenericRAGQueryResult> = new Map();
   private dataPath: string;
 
-  constructor(domainConfig: DomainConfig) {
+  constructor(domainConfig: RAGDomainConfig) {
     this.domainConfig = domainConfig;
     this.openai = new OpenAI({
       apiKey: process.env.OPENAI_API_KEY || ''
     });
+    this.llmManager = LLMManager.getInstance();
     this.dataPath = path.join(process.cwd(), 'data', `${domainConfig.domain}-knowledge.json`);
   }
 
@@ -101,7 +144,8 @@ export class GenericRAGService {
       
       // Apply domain-specific filtering and ranking
       const filteredResults = this.applyDomainFiltering(similarities, context);
-      const topResults = filteredResults.slice(0, 8).filter(result => result.similarity > 0.4);
+      const candidates = this.fuseKeywordMatches(question, filteredResults);
+      const { results: topResults, ranking } = await this.rerankResults(question, candidates, context);
 
       // Convert to GenericRAGDocument format
       const relevantDocs: GenericRAGDocument[] = topResults.map(result => ({
@@ -110,15 +154,22 @@ export class GenericRAGService {
         metadata: result.document.metadata
       }));
 
+      const sources = toSourceCitations(topResults.map(result => ({
+        ...result.document,
+        score: result.rerankedScore ?? result.score
+      })));
+
       // Detect domain-specific functionality
       const domainSpecific = this.detectDomainSpecificNeeds(question, relevantDocs, context);
 
       const result: GenericRAGQueryResult = {
         documents: relevantDocs,
-        context: this.buildDomainResponseContext(relevantDocs),
+        context: this.buildDomainResponseContext(relevantDocs, sources),
         confidence: this.calculateDomainConfidence(relevantDocs, question, context),
         metadata: this.extractDomainMetadata(relevantDocs),
-        domainSpecific
+        domainSpecific,
+        ranking,
+        sources
       };
 
       // Cache result
@@ -208,9 +259,100 @@ export class GenericRAGService {
   }
 
   /**
-   * Build domain-specific response context
+   * Merge the vector ranking with BM25 matches on the question's own words (reciprocal rank
+   * fusion, weighted by ragConfig.hybridSearch), so exact terms like "Tier 2" or a vintage
+   * surface even when their similarity misses the cut
    */
-  private buildDomainResponseContext(documents: GenericRAGDocument[]): string {
+  private fuseKeywordMatches(question: string, results: any[]): RetrievedDocument[] {
+    const relevant = results.filter(result => result.similarity > 0.4);
+    const hybrid = resolveHybridSearchConfig(this.domainConfig.ragConfig?.hybridSearch);
+    if (!hybrid.enabled || hybrid.keywordWeight <= 0) {
+      return relevant.map(result => ({ ...result, score: result.similarity }));
+    }
+
+    const candidates = 8 * hybrid.candidateMultiplier;
+    const resultById = new Map(results.map(result => [result.document.id, result]));
+    const keywordHits = this.keywordIndex.search(question, candidates, id => resultById.has(id));
+
+    const fused = reciprocalRankFusion([
+      { ids: relevant.slice(0, candidates).map(result => result.document.id), weight: hybrid.vectorWeight },
+      { ids: keywordHits.map(hit => hit.id), weight: hybrid.keywordWeight }
+    ], hybrid.rrfK);
+
+    const keywordScores = new Map(keywordHits.map(hit => [hit.id, hit.score]));
+    return Array.from(fused)
+      .sort((a, b) => b[1] - a[1])
+      .map(([id, score]) => ({
+        ...resultById.get(id),
+        score,
+        ...(keywordScores.has(id) && { keywordScore: keywordScores.get(id) })
+      }));
+  }
+
+  /**
+   * Rescore the best candidates with the domain's reranker (ragConfig.reranker) and keep the
+   * top 8. A failing reranker leaves the retrieval order in place.
+   */
+  private async rerankResults(
+    question: string,
+    candidates: RetrievedDocument[],
+    context: any
+  ): Promise<{ results: RetrievedDocument[]; ranking: GenericRAGRanking }> {
+    const config = RerankerManager.getInstance().resolveConfig(this.domainConfig.ragConfig?.reranker);
+    let results = candidates.slice(0, 8);
+    let reranker: string | null = null;
+    let rescored = 0;
+
+    if (config.enabled && candidates.length > 1) {
+      const pool = candidates.slice(0, Math.max(8, config.candidates));
+      try {
+        const reranked = await RerankerManager.getInstance().get(config.type).rerank(
+          question,
+          pool.map(candidate => ({
+            id: candidate.document.id,
+            content: candidate.document.content,
+            score: candidate.score,
+            metadata: candidate.document.metadata
+          })),
+          { companyConfig: context.companyConfig, usage: { companyId: context.companyId, operation: 'rerank' } }
+        );
+
+        const byId = new Map(pool.map(candidate => [candidate.document.id, candidate]));
+        results = reranked.slice(0, 8).map(result => ({
+          ...byId.get(result.id)!,
+          rerankedScore: result.score,
+          ...(result.reason && { reason: result.reason })
+        }));
+        reranker = config.type;
+        rescored = pool.length;
+      } catch (error) {
+        console.warn(`⚠️  ${config.type} reranker failed, keeping retrieval order:`, (error as Error).message);
+      }
+    }
+
+    return {
+      results,
+      ranking: {
+        reranker,
+        candidates: rescored,
+        scores: results.map(result => ({
+          id: result.document.id,
+          originalScore: result.score,
+          ...(result.rerankedScore !== undefined && { rerankedScore: result.rerankedScore }),
+          vectorScore: result.similarity,
+          ...(result.keywordScore !== undefined && { keywordScore: result.keywordScore }),
+          ...(result.reason && { reason: result.reason })
+        }))
+      }
+    };
+  }
+
+  /**
+   * Build domain-specific response context. Each document is headed by its source label.
+   */
+  private buildDomainResponseContext(documents: GenericRAGDocument[], sources: SourceCitation[]): string {
+    const labelled = new Map(documents.map((doc, i) => [doc, formatSource(sources[i], doc.content)]));
+
     // Group documents by type for better organization
     const docsByType = documents.reduce((acc, doc) => {
       if (!acc[doc.metadata.type]) acc[doc.metadata.type] = [];
@@ -226,7 +368,7 @@ export class GenericRAGService {
     priorityTypes.forEach(type => {
       if (docsByType[type]) {
         context += `=== ${type.toUpperCase().replace('_', ' ')} ===\n`;
-        context += docsByType[type].map(doc => doc.content).join('\n\n');
+        context += docsByType[type].map(doc => labelled.get(doc)).join('\n\n');
         context += '\n\n';
         delete docsByType[type]; // Remove to avoid duplication
       }
@@ -235,7 +377,7 @@ export class GenericRAGService {
     // Add remaining document types
     Object.entries(docsByType).forEach(([type, docs]) => {
       context += `=== ${type.toUpperCase().replace('_', ' ')} ===\n`;
-      context += docs.map(doc => doc.content).join('\n\n');
+      context += docs.map(doc => labelled.get(doc)).join('\n\n');
       context += '\n\n';
     });
 
@@ -418,12 +560,32 @@ export class GenericRAGService {
    * Generate embedding for text
    */
   private async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text], 'interactive');
+    return embedding;
+  }
+
+  /**
+   * Embed texts in batches; texts already in the shared embedding cache are not sent again
+   */
+  private async generateEmbeddings(texts: string[], priority: RequestPriority = 'batch'): Promise<number[][]> {
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: text
+      // Use the shared embedding provider once the LLM manager has one (this is also how mock mode runs offline)
+      if (this.llmManager.hasEmbeddingProvider()) {
+        const response = await this.llmManager.generateEmbeddings(texts, { priority });
+        return response.embeddings;
+      }
+
+      const namespace = embeddingNamespace('openai', { model: 'text-embedding-ada-002', dimensions: 1536 });
+      const { embeddings } = await EmbeddingCache.getInstance().getOrEmbed(namespace, texts, async missing => {
+        const response = await this.openai.embeddings.create({
+          model: 'text-embedding-ada-002',
+          input: missing
+        });
+        return [...response.data]
+          .sort((a, b) => a.index - b.index)
+          .map(item => ({ embedding: item.embedding, model: response.model }));
       });
-      return response.data[0].embedding;
+      return embeddings.map(entry => entry.embedding);
     } catch (error) {
       console.error('❌ Failed to generate embedding:', error);
       throw error;
@@ -450,6 +612,8 @@ export class GenericRAGService {
       
       if (parsed.domain === this.domainConfig.domain) {
         this.documents = parsed.documents || [];
+        this.keywordIndex.clear();
+        this.documents.forEach(document => this.keywordIndex.add(document.id, document.content));
         console.log(`📚 Loaded ${this.documents.length} documents from existing knowledge base`);
       } else {
         throw new Error('Domain mismatch in knowledge base file');
@@ -480,9 +644,7 @@ export class GenericRAGService {
       }
 
       // Generate embeddings for all documents
-      for (const doc of defaultKnowledge) {
-        await this.addDocument(doc);
-      }
+      await this.indexDocuments(defaultKnowledge);
 
       console.log(`✅ Loaded ${defaultKnowledge.length} default documents for ${this.domainConfig.domain}`);
     } catch (error) {
@@ -530,26 +692,37 @@ export class GenericRAGService {
    */
   async addDocument(document: GenericRAGDocument): Promise<void> {
     if (!this.initialized) await this.initialize();
-    
-    const embedding = await this.generateEmbedding(document.content);
-    
-    const vectorDoc: VectorDocument = {
-      id: document.id,
-      content: document.content,
-      embedding,
-      metadata: document.metadata
-    };
-    
-    // Remove existing document with same ID
-    this.documents = this.documents.filter(d => d.id !== document.id);
-    
-    // Add new document
-    this.documents.push(vectorDoc);
+
+    await this.indexDocuments([document]);
+  }
+
+  /**
+   * Embed and store documents with one batched embedding request
+   * (also used while loading default knowledge, before initialization completes)
+   */
+  private async indexDocuments(documents: GenericRAGDocument[]): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    const embeddings = await this.generateEmbeddings(documents.map(document => document.content));
+    const ids = new Set(documents.map(document => document.id));
+
+    // Replace existing documents with the same ID
+    this.documents = this.documents.filter(d => !ids.has(d.id));
+    documents.forEach((document, i) => {
+      this.documents.push({
+        id: document.id,
+        content: document.content,
+        embedding: embeddings[i],
+        metadata: document.metadata
+      });
+      this.keywordIndex.add(document.id, document.content);
+      console.log(`📄 Added/updated document: ${document.id}`);
+    });
     
     // Clear cache
     this.knowledgeCache.clear();
-    
-    console.log(`📄 Added/updated document: ${document.id}`);
   }
 
   /**
@@ -558,9 +731,7 @@ export class GenericRAGService {
   async updateKnowledge(newKnowledge: GenericRAGDocument[]): Promise<void> {
     if (!this.initialized) await this.initialize();
     
-    for (const doc of newKnowledge) {
-      await this.addDocument(doc);
-    }
+    await this.indexDocuments(newKnowledge);
     
     // Save to file
     await this.saveToFile();
@@ -17,6 +17,11 @@ export interface CompanyConfig {
   // AI Configuration
   preferredLLMProvider?: 'openai' | 'claude' | 'local_llama' | 'deepseek';
   llmPriority: 'cost' | 'speed' | 'quality';
+  usageBudget?: CompanyUsageBudget;
+  promptOverrides?: Record<string, CompanyPromptOverride>;  // Keyed by prompt template name
+  llmCredentials?: CompanyLLMCredentials;  // Company's own provider keys / models instead of the platform defaults
+  messageGuard?: CompanyMessageGuardPolicy;  // What to do with prompt injection / price change attempts
+  shadowTraffic?: CompanyShadowTrafficPolicy;  // Mirror live requests to a candidate provider for comparison
   
   // Vector Store Configuration
   vectorStoreConfig: {
@@ -118,6 +123,47 @@ export interface CompanyConfig {
   updatedAt: string;
 }
 
+// Monthly LLM spend limits, in USD (provider costs are quoted in USD)
+export interface CompanyUsageBudget {
+  monthlyLimit: number;
+  softLimitPercent?: number;  // Alert threshold as a percentage of monthlyLimit (default 80)
+  downgradeProvider?: 'openai' | 'claude' | 'local_llama' | 'deepseek';  // Used once the hard limit is hit (default: cheapest available)
+}
+
+// Per-company prompt: pin a registry version, or supply the company's own template text
+export interface CompanyPromptOverride {
+  version?: number;   // Registry version to use (or the label of the company's own template)
+  template?: string;  // Replaces the registry template; supports the same {{variables}}
+}
+
+// A company's own settings for one LLM provider; unset fields fall back to the platform configuration
+export interface CompanyLLMProviderSettings {
+  apiKey?: string;   // Encrypted (enc:v1:...) - see core/llm/utils/credentialCrypto
+  model?: string;
+  baseURL?: string;
+  requestsPerMinute?: number;  // The limits of the company's own key tier
+  tokensPerMinute?: number;
+}
+
+// How inbound messages flagged by the MessageGuard are handled
+export interface CompanyMessageGuardPolicy {
+  enabled?: boolean;                                   // Default true
+  onInjection?: 'log' | 'sanitize' | 'refuse';         // Default 'sanitize' - quote the text and carry on
+  onPolicyChange?: 'log' | 'flag' | 'refuse';          // Requests to change prices or policy terms (default 'flag' - answer without agreeing)
+  classifier?: 'off' | 'suspicious' | 'always';        // LLM classifier: never, when heuristics are unsure, or every message (default 'off')
+  threshold?: number;                                  // Score (0-1) at which a message is flagged (default 0.6)
+  refusalMessage?: string;                             // Replaces the built-in refusal
+}
+
+// Mirror a share of live requests to a candidate provider; customers only ever get the primary answer
+export interface CompanyShadowTrafficPolicy {
+  enabled?: boolean;                                          // Default true
+  provider: 'openai' | 'claude' | 'local_llama' | 'deepseek';  // The candidate being evaluated
+  percentage: number;                                         // Share of requests to mirror (0-100)
+}
+
+export type CompanyLLMCredentials = Partial<Record<'openai' | 'claude' | 'local_llama' | 'deepseek', CompanyLLMProviderSettings>>;
+
 export interface PremiumBaseRate {
   baseAmount: number;
   currency: string;
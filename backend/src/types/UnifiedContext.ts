@@ -1,6 +1,8 @@
 // File: backend/src/types/UnifiedContext.ts
 // Consolidated context types to eliminate conflicts
 
+import { LLMImagePart } from '../core/llm/interfaces/LLMProvider';
+
 export interface UnifiedQueryContext {
   // Company Context (NEW)
   companyId?: string;
@@ -16,6 +18,7 @@ export interface UnifiedQueryContext {
   platform?: 'whatsapp' | 'instagram' | 'facebook' | 'telegram' | 'webchat' | 'api';
   messageId?: string;
   messageType?: string;
+  images?: LLMImagePart[];  // Photos sent with the message, downloaded from the platform
   
   // Conversation Context
   conversationStage?: 'greeting' | 'information_gathering' | 'quote_request' | 'comparison' | 'ready_to_buy' | 'support_needed';
@@ -106,6 +109,14 @@ export class ContextBuilder {
     return this;
   }
 
+  // Attached photos
+  withImages(images: LLMImagePart[]): ContextBuilder {
+    if (images.length > 0) {
+      this.context.images = images;
+    }
+    return this;
+  }
+
   // Metadata
   withMetadata(metadata: Record<string, any>): ContextBuilder {
     this.context.metadata = { ...(this.context.metadata || {}), ...metadata };
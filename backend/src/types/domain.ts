@@ -22,6 +22,8 @@ export interface DomainConfig {
   // Business logic configuration
   businessLogicTriggers: string[];
   businessLogicHandlers: Record<string, (params: any, queryParams: any, dbAdapter: any) => Promise<any>>;
+  // Tool schemas the model sees for each handler (keyed by handler name)
+  businessLogicTools?: Record<string, BusinessLogicToolSchema>;
   
   // Lead scoring configuration
   leadScoringWeights: Record<string, number>;
@@ -38,6 +40,35 @@ export interface DomainConfig {
     knowledgeCategories: string[];
     embeddingStrategy: string;
     contextBuilding: string;
+    hybridSearch?: HybridSearchConfig;
+    reranker?: RerankerConfig;
+  };
+}
+
+// Keyword (BM25) and vector results merged by reciprocal rank fusion
+export interface HybridSearchConfig {
+  enabled?: boolean;
+  vectorWeight?: number;          // Weight of the embedding ranking (default 1)
+  keywordWeight?: number;         // Weight of the BM25 ranking (default 1); raise it for codes and product names
+  rrfK?: number;                  // Rank damping constant (default 60)
+  candidateMultiplier?: number;   // Each list is fetched at topK x this before fusing (default 4)
+}
+
+// Second-stage rescoring of an over-fetched candidate set
+export interface RerankerConfig {
+  enabled?: boolean;
+  type?: string;                  // 'lexical' (default), 'llm' or a reranker registered with RerankerManager
+  candidates?: number;            // Candidates rescored before the top results are kept (default 20)
+}
+
+export interface BusinessLogicToolSchema {
+  description: string;
+  // JSON schema for the handler's queryParams
+  parameters: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+    additionalProperties?: boolean;
   };
 }
 
@@ -102,6 +133,20 @@ Focus on:
       };
     }
   },
+  businessLogicTools: {
+    'premium_calculation': {
+      description: 'Calculate an insurance premium quote for the customer',
+      parameters: {
+        type: 'object',
+        properties: {
+          insuranceType: { type: 'string', enum: ['auto', 'health', 'life', 'business', 'home'] },
+          age: { type: 'number', description: 'Age of the person to be insured' },
+          coverageAmount: { type: 'number', description: 'Requested coverage amount' }
+        },
+        required: ['insuranceType']
+      }
+    }
+  },
   
   leadScoringWeights: {
     'urgent_need': 15,
@@ -213,6 +258,31 @@ Focus on:
       };
     }
   },
+  businessLogicTools: {
+    'product_recommendation': {
+      description: 'Find products that match the customer\'s category, budget and required features',
+      parameters: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: ['smartphones', 'laptops', 'tablets', 'accessories', 'gaming', 'audio'] },
+          budget: { type: 'number', description: 'Maximum price the customer wants to pay' },
+          required_features: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['category']
+      }
+    },
+    'compatibility_check': {
+      description: 'Check whether a device is compatible with an accessory or another device',
+      parameters: {
+        type: 'object',
+        properties: {
+          product: { type: 'string', description: 'Device the customer owns or is buying' },
+          accessory: { type: 'string', description: 'Accessory or device to check against' }
+        },
+        required: ['product']
+      }
+    }
+  },
   
   leadScoringWeights: {
     'specific_model_interest': 20,
@@ -327,6 +397,30 @@ Focus on:
       };
     }
   },
+  businessLogicTools: {
+    'style_recommendation': {
+      description: 'Put together outfit recommendations for an occasion and style',
+      parameters: {
+        type: 'object',
+        properties: {
+          occasion: { type: 'string', description: 'e.g. work, wedding, party, casual' },
+          style: { type: 'string', description: 'Preferred style such as casual, formal or trendy' },
+          colors: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    },
+    'size_consultation': {
+      description: 'Recommend a clothing size from the customer\'s measurements or usual size',
+      parameters: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: ['dresses', 'tops', 'bottoms', 'shoes', 'accessories', 'outerwear'] },
+          usualSize: { type: 'string' },
+          measurements: { type: 'string', description: 'Measurements as given by the customer' }
+        }
+      }
+    }
+  },
   
   leadScoringWeights: {
     'specific_item_interest': 15,
@@ -0,0 +1,89 @@
+// File: backend/src/utils/media.ts
+
+import { LLMImagePart } from '../core/llm/interfaces/LLMProvider';
+
+// Formats every vision-capable provider accepts
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// Anthropic rejects images over 5MB; WhatsApp allows 5MB photos too
+export const MAX_IMAGE_BYTES = parseInt(process.env.MAX_IMAGE_BYTES || '') || 5 * 1024 * 1024;
+
+export class MediaDownloadError extends Error {
+  public status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'MediaDownloadError';
+    this.status = status;
+  }
+}
+
+/**
+ * Download an image from a platform CDN into a base64 image part for the LLM.
+ * Rejects unsupported types, and stops reading anything over MAX_IMAGE_BYTES once it passes the limit.
+ */
+export async function downloadImage(
+  url: string,
+  options: { headers?: Record<string, string>; mimeType?: string; timeoutMs?: number } = {}
+): Promise<LLMImagePart> {
+  const response = await fetch(url, {
+    headers: options.headers,
+    signal: AbortSignal.timeout(options.timeoutMs || 15000)
+  });
+
+  if (!response.ok) {
+    throw new MediaDownloadError(`Media download failed: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  // The platform's declared type wins - CDNs often answer with application/octet-stream
+  const mimeType = (options.mimeType || response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  if (!SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
+    throw new MediaDownloadError(`Unsupported image type "${mimeType || 'unknown'}"`);
+  }
+
+  const declaredLength = parseInt(response.headers.get('content-length') || '0');
+  if (declaredLength > MAX_IMAGE_BYTES) {
+    throw new MediaDownloadError(`Image is ${declaredLength} bytes, over the ${MAX_IMAGE_BYTES} byte limit`);
+  }
+
+  const data = await readWithLimit(response, MAX_IMAGE_BYTES);
+  return { mimeType, data: data.toString('base64') };
+}
+
+/**
+ * Read a response body chunk by chunk and stop as soon as it passes the limit, so a body
+ * sent without a content-length (chunked) is never buffered past it
+ */
+async function readWithLimit(response: Response, limit: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+
+      received += value.length;
+      if (received > limit) {
+        throw new MediaDownloadError(`Image is over the ${limit} byte limit`);
+      }
+      chunks.push(value);
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+
+  return Buffer.concat(chunks);
+}
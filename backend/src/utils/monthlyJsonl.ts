@@ -0,0 +1,92 @@
+// File: backend/src/utils/monthlyJsonl.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface MonthlyJsonlOptions {
+  dataDir: string;
+  filePrefix: string;   // Files are named `${filePrefix}_${month}.jsonl`
+  persist: boolean;     // When false entries are only kept in memory
+  label: string;        // What the entries are, for error logs ("usage record")
+}
+
+const MONTH_KEY_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * "2025-03" - the month an entry is filed under
+ */
+export function monthKey(date: Date): string {
+  return date.toISOString().substring(0, 7);
+}
+
+export function isMonthKey(value: unknown): value is string {
+  return typeof value === 'string' && MONTH_KEY_PATTERN.test(value);
+}
+
+/**
+ * Append-only log with one JSONL file per month. A month is read from disk the first
+ * time it is asked for and kept in memory after that; appends update both.
+ */
+export class MonthlyJsonlStore<T> {
+  private months: Map<string, T[]> = new Map();  // month -> entries
+
+  constructor(private readonly options: MonthlyJsonlOptions) {}
+
+  /**
+   * Months become file names, so anything but YYYY-MM is rejected before it reaches the disk
+   */
+  getMonth(month: string): T[] {
+    if (!isMonthKey(month)) {
+      throw new Error(`Invalid month "${month}" - expected YYYY-MM`);
+    }
+
+    let entries = this.months.get(month);
+
+    if (!entries) {
+      entries = this.loadMonth(month);
+      this.months.set(month, entries);
+    }
+
+    return entries;
+  }
+
+  append(month: string, entry: T): void {
+    this.getMonth(month).push(entry);
+    this.appendToFile(month, entry);
+  }
+
+  private loadMonth(month: string): T[] {
+    if (!this.options.persist) {
+      return [];
+    }
+
+    const filePath = this.getMonthFile(month);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    try {
+      return fs.readFileSync(filePath, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line));
+    } catch (error) {
+      console.error(`❌ Failed to load ${this.options.label}s for ${month}:`, error);
+      return [];
+    }
+  }
+
+  private appendToFile(month: string, entry: T): void {
+    if (!this.options.persist) {
+      return;
+    }
+
+    fs.promises.mkdir(this.options.dataDir, { recursive: true })
+      .then(() => fs.promises.appendFile(this.getMonthFile(month), JSON.stringify(entry) + '\n'))
+      .catch(error => console.error(`❌ Failed to persist ${this.options.label}:`, error));
+  }
+
+  private getMonthFile(month: string): string {
+    return path.join(this.options.dataDir, `${this.options.filePrefix}_${month}.jsonl`);
+  }
+}
@@ -0,0 +1,64 @@
+// File: backend/src/utils/sse.ts
+
+import { Response } from 'express';
+import { GenericAIResponse, GenericAIStreamEvent } from '../services/GenericAIServiceWrapper';
+
+/**
+ * Switch a response into server-sent events mode
+ */
+export function initSSE(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+}
+
+export function sendSSEEvent(res: Response, event: string, data: any): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Relay a chat stream to the client as SSE.
+ * Emits `token` events with text deltas, then a single `done` event carrying the same
+ * payload the JSON /message route returns, or an `error` event if the stream fails.
+ */
+export async function streamChatResponse(
+  res: Response,
+  stream: AsyncGenerator<GenericAIStreamEvent>,
+  formatResponse: (response: GenericAIResponse) => any
+): Promise<void> {
+  initSSE(res);
+
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = true;
+  });
+
+  try {
+    for await (const event of stream) {
+      // Leaving the loop stops the upstream provider stream too
+      if (clientClosed) {
+        break;
+      }
+
+      if (event.type === 'token') {
+        sendSSEEvent(res, 'token', { content: event.content });
+      } else {
+        sendSSEEvent(res, 'done', formatResponse(event.response));
+      }
+    }
+  } catch (error) {
+    console.error('Chat stream error:', error);
+    if (!clientClosed) {
+      sendSSEEvent(res, 'error', {
+        success: false,
+        error: 'Failed to process message',
+        message: 'I apologize, but I\'m experiencing technical difficulties. Please try again in a moment.'
+      });
+    }
+  } finally {
+    res.end();
+  }
+}
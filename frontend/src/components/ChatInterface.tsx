@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, User, MessageCircle } from 'lucide-react';
-import { chatAPI } from '../services/api';
+import { chatAPI, StreamConnectionError } from '../services/api';
 
 interface Message {
   id: string;
@@ -27,6 +27,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId, onLeadCapture })
   ]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [failedMessage, setFailedMessage] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -84,7 +85,36 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId, onLeadCapture })
     try {
       console.log('🚀 Sending message to API:', currentInputMessage);
       
-      const response = await chatAPI.sendMessage(currentInputMessage, userId);
+      const aiMessageId = (Date.now() + 1).toString();
+      let streamedText = '';
+
+      // Insert the AI message on the first token, then keep updating it in place
+      const upsertAiMessage = (aiMessage: Message) => {
+        setMessages(prev => prev.some(m => m.id === aiMessageId)
+          ? prev.map(m => (m.id === aiMessageId ? aiMessage : m))
+          : [...prev, aiMessage]);
+      };
+
+      let response;
+      try {
+        response = await chatAPI.streamMessage(currentInputMessage, userId, (token) => {
+          streamedText += token;
+          setStreamingMessageId(aiMessageId);
+          upsertAiMessage({
+            id: aiMessageId,
+            text: streamedText,
+            sender: 'ai',
+            timestamp: new Date()
+          });
+        });
+      } catch (streamError) {
+        // Once the request reached the server it may already have been answered and billed -
+        // report the failure instead of asking again
+        if (!(streamError instanceof StreamConnectionError)) throw streamError;
+
+        console.warn('⚠️ Streaming unavailable, falling back to standard request:', streamError);
+        response = await chatAPI.sendMessage(currentInputMessage, userId);
+      }
 
       console.log('✅ Received response from API:', response);
       console.log('✅ Full AI Response:', JSON.stringify(response, null, 2));
@@ -93,14 +123,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId, onLeadCapture })
 
       if (response.success) {
         const aiMessage: Message = {
-          id: (Date.now() + 1).toString(),
+          id: aiMessageId,
           text: response.data.response,
           sender: 'ai',
           timestamp: new Date(),
           confidence: response.data.confidence
         };
 
-        setMessages(prev => [...prev, aiMessage]);
+        upsertAiMessage(aiMessage);
 
         // SIMPLIFIED: Trust AI backend analysis over frontend keywords
         let shouldCaptureLead = false;
@@ -200,6 +230,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId, onLeadCapture })
       setMessages(prev => [...prev, errorMessageObj]);
     } finally {
       setIsLoading(false);
+      setStreamingMessageId(null);
     }
   };
 
@@ -279,7 +310,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ userId, onLeadCapture })
           </div>
         ))}
         
-        {isLoading && (
+        {isLoading && !streamingMessageId && (
           <div className="flex justify-start w-full">
             <div className="flex space-x-3 max-w-[75%]">
               <div className="flex-shrink-0 h-8 w-8 rounded-full bg-gray-300 flex items-center justify-center">
@@ -67,6 +67,15 @@ api.interceptors.response.use(
   }
 );
 
+// The stream request failed before it reached the server, so nothing was processed or
+// billed and the message can safely be sent again over the standard endpoint
+export class StreamConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamConnectionError';
+  }
+}
+
 // Enhanced Chat API with Generic Agent Support
 export const chatAPI = {
   // EXISTING: Original endpoint with your exact error handling logic
@@ -126,6 +135,101 @@ export const chatAPI = {
     }
   },
 
+  // Streaming variant of sendMessage - calls onToken for each chunk of text as it is
+  // generated and resolves with the same payload sendMessage returns
+  streamMessage: async (
+    message: string,
+    userId: string,
+    onToken: (token: string) => void,
+    context: any = {}
+  ) => {
+    const startTime = Date.now();
+    console.log(`💬 Streaming message to ORIGINAL agent for user ${userId}:`, {
+      messageLength: message.length,
+      timestamp: new Date().toISOString()
+    });
+
+    let response: Response;
+    try {
+      // POST body is needed, so EventSource can't be used here
+      response = await fetch(`${API_BASE_URL}/chat/message/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream'
+        },
+        body: JSON.stringify({ message, userId, context })
+      });
+    } catch (error) {
+      console.error('❌ Streaming API Network Error:', error);
+      throw new StreamConnectionError('Unable to connect to the server. Please check your internet connection and try again.');
+    }
+
+    if (response.status === 429) {
+      throw new Error('Too many requests. Please wait a moment before trying again.');
+    }
+    if (response.status >= 500) {
+      throw new Error('Server error occurred. Our team has been notified. Please try again in a moment.');
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Request error: ${response.statusText || 'Streaming not available'}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: any = null;
+
+    const handleEvent = (rawEvent: string) => {
+      let eventName = 'message';
+      const dataLines: string[] = [];
+
+      rawEvent.split('\n').forEach(line => {
+        if (line.startsWith('event:')) {
+          eventName = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trim());
+        }
+      });
+
+      if (dataLines.length === 0) return;
+      const data = JSON.parse(dataLines.join('\n'));
+
+      if (eventName === 'token') {
+        onToken(data.content);
+      } else if (eventName === 'done') {
+        result = data;
+      } else if (eventName === 'error') {
+        throw new Error(data.message || data.error || 'Failed to get response');
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r/g, '');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary >= 0) {
+        handleEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    if (buffer.trim()) {
+      handleEvent(buffer);
+    }
+
+    if (!result) {
+      throw new Error('The response stream ended unexpectedly. Please try again.');
+    }
+
+    console.log(`✅ Original agent stream completed in ${Date.now() - startTime}ms`);
+    return result;
+  },
+
   // NEW: Generic agent endpoint with same error handling
   sendMessageGeneric: async (message: string, userId: string, domain: string = 'insurance', context: any = {}) => {
     const startTime = Date.now();